@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCollectionRecord } from '@/lib/collection-records';
+import { getCrawl, listCrawlPages } from '@/lib/crawl-records';
+import { getCollectionRole } from '@/lib/permissions';
+import { getRequestScope } from '@/lib/scope';
+
+// GET: A crawl with its job and the pages it has ingested so far
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ name: string; id: string }> }
+) {
+  try {
+    const scope = await getRequestScope();
+    if (!scope) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { name, id } = await params;
+    const collectionName = decodeURIComponent(name);
+
+    if (!getCollectionRole(scope, collectionName) || !getCollectionRecord(scope, collectionName)) {
+      return NextResponse.json({ error: 'Collection not found' }, { status: 404 });
+    }
+
+    const crawl = getCrawl(scope, id);
+    if (!crawl || crawl.collection !== collectionName) {
+      return NextResponse.json({ error: 'Crawl not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ crawl, pages: listCrawlPages(crawl.id) });
+  } catch (error: any) {
+    console.error('Get crawl error:', error);
+    return NextResponse.json(
+      { error: 'Failed to get crawl', details: error.message },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,93 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCollectionRecord } from '@/lib/collection-records';
+import { createCrawl, getCrawl, listCrawls, setCrawlJob } from '@/lib/crawl-records';
+import { crawlWebsite } from '@/lib/crawler';
+import { parseCrawlOptions } from '@/lib/crawls';
+import { startJob } from '@/lib/job-runner';
+import { getKnowledgeStore } from '@/lib/knowledge-store';
+import { getCollectionRole } from '@/lib/permissions';
+import { hasRole } from '@/lib/roles';
+import { getRequestScope } from '@/lib/scope';
+
+// GET: The most recent crawls into the collection, newest first, with their jobs
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ name: string }> }
+) {
+  try {
+    const scope = await getRequestScope();
+    if (!scope) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { name } = await params;
+    const collectionName = decodeURIComponent(name);
+
+    if (!getCollectionRole(scope, collectionName) || !getCollectionRecord(scope, collectionName)) {
+      return NextResponse.json({ error: 'Collection not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ crawls: listCrawls(scope, collectionName) });
+  } catch (error: any) {
+    console.error('List crawls error:', error);
+    return NextResponse.json(
+      { error: 'Failed to list crawls', details: error.message },
+      { status: 500 }
+    );
+  }
+}
+
+// POST: Crawl a website into the collection, one document per page.
+// Runs as a background job; responds with 202, the crawl and the job.
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ name: string }> }
+) {
+  try {
+    const scope = await getRequestScope();
+    if (!scope) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { name } = await params;
+    const collectionName = decodeURIComponent(name);
+
+    const parsed = parseCrawlOptions(await request.json());
+    if ('error' in parsed) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+
+    const role = getCollectionRole(scope, collectionName);
+    if (!role || !getCollectionRecord(scope, collectionName)) {
+      return NextResponse.json({ error: 'Collection not found' }, { status: 404 });
+    }
+
+    if (!hasRole(role, 'editor')) {
+      return NextResponse.json(
+        { error: 'You do not have permission to add documents to this collection' },
+        { status: 403 }
+      );
+    }
+
+    const crawl = createCrawl(scope, collectionName, parsed.options);
+    const job = startJob(
+      scope,
+      'crawl',
+      collectionName,
+      parsed.options.url,
+      crawlWebsite(getKnowledgeStore(), scope, collectionName, crawl.id, parsed.options)
+    );
+    setCrawlJob(crawl.id, job.id);
+
+    return NextResponse.json(
+      { success: true, crawl: getCrawl(scope, crawl.id), job },
+      { status: 202 }
+    );
+  } catch (error: any) {
+    console.error('Start crawl error:', error);
+    return NextResponse.json(
+      { error: 'Failed to start crawl', details: error.message },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCollectionRecord } from '@/lib/collection-records';
+import { getDuplicatesReport } from '@/lib/fingerprints';
+import { getKnowledgeStore } from '@/lib/knowledge-store';
+import { getCollectionRole } from '@/lib/permissions';
+import { getRequestScope } from '@/lib/scope';
+
+// GET: Report documents in the collection that share a content hash or
+// normalized URL
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ name: string }> }
+) {
+  try {
+    const scope = await getRequestScope();
+    if (!scope) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { name } = await params;
+    const collectionName = decodeURIComponent(name);
+
+    if (!getCollectionRole(scope, collectionName) || !getCollectionRecord(scope, collectionName)) {
+      return NextResponse.json({ error: 'Collection not found' }, { status: 404 });
+    }
+
+    return NextResponse.json(
+      await getDuplicatesReport(getKnowledgeStore(), scope, collectionName)
+    );
+  } catch (error: any) {
+    console.error('Duplicates report error:', error);
+    return NextResponse.json(
+      { error: 'Failed to build duplicates report', details: error.message },
+      { status: 500 }
+    );
+  }
+}
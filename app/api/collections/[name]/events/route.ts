@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCollectionRecord } from '@/lib/collection-records';
+import { getKnowledgeStore } from '@/lib/knowledge-store';
+import { getCollectionRole } from '@/lib/permissions';
+import { getRequestScope } from '@/lib/scope';
+import { streamCollectionStatus } from '@/lib/status-stream';
+
+// GET: Stream processing status changes of the collection's documents as
+// server-sent events (`status` and `removed`)
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ name: string }> }
+) {
+  try {
+    const scope = await getRequestScope();
+    if (!scope) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { name } = await params;
+    const collectionName = decodeURIComponent(name);
+
+    if (!getCollectionRole(scope, collectionName) || !getCollectionRecord(scope, collectionName)) {
+      return NextResponse.json({ error: 'Collection not found' }, { status: 404 });
+    }
+
+    const stream = streamCollectionStatus(getKnowledgeStore(), scope, collectionName, request.signal);
+
+    return new Response(stream, {
+      headers: {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache, no-transform',
+        Connection: 'keep-alive',
+        // Disable response buffering in nginx-style proxies
+        'X-Accel-Buffering': 'no',
+      },
+    });
+  } catch (error: any) {
+    console.error('Collection events error:', error);
+    return NextResponse.json(
+      { error: 'Failed to stream collection events', details: error.message },
+      { status: 500 }
+    );
+  }
+}
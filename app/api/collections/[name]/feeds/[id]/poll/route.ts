@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCollectionRecord } from '@/lib/collection-records';
+import { getFeed, setFeedJob } from '@/lib/feed-records';
+import { pollFeedJob } from '@/lib/feed-poller';
+import { startJob } from '@/lib/job-runner';
+import { getKnowledgeStore } from '@/lib/knowledge-store';
+import { getCollectionRole } from '@/lib/permissions';
+import { hasRole } from '@/lib/roles';
+import { getRequestScope } from '@/lib/scope';
+
+// POST: Poll the feed for new entries now, as a background job.
+// Responds with 202, the feed and the job.
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ name: string; id: string }> }
+) {
+  try {
+    const scope = await getRequestScope();
+    if (!scope) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { name, id } = await params;
+    const collectionName = decodeURIComponent(name);
+
+    const role = getCollectionRole(scope, collectionName);
+    if (!role || !getCollectionRecord(scope, collectionName)) {
+      return NextResponse.json({ error: 'Collection not found' }, { status: 404 });
+    }
+
+    const feed = getFeed(scope, id);
+    if (!feed || feed.collection !== collectionName) {
+      return NextResponse.json({ error: 'Feed not found' }, { status: 404 });
+    }
+
+    if (!hasRole(role, 'editor')) {
+      return NextResponse.json(
+        { error: 'You do not have permission to add documents to this collection' },
+        { status: 403 }
+      );
+    }
+
+    const job = startJob(
+      scope,
+      'poll-feed',
+      collectionName,
+      feed.url,
+      pollFeedJob(getKnowledgeStore(), scope, feed)
+    );
+    setFeedJob(feed.id, job.id);
+
+    return NextResponse.json(
+      { success: true, feed: getFeed(scope, feed.id), job },
+      { status: 202 }
+    );
+  } catch (error: any) {
+    console.error('Poll feed error:', error);
+    return NextResponse.json(
+      { error: 'Failed to poll feed', details: error.message },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,99 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCollectionRecord } from '@/lib/collection-records';
+import { deleteFeed, getFeed, setFeedInterval } from '@/lib/feed-records';
+import { getCollectionRole } from '@/lib/permissions';
+import { isRefreshInterval } from '@/lib/refresh';
+import { hasRole } from '@/lib/roles';
+import { getRequestScope } from '@/lib/scope';
+
+// PATCH: Change how often the feed is polled (`{ interval }`)
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ name: string; id: string }> }
+) {
+  try {
+    const scope = await getRequestScope();
+    if (!scope) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { name, id } = await params;
+    const collectionName = decodeURIComponent(name);
+
+    const { interval } = await request.json();
+    if (!isRefreshInterval(interval)) {
+      return NextResponse.json(
+        { error: 'interval must be off, hourly, daily or weekly' },
+        { status: 400 }
+      );
+    }
+
+    const role = getCollectionRole(scope, collectionName);
+    if (!role || !getCollectionRecord(scope, collectionName)) {
+      return NextResponse.json({ error: 'Collection not found' }, { status: 404 });
+    }
+
+    const feed = getFeed(scope, id);
+    if (!feed || feed.collection !== collectionName) {
+      return NextResponse.json({ error: 'Feed not found' }, { status: 404 });
+    }
+
+    if (!hasRole(role, 'editor')) {
+      return NextResponse.json(
+        { error: 'You do not have permission to manage feeds in this collection' },
+        { status: 403 }
+      );
+    }
+
+    setFeedInterval(scope, id, interval);
+    return NextResponse.json({ success: true, feed: getFeed(scope, id) });
+  } catch (error: any) {
+    console.error('Update feed error:', error);
+    return NextResponse.json(
+      { error: 'Failed to update feed', details: error.message },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE: Unsubscribe from the feed. Documents already added are kept.
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ name: string; id: string }> }
+) {
+  try {
+    const scope = await getRequestScope();
+    if (!scope) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { name, id } = await params;
+    const collectionName = decodeURIComponent(name);
+
+    const role = getCollectionRole(scope, collectionName);
+    if (!role || !getCollectionRecord(scope, collectionName)) {
+      return NextResponse.json({ error: 'Collection not found' }, { status: 404 });
+    }
+
+    const feed = getFeed(scope, id);
+    if (!feed || feed.collection !== collectionName) {
+      return NextResponse.json({ error: 'Feed not found' }, { status: 404 });
+    }
+
+    if (!hasRole(role, 'editor')) {
+      return NextResponse.json(
+        { error: 'You do not have permission to manage feeds in this collection' },
+        { status: 403 }
+      );
+    }
+
+    deleteFeed(scope, id);
+    return NextResponse.json({ success: true });
+  } catch (error: any) {
+    console.error('Delete feed error:', error);
+    return NextResponse.json(
+      { error: 'Failed to unsubscribe from feed', details: error.message },
+      { status: 500 }
+    );
+  }
+}
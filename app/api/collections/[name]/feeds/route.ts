@@ -0,0 +1,110 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCollectionRecord } from '@/lib/collection-records';
+import { createFeed, getFeed, listFeeds, setFeedJob } from '@/lib/feed-records';
+import { pollFeedJob, readFeed } from '@/lib/feed-poller';
+import { parseFeedSubscription } from '@/lib/feeds';
+import { startJob } from '@/lib/job-runner';
+import { getKnowledgeStore } from '@/lib/knowledge-store';
+import { getCollectionRole } from '@/lib/permissions';
+import { hasRole } from '@/lib/roles';
+import { getRequestScope } from '@/lib/scope';
+
+// GET: The collection's feed subscriptions with their last poll
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ name: string }> }
+) {
+  try {
+    const scope = await getRequestScope();
+    if (!scope) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { name } = await params;
+    const collectionName = decodeURIComponent(name);
+
+    if (!getCollectionRole(scope, collectionName) || !getCollectionRecord(scope, collectionName)) {
+      return NextResponse.json({ error: 'Collection not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ feeds: listFeeds(scope, collectionName) });
+  } catch (error: any) {
+    console.error('List feeds error:', error);
+    return NextResponse.json(
+      { error: 'Failed to list feeds', details: error.message },
+      { status: 500 }
+    );
+  }
+}
+
+// POST: Subscribe the collection to an RSS or Atom feed (`{ url, interval? }`).
+// The feed is read once to check it, then polled for its current entries as a
+// background job; responds with 202, the feed and the job.
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ name: string }> }
+) {
+  try {
+    const scope = await getRequestScope();
+    if (!scope) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { name } = await params;
+    const collectionName = decodeURIComponent(name);
+
+    const parsed = parseFeedSubscription(await request.json());
+    if ('error' in parsed) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+
+    const role = getCollectionRole(scope, collectionName);
+    if (!role || !getCollectionRecord(scope, collectionName)) {
+      return NextResponse.json({ error: 'Collection not found' }, { status: 404 });
+    }
+
+    if (!hasRole(role, 'editor')) {
+      return NextResponse.json(
+        { error: 'You do not have permission to add documents to this collection' },
+        { status: 403 }
+      );
+    }
+
+    try {
+      await readFeed(parsed.subscription.url);
+    } catch (error: any) {
+      return NextResponse.json(
+        { error: `Could not read a feed at ${parsed.subscription.url}: ${error.message}` },
+        { status: 400 }
+      );
+    }
+
+    const feed = createFeed(scope, collectionName, parsed.subscription);
+    if (!feed) {
+      return NextResponse.json(
+        { error: `"${collectionName}" is already subscribed to ${parsed.subscription.url}` },
+        { status: 409 }
+      );
+    }
+
+    const job = startJob(
+      scope,
+      'poll-feed',
+      collectionName,
+      feed.url,
+      pollFeedJob(getKnowledgeStore(), scope, feed)
+    );
+    setFeedJob(feed.id, job.id);
+
+    return NextResponse.json(
+      { success: true, feed: getFeed(scope, feed.id), job },
+      { status: 202 }
+    );
+  } catch (error: any) {
+    console.error('Subscribe to feed error:', error);
+    return NextResponse.json(
+      { error: 'Failed to subscribe to feed', details: error.message },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,255 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { clerkClient } from '@clerk/nextjs/server';
+import {
+  getCollectionRole,
+  listCollectionMembers,
+  removeCollectionMember,
+  setCollectionMember,
+} from '@/lib/permissions';
+import {
+  COLLECTION_ROLES,
+  type CollectionAccess,
+  type CollectionMember,
+  type CollectionRole,
+  type PrincipalType,
+  type ShareCandidate,
+} from '@/lib/roles';
+import { getRequestScope, type RequestScope } from '@/lib/scope';
+
+type RouteParams = { params: Promise<{ name: string }> };
+
+/** Page size used when listing organization members from Clerk */
+const MEMBERSHIP_PAGE_SIZE = 100;
+
+/**
+ * Lists the members of the caller's active organization as share candidates.
+ */
+async function listOrganizationMembers(scope: RequestScope): Promise<ShareCandidate[]> {
+  if (!scope.orgId) {
+    return [];
+  }
+
+  const client = await clerkClient();
+  const memberships = [];
+  let totalCount = 0;
+
+  do {
+    const page = await client.organizations.getOrganizationMembershipList({
+      organizationId: scope.orgId,
+      limit: MEMBERSHIP_PAGE_SIZE,
+      offset: memberships.length,
+    });
+    memberships.push(...page.data);
+    totalCount = page.data.length > 0 ? page.totalCount : memberships.length;
+  } while (memberships.length < totalCount);
+
+  return memberships
+    .filter((membership) => membership.publicUserData)
+    .map((membership) => {
+      const user = membership.publicUserData!;
+      const name = [user.firstName, user.lastName].filter(Boolean).join(' ');
+      return {
+        userId: user.userId,
+        name: name || user.identifier,
+        identifier: user.identifier,
+      };
+    });
+}
+
+/**
+ * Counts how many owners would remain if the given grant were removed.
+ */
+function remainingOwners(members: CollectionMember[], principalType: string, principalId: string) {
+  return members.filter(
+    (member) =>
+      member.role === 'owner' &&
+      !(member.principalType === principalType && member.principalId === principalId)
+  ).length;
+}
+
+// GET: List the members of a collection and the caller's own role
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const scope = await getRequestScope();
+    if (!scope) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { name } = await params;
+    const collectionName = decodeURIComponent(name);
+
+    const role = getCollectionRole(scope, collectionName);
+    if (!role) {
+      return NextResponse.json(
+        { error: 'You do not have access to this collection' },
+        { status: 403 }
+      );
+    }
+
+    const candidates = await listOrganizationMembers(scope);
+    const members = listCollectionMembers(scope, collectionName).map((member) => {
+      const candidate = candidates.find((c) => c.userId === member.principalId);
+      if (member.principalType === 'org') {
+        return { ...member, name: 'Everyone in the organization' };
+      }
+      return candidate
+        ? { ...member, name: candidate.name, identifier: candidate.identifier }
+        : member;
+    });
+
+    const response: CollectionAccess = {
+      role,
+      shareable: !!scope.orgId,
+      orgId: scope.orgId,
+      members,
+      candidates,
+    };
+    return NextResponse.json(response);
+  } catch (error: any) {
+    console.error('List collection members error:', error);
+    return NextResponse.json(
+      { error: 'Failed to list collection members', details: error.message },
+      { status: 500 }
+    );
+  }
+}
+
+// PUT: Grant or change a member's role
+export async function PUT(request: NextRequest, { params }: RouteParams) {
+  try {
+    const scope = await getRequestScope();
+    if (!scope) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { name } = await params;
+    const collectionName = decodeURIComponent(name);
+
+    if (getCollectionRole(scope, collectionName) !== 'owner') {
+      return NextResponse.json(
+        { error: 'Only collection owners can manage members' },
+        { status: 403 }
+      );
+    }
+
+    if (!scope.orgId) {
+      return NextResponse.json(
+        { error: 'Collections can only be shared within an organization' },
+        { status: 400 }
+      );
+    }
+
+    const body = await request.json();
+    const principalType = body.principalType as PrincipalType;
+    const principalId = body.principalId as string;
+    const role = body.role as CollectionRole;
+
+    if (!COLLECTION_ROLES.includes(role)) {
+      return NextResponse.json({ error: 'Invalid role' }, { status: 400 });
+    }
+
+    if (principalType === 'org') {
+      if (principalId !== scope.orgId) {
+        return NextResponse.json({ error: 'Invalid organization' }, { status: 400 });
+      }
+    } else if (principalType === 'user') {
+      const candidates = await listOrganizationMembers(scope);
+      if (!candidates.some((candidate) => candidate.userId === principalId)) {
+        return NextResponse.json(
+          { error: 'User is not a member of this organization' },
+          { status: 400 }
+        );
+      }
+    } else {
+      return NextResponse.json({ error: 'Invalid principal type' }, { status: 400 });
+    }
+
+    const members = listCollectionMembers(scope, collectionName);
+
+    // The first grant on an unshared collection would otherwise lock out the
+    // owner who is sharing it
+    if (members.length === 0) {
+      setCollectionMember(scope, collectionName, 'user', scope.userId, 'owner');
+      members.push({ principalType: 'user', principalId: scope.userId, role: 'owner' });
+    }
+
+    if (role !== 'owner' && remainingOwners(members, principalType, principalId) === 0) {
+      return NextResponse.json(
+        { error: 'A collection must keep at least one owner' },
+        { status: 400 }
+      );
+    }
+
+    setCollectionMember(scope, collectionName, principalType, principalId, role);
+    return NextResponse.json({ success: true });
+  } catch (error: any) {
+    console.error('Update collection member error:', error);
+    return NextResponse.json(
+      { error: 'Failed to update collection member', details: error.message },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE: Revoke a member's role
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  try {
+    const scope = await getRequestScope();
+    if (!scope) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { name } = await params;
+    const collectionName = decodeURIComponent(name);
+
+    if (getCollectionRole(scope, collectionName) !== 'owner') {
+      return NextResponse.json(
+        { error: 'Only collection owners can manage members' },
+        { status: 403 }
+      );
+    }
+
+    if (!scope.orgId) {
+      return NextResponse.json(
+        { error: 'Collections can only be shared within an organization' },
+        { status: 400 }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const principalType = searchParams.get('principalType');
+    const principalId = searchParams.get('principalId');
+
+    if (!principalType || !principalId) {
+      return NextResponse.json(
+        { error: 'principalType and principalId are required' },
+        { status: 400 }
+      );
+    }
+
+    const members = listCollectionMembers(scope, collectionName);
+
+    // Revoking the implicit organization-wide access of an unshared
+    // collection leaves the caller as its sole owner
+    if (members.length === 0) {
+      setCollectionMember(scope, collectionName, 'user', scope.userId, 'owner');
+      members.push({ principalType: 'user', principalId: scope.userId, role: 'owner' });
+    }
+
+    if (remainingOwners(members, principalType, principalId) === 0) {
+      return NextResponse.json(
+        { error: 'A collection must keep at least one owner' },
+        { status: 400 }
+      );
+    }
+
+    removeCollectionMember(scope, collectionName, principalType as PrincipalType, principalId);
+    return NextResponse.json({ success: true });
+  } catch (error: any) {
+    console.error('Remove collection member error:', error);
+    return NextResponse.json(
+      { error: 'Failed to remove collection member', details: error.message },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,76 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCollectionRecord } from '@/lib/collection-records';
+import { moveCollectionDocuments } from '@/lib/collection-jobs';
+import { startJob } from '@/lib/job-runner';
+import { getKnowledgeStore } from '@/lib/knowledge-store';
+import { canAccessCollection, getCollectionRole } from '@/lib/permissions';
+import { getRequestScope } from '@/lib/scope';
+
+// POST: Merge this collection into another one, moving every document and
+// removing this collection. Runs as a background job; responds with 202 and the job.
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ name: string }> }
+) {
+  try {
+    const scope = await getRequestScope();
+    if (!scope) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { name } = await params;
+    const collectionName = decodeURIComponent(name);
+
+    const body = await request.json();
+    const { target } = body;
+
+    if (!target || typeof target !== 'string') {
+      return NextResponse.json({ error: 'Target collection is required' }, { status: 400 });
+    }
+
+    if (target === collectionName) {
+      return NextResponse.json(
+        { error: 'A collection cannot be merged into itself' },
+        { status: 400 }
+      );
+    }
+
+    const role = getCollectionRole(scope, collectionName);
+    if (!role || !getCollectionRecord(scope, collectionName)) {
+      return NextResponse.json({ error: 'Collection not found' }, { status: 404 });
+    }
+
+    if (role !== 'owner') {
+      return NextResponse.json(
+        { error: 'Only collection owners can merge a collection' },
+        { status: 403 }
+      );
+    }
+
+    if (!getCollectionRole(scope, target) || !getCollectionRecord(scope, target)) {
+      return NextResponse.json({ error: 'Target collection not found' }, { status: 404 });
+    }
+
+    if (!canAccessCollection(scope, target, 'editor')) {
+      return NextResponse.json(
+        { error: 'You do not have permission to add documents to the target collection' },
+        { status: 403 }
+      );
+    }
+
+    const job = startJob(
+      scope,
+      'merge-collection',
+      collectionName,
+      target,
+      moveCollectionDocuments(getKnowledgeStore(), scope, collectionName, target)
+    );
+    return NextResponse.json({ success: true, job }, { status: 202 });
+  } catch (error: any) {
+    console.error('Merge collection error:', error);
+    return NextResponse.json(
+      { error: 'Failed to merge collection', details: error.message },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCollectionRecord } from '@/lib/collection-records';
+import { reindexCollectionDocuments } from '@/lib/collection-jobs';
+import { startJob } from '@/lib/job-runner';
+import { getKnowledgeStore } from '@/lib/knowledge-store';
+import { getCollectionRole } from '@/lib/permissions';
+import { hasRole } from '@/lib/roles';
+import { getRequestScope } from '@/lib/scope';
+
+// POST: Rebuild the search index of every document in the collection.
+// Runs as a background job; responds with 202 and the job.
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ name: string }> }
+) {
+  try {
+    const scope = await getRequestScope();
+    if (!scope) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { name } = await params;
+    const collectionName = decodeURIComponent(name);
+
+    const role = getCollectionRole(scope, collectionName);
+    if (!role || !getCollectionRecord(scope, collectionName)) {
+      return NextResponse.json({ error: 'Collection not found' }, { status: 404 });
+    }
+
+    if (!hasRole(role, 'editor')) {
+      return NextResponse.json(
+        { error: 'You do not have permission to re-index this collection' },
+        { status: 403 }
+      );
+    }
+
+    const job = startJob(
+      scope,
+      'reindex-collection',
+      collectionName,
+      null,
+      reindexCollectionDocuments(getKnowledgeStore(), scope, collectionName)
+    );
+    return NextResponse.json({ success: true, job }, { status: 202 });
+  } catch (error: any) {
+    console.error('Reindex collection error:', error);
+    return NextResponse.json(
+      { error: 'Failed to re-index collection', details: error.message },
+      { status: 500 }
+    );
+  }
+}
@@ -1,23 +1,127 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { Supermemory } from 'supermemory';
+import {
+  copyCollectionRecord,
+  getCollectionRecord,
+  updateCollectionRecord,
+} from '@/lib/collection-records';
+import { deleteCollectionDocuments, moveCollectionDocuments } from '@/lib/collection-jobs';
+import { parseCollectionDetails, type CollectionSummary } from '@/lib/collections';
+import { startJob } from '@/lib/job-runner';
+import { getKnowledgeStore } from '@/lib/knowledge-store';
+import { copyCollectionMembers, getCollectionRole } from '@/lib/permissions';
+import { getRequestScope } from '@/lib/scope';
+import { trashCollection, trashCollectionDocuments } from '@/lib/trash-bin';
+import { getTrashRetentionDays } from '@/lib/trash-records';
 
-const apiKey = process.env.SUPERMEMORY_API_KEY;
+type RouteParams = { params: Promise<{ name: string }> };
 
-if (!apiKey) {
-  throw new Error(
-    'The SUPERMEMORY_API_KEY environment variable is missing or empty. ' +
-    'Please set it in your .env or .env.local file.'
-  );
+// GET: Get a collection and the caller's role on it
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const scope = await getRequestScope();
+    if (!scope) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { name } = await params;
+    const collectionName = decodeURIComponent(name);
+
+    const collection = getCollectionRecord(scope, collectionName);
+    const role = getCollectionRole(scope, collectionName);
+    if (!collection || !role) {
+      return NextResponse.json({ error: 'Collection not found' }, { status: 404 });
+    }
+
+    const response: CollectionSummary = { ...collection, role };
+    return NextResponse.json(response);
+  } catch (error: any) {
+    console.error('Get collection error:', error);
+    return NextResponse.json(
+      { error: 'Failed to get collection', details: error.message },
+      { status: 500 }
+    );
+  }
 }
 
-const client = new Supermemory({ apiKey });
+// PATCH: Update a collection's description, appearance or settings, or rename it.
+// Renames move the documents in a background job and respond with 202 and the job.
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+  try {
+    const scope = await getRequestScope();
+    if (!scope) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { name } = await params;
+    const collectionName = decodeURIComponent(name);
 
-// DELETE: Delete a collection and all its documents
-export async function DELETE(
-  request: NextRequest,
-  { params }: { params: Promise<{ name: string }> }
-) {
+    const role = getCollectionRole(scope, collectionName);
+    if (!role || !getCollectionRecord(scope, collectionName)) {
+      return NextResponse.json({ error: 'Collection not found' }, { status: 404 });
+    }
+
+    if (role !== 'owner') {
+      return NextResponse.json(
+        { error: 'Only collection owners can change collection settings' },
+        { status: 403 }
+      );
+    }
+
+    const body = await request.json();
+    const parsed = parseCollectionDetails(body);
+    if ('error' in parsed) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+
+    if (body.name !== undefined && (typeof body.name !== 'string' || !body.name.trim())) {
+      return NextResponse.json({ error: 'Collection name is required' }, { status: 400 });
+    }
+
+    const newName = body.name?.trim();
+    if (newName && newName !== collectionName) {
+      if (getCollectionRecord(scope, newName)) {
+        return NextResponse.json(
+          { error: 'A collection with this name already exists' },
+          { status: 409 }
+        );
+      }
+
+      updateCollectionRecord(scope, collectionName, parsed.details);
+      copyCollectionRecord(scope, collectionName, newName);
+      copyCollectionMembers(scope, collectionName, newName);
+
+      const job = startJob(
+        scope,
+        'rename-collection',
+        collectionName,
+        newName,
+        moveCollectionDocuments(getKnowledgeStore(), scope, collectionName, newName)
+      );
+      return NextResponse.json({ success: true, job }, { status: 202 });
+    }
+
+    const collection = updateCollectionRecord(scope, collectionName, parsed.details)!;
+    const response: CollectionSummary = { ...collection, role };
+    return NextResponse.json({ success: true, collection: response });
+  } catch (error: any) {
+    console.error('Update collection error:', error);
+    return NextResponse.json(
+      { error: 'Failed to update collection', details: error.message },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE: Move a collection and all its documents to the caller's trash, or
+// delete them permanently when the trash is disabled. Documents are handled by
+// a background job; responds with 202, the job and the trash item.
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
   try {
+    const scope = await getRequestScope();
+    if (!scope) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
     const { name } = await params;
     const collectionName = decodeURIComponent(name);
 
@@ -28,29 +132,40 @@ export async function DELETE(
       );
     }
 
-    // Get all memories in this collection
-    const memories = await client.memories.list({
-      containerTags: [collectionName],
-      limit: 1000,
-    });
-
-    // Delete all memories in the collection
-    let deletedCount = 0;
-    for (const memory of memories.memories) {
-      try {
-        await client.memories.delete(memory.id);
-        deletedCount++;
-      } catch (deleteError) {
-        console.error(`Failed to delete memory ${memory.id}:`, deleteError);
-        // Continue deleting other memories even if one fails
-      }
+    const role = getCollectionRole(scope, collectionName);
+    if (!role || !getCollectionRecord(scope, collectionName)) {
+      return NextResponse.json({ error: 'Collection not found' }, { status: 404 });
     }
 
-    return NextResponse.json({
-      success: true,
-      deletedCount,
-      message: `Collection "${collectionName}" deleted with ${deletedCount} documents`,
-    });
+    if (role !== 'owner') {
+      return NextResponse.json(
+        { error: 'Only collection owners can delete a collection' },
+        { status: 403 }
+      );
+    }
+
+    const store = getKnowledgeStore();
+
+    if (getTrashRetentionDays() === 0) {
+      const job = startJob(
+        scope,
+        'delete-collection',
+        collectionName,
+        null,
+        deleteCollectionDocuments(store, scope, collectionName)
+      );
+      return NextResponse.json({ success: true, job, trashItem: null }, { status: 202 });
+    }
+
+    const trashItem = trashCollection(scope, collectionName);
+    const job = startJob(
+      scope,
+      'delete-collection',
+      collectionName,
+      null,
+      trashCollectionDocuments(store, scope, trashItem.id, collectionName)
+    );
+    return NextResponse.json({ success: true, job, trashItem }, { status: 202 });
   } catch (error: any) {
     console.error('Delete collection error:', error);
     return NextResponse.json(
@@ -1,35 +1,68 @@
+import { createHash } from 'crypto';
 import { NextResponse } from 'next/server';
-import { Supermemory } from 'supermemory';
+import {
+  createCollectionRecord,
+  getCollectionRecord,
+  listCollectionRecords,
+} from '@/lib/collection-records';
+import { getCollectionStats } from '@/lib/collection-stats';
+import {
+  parseCollectionDetails,
+  type CollectionSummary,
+  type CollectionWithStats,
+} from '@/lib/collections';
+import { getKnowledgeStore } from '@/lib/knowledge-store';
+import { getCollectionRole, setCollectionMember } from '@/lib/permissions';
+import { getRequestScope } from '@/lib/scope';
 
-const apiKey = process.env.SUPERMEMORY_API_KEY;
+// GET: List all collections the caller can access, with their role on each.
+// Pass ?withStats=1 to include document counts, computed in one pass over the
+// scope's documents. Stats responses carry an ETag so unchanged lists return 304.
+export async function GET(request: Request) {
+  try {
+    const scope = await getRequestScope();
+    if (!scope) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
 
-if (!apiKey) {
-  throw new Error(
-    'The SUPERMEMORY_API_KEY environment variable is missing or empty. ' +
-    'Please set it in your .env or .env.local file.'
-  );
-}
+    const collections: CollectionSummary[] = [];
+    for (const record of listCollectionRecords(scope)) {
+      const role = getCollectionRole(scope, record.name);
+      if (role) {
+        collections.push({ ...record, role });
+      }
+    }
 
-const client = new Supermemory({ apiKey });
+    const withStats = new URL(request.url).searchParams.get('withStats');
+    if (withStats !== '1' && withStats !== 'true') {
+      return NextResponse.json({ collections });
+    }
 
-// GET: List all collections
-export async function GET() {
-  try {
-    // Get all memories and extract unique collection tags
-    const memories = await client.memories.list({
-      limit: 1000,
-    });
+    const stats = await getCollectionStats(
+      getKnowledgeStore(),
+      scope,
+      collections.map((collection) => collection.name)
+    );
+    const collectionsWithStats: CollectionWithStats[] = collections.map((collection) => ({
+      ...collection,
+      stats: stats[collection.name],
+    }));
 
-    const collectionsSet = new Set<string>();
+    const body = JSON.stringify({ collections: collectionsWithStats });
+    const etag = `"${createHash('sha1').update(body).digest('base64url')}"`;
+    const headers = {
+      'Cache-Control': 'private, no-cache',
+      ETag: etag,
+      Vary: 'Cookie',
+    };
 
-    memories.memories.forEach((memory) => {
-      if (memory.containerTags && Array.isArray(memory.containerTags)) {
-        memory.containerTags.forEach((tag) => collectionsSet.add(tag));
-      }
-    });
+    if (request.headers.get('if-none-match') === etag) {
+      return new NextResponse(null, { status: 304, headers });
+    }
 
-    const collections = Array.from(collectionsSet).sort();
-    return NextResponse.json({ collections });
+    return new NextResponse(body, {
+      headers: { ...headers, 'Content-Type': 'application/json' },
+    });
   } catch (error: any) {
     console.error('List collections error:', error);
     return NextResponse.json(
@@ -39,9 +72,14 @@ export async function GET() {
   }
 }
 
-// POST: Validate and create a new collection (collections are created implicitly when adding documents)
+// POST: Create a new collection owned by the caller
 export async function POST(request: Request) {
   try {
+    const scope = await getRequestScope();
+    if (!scope) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
     const body = await request.json();
     const { name } = body;
 
@@ -54,33 +92,23 @@ export async function POST(request: Request) {
 
     const collectionName = name.trim();
 
-    // Check if collection already exists
-    const memories = await client.memories.list({
-      limit: 1000,
-    });
-
-    const existingCollections = new Set<string>();
-    memories.memories.forEach((memory) => {
-      if (memory.containerTags && Array.isArray(memory.containerTags)) {
-        memory.containerTags.forEach((tag) => existingCollections.add(tag));
-      }
-    });
+    const parsed = parseCollectionDetails(body);
+    if ('error' in parsed) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
 
-    if (existingCollections.has(collectionName)) {
+    if (getCollectionRecord(scope, collectionName)) {
       return NextResponse.json(
         { error: 'A collection with this name already exists' },
         { status: 409 }
       );
     }
 
-    // Note: In Supermemory, collections are just tags on memories.
-    // A collection "exists" when at least one memory has that containerTag.
-    // For validation purposes, we just return success here.
-    // The actual collection will be created when the first document is added.
-    return NextResponse.json({
-      success: true,
-      message: `Collection "${collectionName}" is ready to be created`,
-    });
+    const collection = createCollectionRecord(scope, collectionName, parsed.details);
+    setCollectionMember(scope, collectionName, 'user', scope.userId, 'owner');
+
+    const response: CollectionSummary = { ...collection, role: 'owner' };
+    return NextResponse.json({ success: true, collection: response }, { status: 201 });
   } catch (error: any) {
     console.error('Create collection error:', error);
     return NextResponse.json(
@@ -0,0 +1,40 @@
+import { createHash, timingSafeEqual } from 'node:crypto';
+import { NextRequest, NextResponse } from 'next/server';
+import { runRefreshPass } from '@/lib/refresh-scheduler';
+
+/**
+ * Compares a request's Authorization header with the expected bearer token in
+ * constant time. Both are hashed first so the buffers always have equal length.
+ */
+function isAuthorized(header: string | null, secret: string): boolean {
+  const digest = (value: string) => createHash('sha256').update(value).digest();
+  return timingSafeEqual(digest(header ?? ''), digest(`Bearer ${secret}`));
+}
+
+// GET: Refresh the web page documents and poll the feeds that are due, and
+// purge expired trash, for external schedulers such as Vercel Cron.
+// Requires `Authorization: Bearer <CRON_SECRET>`.
+export async function GET(request: NextRequest) {
+  const secret = process.env.CRON_SECRET;
+  if (!secret) {
+    return NextResponse.json({ error: 'CRON_SECRET is not configured' }, { status: 503 });
+  }
+
+  if (!isAuthorized(request.headers.get('authorization'), secret)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const summary = await runRefreshPass();
+    if (!summary) {
+      return NextResponse.json({ success: true, skipped: true, message: 'A refresh is already running' });
+    }
+    return NextResponse.json({ success: true, ...summary });
+  } catch (error: any) {
+    console.error('URL refresh error:', error);
+    return NextResponse.json(
+      { error: 'Failed to refresh documents', details: error.message },
+      { status: 500 }
+    );
+  }
+}
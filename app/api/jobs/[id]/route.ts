@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { deleteJobRecord, getJobRecord } from '@/lib/job-records';
+import { isJobActive } from '@/lib/jobs';
+import { getRequestScope } from '@/lib/scope';
+
+type RouteParams = { params: Promise<{ id: string }> };
+
+// GET: Get a job's status, progress and failed documents
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const scope = await getRequestScope();
+    if (!scope) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const job = getJobRecord(scope, id);
+    if (!job) {
+      return NextResponse.json({ error: 'Job not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ job });
+  } catch (error: any) {
+    console.error('Get job error:', error);
+    return NextResponse.json(
+      { error: 'Failed to get job', details: error.message },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE: Dismiss a finished job
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  try {
+    const scope = await getRequestScope();
+    if (!scope) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const job = getJobRecord(scope, id);
+    if (!job) {
+      return NextResponse.json({ error: 'Job not found' }, { status: 404 });
+    }
+
+    if (isJobActive(job)) {
+      return NextResponse.json(
+        { error: 'A job cannot be dismissed while it is running' },
+        { status: 409 }
+      );
+    }
+
+    deleteJobRecord(scope, id);
+    return NextResponse.json({ success: true });
+  } catch (error: any) {
+    console.error('Dismiss job error:', error);
+    return NextResponse.json(
+      { error: 'Failed to dismiss job', details: error.message },
+      { status: 500 }
+    );
+  }
+}
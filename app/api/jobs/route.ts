@@ -0,0 +1,21 @@
+import { NextResponse } from 'next/server';
+import { listJobRecords } from '@/lib/job-records';
+import { getRequestScope } from '@/lib/scope';
+
+// GET: List the most recent background jobs the caller started
+export async function GET() {
+  try {
+    const scope = await getRequestScope();
+    if (!scope) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    return NextResponse.json({ jobs: listJobRecords(scope) });
+  } catch (error: any) {
+    console.error('List jobs error:', error);
+    return NextResponse.json(
+      { error: 'Failed to list jobs', details: error.message },
+      { status: 500 }
+    );
+  }
+}
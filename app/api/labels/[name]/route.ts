@@ -0,0 +1,71 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { replaceLabel } from '@/lib/document-labels';
+import { getKnowledgeStore } from '@/lib/knowledge-store';
+import { isLabel } from '@/lib/labels';
+import { getRequestScope } from '@/lib/scope';
+
+type RouteParams = { params: Promise<{ name: string }> };
+
+// PATCH: Rename a label on every document carrying it (`{ name }`). Renaming
+// to an existing label merges the two. Documents the caller cannot edit keep
+// the old label and are counted as skipped.
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+  try {
+    const scope = await getRequestScope();
+    if (!scope) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { name } = await params;
+    const label = decodeURIComponent(name);
+    const body = await request.json();
+    const newName = typeof body.name === 'string' ? body.name.trim() : '';
+
+    if (!isLabel(newName)) {
+      return NextResponse.json(
+        { error: 'Labels must be 1-40 characters without commas' },
+        { status: 400 }
+      );
+    }
+
+    const result = await replaceLabel(getKnowledgeStore(), scope, label, newName);
+    if (result.updated === 0 && result.skipped === 0) {
+      return NextResponse.json({ error: 'Label not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true, name: newName, ...result });
+  } catch (error: any) {
+    console.error('Rename label error:', error);
+    return NextResponse.json(
+      { error: 'Failed to rename label', details: error.message },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE: Remove a label from every document carrying it. Documents the
+// caller cannot edit keep it and are counted as skipped.
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  try {
+    const scope = await getRequestScope();
+    if (!scope) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { name } = await params;
+    const label = decodeURIComponent(name);
+
+    const result = await replaceLabel(getKnowledgeStore(), scope, label, null);
+    if (result.updated === 0 && result.skipped === 0) {
+      return NextResponse.json({ error: 'Label not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true, ...result });
+  } catch (error: any) {
+    console.error('Delete label error:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete label', details: error.message },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { listLabels } from '@/lib/document-labels';
+import { getKnowledgeStore } from '@/lib/knowledge-store';
+import { canAccessCollection } from '@/lib/permissions';
+import { getRequestScope } from '@/lib/scope';
+
+// GET: List the labels on documents the caller can view, with the number of
+// documents carrying each. Pass ?collection= to count one collection only.
+export async function GET(request: NextRequest) {
+  try {
+    const scope = await getRequestScope();
+    if (!scope) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const collection = new URL(request.url).searchParams.get('collection') || undefined;
+    if (collection && !canAccessCollection(scope, collection, 'viewer')) {
+      return NextResponse.json(
+        { error: 'You do not have access to this collection' },
+        { status: 403 }
+      );
+    }
+
+    const labels = await listLabels(getKnowledgeStore(), scope, collection);
+    return NextResponse.json({ labels });
+  } catch (error: any) {
+    console.error('List labels error:', error);
+    return NextResponse.json(
+      { error: 'Failed to list labels', details: error.message },
+      { status: 500 }
+    );
+  }
+}
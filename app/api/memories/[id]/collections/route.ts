@@ -0,0 +1,150 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCollectionRecord } from '@/lib/collection-records';
+import { getKnowledgeStore } from '@/lib/knowledge-store';
+import { canAccessAny, canAccessCollection } from '@/lib/permissions';
+import {
+  collectionsFromTags,
+  containerTagsFor,
+  getRequestScope,
+  getScopedMemory,
+  scopeTag,
+  type RequestScope,
+} from '@/lib/scope';
+
+type RouteParams = { params: Promise<{ id: string }> };
+
+function parseCollectionList(value: unknown): string[] | null {
+  if (value === undefined) {
+    return [];
+  }
+  if (!Array.isArray(value) || !value.every((item) => typeof item === 'string' && item.trim())) {
+    return null;
+  }
+  return Array.from(new Set(value.map((item: string) => item.trim())));
+}
+
+/**
+ * Collections of a memory the caller can see.
+ */
+function visibleCollections(scope: RequestScope, collections: string[]): string[] {
+  return collections.filter((collection) => canAccessCollection(scope, collection, 'viewer'));
+}
+
+// GET: List the collections a memory belongs to
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const scope = await getRequestScope();
+    if (!scope) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+
+    const memory = await getScopedMemory(getKnowledgeStore(), scope, id);
+    const collections = memory ? collectionsFromTags(scope, memory.containerTags) : [];
+    if (!memory || !canAccessAny(scope, collections, 'viewer')) {
+      return NextResponse.json({ error: 'Memory not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ collections: visibleCollections(scope, collections) });
+  } catch (error: any) {
+    console.error('Get memory collections error:', error);
+    return NextResponse.json(
+      { error: 'Failed to get memory collections', details: error.message },
+      { status: 500 }
+    );
+  }
+}
+
+// PATCH: Add a memory to collections and/or remove it from others.
+// Moving is an add and a remove in the same request.
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+  try {
+    const scope = await getRequestScope();
+    if (!scope) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const body = await request.json();
+    const add = parseCollectionList(body.add);
+    const remove = parseCollectionList(body.remove);
+
+    if (!add || !remove) {
+      return NextResponse.json(
+        { error: 'add and remove must be arrays of collection names' },
+        { status: 400 }
+      );
+    }
+
+    if (add.length === 0 && remove.length === 0) {
+      return NextResponse.json(
+        { error: 'Specify collections to add or remove' },
+        { status: 400 }
+      );
+    }
+
+    if (add.some((collection) => remove.includes(collection))) {
+      return NextResponse.json(
+        { error: 'A collection cannot be both added and removed' },
+        { status: 400 }
+      );
+    }
+
+    const store = getKnowledgeStore();
+    const memory = await getScopedMemory(store, scope, id);
+    const current = memory ? collectionsFromTags(scope, memory.containerTags) : [];
+    if (!memory || !canAccessAny(scope, current, 'viewer')) {
+      return NextResponse.json({ error: 'Memory not found' }, { status: 404 });
+    }
+
+    for (const collection of add) {
+      if (!getCollectionRecord(scope, collection) || !canAccessCollection(scope, collection, 'viewer')) {
+        return NextResponse.json(
+          { error: `Collection "${collection}" not found` },
+          { status: 404 }
+        );
+      }
+    }
+
+    const changed = [
+      ...add.filter((collection) => !current.includes(collection)),
+      ...remove.filter((collection) => current.includes(collection)),
+    ];
+    const forbidden = changed.find((collection) => !canAccessCollection(scope, collection, 'editor'));
+    if (forbidden) {
+      return NextResponse.json(
+        { error: `You do not have permission to change documents in "${forbidden}"` },
+        { status: 403 }
+      );
+    }
+
+    const collections = Array.from(new Set([...current, ...add])).filter(
+      (collection) => !remove.includes(collection)
+    );
+
+    if (collections.length === 0) {
+      return NextResponse.json(
+        { error: 'A document must belong to at least one collection. Delete it instead.' },
+        { status: 400 }
+      );
+    }
+
+    // Keep any tags that are not scope or collection tags
+    const otherTags = memory.containerTags.filter(
+      (tag) => tag !== scopeTag(scope) && collectionsFromTags(scope, [tag]).length === 0
+    );
+    await store.update(id, { containerTags: [...containerTagsFor(scope, collections), ...otherTags] });
+
+    return NextResponse.json({
+      success: true,
+      collections: visibleCollections(scope, collections),
+    });
+  } catch (error: any) {
+    console.error('Update memory collections error:', error);
+    return NextResponse.json(
+      { error: 'Failed to update memory collections', details: error.message },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { isProcessing } from '@/lib/document-status';
+import { getKnowledgeStore } from '@/lib/knowledge-store';
+import { updateNoteDocument } from '@/lib/note-documents';
+import { isNote, validateNoteContent } from '@/lib/notes';
+import { canAccessAll, canAccessAny } from '@/lib/permissions';
+import { collectionsFromTags, getRequestScope, getScopedMemory } from '@/lib/scope';
+
+// PUT: Replace a note's Markdown content (`{ content }`) and re-index it
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const scope = await getRequestScope();
+    if (!scope) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const { content } = await request.json();
+    const contentError = validateNoteContent(content);
+    if (contentError) {
+      return NextResponse.json({ error: contentError }, { status: 400 });
+    }
+
+    const store = getKnowledgeStore();
+    const memory = await getScopedMemory(store, scope, id);
+    const collections = memory ? collectionsFromTags(scope, memory.containerTags) : [];
+    if (!memory || !canAccessAny(scope, collections, 'viewer')) {
+      return NextResponse.json({ error: 'Memory not found' }, { status: 404 });
+    }
+
+    if (!isNote(memory.metadata)) {
+      return NextResponse.json(
+        { error: 'Only notes can be edited; upload a new version of other documents' },
+        { status: 400 }
+      );
+    }
+
+    if (!canAccessAll(scope, collections, 'editor')) {
+      return NextResponse.json(
+        { error: 'You do not have permission to edit this note' },
+        { status: 403 }
+      );
+    }
+
+    if (isProcessing(memory.status)) {
+      return NextResponse.json(
+        { error: 'The note is still being processed' },
+        { status: 409 }
+      );
+    }
+
+    const result = await updateNoteDocument(store, scope, memory, content);
+    return NextResponse.json({ success: true, id: result.id, status: result.status });
+  } catch (error: any) {
+    console.error('Update note error:', error);
+    return NextResponse.json(
+      { error: 'Failed to save note', details: error.message },
+      { status: 500 }
+    );
+  }
+}
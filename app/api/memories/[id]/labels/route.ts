@@ -0,0 +1,96 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { saveDocumentLabels } from '@/lib/document-labels';
+import { getKnowledgeStore } from '@/lib/knowledge-store';
+import { applyLabelChanges, documentLabels, parseLabelList } from '@/lib/labels';
+import { canAccessAll, canAccessAny } from '@/lib/permissions';
+import { collectionsFromTags, getRequestScope, getScopedMemory } from '@/lib/scope';
+
+type RouteParams = { params: Promise<{ id: string }> };
+
+// GET: List a memory's labels
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const scope = await getRequestScope();
+    if (!scope) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+
+    const memory = await getScopedMemory(getKnowledgeStore(), scope, id);
+    const collections = memory ? collectionsFromTags(scope, memory.containerTags) : [];
+    if (!memory || !canAccessAny(scope, collections, 'viewer')) {
+      return NextResponse.json({ error: 'Memory not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ labels: documentLabels(memory.metadata) });
+  } catch (error: any) {
+    console.error('Get memory labels error:', error);
+    return NextResponse.json(
+      { error: 'Failed to get memory labels', details: error.message },
+      { status: 500 }
+    );
+  }
+}
+
+// PATCH: Add labels to a memory and/or remove others
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+  try {
+    const scope = await getRequestScope();
+    if (!scope) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const body = await request.json();
+    const add = parseLabelList(body.add);
+    const remove = parseLabelList(body.remove);
+
+    if (!add || !remove) {
+      return NextResponse.json(
+        { error: 'add and remove must be arrays of labels of 1-40 characters without commas' },
+        { status: 400 }
+      );
+    }
+
+    if (add.length === 0 && remove.length === 0) {
+      return NextResponse.json({ error: 'Specify labels to add or remove' }, { status: 400 });
+    }
+
+    if (add.some((label) => remove.includes(label))) {
+      return NextResponse.json(
+        { error: 'A label cannot be both added and removed' },
+        { status: 400 }
+      );
+    }
+
+    const store = getKnowledgeStore();
+    const memory = await getScopedMemory(store, scope, id);
+    const collections = memory ? collectionsFromTags(scope, memory.containerTags) : [];
+    if (!memory || !canAccessAny(scope, collections, 'viewer')) {
+      return NextResponse.json({ error: 'Memory not found' }, { status: 404 });
+    }
+
+    if (!canAccessAll(scope, collections, 'editor')) {
+      return NextResponse.json(
+        { error: 'You do not have permission to edit this document' },
+        { status: 403 }
+      );
+    }
+
+    const changed = applyLabelChanges(documentLabels(memory.metadata), add, remove);
+    if ('error' in changed) {
+      return NextResponse.json({ error: changed.error }, { status: 400 });
+    }
+
+    await saveDocumentLabels(store, memory, changed.labels);
+
+    return NextResponse.json({ success: true, labels: changed.labels });
+  } catch (error: any) {
+    console.error('Update memory labels error:', error);
+    return NextResponse.json(
+      { error: 'Failed to update memory labels', details: error.message },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,142 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getKnowledgeStore } from '@/lib/knowledge-store';
+import { canAccessAll, canAccessAny } from '@/lib/permissions';
+import { isRefreshInterval } from '@/lib/refresh';
+import { setRefreshInterval } from '@/lib/refresh-records';
+import { collectionsFromTags, getRequestScope, getScopedMemory } from '@/lib/scope';
+import { checkUrlDocument, getRefreshStatus, isUrlDocument } from '@/lib/url-refresh';
+
+type Access = 'viewer' | 'editor';
+
+/**
+ * Looks up a web page document the caller may view, and edit if asked.
+ *
+ * @returns The document, or the response to send instead
+ */
+async function getUrlDocument(id: string, access: Access) {
+  const scope = await getRequestScope();
+  if (!scope) {
+    return { response: NextResponse.json({ error: 'Unauthorized' }, { status: 401 }) };
+  }
+
+  const store = getKnowledgeStore();
+  const memory = await getScopedMemory(store, scope, id);
+  const collections = memory ? collectionsFromTags(scope, memory.containerTags) : [];
+  if (!memory || !canAccessAny(scope, collections, 'viewer')) {
+    return { response: NextResponse.json({ error: 'Memory not found' }, { status: 404 }) };
+  }
+
+  if (!isUrlDocument(memory)) {
+    return {
+      response: NextResponse.json(
+        { error: 'Only web page documents can be refreshed' },
+        { status: 400 }
+      ),
+    };
+  }
+
+  if (access === 'editor' && !canAccessAll(scope, collections, 'editor')) {
+    return {
+      response: NextResponse.json(
+        { error: 'You do not have permission to change this document' },
+        { status: 403 }
+      ),
+    };
+  }
+
+  return { scope, store, memory };
+}
+
+// GET: A web page document's refresh schedule and the outcome of its last check
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const found = await getUrlDocument(id, 'viewer');
+    if ('response' in found) {
+      return found.response;
+    }
+
+    return NextResponse.json({ refresh: getRefreshStatus(found.scope, found.memory) });
+  } catch (error: any) {
+    console.error('Get refresh schedule error:', error);
+    return NextResponse.json(
+      { error: 'Failed to get refresh schedule', details: error.message },
+      { status: 500 }
+    );
+  }
+}
+
+// PUT: Set the document's own refresh interval (`{ interval }`), or follow
+// its collections' intervals again with `interval: null`
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const { interval } = await request.json();
+    if (interval !== null && !isRefreshInterval(interval)) {
+      return NextResponse.json(
+        { error: 'interval must be off, hourly, daily, weekly or null' },
+        { status: 400 }
+      );
+    }
+
+    const found = await getUrlDocument(id, 'editor');
+    if ('response' in found) {
+      return found.response;
+    }
+
+    setRefreshInterval(found.scope, id, interval);
+    return NextResponse.json({ success: true, refresh: getRefreshStatus(found.scope, found.memory) });
+  } catch (error: any) {
+    console.error('Set refresh schedule error:', error);
+    return NextResponse.json(
+      { error: 'Failed to set refresh schedule', details: error.message },
+      { status: 500 }
+    );
+  }
+}
+
+// POST: Check the page for changes now, reprocessing the document if it changed.
+// Returns the document's ID, which changes if reprocessing had to replace it
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const found = await getUrlDocument(id, 'editor');
+    if ('response' in found) {
+      return found.response;
+    }
+
+    const { outcome, id: currentId } = await checkUrlDocument(
+      found.store,
+      found.scope,
+      found.memory
+    );
+    if (outcome === 'skipped') {
+      return NextResponse.json(
+        { error: 'The document is still being processed' },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json({
+      success: outcome !== 'failed',
+      id: currentId,
+      outcome,
+      refresh: getRefreshStatus(found.scope, { ...found.memory, id: currentId }),
+    });
+  } catch (error: any) {
+    console.error('Refresh document error:', error);
+    return NextResponse.json(
+      { error: 'Failed to refresh document', details: error.message },
+      { status: 500 }
+    );
+  }
+}
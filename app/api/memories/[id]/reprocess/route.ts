@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getKnowledgeStore } from '@/lib/knowledge-store';
+import { canAccessAll, canAccessAny } from '@/lib/permissions';
+import { reprocessDocument, ReprocessUnavailableError } from '@/lib/reprocessing';
+import { collectionsFromTags, getRequestScope, getScopedMemory } from '@/lib/scope';
+
+// POST: Submit a document for processing again from its original file or URL.
+// Responds with its ID, which changes if the store had to replace it
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const scope = await getRequestScope();
+    if (!scope) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const store = getKnowledgeStore();
+
+    const memory = await getScopedMemory(store, scope, id);
+    const collections = memory ? collectionsFromTags(scope, memory.containerTags) : [];
+    if (!memory || !canAccessAny(scope, collections, 'viewer')) {
+      return NextResponse.json({ error: 'Memory not found' }, { status: 404 });
+    }
+
+    if (!canAccessAll(scope, collections, 'editor')) {
+      return NextResponse.json(
+        { error: 'You do not have permission to reprocess this document' },
+        { status: 403 }
+      );
+    }
+
+    try {
+      const result = await reprocessDocument(store, memory);
+      return NextResponse.json({ success: true, id: result.id, status: result.status });
+    } catch (error) {
+      if (error instanceof ReprocessUnavailableError) {
+        return NextResponse.json({ error: error.message }, { status: 409 });
+      }
+      throw error;
+    }
+  } catch (error: any) {
+    console.error('Reprocess memory error:', error);
+    return NextResponse.json(
+      { error: 'Failed to reprocess document', details: error.message },
+      { status: 500 }
+    );
+  }
+}
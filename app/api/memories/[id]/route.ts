@@ -1,31 +1,47 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { Supermemory } from 'supermemory';
+import {
+  applyDocumentDetails,
+  documentDetails,
+  documentTitle,
+  parseDocumentDetailsUpdate,
+} from '@/lib/document-details';
+import { validateDocumentFields } from '@/lib/document-fields';
+import { getOlderVersion } from '@/lib/document-versions';
+import { getKnowledgeStore } from '@/lib/knowledge-store';
+import { canAccessAll, canAccessAny } from '@/lib/permissions';
+import {
+  collectionsFromTags,
+  getRequestScope,
+  getScopedMemory,
+  toScopedMemory,
+} from '@/lib/scope';
 
-const apiKey = process.env.SUPERMEMORY_API_KEY;
-
-if (!apiKey) {
-  throw new Error(
-    'The SUPERMEMORY_API_KEY environment variable is missing or empty. ' +
-    'Please set it in your .env or .env.local file.'
-  );
-}
-
-const client = new Supermemory({ apiKey });
-
-// GET: Get a specific memory
+// GET: Get a specific memory, or an older version of a re-uploaded document
 export async function GET(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
+    const scope = await getRequestScope();
+    if (!scope) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
     const { id } = await params;
 
     if (!id) {
       return NextResponse.json({ error: 'Memory ID is required' }, { status: 400 });
     }
 
-    const memory = await client.memories.get(id);
-    return NextResponse.json(memory);
+    const store = getKnowledgeStore();
+    const memory =
+      (await getScopedMemory(store, scope, id)) ?? (await getOlderVersion(store, scope, id));
+    const scopedMemory = memory && toScopedMemory(scope, memory);
+    if (!scopedMemory || !canAccessAny(scope, scopedMemory.containerTags, 'viewer')) {
+      return NextResponse.json({ error: 'Memory not found' }, { status: 404 });
+    }
+
+    return NextResponse.json(scopedMemory);
   } catch (error: any) {
     console.error('Get memory error:', error);
     return NextResponse.json(
@@ -34,3 +50,72 @@ export async function GET(
     );
   }
 }
+
+// PATCH: Edit a memory's title, description, author, source URL and custom
+// fields. Omitted fields are left alone; null or an empty string clears one.
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const scope = await getRequestScope();
+    if (!scope) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const parsed = parseDocumentDetailsUpdate(await request.json());
+    if ('error' in parsed) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+
+    const store = getKnowledgeStore();
+    const memory = await getScopedMemory(store, scope, id);
+    const collections = memory ? collectionsFromTags(scope, memory.containerTags) : [];
+    if (!memory || !canAccessAny(scope, collections, 'viewer')) {
+      return NextResponse.json({ error: 'Memory not found' }, { status: 404 });
+    }
+
+    if (!canAccessAll(scope, collections, 'editor')) {
+      return NextResponse.json(
+        { error: 'You do not have permission to edit this document' },
+        { status: 403 }
+      );
+    }
+
+    const applied = applyDocumentDetails(memory.metadata, parsed.update);
+    if ('error' in applied) {
+      return NextResponse.json({ error: applied.error }, { status: 400 });
+    }
+
+    // Custom fields in a collection's schema must keep to their type
+    const fields = validateDocumentFields(
+      scope,
+      collections,
+      applied.metadata,
+      Object.keys(parsed.update.fields ?? {})
+    );
+    if ('error' in fields) {
+      return NextResponse.json({ error: fields.error }, { status: 400 });
+    }
+
+    const metadata = {
+      ...fields.metadata,
+      editedAt: new Date().toISOString(),
+      editedBy: scope.userId,
+    };
+    await store.update(id, { metadata });
+
+    return NextResponse.json({
+      success: true,
+      title: documentTitle(memory.title, metadata),
+      details: documentDetails(metadata),
+    });
+  } catch (error: any) {
+    console.error('Update memory error:', error);
+    return NextResponse.json(
+      { error: 'Failed to update memory', details: error.message },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { restoreVersion } from '@/lib/document-versions';
+import { getKnowledgeStore, MemoryNotFoundError } from '@/lib/knowledge-store';
+import { canAccessAll, canAccessAny } from '@/lib/permissions';
+import { collectionsFromTags, getRequestScope, getScopedMemory } from '@/lib/scope';
+import { getVersionRecord } from '@/lib/version-records';
+
+// POST: Make an older version the current version of a document
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; versionId: string }> }
+) {
+  try {
+    const scope = await getRequestScope();
+    if (!scope) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id, versionId } = await params;
+    const store = getKnowledgeStore();
+    const current = await getScopedMemory(store, scope, id);
+    const collections = current ? collectionsFromTags(scope, current.containerTags) : [];
+    if (!current || !canAccessAny(scope, collections, 'viewer')) {
+      return NextResponse.json({ error: 'Memory not found' }, { status: 404 });
+    }
+
+    const record = getVersionRecord(id);
+    const target = getVersionRecord(versionId);
+    if (!record || !target || target.groupId !== record.groupId) {
+      return NextResponse.json({ error: 'Version not found' }, { status: 404 });
+    }
+
+    if (!record.current || target.current) {
+      return NextResponse.json(
+        { error: 'Only an older version can be restored over the current one' },
+        { status: 409 }
+      );
+    }
+
+    if (!canAccessAll(scope, collections, 'editor')) {
+      return NextResponse.json(
+        { error: 'You do not have permission to restore versions of this document' },
+        { status: 403 }
+      );
+    }
+
+    try {
+      await restoreVersion(store, scope, current, target);
+    } catch (error) {
+      if (error instanceof MemoryNotFoundError) {
+        return NextResponse.json({ error: 'Version not found' }, { status: 404 });
+      }
+      throw error;
+    }
+
+    return NextResponse.json({ success: true, id: target.memoryId, version: target.version });
+  } catch (error: any) {
+    console.error('Restore document version error:', error);
+    return NextResponse.json(
+      { error: 'Failed to restore document version', details: error.message },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { listDocumentVersions } from '@/lib/document-versions';
+import { getKnowledgeStore } from '@/lib/knowledge-store';
+import { canAccessAny } from '@/lib/permissions';
+import { collectionsFromTags, getRequestScope, getScopedMemory } from '@/lib/scope';
+
+// GET: List every version of a document, newest first
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const scope = await getRequestScope();
+    if (!scope) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const store = getKnowledgeStore();
+    const memory = await getScopedMemory(store, scope, id);
+    if (!memory || !canAccessAny(scope, collectionsFromTags(scope, memory.containerTags), 'viewer')) {
+      return NextResponse.json({ error: 'Memory not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ versions: await listDocumentVersions(store, id) });
+  } catch (error: any) {
+    console.error('List document versions error:', error);
+    return NextResponse.json(
+      { error: 'Failed to list document versions', details: error.message },
+      { status: 500 }
+    );
+  }
+}
@@ -1,35 +1,114 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { Supermemory } from 'supermemory';
+import { getCollectionRecord, listCollectionRecords } from '@/lib/collection-records';
+import { deleteOlderVersions } from '@/lib/document-versions';
+import { describeDuplicate } from '@/lib/duplicates';
+import { findDuplicate, linkDuplicate, normalizeUrl, urlFingerprint } from '@/lib/fingerprints';
+import {
+  decodeCursor,
+  getKnowledgeStore,
+  InvalidCursorError,
+  MAX_PAGE_SIZE,
+  nextCursor,
+} from '@/lib/knowledge-store';
+import { parseDocumentMetadata, validateDocumentFields } from '@/lib/document-fields';
+import { parseLabelQuery } from '@/lib/labels';
+import { addNoteDocument } from '@/lib/note-documents';
+import { validateNoteContent } from '@/lib/notes';
+import { deleteOriginalFile } from '@/lib/original-files';
+import { canAccessAll, canAccessCollection } from '@/lib/permissions';
+import {
+  collectionTag,
+  getRequestScope,
+  getScopedMemory,
+  toScopedMemory,
+} from '@/lib/scope';
+import { trashDocument } from '@/lib/trash-bin';
+import { getTrashRetentionDays } from '@/lib/trash-records';
+import { addUrlDocument } from '@/lib/url-documents';
 
-const apiKey = process.env.SUPERMEMORY_API_KEY;
-
-if (!apiKey) {
-  throw new Error(
-    'The SUPERMEMORY_API_KEY environment variable is missing or empty. ' +
-    'Please set it in your .env or .env.local file.'
-  );
-}
-
-const client = new Supermemory({ apiKey });
-
-// GET: List memories
+// GET: List memories, one page at a time. Pass the returned `nextCursor` as
+// `cursor` to fetch the next page; it is null on the last page. Each page
+// starts after the last memory of the previous one, so memories added or
+// removed in between do not shift later pages. With `labels`, only memories
+// carrying every one of them are listed.
 export async function GET(request: NextRequest) {
   try {
+    const scope = await getRequestScope();
+    if (!scope) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
     const { searchParams } = new URL(request.url);
-    const containerTags = searchParams.get('containerTags')?.split(',').filter(Boolean);
-    const limit = parseInt(searchParams.get('limit') || '50', 10);
+    const collections = searchParams.get('containerTags')?.split(',').filter(Boolean);
+    const limit = Math.min(
+      Math.max(parseInt(searchParams.get('limit') || '50', 10) || 50, 1),
+      MAX_PAGE_SIZE
+    );
+    const cursor = searchParams.get('cursor');
+    const after = cursor ? decodeCursor(cursor) : undefined;
     const sort = searchParams.get('sort') || 'updatedAt';
-    const order = (searchParams.get('order') || 'desc') as 'asc' | 'desc';
+    const order = searchParams.get('order') || 'desc';
+    const labels = parseLabelQuery(searchParams.get('labels'));
+
+    if (!labels) {
+      return NextResponse.json(
+        { error: 'labels must be a comma-separated list of labels' },
+        { status: 400 }
+      );
+    }
+
+    if (sort !== 'updatedAt' && sort !== 'createdAt') {
+      return NextResponse.json(
+        { error: "sort must be 'updatedAt' or 'createdAt'" },
+        { status: 400 }
+      );
+    }
+
+    if (order !== 'asc' && order !== 'desc') {
+      return NextResponse.json({ error: "order must be 'asc' or 'desc'" }, { status: 400 });
+    }
 
-    const memories = await client.memories.list({
-      ...(containerTags?.length && { containerTags }),
+    if (collections?.some((collection) => !canAccessCollection(scope, collection, 'viewer'))) {
+      return NextResponse.json(
+        { error: 'You do not have access to this collection' },
+        { status: 403 }
+      );
+    }
+
+    // Only ever list memories inside the caller's scope. Without a
+    // collection filter, list the collections the caller can view.
+    const viewable = collections?.length
+      ? collections
+      : listCollectionRecords(scope)
+          .map((collection) => collection.name)
+          .filter((collection) => canAccessCollection(scope, collection, 'viewer'));
+
+    if (viewable.length === 0) {
+      return NextResponse.json({
+        memories: [],
+        pagination: { totalItems: 0, limit },
+        nextCursor: null,
+      });
+    }
+
+    const result = await getKnowledgeStore().list({
+      containerTags: viewable.map((collection) => collectionTag(scope, collection)),
+      labels,
       limit,
-      sort: sort as 'updatedAt' | 'createdAt',
+      after,
+      sort,
       order,
     });
 
-    return NextResponse.json(memories);
+    return NextResponse.json({
+      memories: result.memories.map((memory) => toScopedMemory(scope, memory)),
+      pagination: result.pagination,
+      nextCursor: nextCursor(result),
+    });
   } catch (error: any) {
+    if (error instanceof InvalidCursorError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
     console.error('List memories error:', error);
     return NextResponse.json(
       { error: 'Failed to list memories', details: error.message },
@@ -38,30 +117,88 @@ export async function GET(request: NextRequest) {
   }
 }
 
-// POST: Add a URL memory
+// POST: Add a URL memory (`{ url }`), or a Markdown note written in the
+// browser (`{ content }`). A URL that already exists in a collection the
+// caller can view is rejected with 409 and `code: 'DUPLICATE'`, or added to
+// the collection when `onDuplicate` is 'link'.
 export async function POST(request: NextRequest) {
   try {
+    const scope = await getRequestScope();
+    if (!scope) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
     const body = await request.json();
-    const { url, collection, metadata = {} } = body;
+    const { url, content, collection, onDuplicate = 'reject' } = body;
+
+    if (url && content !== undefined) {
+      return NextResponse.json(
+        { error: 'Send either a URL or note content, not both' },
+        { status: 400 }
+      );
+    }
 
-    if (!url) {
+    if (!url && content === undefined) {
       return NextResponse.json({ error: 'URL is required' }, { status: 400 });
     }
 
+    if (url && typeof url !== 'string') {
+      return NextResponse.json({ error: 'url must be a string' }, { status: 400 });
+    }
+
+    const contentError = content !== undefined ? validateNoteContent(content) : null;
+    if (contentError) {
+      return NextResponse.json({ error: contentError }, { status: 400 });
+    }
+
     if (!collection) {
       return NextResponse.json({ error: 'Collection is required' }, { status: 400 });
     }
 
-    const result = await client.memories.add({
-      content: url,
-      containerTag: collection,
-      metadata: {
-        type: 'url',
-        originalUrl: url,
-        uploadedAt: new Date().toISOString(),
-        ...metadata,
-      },
-    });
+    if (typeof collection !== 'string') {
+      return NextResponse.json({ error: 'collection must be a string' }, { status: 400 });
+    }
+
+    const metadata = parseDocumentMetadata(body.metadata);
+    if ('error' in metadata) {
+      return NextResponse.json({ error: metadata.error }, { status: 400 });
+    }
+
+    if (!getCollectionRecord(scope, collection)) {
+      return NextResponse.json({ error: 'Collection not found' }, { status: 404 });
+    }
+
+    if (!canAccessCollection(scope, collection, 'editor')) {
+      return NextResponse.json(
+        { error: 'You do not have permission to add documents to this collection' },
+        { status: 403 }
+      );
+    }
+
+    const fields = validateDocumentFields(scope, [collection], metadata.metadata);
+    if ('error' in fields) {
+      return NextResponse.json({ error: fields.error }, { status: 400 });
+    }
+
+    const store = getKnowledgeStore();
+    if (content !== undefined) {
+      const result = await addNoteDocument(store, scope, collection, content, fields.metadata);
+      return NextResponse.json(result);
+    }
+
+    const existing = await findDuplicate(store, scope, urlFingerprint(normalizeUrl(url)));
+    if (existing && onDuplicate === 'link') {
+      await linkDuplicate(store, scope, existing.memory, [collection]);
+      return NextResponse.json({ id: existing.memory.id, status: existing.memory.status, linked: true });
+    }
+    if (existing) {
+      return NextResponse.json(
+        { error: describeDuplicate(existing.duplicate), code: 'DUPLICATE', duplicate: existing.duplicate },
+        { status: 409 }
+      );
+    }
+
+    const result = await addUrlDocument(store, scope, collection, url, fields.metadata);
 
     return NextResponse.json(result);
   } catch (error: any) {
@@ -73,9 +210,14 @@ export async function POST(request: NextRequest) {
   }
 }
 
-// DELETE: Delete a memory
+// DELETE: Move a memory to the caller's trash, or delete it permanently when the trash is disabled
 export async function DELETE(request: NextRequest) {
   try {
+    const scope = await getRequestScope();
+    if (!scope) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
     const { searchParams } = new URL(request.url);
     const id = searchParams.get('id');
 
@@ -83,8 +225,29 @@ export async function DELETE(request: NextRequest) {
       return NextResponse.json({ error: 'Memory ID is required' }, { status: 400 });
     }
 
-    await client.memories.delete(id);
-    return NextResponse.json({ success: true });
+    const store = getKnowledgeStore();
+    const memory = await getScopedMemory(store, scope, id);
+    if (!memory) {
+      return NextResponse.json({ error: 'Memory not found' }, { status: 404 });
+    }
+
+    const { containerTags: memoryCollections } = toScopedMemory(scope, memory);
+    if (!canAccessAll(scope, memoryCollections, 'editor')) {
+      return NextResponse.json(
+        { error: 'You do not have permission to delete this document' },
+        { status: 403 }
+      );
+    }
+
+    if (getTrashRetentionDays() === 0) {
+      await store.delete(id);
+      await deleteOlderVersions(store, id);
+      await deleteOriginalFile(id);
+      return NextResponse.json({ success: true, trashItem: null });
+    }
+
+    const trashItem = await trashDocument(store, scope, memory);
+    return NextResponse.json({ success: true, trashItem });
   } catch (error: any) {
     console.error('Delete memory error:', error);
     return NextResponse.json(
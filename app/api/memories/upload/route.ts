@@ -0,0 +1,23 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { handleDocumentUpload } from '@/lib/document-upload';
+
+// POST: Upload a file from a multipart form (file, containerTags, metadata,
+// onDuplicate). Same as the uploadDocument server action, but over plain HTTP
+// so clients can report upload progress.
+export async function POST(request: NextRequest) {
+  let formData: FormData;
+  try {
+    formData = await request.formData();
+  } catch {
+    return NextResponse.json(
+      { success: false, error: 'Request body must be multipart form data' },
+      { status: 400 }
+    );
+  }
+
+  const { status, response } = await handleDocumentUpload(formData);
+  if (status === 500) {
+    console.error('Upload document error:', response.details);
+  }
+  return NextResponse.json(response, { status });
+}
@@ -0,0 +1,84 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { assembleUpload, discardUpload } from '@/lib/chunked-uploads';
+import { storeUploadedFile } from '@/lib/document-upload';
+import type { DuplicateAction } from '@/lib/duplicates';
+import { getRequestScope } from '@/lib/scope';
+import {
+  claimUploadCompletion,
+  getUploadFileDetails,
+  getUploadSession,
+  releaseUploadCompletion,
+} from '@/lib/upload-records';
+
+// POST: Assemble a fully received upload and store the file. Takes an
+// optional onDuplicate ('reject' or 'link') and answers like
+// POST /api/memories/upload. The parts are kept if the file is rejected as a
+// duplicate or storing it fails, so completing can be retried. Answers 409
+// while another request is completing the same upload
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const scope = await getRequestScope();
+    if (!scope) {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const upload = getUploadSession(scope, id);
+    if (!upload) {
+      return NextResponse.json({ success: false, error: 'Upload not found' }, { status: 404 });
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const onDuplicate: DuplicateAction = body.onDuplicate === 'link' ? 'link' : 'reject';
+
+    const received = new Set(upload.receivedParts);
+    const missingParts = Array.from({ length: upload.partCount }, (_, index) => index + 1).filter(
+      (partNumber) => !received.has(partNumber)
+    );
+    if (missingParts.length > 0) {
+      return NextResponse.json(
+        { success: false, error: `Upload is missing ${missingParts.length} part(s)`, missingParts },
+        { status: 409 }
+      );
+    }
+
+    if (!claimUploadCompletion(upload.id)) {
+      return NextResponse.json(
+        { success: false, error: 'Upload is already being completed' },
+        { status: 409 }
+      );
+    }
+
+    try {
+      const { fileType, metadata } = getUploadFileDetails(upload.id);
+      const { file, contentHash } = await assembleUpload(upload, fileType);
+      const { status, response } = await storeUploadedFile(scope, {
+        file,
+        collections: upload.collections,
+        metadata,
+        onDuplicate,
+        contentHash,
+      });
+
+      if (status === 500) {
+        console.error('Complete upload error:', response.details);
+      } else if (response.success) {
+        await discardUpload(upload.id);
+      }
+
+      return NextResponse.json(response, { status });
+    } finally {
+      // A discarded upload has no record left to release
+      releaseUploadCompletion(upload.id);
+    }
+  } catch (error: any) {
+    console.error('Complete upload error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to complete upload', details: error.message },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { PartSizeError, saveUploadPart } from '@/lib/chunked-uploads';
+import { getRequestScope } from '@/lib/scope';
+import { getUploadSession } from '@/lib/upload-records';
+import { partSizeOf } from '@/lib/uploads';
+
+// PUT: Store one part of an upload, sent as the raw request body. Parts may
+// be sent in any order, and re-sending a part replaces it
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; partNumber: string }> }
+) {
+  try {
+    const scope = await getRequestScope();
+    if (!scope) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id, partNumber: partNumberParam } = await params;
+    const upload = getUploadSession(scope, id);
+    if (!upload) {
+      return NextResponse.json({ error: 'Upload not found' }, { status: 404 });
+    }
+
+    const partNumber = Number(partNumberParam);
+    if (!Number.isInteger(partNumber) || partNumber < 1 || partNumber > upload.partCount) {
+      return NextResponse.json(
+        { error: `partNumber must be between 1 and ${upload.partCount}` },
+        { status: 400 }
+      );
+    }
+
+    // Reject a part of the wrong declared size before reading any of it; the
+    // body is then counted as it is written, so an oversized one is cut off
+    const expectedSize = partSizeOf(upload, partNumber);
+    const contentLength = request.headers.get('content-length');
+    if (contentLength !== null && Number(contentLength) !== expectedSize) {
+      return NextResponse.json(
+        { error: `Part ${partNumber} must be ${expectedSize} bytes, received ${contentLength}` },
+        { status: 400 }
+      );
+    }
+
+    await saveUploadPart(upload, partNumber, request.body);
+
+    return NextResponse.json({ success: true, partNumber });
+  } catch (error: any) {
+    if (error instanceof PartSizeError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    console.error('Upload part error:', error);
+    return NextResponse.json(
+      { error: 'Failed to store upload part', details: error.message },
+      { status: 500 }
+    );
+  }
+}
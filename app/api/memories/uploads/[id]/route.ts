@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { discardUpload } from '@/lib/chunked-uploads';
+import { getRequestScope } from '@/lib/scope';
+import { getUploadSession } from '@/lib/upload-records';
+
+// GET: An upload's status, including the parts received so far, so an
+// interrupted upload can be resumed
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const scope = await getRequestScope();
+    if (!scope) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const upload = getUploadSession(scope, id);
+    if (!upload) {
+      return NextResponse.json({ error: 'Upload not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ upload });
+  } catch (error: any) {
+    console.error('Get upload error:', error);
+    return NextResponse.json(
+      { error: 'Failed to get upload', details: error.message },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE: Abandon an upload and discard its parts
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const scope = await getRequestScope();
+    if (!scope) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const upload = getUploadSession(scope, id);
+    if (!upload) {
+      return NextResponse.json({ error: 'Upload not found' }, { status: 404 });
+    }
+
+    await discardUpload(upload.id);
+
+    return NextResponse.json({ success: true });
+  } catch (error: any) {
+    console.error('Discard upload error:', error);
+    return NextResponse.json(
+      { error: 'Failed to discard upload', details: error.message },
+      { status: 500 }
+    );
+  }
+}
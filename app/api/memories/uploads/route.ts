@@ -0,0 +1,79 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { purgeExpiredUploads } from '@/lib/chunked-uploads';
+import { parseCollectionNames } from '@/lib/collections';
+import { UPLOAD_PART_SIZE_BYTES } from '@/lib/constants';
+import { parseDocumentMetadata, validateDocumentFields } from '@/lib/document-fields';
+import { checkUploadTarget } from '@/lib/document-upload';
+import { checkFileDeclaration } from '@/lib/file-validation';
+import { getRequestScope } from '@/lib/scope';
+import { createUploadSession } from '@/lib/upload-records';
+
+// POST: Start a chunked upload of a file to collections. Responds with the
+// upload, whose parts are then sent to /api/memories/uploads/[id]/parts/[n]
+export async function POST(request: NextRequest) {
+  try {
+    const scope = await getRequestScope();
+    if (!scope) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const { fileName, fileType, size } = body;
+
+    if (typeof fileName !== 'string' || !fileName.trim()) {
+      return NextResponse.json({ error: 'fileName is required' }, { status: 400 });
+    }
+
+    if (!Number.isInteger(size) || size < 0) {
+      return NextResponse.json({ error: 'size must be a number of bytes' }, { status: 400 });
+    }
+
+    // The content is checked on completion; reject what can be rejected before any part is sent
+    const declarationError = checkFileDeclaration(fileName, size);
+    if (declarationError) {
+      return NextResponse.json(
+        { error: declarationError.message, code: declarationError.code },
+        { status: declarationError.status }
+      );
+    }
+
+    const collections = parseCollectionNames(body.collections);
+    if (!collections) {
+      return NextResponse.json({ error: 'collections must be a non-empty array of names' }, { status: 400 });
+    }
+
+    const targetError = checkUploadTarget(scope, collections);
+    if (targetError) {
+      return NextResponse.json({ error: targetError.response.error }, { status: targetError.status });
+    }
+
+    const metadata = parseDocumentMetadata(body.metadata);
+    if ('error' in metadata) {
+      return NextResponse.json({ error: metadata.error }, { status: 400 });
+    }
+
+    const fields = validateDocumentFields(scope, collections, metadata.metadata);
+    if ('error' in fields) {
+      return NextResponse.json({ error: fields.error }, { status: 400 });
+    }
+
+    await purgeExpiredUploads();
+
+    const upload = createUploadSession(scope, {
+      fileName,
+      fileType: typeof fileType === 'string' ? fileType : '',
+      size,
+      partSize: UPLOAD_PART_SIZE_BYTES,
+      collections,
+      metadata: fields.metadata,
+    });
+
+    return NextResponse.json({ upload }, { status: 201 });
+  } catch (error: any) {
+    console.error('Start upload error:', error);
+    return NextResponse.json(
+      { error: 'Failed to start upload', details: error.message },
+      { status: 500 }
+    );
+  }
+}
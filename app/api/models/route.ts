@@ -0,0 +1,20 @@
+import { NextResponse } from 'next/server';
+import { getDefaultModelId, listModels } from '@/lib/llm';
+import type { ModelsResponse } from '@/lib/models';
+
+// GET: List the language models available for Q&A
+export async function GET() {
+  try {
+    const response: ModelsResponse = {
+      models: listModels(),
+      defaultModel: getDefaultModelId(),
+    };
+    return NextResponse.json(response);
+  } catch (error: any) {
+    console.error('List models error:', error);
+    return NextResponse.json(
+      { error: 'Failed to list models', details: error.message },
+      { status: 500 }
+    );
+  }
+}
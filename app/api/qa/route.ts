@@ -1,34 +1,45 @@
 import { streamText } from 'ai';
-import { createOpenAI } from '@ai-sdk/openai';
-import { Supermemory } from 'supermemory';
-
-// Validate environment variables
-const supermemoryApiKey = process.env.SUPERMEMORY_API_KEY;
-const openaiApiKey = process.env.OPENAI_API_KEY;
-
-if (!supermemoryApiKey) {
-  throw new Error(
-    'The SUPERMEMORY_API_KEY environment variable is missing or empty. ' +
-    'Please set it in your .env or .env.local file.'
-  );
-}
+import { documentSourceUrl, documentTitle } from '@/lib/document-details';
+import { getOlderVersion } from '@/lib/document-versions';
+import { getKnowledgeStore } from '@/lib/knowledge-store';
+import { parseLabelList } from '@/lib/labels';
+import { resolveModel, UnknownModelError, type ResolvedModel } from '@/lib/llm';
+import { listCollectionRecords } from '@/lib/collection-records';
+import { canAccessCollection } from '@/lib/permissions';
+import {
+  collectionsFromTags,
+  containerTagsFor,
+  getRequestScope,
+  getScopedMemory,
+  versionsTag,
+} from '@/lib/scope';
+import { getVersionRecord } from '@/lib/version-records';
 
-if (!openaiApiKey) {
-  throw new Error(
-    'The OPENAI_API_KEY environment variable is missing or empty. ' +
-    'Please set it in your .env or .env.local file.'
-  );
-}
+export async function POST(request: Request) {
+  const scope = await getRequestScope();
+  if (!scope) {
+    return Response.json({ error: 'Unauthorized' }, { status: 401 });
+  }
 
-// Configure OpenAI
-const openai = createOpenAI({
-  apiKey: openaiApiKey,
-});
+  const { messages, model, temperature, maxOutputTokens, includeOlderVersions, labels: labelFilter } =
+    await request.json();
 
-const client = new Supermemory({ apiKey: supermemoryApiKey });
+  // Only documents carrying every one of these labels are used
+  const labels = parseLabelList(labelFilter);
+  if (!labels) {
+    return Response.json({ error: 'labels must be an array of labels' }, { status: 400 });
+  }
 
-export async function POST(request: Request) {
-  const { messages } = await request.json();
+  // Resolve the requested model and its parameters before doing any work
+  let resolvedModel: ResolvedModel;
+  try {
+    resolvedModel = resolveModel({ model, temperature, maxOutputTokens });
+  } catch (error: any) {
+    if (error instanceof UnknownModelError) {
+      return Response.json({ error: error.message }, { status: 400 });
+    }
+    throw error;
+  }
 
   // Extract the latest user message (ai-sdk v6 uses parts array with text)
   const lastMessage = messages[messages.length - 1];
@@ -72,19 +83,35 @@ export async function POST(request: Request) {
     }
 
   try {
-    // Search for relevant documents across all collections
-    const searchResults = await client.search.documents({
-      q: question,
-      limit: 8,
-      rerank: true,
-      includeFullDocs: true,
-      includeSummary: true,
-      onlyMatchingChunks: false,
-      documentThreshold: 0.3,
-      chunkThreshold: 0.4,
-    });
+    const store = getKnowledgeStore();
+
+    // Collections the caller can view and that have not been excluded from search
+    const searchableCollections = new Set(
+      listCollectionRecords(scope)
+        .filter((collection) => collection.settings.includeInSearch)
+        .filter((collection) => canAccessCollection(scope, collection.name, 'viewer'))
+        .map((collection) => collection.name)
+    );
+
+    // Search only those collections, so documents the caller cannot use do
+    // not take up the result limit. Older versions of re-uploaded files are
+    // only searched on request.
+    const searchResults = searchableCollections.size
+      ? await store.search({
+          q: question,
+          containerTags: [
+            ...containerTagsFor(scope, [...searchableCollections]),
+            ...(includeOlderVersions ? [versionsTag(scope)] : []),
+          ],
+          labels,
+          limit: 8,
+          rerank: true,
+          documentThreshold: 0.3,
+          chunkThreshold: 0.4,
+        })
+      : [];
 
-    if (searchResults.results.length === 0) {
+    if (searchResults.length === 0) {
       return Response.json({
         answer:
           "I couldn't find any relevant information in the uploaded documents to answer your question.",
@@ -93,20 +120,55 @@ export async function POST(request: Request) {
       });
     }
 
-    // Fetch full document details to get containerTags (collections)
+    // Fetch full document details to get containerTags (collections).
+    // Older versions take the collections of their current version. As a
+    // safety check, results outside the caller's scope, or only in
+    // collections the caller cannot view or that are excluded from search,
+    // come back as null and are dropped; older versions of other documents
+    // in the scope are dropped here too.
     const documentDetails = await Promise.all(
-      searchResults.results.map(async (result) => {
+      searchResults.map(async (result) => {
         try {
-          const doc = await client.documents.get(result.documentId);
-          return doc;
+          const doc =
+            (await getScopedMemory(store, scope, result.documentId)) ??
+            (includeOlderVersions ? await getOlderVersion(store, scope, result.documentId) : null);
+          return doc &&
+            collectionsFromTags(scope, doc.containerTags).some((collection) =>
+              searchableCollections.has(collection)
+            )
+            ? doc
+            : null;
         } catch (e) {
           return null;
         }
       })
     );
 
+    const scopedResults = searchResults.filter((_, index) => documentDetails[index]);
+    const scopedDetails = documentDetails.filter((doc) => doc !== null);
+
+    if (scopedResults.length === 0) {
+      return Response.json({
+        answer:
+          "I couldn't find any relevant information in the uploaded documents to answer your question.",
+        sources: [],
+        confidence: 0,
+      });
+    }
+
+    // Titles edited on the document win over the ones found in search results.
+    // Label older versions so answers can tell them apart from current ones.
+    const titles = scopedResults.map((result, index) => {
+      const doc = scopedDetails[index];
+      const title = documentTitle(doc.title ?? result.title, doc.metadata);
+      const version = includeOlderVersions ? getVersionRecord(result.documentId) : null;
+      return version && !version.current
+        ? `${title} (version ${version.version}, superseded)`
+        : title;
+    });
+
     // Prepare context from search results
-    const context = searchResults.results
+    const context = scopedResults
       .map((result, index) => {
         // Use relevant chunks if available, otherwise use top chunks by score
         let relevantChunks = result.chunks.filter((chunk) => chunk.isRelevant);
@@ -122,25 +184,22 @@ export async function POST(request: Request) {
           .map((chunk) => chunk.content)
           .join('\n\n');
 
-        return `[Document ${index + 1}: "${result.title}" (ID: ${result.documentId})]\n${chunks}`;
+        return `[Document ${index + 1}: "${titles[index]}" (ID: ${result.documentId})]\n${chunks}`;
       })
       .join('\n\n---\n\n');
 
     // Prepare sources with document URLs and collections for citation
-    const sources = searchResults.results.map((result, index) => {
-      // Extract URL from metadata - check both content (for full docs) and metadata
-      const content = (result as any).content || '';
-      const metadata = (result as any).metadata || {};
-      const originalUrl = metadata.originalUrl || metadata.url || null;
-      
-      // Get collections from the full document details
-      const fullDoc = documentDetails[index];
-      const containerTags = (fullDoc as any)?.containerTags || [];
-      const collections = containerTags.filter((tag: string) => tag !== 'all');
+    const sources = scopedResults.map((result, index) => {
+      // Get the URL and collections from the full document details
+      const fullDoc = scopedDetails[index];
+      const originalUrl = documentSourceUrl(fullDoc.metadata);
+      const collections = collectionsFromTags(scope, fullDoc.containerTags).filter((collection) =>
+        canAccessCollection(scope, collection, 'viewer')
+      );
       
       return {
         id: result.documentId,
-        title: result.title,
+        title: titles[index],
         type: result.type,
         url: originalUrl,
         collections: collections,
@@ -184,11 +243,11 @@ ${sourcesList}
 If the question cannot be answered from the provided documents, respond with: "I don't have enough information in the provided documents to answer this question accurately."`;
 
     const result = streamText({
-      model: openai('gpt-4o-mini'),
+      model: resolvedModel.model,
       messages: formattedMessages,
       system: systemPrompt,
-      temperature: 0.1,
-      maxOutputTokens: 2000,
+      temperature: resolvedModel.temperature,
+      maxOutputTokens: resolvedModel.maxOutputTokens,
     });
 
     // Stream the response using text stream format for TextStreamChatTransport
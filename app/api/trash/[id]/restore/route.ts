@@ -0,0 +1,99 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCollectionRecord } from '@/lib/collection-records';
+import { startJob } from '@/lib/job-runner';
+import { getKnowledgeStore, MemoryNotFoundError } from '@/lib/knowledge-store';
+import { canAccessAll } from '@/lib/permissions';
+import { collectionsFromTags, getRequestScope } from '@/lib/scope';
+import {
+  restorableTags,
+  restoreCollection,
+  restoreDocument,
+  restoreTrashedDocuments,
+} from '@/lib/trash-bin';
+import {
+  deleteTrashItem,
+  getTrashItem,
+  listTrashedDocuments,
+  setTrashItemState,
+} from '@/lib/trash-records';
+
+// POST: Restore a trashed document to its collections, or re-create a trashed
+// collection and start a background job that restores its documents
+// (responds with 202 and the job)
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const scope = await getRequestScope();
+    if (!scope) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const item = getTrashItem(scope, id);
+    if (!item) {
+      return NextResponse.json({ error: 'Trash item not found' }, { status: 404 });
+    }
+
+    const store = getKnowledgeStore();
+
+    if (item.kind === 'collection') {
+      if (getCollectionRecord(scope, item.name)) {
+        return NextResponse.json(
+          { error: `A collection named "${item.name}" already exists. Rename it first.` },
+          { status: 409 }
+        );
+      }
+
+      restoreCollection(scope, item.id);
+      setTrashItemState(item.id, 'restoring');
+      const job = startJob(
+        scope,
+        'restore-collection',
+        item.name,
+        null,
+        restoreTrashedDocuments(store, scope, item.id)
+      );
+      return NextResponse.json({ success: true, job }, { status: 202 });
+    }
+
+    const [document] = listTrashedDocuments(item.id);
+    const collections = collectionsFromTags(scope, restorableTags(scope, document.containerTags));
+
+    if (collections.length === 0) {
+      return NextResponse.json(
+        {
+          error: `None of the document's collections exist anymore. Restore or re-create one of them first: ${item.collections.join(', ')}`,
+        },
+        { status: 409 }
+      );
+    }
+
+    if (!canAccessAll(scope, collections, 'editor')) {
+      return NextResponse.json(
+        { error: 'You do not have permission to restore documents to these collections' },
+        { status: 403 }
+      );
+    }
+
+    try {
+      await restoreDocument(store, scope, item.id, document);
+    } catch (error) {
+      if (error instanceof MemoryNotFoundError) {
+        deleteTrashItem(item.id);
+        return NextResponse.json({ error: 'Document no longer exists' }, { status: 404 });
+      }
+      throw error;
+    }
+    deleteTrashItem(item.id);
+
+    return NextResponse.json({ success: true, collections });
+  } catch (error: any) {
+    console.error('Restore trash item error:', error);
+    return NextResponse.json(
+      { error: 'Failed to restore trash item', details: error.message },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { startJob } from '@/lib/job-runner';
+import { getKnowledgeStore } from '@/lib/knowledge-store';
+import { getRequestScope } from '@/lib/scope';
+import { purgeTrashedDocument, purgeTrashedDocuments } from '@/lib/trash-bin';
+import {
+  deleteTrashItem,
+  getTrashItem,
+  listTrashedDocuments,
+  setTrashItemState,
+} from '@/lib/trash-records';
+
+// DELETE: Permanently delete a trashed document, or start a background job
+// that purges a trashed collection (responds with 202 and the job)
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const scope = await getRequestScope();
+    if (!scope) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const item = getTrashItem(scope, id);
+    if (!item) {
+      return NextResponse.json({ error: 'Trash item not found' }, { status: 404 });
+    }
+
+    const store = getKnowledgeStore();
+
+    if (item.kind === 'collection') {
+      setTrashItemState(item.id, 'purging');
+      const job = startJob(
+        scope,
+        'purge-collection',
+        item.name,
+        null,
+        purgeTrashedDocuments(store, scope, item.id)
+      );
+      return NextResponse.json({ success: true, job }, { status: 202 });
+    }
+
+    for (const document of listTrashedDocuments(item.id)) {
+      await purgeTrashedDocument(store, scope, item.id, document);
+    }
+    deleteTrashItem(item.id);
+
+    return NextResponse.json({ success: true });
+  } catch (error: any) {
+    console.error('Purge trash item error:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete trash item', details: error.message },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,25 @@
+import { NextResponse } from 'next/server';
+import { getRequestScope } from '@/lib/scope';
+import { getTrashRetentionDays, listTrashItems } from '@/lib/trash-records';
+
+// GET: List the documents and collections the caller has deleted. Items whose
+// retention window has passed are purged by the refresh pass, not here
+export async function GET() {
+  try {
+    const scope = await getRequestScope();
+    if (!scope) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    return NextResponse.json({
+      items: listTrashItems(scope),
+      retentionDays: getTrashRetentionDays(),
+    });
+  } catch (error: any) {
+    console.error('List trash error:', error);
+    return NextResponse.json(
+      { error: 'Failed to list trash', details: error.message },
+      { status: 500 }
+    );
+  }
+}
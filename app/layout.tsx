@@ -2,6 +2,7 @@ import type { Metadata } from "next";
 import { Inter } from "next/font/google";
 import {
   ClerkProvider,
+  OrganizationSwitcher,
   SignedIn,
   UserButton,
 } from "@clerk/nextjs";
@@ -33,7 +34,10 @@ export default function RootLayout({
                     Powered by AI - Upload documents and get AI answers with citations
                   </p>
                 </div>
-                <UserButton />
+                <div className="flex items-center gap-4">
+                  <OrganizationSwitcher />
+                  <UserButton />
+                </div>
               </div>
             </header>
           </SignedIn>
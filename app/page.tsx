@@ -14,6 +14,14 @@ import { useToast } from '@/components/ui/use-toast';
 import { CollectionGrid } from '@/components/collection-grid';
 import { CollectionDetail } from '@/components/collection-detail';
 import { CreateCollectionDialog } from '@/components/create-collection-dialog';
+import { JobTray } from '@/components/job-tray';
+import { LabelFilter } from '@/components/label-filter';
+import { ModelPicker } from '@/components/model-picker';
+import { TrashView } from '@/components/trash-view';
+import { UndoToastAction } from '@/components/undo-toast-action';
+import type { LabelSummary } from '@/lib/labels';
+import type { ModelSettings } from '@/lib/models';
+import type { CollectionDetailsInput, CollectionWithStats } from '@/lib/collections';
 import {
   Dialog,
   DialogContent,
@@ -34,14 +42,9 @@ import {
   MessageSquare,
   ExternalLink,
   FileIcon,
+  Trash2,
 } from 'lucide-react';
 
-interface Collection {
-  name: string;
-  documentCount: number;
-  lastUpdated?: string | null;
-}
-
 // Component to render plain message text (stops at Sources section)
 function MessageContent({
   text,
@@ -196,11 +199,15 @@ function DocumentViewerDialog({
 }
 
 // Separate Chat component
-function ChatInterface({ documents }: { documents: Document[] }) {
+function ChatInterface({ hasDocuments }: { hasDocuments: boolean }) {
   const [input, setInput] = useState('');
   const scrollRef = useRef<HTMLDivElement>(null);
   const [viewerOpen, setViewerOpen] = useState(false);
   const [selectedDocId, setSelectedDocId] = useState<string | null>(null);
+  const [modelSettings, setModelSettings] = useState<ModelSettings>({});
+  const [includeOlderVersions, setIncludeOlderVersions] = useState(false);
+  const [labels, setLabels] = useState<LabelSummary[]>([]);
+  const [labelFilter, setLabelFilter] = useState<string[]>([]);
 
   const { messages, sendMessage, status } = useChat({
     transport: new TextStreamChatTransport({
@@ -220,7 +227,11 @@ function ChatInterface({ documents }: { documents: Document[] }) {
 
     const currentInput = input;
     setInput('');
-    await sendMessage({ text: currentInput });
+    // The selected model, its parameters and the search options travel with every request
+    await sendMessage(
+      { text: currentInput },
+      { body: { ...modelSettings, includeOlderVersions, labels: labelFilter } }
+    );
   };
 
   const handleDocumentClick = (docId: string) => {
@@ -228,6 +239,14 @@ function ChatInterface({ documents }: { documents: Document[] }) {
     setViewerOpen(true);
   };
 
+  // Labels to narrow answers down to documents carrying them
+  useEffect(() => {
+    new DocumentProcessor()
+      .listLabels()
+      .then(setLabels)
+      .catch(() => setLabels([]));
+  }, []);
+
   useEffect(() => {
     if (scrollRef.current) {
       scrollRef.current.scrollTop = scrollRef.current.scrollHeight;
@@ -242,8 +261,29 @@ function ChatInterface({ documents }: { documents: Document[] }) {
           <CardDescription>
             Get AI-powered answers from all your documents
           </CardDescription>
+          <ModelPicker
+            settings={modelSettings}
+            onChange={setModelSettings}
+            disabled={isLoading}
+          />
+          <label className="flex items-center gap-2 text-sm text-muted-foreground">
+            <input
+              type="checkbox"
+              checked={includeOlderVersions}
+              disabled={isLoading}
+              onChange={(e) => setIncludeOlderVersions(e.target.checked)}
+            />
+            Also search older versions of re-uploaded documents
+          </label>
+          <LabelFilter
+            labels={labels}
+            value={labelFilter}
+            onChange={setLabelFilter}
+            disabled={isLoading}
+            className="text-muted-foreground"
+          />
         </CardHeader>
-        <CardContent className="h-[calc(100%-5rem)] flex flex-col">
+        <CardContent className="h-[calc(100%-11rem)] flex flex-col">
           <ScrollArea className="flex-1 pr-4" ref={scrollRef}>
             <div className="space-y-4">
               {messages.length === 0 && (
@@ -306,15 +346,15 @@ function ChatInterface({ documents }: { documents: Document[] }) {
               value={input}
               onChange={handleInputChange}
               placeholder="Ask a question about your documents..."
-              disabled={isLoading || documents.length === 0}
+              disabled={isLoading || !hasDocuments}
               className="flex-1"
             />
-            <Button type="submit" disabled={isLoading || !input.trim() || documents.length === 0}>
+            <Button type="submit" disabled={isLoading || !input.trim() || !hasDocuments}>
               {isLoading ? <Loader2 className="h-4 w-4 animate-spin" /> : <Send className="h-4 w-4" />}
             </Button>
           </form>
 
-          {documents.length === 0 && (
+          {!hasDocuments && (
             <p className="text-sm text-muted-foreground mt-2 text-center">
               Upload documents to enable questions
             </p>
@@ -337,10 +377,13 @@ function ChatInterface({ documents }: { documents: Document[] }) {
 // Collections Management Component
 function CollectionsManager({
   onRefreshDocuments,
+  refreshKey,
 }: {
   onRefreshDocuments: () => void;
+  /** Changes whenever collections should be reloaded, e.g. after a background job finishes */
+  refreshKey: number;
 }) {
-  const [collections, setCollections] = useState<Collection[]>([]);
+  const [collections, setCollections] = useState<CollectionWithStats[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [selectedCollection, setSelectedCollection] = useState<string | null>(null);
   const [isCreateDialogOpen, setIsCreateDialogOpen] = useState(false);
@@ -350,25 +393,12 @@ function CollectionsManager({
 
   useEffect(() => {
     loadCollections();
-  }, []);
+  }, [refreshKey]);
 
   const loadCollections = async () => {
     setIsLoading(true);
     try {
-      const collectionNames = await processor.listCollections();
-
-      // Get stats for each collection
-      const collectionsWithStats: Collection[] = await Promise.all(
-        collectionNames.map(async (name) => {
-          const stats = await processor.getCollectionStats(name);
-          return {
-            name,
-            documentCount: stats.totalDocs,
-            lastUpdated: stats.lastUpdated,
-          };
-        })
-      );
-
+      const collectionsWithStats = await processor.listCollectionsWithStats();
       setCollections(collectionsWithStats.sort((a, b) => a.name.localeCompare(b.name)));
     } catch (error: any) {
       toast({
@@ -381,9 +411,9 @@ function CollectionsManager({
     }
   };
 
-  const handleCreateCollection = async (name: string) => {
+  const handleCreateCollection = async (name: string, details: CollectionDetailsInput) => {
     try {
-      await processor.createCollection(name);
+      await processor.createCollection(name, details);
       toast({
         title: 'Success',
         description: `Collection "${name}" created`,
@@ -403,13 +433,17 @@ function CollectionsManager({
 
   const handleDeleteCollection = async (name: string) => {
     try {
-      await processor.deleteCollection(name);
+      const { trashItem } = await processor.deleteCollection(name);
       toast({
-        title: 'Deleted',
-        description: `Collection "${name}" and all its documents have been deleted`,
+        title: 'Delete Started',
+        description: trashItem
+          ? `Moving "${name}" and all its documents to the trash`
+          : `Deleting "${name}" and all its documents in the background`,
+        action: trashItem ? (
+          <UndoToastAction trashItem={trashItem} onRestored={loadCollections} />
+        ) : undefined,
       });
       await loadCollections();
-      onRefreshDocuments();
     } catch (error: any) {
       toast({
         title: 'Error',
@@ -460,6 +494,10 @@ function CollectionsManager({
           onSelectCollection={setSelectedCollection}
           onDeleteCollection={handleDeleteCollection}
           onCreateCollection={() => setIsCreateDialogOpen(true)}
+          onCollectionsChanged={() => {
+            loadCollections();
+            onRefreshDocuments();
+          }}
         />
       </div>
 
@@ -474,24 +512,21 @@ function CollectionsManager({
 }
 
 export default function DocumentQA() {
-  const [allDocuments, setAllDocuments] = useState<Document[]>([]);
+  const [hasDocuments, setHasDocuments] = useState(false);
+  const [collectionsRefreshKey, setCollectionsRefreshKey] = useState(0);
   const { toast } = useToast();
 
   const processor = new DocumentProcessor();
 
   useEffect(() => {
-    loadAllDocuments();
+    checkForDocuments();
   }, []);
 
-  const loadAllDocuments = async () => {
+  // Chat is enabled once any collection has a document
+  const checkForDocuments = async () => {
     try {
-      const allDocs: Document[] = [];
-      const cols = await processor.listCollections();
-      for (const col of cols) {
-        const docs = await processor.listDocuments(col);
-        allDocs.push(...docs);
-      }
-      setAllDocuments(allDocs);
+      const cols = await processor.listCollectionsWithStats();
+      setHasDocuments(cols.some((col) => col.stats.documentCount > 0));
     } catch (error: any) {
       toast({
         title: 'Error',
@@ -506,7 +541,7 @@ export default function DocumentQA() {
       <Toaster />
       <div className="max-w-7xl mx-auto">
         <Tabs defaultValue="chat" className="space-y-6">
-          <TabsList className="grid w-full max-w-md grid-cols-2">
+          <TabsList className="grid w-full max-w-md grid-cols-3">
             <TabsTrigger value="chat">
               <MessageSquare className="mr-2 h-4 w-4" />
               Chat
@@ -515,17 +550,40 @@ export default function DocumentQA() {
               <Database className="mr-2 h-4 w-4" />
               Collections
             </TabsTrigger>
+            <TabsTrigger value="trash">
+              <Trash2 className="mr-2 h-4 w-4" />
+              Trash
+            </TabsTrigger>
           </TabsList>
 
           <TabsContent value="chat" className="mt-6">
-            <ChatInterface documents={allDocuments} />
+            <ChatInterface hasDocuments={hasDocuments} />
           </TabsContent>
 
           <TabsContent value="collections" className="mt-6">
-            <CollectionsManager onRefreshDocuments={loadAllDocuments} />
+            <CollectionsManager
+              onRefreshDocuments={checkForDocuments}
+              refreshKey={collectionsRefreshKey}
+            />
+          </TabsContent>
+
+          <TabsContent value="trash" className="mt-6">
+            <TrashView
+              refreshKey={collectionsRefreshKey}
+              onRestored={() => {
+                setCollectionsRefreshKey((key) => key + 1);
+                checkForDocuments();
+              }}
+            />
           </TabsContent>
         </Tabs>
       </div>
+      <JobTray
+        onJobFinished={() => {
+          setCollectionsRefreshKey((key) => key + 1);
+          checkForDocuments();
+        }}
+      />
     </div>
   );
 }
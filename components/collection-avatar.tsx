@@ -0,0 +1,44 @@
+'use client';
+
+import {
+  Book,
+  Briefcase,
+  FlaskConical,
+  Folder,
+  Globe,
+  GraduationCap,
+  Scale,
+  type LucideIcon,
+} from 'lucide-react';
+import type { CollectionColor, CollectionIcon } from '@/lib/collections';
+import { cn } from '@/lib/utils';
+
+const ICONS: Record<CollectionIcon, LucideIcon> = {
+  folder: Folder,
+  book: Book,
+  briefcase: Briefcase,
+  flask: FlaskConical,
+  'graduation-cap': GraduationCap,
+  scale: Scale,
+  globe: Globe,
+};
+
+export const COLOR_CLASSES: Record<CollectionColor, { text: string; swatch: string }> = {
+  slate: { text: 'text-slate-500', swatch: 'bg-slate-500' },
+  blue: { text: 'text-blue-500', swatch: 'bg-blue-500' },
+  green: { text: 'text-green-600', swatch: 'bg-green-600' },
+  amber: { text: 'text-amber-500', swatch: 'bg-amber-500' },
+  red: { text: 'text-red-500', swatch: 'bg-red-500' },
+  violet: { text: 'text-violet-500', swatch: 'bg-violet-500' },
+};
+
+interface CollectionAvatarProps {
+  icon: CollectionIcon;
+  color: CollectionColor;
+  className?: string;
+}
+
+export function CollectionAvatar({ icon, color, className }: CollectionAvatarProps) {
+  const Icon = ICONS[icon] || Folder;
+  return <Icon className={cn('h-5 w-5 flex-shrink-0', COLOR_CLASSES[color]?.text, className)} />;
+}
@@ -1,8 +1,9 @@
 'use client';
 
-import { Folder, Trash2, FileText } from 'lucide-react';
+import { Trash2, FileText, Share2, Pencil, Merge } from 'lucide-react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
 import {
   Dialog,
   DialogContent,
@@ -12,71 +13,147 @@ import {
   DialogTitle,
   DialogTrigger,
 } from '@/components/ui/dialog';
+import { CollectionAvatar } from './collection-avatar';
+import { MergeCollectionDialog } from './merge-collection-dialog';
+import { RenameCollectionDialog } from './rename-collection-dialog';
+import { ShareCollectionDialog } from './share-collection-dialog';
+import type { CollectionColor, CollectionIcon, CollectionStats } from '@/lib/collections';
+import type { CollectionRole } from '@/lib/roles';
 
 interface CollectionCardProps {
   name: string;
-  documentCount: number;
-  lastUpdated?: string | null;
+  description: string;
+  icon: CollectionIcon;
+  color: CollectionColor;
+  stats: CollectionStats;
+  role: CollectionRole;
+  /** Names of every collection, to reject renames that clash */
+  collectionNames: string[];
+  /** Collections this one can be merged into */
+  mergeTargets: string[];
   onClick: () => void;
   onDelete: () => void;
+  /** Called after a rename or merge job has started */
+  onMoveStarted: () => void;
 }
 
 export function CollectionCard({
   name,
-  documentCount,
-  lastUpdated,
+  description,
+  icon,
+  color,
+  stats,
+  role,
+  collectionNames,
+  mergeTargets,
   onClick,
   onDelete,
+  onMoveStarted,
 }: CollectionCardProps) {
+  const { documentCount, lastUpdated, statuses } = stats;
+  const typeBreakdown = Object.entries(stats.types)
+    .map(([type, count]) => `${count} ${type}`)
+    .join(', ');
+
   return (
     <Card className="cursor-pointer hover:shadow-md transition-shadow group">
       <CardHeader className="pb-3">
         <div className="flex items-start justify-between">
           <div className="flex items-center gap-2 flex-1 min-w-0" onClick={onClick}>
-            <Folder className="h-5 w-5 text-primary flex-shrink-0" />
+            <CollectionAvatar icon={icon} color={color} />
             <CardTitle className="text-lg truncate">{name}</CardTitle>
           </div>
-          <Dialog>
-            <DialogTrigger asChild>
-              <Button
-                variant="ghost"
-                size="icon"
-                className="opacity-0 group-hover:opacity-100 transition-opacity h-8 w-8"
-                onClick={(e) => e.stopPropagation()}
-              >
-                <Trash2 className="h-4 w-4 text-destructive" />
-              </Button>
-            </DialogTrigger>
-            <DialogContent>
-              <DialogHeader>
-                <DialogTitle>Delete Collection</DialogTitle>
-                <DialogDescription>
-                  Are you sure you want to delete "{name}"? This will permanently
-                  delete all {documentCount} document{documentCount !== 1 ? 's' : ''} in
-                  this collection. This action cannot be undone.
-                </DialogDescription>
-              </DialogHeader>
-              <DialogFooter>
-                <Button variant="outline" onClick={(e) => e.stopPropagation()}>
-                  Cancel
-                </Button>
-                <Button
-                  variant="destructive"
-                  onClick={(e) => {
-                    e.stopPropagation();
-                    onDelete();
-                  }}
-                >
-                  Delete Collection
-                </Button>
-              </DialogFooter>
-            </DialogContent>
-          </Dialog>
+          {role === 'owner' && (
+            <div className="flex items-center">
+              <RenameCollectionDialog
+                collectionName={name}
+                existingCollections={collectionNames}
+                onStarted={onMoveStarted}
+                trigger={
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="opacity-0 group-hover:opacity-100 transition-opacity h-8 w-8"
+                    onClick={(e) => e.stopPropagation()}
+                  >
+                    <Pencil className="h-4 w-4" />
+                  </Button>
+                }
+              />
+              <MergeCollectionDialog
+                collectionName={name}
+                targets={mergeTargets}
+                onStarted={onMoveStarted}
+                trigger={
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="opacity-0 group-hover:opacity-100 transition-opacity h-8 w-8"
+                    onClick={(e) => e.stopPropagation()}
+                  >
+                    <Merge className="h-4 w-4" />
+                  </Button>
+                }
+              />
+              <ShareCollectionDialog
+                collectionName={name}
+                trigger={
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="opacity-0 group-hover:opacity-100 transition-opacity h-8 w-8"
+                    onClick={(e) => e.stopPropagation()}
+                  >
+                    <Share2 className="h-4 w-4" />
+                  </Button>
+                }
+              />
+              <Dialog>
+                <DialogTrigger asChild>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="opacity-0 group-hover:opacity-100 transition-opacity h-8 w-8"
+                    onClick={(e) => e.stopPropagation()}
+                  >
+                    <Trash2 className="h-4 w-4 text-destructive" />
+                  </Button>
+                </DialogTrigger>
+                <DialogContent>
+                  <DialogHeader>
+                    <DialogTitle>Delete Collection</DialogTitle>
+                    <DialogDescription>
+                      Are you sure you want to delete "{name}" and all {documentCount}{' '}
+                      document{documentCount !== 1 ? 's' : ''} in it? Unless the trash is
+                      disabled, you can restore it from the Trash tab.
+                    </DialogDescription>
+                  </DialogHeader>
+                  <DialogFooter>
+                    <Button variant="outline" onClick={(e) => e.stopPropagation()}>
+                      Cancel
+                    </Button>
+                    <Button
+                      variant="destructive"
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        onDelete();
+                      }}
+                    >
+                      Delete Collection
+                    </Button>
+                  </DialogFooter>
+                </DialogContent>
+              </Dialog>
+            </div>
+          )}
         </div>
       </CardHeader>
       <CardContent onClick={onClick}>
+        {description && (
+          <p className="text-sm text-muted-foreground line-clamp-2 mb-3">{description}</p>
+        )}
         <div className="flex items-center gap-4 text-sm text-muted-foreground">
-          <div className="flex items-center gap-1">
+          <div className="flex items-center gap-1" title={typeBreakdown || undefined}>
             <FileText className="h-4 w-4" />
             <span>
               {documentCount} document{documentCount !== 1 ? 's' : ''}
@@ -85,6 +162,17 @@ export function CollectionCard({
           {lastUpdated && (
             <span>Updated {new Date(lastUpdated).toLocaleDateString()}</span>
           )}
+          {statuses.processing > 0 && (
+            <Badge variant="secondary">{statuses.processing} processing</Badge>
+          )}
+          {statuses.failed > 0 && (
+            <Badge variant="destructive">{statuses.failed} failed</Badge>
+          )}
+          {role !== 'owner' && (
+            <Badge variant="outline" className="ml-auto capitalize">
+              {role}
+            </Badge>
+          )}
         </div>
       </CardContent>
     </Card>
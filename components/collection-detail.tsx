@@ -1,9 +1,8 @@
 'use client';
 
-import { useState, useRef, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import {
   ArrowLeft,
-  Upload,
   Link as LinkIcon,
   Trash2,
   FileText,
@@ -11,8 +10,24 @@ import {
   Eye,
   ExternalLink,
   Info,
+  Share2,
+  Pencil,
+  FolderInput,
+  RotateCw,
+  Copy,
+  RefreshCw,
+  Globe,
+  Clock,
+  NotebookPen,
+  Tag,
 } from 'lucide-react';
-import { DocumentProcessor, type Document, type DocumentContent } from '@/lib/document-processor';
+import {
+  DocumentProcessor,
+  DuplicateDocumentError,
+  type Document,
+  type DocumentContent,
+} from '@/lib/document-processor';
+import type { DocumentDetails } from '@/lib/document-details';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
@@ -28,7 +43,32 @@ import {
   DialogTitle,
   DialogTrigger,
 } from '@/components/ui/dialog';
+import { ToastAction } from '@/components/ui/toast';
 import { useToast } from '@/components/ui/use-toast';
+import { CollectionAvatar } from './collection-avatar';
+import { CrawlProgress } from './crawl-progress';
+import { CrawlWebsiteDialog } from './crawl-website-dialog';
+import { DocumentCollectionsDialog } from './document-collections-dialog';
+import { DocumentDetailsForm, DocumentDetailsSummary } from './document-details-form';
+import { DocumentLabelsDialog } from './document-labels-dialog';
+import { DuplicatesReportDialog } from './duplicates-report-dialog';
+import { EditCollectionDialog } from './edit-collection-dialog';
+import { FeedsPanel } from './feeds-panel';
+import { LabelFilter } from './label-filter';
+import { MetadataFieldsInputs } from './metadata-fields-inputs';
+import { NoteEditorDialog } from './note-editor-dialog';
+import { ShareCollectionDialog } from './share-collection-dialog';
+import { UndoToastAction } from './undo-toast-action';
+import { UploadQueue } from './upload-queue';
+import { UrlRefreshDialog } from './url-refresh-dialog';
+import { VersionHistory } from './version-history';
+import type { CollectionSummary } from '@/lib/collections';
+import { isProcessing, type DocumentStatusEvent } from '@/lib/document-status';
+import type { LabelSummary } from '@/lib/labels';
+import { formatMetadataFieldValue, metadataFromFieldValues } from '@/lib/metadata-schema';
+import { isNote } from '@/lib/notes';
+import { hasRole } from '@/lib/roles';
+import { cn } from '@/lib/utils';
 
 interface CollectionDetailProps {
   collectionName: string;
@@ -42,27 +82,105 @@ export function CollectionDetail({
   onDeleteCollection,
 }: CollectionDetailProps) {
   const [documents, setDocuments] = useState<Document[]>([]);
+  const [totalDocuments, setTotalDocuments] = useState(0);
+  // Documents matching the label filter; the collection total when unfiltered
+  const [matchingDocuments, setMatchingDocuments] = useState(0);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  const [isReindexing, setIsReindexing] = useState(false);
+  const [isReprocessingFailed, setIsReprocessingFailed] = useState(false);
+  // Documents with a reprocess request in flight
+  const [reprocessingIds, setReprocessingIds] = useState<Set<string>>(new Set());
   const [isLoading, setIsLoading] = useState(true);
   const [isUploading, setIsUploading] = useState(false);
-  const [uploadProgress, setUploadProgress] = useState<Record<string, number>>({});
   const [urlInput, setUrlInput] = useState('');
+  // Values entered for the collection's metadata fields, applied to documents added next
+  const [fieldValues, setFieldValues] = useState<Record<string, string>>({});
   const [viewerOpen, setViewerOpen] = useState(false);
   const [selectedDoc, setSelectedDoc] = useState<DocumentContent | null>(null);
+  // Current version of the document open in the viewer, which may be showing an older one
+  const [viewerDocId, setViewerDocId] = useState<string | null>(null);
   const [isLoadingDoc, setIsLoadingDoc] = useState(false);
-  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [isEditingDetails, setIsEditingDetails] = useState(false);
+  const [collection, setCollection] = useState<CollectionSummary | null>(null);
+  const [allCollections, setAllCollections] = useState<CollectionSummary[]>([]);
+  const [labels, setLabels] = useState<LabelSummary[]>([]);
+  const [labelFilter, setLabelFilter] = useState<string[]>([]);
+  // The status stream outlives renders, so read the latest documents from a ref
+  const documentsRef = useRef(documents);
+  documentsRef.current = documents;
+  // Reloads can start before a new filter has rendered, so read it from a ref
+  const labelFilterRef = useRef(labelFilter);
   const { toast } = useToast();
 
   const processor = new DocumentProcessor();
 
   useEffect(() => {
+    setFieldValues({});
+    setLabelFilter([]);
+    labelFilterRef.current = [];
     loadDocuments();
+    loadCollection();
+    loadLabels();
   }, [collectionName]);
 
+  // Follow processing status so documents update without a refresh
+  useEffect(
+    () =>
+      processor.watchCollectionStatus(collectionName, {
+        onStatus: handleStatusEvent,
+        onRemoved: handleDocumentRemoved,
+      }),
+    [collectionName]
+  );
+
+  const role = collection?.role ?? null;
+  const canEdit = hasRole(role, 'editor');
+  const isOwner = role === 'owner';
+  const metadataFields = collection?.metadataFields ?? [];
+  const fieldMetadata = metadataFromFieldValues(metadataFields, fieldValues);
+
+  const loadCollection = async () => {
+    try {
+      const [current, all] = await Promise.all([
+        processor.getCollection(collectionName),
+        processor.listCollections(),
+      ]);
+      setCollection(current);
+      setAllCollections(all);
+    } catch (error: any) {
+      toast({
+        title: 'Error',
+        description: 'Failed to load collection: ' + error.message,
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const loadLabels = async () => {
+    try {
+      setLabels(await processor.listLabels(collectionName));
+    } catch (error: any) {
+      toast({
+        title: 'Error',
+        description: 'Failed to load labels: ' + error.message,
+        variant: 'destructive',
+      });
+    }
+  };
+
   const loadDocuments = async () => {
     setIsLoading(true);
     try {
-      const docs = await processor.listDocuments(collectionName);
-      setDocuments(docs);
+      const page = await processor.listDocumentsPage(collectionName, {
+        labels: labelFilterRef.current,
+      });
+      setDocuments(page.documents);
+      setMatchingDocuments(page.totalItems);
+      if (labelFilterRef.current.length === 0) {
+        setTotalDocuments(page.totalItems);
+      }
+      setNextCursor(page.nextCursor);
     } catch (error: any) {
       toast({
         title: 'Error',
@@ -74,53 +192,125 @@ export function CollectionDetail({
     }
   };
 
-  const handleFileUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
-    const files = event.target.files;
-    if (!files || files.length === 0) return;
+  const handleStatusEvent = (event: DocumentStatusEvent) => {
+    const previous = documentsRef.current.find((doc) => doc.id === event.id);
+    // Documents not loaded yet show their status once they are
+    if (!previous) return;
 
-    setIsUploading(true);
-    const newProgress: Record<string, number> = {};
-
-    try {
-      for (const file of Array.from(files)) {
-        newProgress[file.name] = 0;
-        setUploadProgress({ ...newProgress });
-
-        await processor.uploadDocument({
-          file,
-          collection: collectionName,
-          metadata: {
-            uploadedBy: 'user',
-            category: 'qa-document',
-          },
-        });
-
-        newProgress[file.name] = 100;
-        setUploadProgress({ ...newProgress });
-      }
+    setDocuments((current) =>
+      current.map((doc) =>
+        doc.id === event.id
+          ? {
+              ...doc,
+              title: event.title || doc.title,
+              status: event.status,
+              progress: event.progress,
+              failureReason: event.failureReason ?? undefined,
+            }
+          : doc
+      )
+    );
 
+    if (!isProcessing(previous.status)) return;
+    if (event.status === 'done') {
       toast({
-        title: 'Success',
-        description: `${files.length} file(s) uploaded successfully`,
+        title: 'Document Ready',
+        description: `"${event.title || previous.title}" has been processed`,
       });
+    } else if (event.status === 'failed') {
+      toast({
+        title: 'Processing Failed',
+        description: event.failureReason
+          ? `"${event.title || previous.title}" could not be processed: ${event.failureReason}`
+          : `"${event.title || previous.title}" could not be processed`,
+        variant: 'destructive',
+      });
+    }
+  };
 
-      await loadDocuments();
+  const handleLabelFilterChange = (next: string[]) => {
+    setLabelFilter(next);
+    labelFilterRef.current = next;
+    loadDocuments();
+  };
+
+  const handleLabelsChanged = async () => {
+    await Promise.all([loadDocuments(), loadLabels()]);
+  };
+
+  const handleDocumentRemoved = (documentId: string) => {
+    if (!documentsRef.current.some((doc) => doc.id === documentId)) return;
+    setDocuments((current) => current.filter((doc) => doc.id !== documentId));
+    setTotalDocuments((total) => Math.max(0, total - 1));
+    setMatchingDocuments((total) => Math.max(0, total - 1));
+  };
 
-      if (fileInputRef.current) {
-        fileInputRef.current.value = '';
+  const loadMoreDocuments = async () => {
+    if (!nextCursor) return;
+    setIsLoadingMore(true);
+    try {
+      const page = await processor.listDocumentsPage(collectionName, {
+        cursor: nextCursor,
+        labels: labelFilterRef.current,
+      });
+      // Skip anything already shown in case documents were added since the first page
+      setDocuments((previous) => {
+        const seen = new Set(previous.map((doc) => doc.id));
+        return [...previous, ...page.documents.filter((doc) => !seen.has(doc.id))];
+      });
+      setMatchingDocuments(page.totalItems);
+      if (labelFilterRef.current.length === 0) {
+        setTotalDocuments(page.totalItems);
       }
+      setNextCursor(page.nextCursor);
     } catch (error: any) {
       toast({
-        title: 'Upload Failed',
-        description: error.message,
+        title: 'Error',
+        description: 'Failed to load more documents: ' + error.message,
         variant: 'destructive',
       });
     } finally {
-      setIsUploading(false);
-      setUploadProgress({});
+      setIsLoadingMore(false);
     }
   };
 
+  /**
+   * Reports an upload rejected as a duplicate, offering to add the existing
+   * copy to this collection when it lives elsewhere.
+   */
+  const showDuplicateToast = (error: DuplicateDocumentError, link: () => Promise<void>) => {
+    const canLink = !error.duplicate.collections.includes(collectionName);
+
+    toast({
+      title: 'Already Exists',
+      description: error.message,
+      variant: 'destructive',
+      action: canLink ? (
+        <ToastAction
+          altText="Add the existing copy to this collection"
+          onClick={async () => {
+            try {
+              await link();
+              toast({
+                title: 'Added',
+                description: `The existing copy was added to "${collectionName}"`,
+              });
+              await loadDocuments();
+            } catch (error: any) {
+              toast({
+                title: 'Error',
+                description: error.message,
+                variant: 'destructive',
+              });
+            }
+          }}
+        >
+          Add here
+        </ToastAction>
+      ) : undefined,
+    });
+  };
+
   const handleUrlUpload = async () => {
     if (!urlInput.trim()) return;
 
@@ -129,10 +319,7 @@ export function CollectionDetail({
       await processor.uploadURL({
         url: urlInput,
         collection: collectionName,
-        metadata: {
-          uploadedBy: 'user',
-          category: 'qa-document',
-        },
+        metadata: fieldMetadata,
       });
 
       toast({
@@ -143,6 +330,13 @@ export function CollectionDetail({
       setUrlInput('');
       await loadDocuments();
     } catch (error: any) {
+      if (error instanceof DuplicateDocumentError) {
+        const url = urlInput;
+        showDuplicateToast(error, async () => {
+          await processor.uploadURL({ url, collection: collectionName, onDuplicate: 'link' });
+        });
+        return;
+      }
       toast({
         title: 'Upload Failed',
         description: error.message,
@@ -155,10 +349,15 @@ export function CollectionDetail({
 
   const handleDeleteDocument = async (docId: string, docTitle: string) => {
     try {
-      await processor.deleteDocument(docId);
+      const { trashItem } = await processor.deleteDocument(docId);
       toast({
         title: 'Deleted',
-        description: `"${docTitle}" has been deleted`,
+        description: trashItem
+          ? `"${docTitle}" has been moved to the trash`
+          : `"${docTitle}" has been deleted`,
+        action: trashItem ? (
+          <UndoToastAction trashItem={trashItem} onRestored={loadDocuments} />
+        ) : undefined,
       });
       await loadDocuments();
     } catch (error: any) {
@@ -170,9 +369,123 @@ export function CollectionDetail({
     }
   };
 
+  const handleRemoveFromCollection = async (docId: string, docTitle: string) => {
+    try {
+      await processor.updateDocumentCollections(docId, { remove: [collectionName] });
+      toast({
+        title: 'Removed',
+        description: `"${docTitle}" has been removed from "${collectionName}"`,
+      });
+      await loadDocuments();
+    } catch (error: any) {
+      toast({
+        title: 'Remove Failed',
+        description: error.message,
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const handleReindex = async () => {
+    setIsReindexing(true);
+    try {
+      await processor.reindexCollection(collectionName);
+      toast({
+        title: 'Re-index Started',
+        description: `Rebuilding the search index for "${collectionName}" in the background`,
+      });
+    } catch (error: any) {
+      toast({
+        title: 'Re-index Failed',
+        description: error.message,
+        variant: 'destructive',
+      });
+    } finally {
+      setIsReindexing(false);
+    }
+  };
+
+  const handleReprocessDocument = async (doc: Document) => {
+    setReprocessingIds((current) => new Set(current).add(doc.id));
+    try {
+      const result = await processor.reprocessDocument(doc.id);
+      if (result.id !== doc.id) {
+        // The backend replaced the document, so the old entry is gone
+        await loadDocuments();
+      } else {
+        setDocuments((current) =>
+          current.map((item) =>
+            item.id === doc.id
+              ? { ...item, status: result.status, progress: 0, failureReason: undefined }
+              : item
+          )
+        );
+      }
+      toast({
+        title: 'Reprocessing',
+        description: `"${doc.title}" has been submitted for processing again`,
+      });
+    } catch (error: any) {
+      toast({
+        title: 'Reprocess Failed',
+        description: error.message,
+        variant: 'destructive',
+      });
+    } finally {
+      setReprocessingIds((current) => {
+        const next = new Set(current);
+        next.delete(doc.id);
+        return next;
+      });
+    }
+  };
+
+  const handleReprocessFailed = async () => {
+    setIsReprocessingFailed(true);
+    try {
+      await processor.reprocessFailedDocuments(collectionName);
+      toast({
+        title: 'Reprocessing Started',
+        description: `Submitting the failed documents in "${collectionName}" for processing again`,
+      });
+    } catch (error: any) {
+      toast({
+        title: 'Reprocess Failed',
+        description: error.message,
+        variant: 'destructive',
+      });
+    } finally {
+      setIsReprocessingFailed(false);
+    }
+  };
+
   const handleViewDocument = async (docId: string) => {
-    setIsLoadingDoc(true);
+    setViewerDocId(docId);
     setViewerOpen(true);
+    await loadViewerDocument(docId);
+  };
+
+  const handleVersionRestored = async (versionId: string) => {
+    setViewerDocId(versionId);
+    await Promise.all([loadViewerDocument(versionId), loadDocuments()]);
+  };
+
+  const handleNoteEdited = async (noteId: string) => {
+    setViewerDocId(noteId);
+    await Promise.all([loadViewerDocument(noteId), loadDocuments()]);
+  };
+
+  const handleDetailsSaved = (title: string, details: DocumentDetails) => {
+    setSelectedDoc((current) => current && { ...current, title, details });
+    setDocuments((current) =>
+      current.map((doc) => (doc.id === selectedDoc?.id ? { ...doc, title } : doc))
+    );
+    setIsEditingDetails(false);
+  };
+
+  const loadViewerDocument = async (docId: string) => {
+    setIsEditingDetails(false);
+    setIsLoadingDoc(true);
     try {
       const doc = await processor.getDocument(docId);
       setSelectedDoc(doc);
@@ -188,6 +501,12 @@ export function CollectionDetail({
     }
   };
 
+  // Other collections the document belongs to that the caller can see
+  const otherCollections = (doc: Document) =>
+    (doc.containerTags || []).filter(
+      (name) => name !== collectionName && allCollections.some((c) => c.name === name)
+    );
+
   const getTypeIcon = (type: string) => {
     switch (type.toLowerCase()) {
       case 'pdf':
@@ -200,6 +519,8 @@ export function CollectionDetail({
         return '📃';
       case 'url':
         return '🔗';
+      case 'note':
+        return '🗒️';
       default:
         return '📋';
     }
@@ -214,105 +535,187 @@ export function CollectionDetail({
             <ArrowLeft className="mr-2 h-4 w-4" />
             Back
           </Button>
-          <h2 className="text-2xl font-bold">{collectionName}</h2>
+          <div className="flex items-center gap-2">
+            {collection && <CollectionAvatar icon={collection.icon} color={collection.color} />}
+            <h2 className="text-2xl font-bold">{collectionName}</h2>
+          </div>
           <Badge variant="secondary">
-            {documents.length} document{documents.length !== 1 ? 's' : ''}
+            {totalDocuments} document{totalDocuments !== 1 ? 's' : ''}
           </Badge>
+          {role && (
+            <Badge variant="outline" className="capitalize">
+              {role}
+            </Badge>
+          )}
         </div>
-        <Dialog>
-          <DialogTrigger asChild>
-            <Button variant="destructive" size="sm">
-              <Trash2 className="mr-2 h-4 w-4" />
-              Delete Collection
-            </Button>
-          </DialogTrigger>
-          <DialogContent>
-            <DialogHeader>
-              <DialogTitle>Delete Collection</DialogTitle>
-              <DialogDescription>
-                Are you sure you want to delete "{collectionName}"? This will
-                permanently delete all {documents.length} document
-                {documents.length !== 1 ? 's' : ''} in this collection. This action
-                cannot be undone.
-              </DialogDescription>
-            </DialogHeader>
-            <DialogFooter>
-              <Button variant="outline">Cancel</Button>
-              <Button variant="destructive" onClick={onDeleteCollection}>
-                Delete Collection
+        {collection && (
+          <div className="flex items-center gap-2">
+            <DuplicatesReportDialog
+              collectionName={collectionName}
+              onViewDocument={handleViewDocument}
+              onDeleteDocument={canEdit ? handleDeleteDocument : undefined}
+              trigger={
+                <Button variant="outline" size="sm">
+                  <Copy className="mr-2 h-4 w-4" />
+                  Duplicates
+                </Button>
+              }
+            />
+            {canEdit && (
+              <Button variant="outline" size="sm" onClick={handleReindex} disabled={isReindexing}>
+                <RotateCw className="mr-2 h-4 w-4" />
+                Re-index
+              </Button>
+            )}
+            {canEdit && documents.some((doc) => doc.status === 'failed') && (
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={handleReprocessFailed}
+                disabled={isReprocessingFailed}
+              >
+                <RefreshCw className="mr-2 h-4 w-4" />
+                Retry failed
               </Button>
-            </DialogFooter>
-          </DialogContent>
-        </Dialog>
+            )}
+            {isOwner && (
+              <>
+                <EditCollectionDialog
+                  collection={collection}
+                  onSaved={setCollection}
+                  trigger={
+                    <Button variant="outline" size="sm">
+                      <Pencil className="mr-2 h-4 w-4" />
+                      Edit
+                    </Button>
+                  }
+                />
+                <ShareCollectionDialog
+                  collectionName={collectionName}
+                  trigger={
+                    <Button variant="outline" size="sm">
+                      <Share2 className="mr-2 h-4 w-4" />
+                      Share
+                    </Button>
+                  }
+                />
+                <Dialog>
+                  <DialogTrigger asChild>
+                    <Button variant="destructive" size="sm">
+                      <Trash2 className="mr-2 h-4 w-4" />
+                      Delete Collection
+                    </Button>
+                  </DialogTrigger>
+                  <DialogContent>
+                    <DialogHeader>
+                      <DialogTitle>Delete Collection</DialogTitle>
+                      <DialogDescription>
+                        Are you sure you want to delete "{collectionName}" and all{' '}
+                        {totalDocuments} document{totalDocuments !== 1 ? 's' : ''} in it?
+                        Unless the trash is disabled, you can restore it from the Trash
+                        tab.
+                      </DialogDescription>
+                    </DialogHeader>
+                    <DialogFooter>
+                      <Button variant="outline">Cancel</Button>
+                      <Button variant="destructive" onClick={onDeleteCollection}>
+                        Delete Collection
+                      </Button>
+                    </DialogFooter>
+                  </DialogContent>
+                </Dialog>
+              </>
+            )}
+          </div>
+        )}
       </div>
 
+      {collection?.description && (
+        <p className="text-muted-foreground">{collection.description}</p>
+      )}
+
       {/* Upload Section */}
-      <Card>
-        <CardHeader>
-          <CardTitle className="text-lg">Add Documents</CardTitle>
-        </CardHeader>
-        <CardContent className="space-y-4">
-          <input
-            ref={fileInputRef}
-            type="file"
-            multiple
-            accept=".pdf,.docx,.txt,.md"
-            onChange={handleFileUpload}
-            className="hidden"
-          />
-          <Button
-            onClick={() => fileInputRef.current?.click()}
-            disabled={isUploading}
-            variant="outline"
-            className="w-full"
-          >
-            <Upload className="mr-2 h-4 w-4" />
-            {isUploading ? 'Uploading...' : 'Upload Files'}
-          </Button>
+      {canEdit && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">Add Documents</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {metadataFields.length > 0 && (
+              <div className="space-y-2">
+                <p className="text-xs text-muted-foreground">
+                  Fields for the files, pages and notes you add next
+                </p>
+                <MetadataFieldsInputs
+                  fields={metadataFields}
+                  values={fieldValues}
+                  onChange={setFieldValues}
+                  disabled={isUploading}
+                />
+              </div>
+            )}
 
-          <div className="flex gap-2">
-            <Input
-              value={urlInput}
-              onChange={(e) => setUrlInput(e.target.value)}
-              placeholder="https://example.com"
-              disabled={isUploading}
-              onKeyDown={(e) => e.key === 'Enter' && handleUrlUpload()}
+            <UploadQueue
+              collectionName={collectionName}
+              metadata={fieldMetadata}
+              onUploaded={loadDocuments}
             />
-            <Button
-              onClick={handleUrlUpload}
-              disabled={isUploading || !urlInput.trim()}
-              variant="outline"
-              size="icon"
-            >
-              <LinkIcon className="h-4 w-4" />
-            </Button>
-          </div>
 
-          {Object.keys(uploadProgress).length > 0 && (
-            <div className="space-y-2">
-              {Object.entries(uploadProgress).map(([filename, progress]) => (
-                <div key={filename} className="text-sm">
-                  <div className="flex justify-between mb-1">
-                    <span className="truncate flex-1">{filename}</span>
-                    <span className="ml-2">{progress}%</span>
-                  </div>
-                  <div className="w-full bg-secondary rounded-full h-2">
-                    <div
-                      className="bg-primary h-2 rounded-full transition-all duration-300"
-                      style={{ width: `${progress}%` }}
-                    />
-                  </div>
-                </div>
-              ))}
+            <div className="flex gap-2">
+              <Input
+                value={urlInput}
+                onChange={(e) => setUrlInput(e.target.value)}
+                placeholder="https://example.com"
+                disabled={isUploading}
+                onKeyDown={(e) => e.key === 'Enter' && handleUrlUpload()}
+              />
+              <Button
+                onClick={handleUrlUpload}
+                disabled={isUploading || !urlInput.trim()}
+                variant="outline"
+                size="icon"
+              >
+                <LinkIcon className="h-4 w-4" />
+              </Button>
+              <CrawlWebsiteDialog
+                collectionName={collectionName}
+                initialUrl={urlInput.trim()}
+                onStarted={() => setUrlInput('')}
+                trigger={
+                  <Button variant="outline" size="icon" title="Crawl website" disabled={isUploading}>
+                    <Globe className="h-4 w-4" />
+                  </Button>
+                }
+              />
+              <NoteEditorDialog
+                collectionName={collectionName}
+                metadata={fieldMetadata}
+                onSaved={loadDocuments}
+                trigger={
+                  <Button variant="outline" size="icon" title="New note" disabled={isUploading}>
+                    <NotebookPen className="h-4 w-4" />
+                  </Button>
+                }
+              />
             </div>
-          )}
-        </CardContent>
-      </Card>
+
+            <CrawlProgress collectionName={collectionName} onCrawlFinished={loadDocuments} />
+          </CardContent>
+        </Card>
+      )}
+
+      <FeedsPanel collectionName={collectionName} canEdit={canEdit} onFeedPolled={loadDocuments} />
 
       {/* Documents List */}
       <Card>
         <CardHeader>
           <CardTitle className="text-lg">Documents</CardTitle>
+          <LabelFilter
+            labels={labels}
+            value={labelFilter}
+            onChange={handleLabelFilterChange}
+            disabled={isLoading}
+          />
         </CardHeader>
         <CardContent>
           {isLoading ? (
@@ -330,11 +733,33 @@ export function CollectionDetail({
           ) : (
             <ScrollArea className="h-96">
               <div className="space-y-2">
-                {documents.length === 0 ? (
+                {documents.length > 0 && metadataFields.length > 0 && (
+                  <div className="flex items-center gap-3 px-3 text-xs font-medium text-muted-foreground">
+                    <span className="w-8" />
+                    <span className="flex-1">Document</span>
+                    {metadataFields.map((field) => (
+                      <span key={field.name} className="w-28 shrink-0 truncate" title={field.name}>
+                        {field.name}
+                      </span>
+                    ))}
+                    <span className="w-52 shrink-0" />
+                  </div>
+                )}
+                {documents.length === 0 && labelFilter.length > 0 ? (
+                  <div className="text-center py-12 text-muted-foreground">
+                    <Tag className="h-12 w-12 mx-auto mb-4 opacity-50" />
+                    <p>
+                      No documents with{' '}
+                      {labelFilter.length === 1 ? 'this label' : 'all of these labels'}
+                    </p>
+                  </div>
+                ) : documents.length === 0 ? (
                   <div className="text-center py-12 text-muted-foreground">
                     <FileText className="h-12 w-12 mx-auto mb-4 opacity-50" />
                     <p>No documents in this collection yet</p>
-                    <p className="text-sm mt-1">Upload files or add URLs above</p>
+                    {canEdit && (
+                      <p className="text-sm mt-1">Upload files or add URLs above</p>
+                    )}
                   </div>
                 ) : (
                   documents.map((doc) => (
@@ -346,13 +771,96 @@ export function CollectionDetail({
                       <div className="flex-1 min-w-0 cursor-pointer" onClick={() => handleViewDocument(doc.id)}>
                         <div className="font-medium truncate">{doc.title}</div>
                         <div className="text-sm text-muted-foreground">
-                          {doc.type} • {doc.status}
+                          {doc.type} •{' '}
+                          {isProcessing(doc.status) ? (
+                            <Badge variant="secondary" className="text-xs font-normal">
+                              <Loader2 className="mr-1 h-3 w-3 animate-spin" />
+                              {doc.status} {doc.progress ?? 0}%
+                            </Badge>
+                          ) : doc.status === 'failed' ? (
+                            <Badge variant="destructive" className="text-xs font-normal">
+                              failed
+                            </Badge>
+                          ) : (
+                            doc.status
+                          )}
+                          {doc.version && doc.version > 1 && <> • v{doc.version}</>}
                           {doc.uploadedAt && (
                             <> • {new Date(doc.uploadedAt).toLocaleDateString()}</>
                           )}
                         </div>
+                        {doc.url && (
+                          <div className="flex items-center gap-1 text-xs text-muted-foreground min-w-0">
+                            <a
+                              href={doc.url}
+                              target="_blank"
+                              rel="noopener noreferrer"
+                              className="truncate hover:underline"
+                              title={doc.url}
+                              onClick={(e) => e.stopPropagation()}
+                            >
+                              {doc.url}
+                            </a>
+                            {doc.lastCheckedAt && (
+                              <span className="shrink-0">
+                                • checked {new Date(doc.lastCheckedAt).toLocaleString()}
+                                {doc.lastChangedAt &&
+                                  ` • changed ${new Date(doc.lastChangedAt).toLocaleString()}`}
+                              </span>
+                            )}
+                          </div>
+                        )}
+                        {doc.status === 'failed' && (
+                          <div
+                            className="text-xs text-destructive truncate"
+                            title={doc.failureReason}
+                          >
+                            {/* Supermemory does not say why processing failed */}
+                            {doc.failureReason || 'Processing failed; no reason is available'}
+                          </div>
+                        )}
+                        {(otherCollections(doc).length > 0 || doc.labels.length > 0) && (
+                          <div className="flex flex-wrap gap-1 mt-1">
+                            {doc.labels.map((label) => (
+                              <Badge
+                                key={`label:${label}`}
+                                variant="secondary"
+                                className="cursor-pointer text-xs font-normal"
+                                title={`Show documents labelled "${label}"`}
+                                onClick={(e) => {
+                                  e.stopPropagation();
+                                  if (!labelFilter.includes(label)) {
+                                    handleLabelFilterChange([...labelFilter, label]);
+                                  }
+                                }}
+                              >
+                                <Tag className="mr-1 h-3 w-3" />
+                                {label}
+                              </Badge>
+                            ))}
+                            {otherCollections(doc).map((name) => (
+                              <Badge key={name} variant="outline" className="text-xs font-normal">
+                                {name}
+                              </Badge>
+                            ))}
+                          </div>
+                        )}
                       </div>
-                      <div className="flex items-center gap-1">
+                      {metadataFields.map((field) => (
+                        <span
+                          key={field.name}
+                          className="w-28 shrink-0 truncate text-sm"
+                          title={formatMetadataFieldValue(field, doc.fields[field.name])}
+                        >
+                          {formatMetadataFieldValue(field, doc.fields[field.name])}
+                        </span>
+                      ))}
+                      <div
+                        className={cn(
+                          'flex items-center gap-1',
+                          metadataFields.length > 0 && 'w-52 shrink-0 justify-end'
+                        )}
+                      >
                         <Button
                           variant="ghost"
                           size="sm"
@@ -361,39 +869,131 @@ export function CollectionDetail({
                         >
                           <Eye className="h-4 w-4" />
                         </Button>
-                        <Dialog>
-                          <DialogTrigger asChild>
+                        {canEdit && doc.status === 'failed' && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            title="Reprocess"
+                            onClick={() => handleReprocessDocument(doc)}
+                            disabled={reprocessingIds.has(doc.id)}
+                          >
+                            <RefreshCw
+                              className={cn('h-4 w-4', reprocessingIds.has(doc.id) && 'animate-spin')}
+                            />
+                          </Button>
+                        )}
+                        {canEdit && doc.url && (
+                          <UrlRefreshDialog
+                            document={doc}
+                            onRefreshed={loadDocuments}
+                            trigger={
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                title="Check for changes"
+                                className="opacity-0 group-hover:opacity-100 transition-opacity"
+                              >
+                                <Clock className="h-4 w-4" />
+                              </Button>
+                            }
+                          />
+                        )}
+                        <DocumentCollectionsDialog
+                          document={doc}
+                          collections={allCollections}
+                          onChanged={loadDocuments}
+                          trigger={
                             <Button
                               variant="ghost"
                               size="sm"
                               className="opacity-0 group-hover:opacity-100 transition-opacity"
                             >
-                              <Trash2 className="h-4 w-4 text-destructive" />
+                              <FolderInput className="h-4 w-4" />
                             </Button>
-                          </DialogTrigger>
-                          <DialogContent>
-                            <DialogHeader>
-                              <DialogTitle>Delete Document</DialogTitle>
-                              <DialogDescription>
-                                Are you sure you want to delete "{doc.title}"? This
-                                action cannot be undone.
-                              </DialogDescription>
-                            </DialogHeader>
-                            <DialogFooter>
-                              <Button variant="outline">Cancel</Button>
+                          }
+                        />
+                        {canEdit && (
+                          <DocumentLabelsDialog
+                            document={doc}
+                            knownLabels={labels.map((label) => label.name)}
+                            onChanged={handleLabelsChanged}
+                            trigger={
                               <Button
-                                variant="destructive"
-                                onClick={() => handleDeleteDocument(doc.id, doc.title)}
+                                variant="ghost"
+                                size="sm"
+                                title="Labels"
+                                className="opacity-0 group-hover:opacity-100 transition-opacity"
                               >
-                                Delete
+                                <Tag className="h-4 w-4" />
                               </Button>
-                            </DialogFooter>
-                          </DialogContent>
-                        </Dialog>
+                            }
+                          />
+                        )}
+                        {canEdit && (
+                          <Dialog>
+                            <DialogTrigger asChild>
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                className="opacity-0 group-hover:opacity-100 transition-opacity"
+                              >
+                                <Trash2 className="h-4 w-4 text-destructive" />
+                              </Button>
+                            </DialogTrigger>
+                            <DialogContent>
+                              <DialogHeader>
+                                <DialogTitle>Delete Document</DialogTitle>
+                                <DialogDescription>
+                                  Are you sure you want to delete "{doc.title}"? Unless
+                                  the trash is disabled, you can restore it from the Trash
+                                  tab.
+                                  {otherCollections(doc).length > 0 &&
+                                    ` It also belongs to ${otherCollections(doc).join(', ')} and will be deleted there too.`}
+                                </DialogDescription>
+                              </DialogHeader>
+                              <DialogFooter>
+                                <Button variant="outline">Cancel</Button>
+                                {(doc.containerTags?.length ?? 0) > 1 && (
+                                  <Button
+                                    variant="outline"
+                                    onClick={() => handleRemoveFromCollection(doc.id, doc.title)}
+                                  >
+                                    Remove from "{collectionName}"
+                                  </Button>
+                                )}
+                                <Button
+                                  variant="destructive"
+                                  onClick={() => handleDeleteDocument(doc.id, doc.title)}
+                                >
+                                  Delete
+                                </Button>
+                              </DialogFooter>
+                            </DialogContent>
+                          </Dialog>
+                        )}
                       </div>
                     </div>
                   ))
                 )}
+                {nextCursor && (
+                  <div className="flex justify-center pt-2">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={loadMoreDocuments}
+                      disabled={isLoadingMore}
+                    >
+                      {isLoadingMore ? (
+                        <>
+                          <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                          Loading...
+                        </>
+                      ) : (
+                        `Load more (${documents.length} of ${matchingDocuments})`
+                      )}
+                    </Button>
+                  </div>
+                )}
               </div>
             </ScrollArea>
           )}
@@ -406,6 +1006,11 @@ export function CollectionDetail({
           <DialogHeader>
             <DialogTitle className="flex items-center gap-2">
               <span>{selectedDoc?.title || 'Document'}</span>
+              {selectedDoc && viewerDocId && selectedDoc.id !== viewerDocId && (
+                <Badge variant="outline" className="font-normal">
+                  Older version
+                </Badge>
+              )}
               {selectedDoc?.url && (
                 <a
                   href={selectedDoc.url}
@@ -425,8 +1030,18 @@ export function CollectionDetail({
                 <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
                 <span className="ml-2 text-muted-foreground">Loading document...</span>
               </div>
+            ) : selectedDoc && isEditingDetails ? (
+              <ScrollArea className="h-[60vh] pr-4">
+                <DocumentDetailsForm
+                  documentId={selectedDoc.id}
+                  details={selectedDoc.details}
+                  onSaved={handleDetailsSaved}
+                  onCancel={() => setIsEditingDetails(false)}
+                />
+              </ScrollArea>
             ) : selectedDoc ? (
               <>
+                <DocumentDetailsSummary details={selectedDoc.details} />
                 <div className="flex items-start gap-2 mb-3 p-3 bg-muted/50 rounded-lg text-sm text-muted-foreground">
                   <Info className="h-4 w-4 mt-0.5 flex-shrink-0" />
                   <p>
@@ -448,8 +1063,39 @@ export function CollectionDetail({
                 </ScrollArea>
               </>
             ) : null}
+            {viewerDocId && (
+              <VersionHistory
+                documentId={viewerDocId}
+                viewingId={selectedDoc?.id ?? viewerDocId}
+                canRestore={canEdit}
+                onView={loadViewerDocument}
+                onRestored={handleVersionRestored}
+              />
+            )}
           </div>
           <DialogFooter className="mt-4">
+            {canEdit && selectedDoc && selectedDoc.id === viewerDocId && !isEditingDetails && (
+              <Button variant="outline" onClick={() => setIsEditingDetails(true)}>
+                <Pencil className="mr-2 h-4 w-4" />
+                Edit Details
+              </Button>
+            )}
+            {canEdit &&
+              selectedDoc &&
+              selectedDoc.id === viewerDocId &&
+              isNote(selectedDoc.metadata) && (
+                <NoteEditorDialog
+                  collectionName={collectionName}
+                  note={{ id: selectedDoc.id, content: selectedDoc.content }}
+                  onSaved={handleNoteEdited}
+                  trigger={
+                    <Button variant="outline" disabled={isProcessing(selectedDoc.status)}>
+                      <Pencil className="mr-2 h-4 w-4" />
+                      Edit Note
+                    </Button>
+                  }
+                />
+              )}
             <Button variant="outline" onClick={() => setViewerOpen(false)}>
               Close
             </Button>
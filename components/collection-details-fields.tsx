@@ -0,0 +1,144 @@
+'use client';
+
+import {
+  COLLECTION_COLORS,
+  COLLECTION_ICONS,
+  MAX_COLLECTION_DESCRIPTION_LENGTH,
+  type CollectionColor,
+  type CollectionIcon,
+  type CollectionSettings,
+} from '@/lib/collections';
+import type { MetadataField } from '@/lib/metadata-schema';
+import { REFRESH_INTERVAL_LABELS, REFRESH_INTERVALS, type RefreshInterval } from '@/lib/refresh';
+import { Label } from '@/components/ui/label';
+import { NativeSelect } from '@/components/ui/native-select';
+import { Textarea } from '@/components/ui/textarea';
+import { CollectionAvatar, COLOR_CLASSES } from './collection-avatar';
+import { MetadataSchemaEditor } from './metadata-schema-editor';
+import { cn } from '@/lib/utils';
+
+/**
+ * Form state for the editable fields of a collection.
+ */
+export interface CollectionDetailsValue {
+  description: string;
+  icon: CollectionIcon;
+  color: CollectionColor;
+  settings: CollectionSettings;
+  metadataFields: MetadataField[];
+}
+
+interface CollectionDetailsFieldsProps {
+  value: CollectionDetailsValue;
+  onChange: (value: CollectionDetailsValue) => void;
+  disabled?: boolean;
+}
+
+export function CollectionDetailsFields({ value, onChange, disabled }: CollectionDetailsFieldsProps) {
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <Label htmlFor="collection-description">Description</Label>
+        <Textarea
+          id="collection-description"
+          value={value.description}
+          onChange={(e) => onChange({ ...value, description: e.target.value })}
+          placeholder="What belongs in this collection?"
+          maxLength={MAX_COLLECTION_DESCRIPTION_LENGTH}
+          disabled={disabled}
+        />
+      </div>
+
+      <div className="space-y-2">
+        <Label>Icon</Label>
+        <div className="flex flex-wrap gap-2">
+          {COLLECTION_ICONS.map((icon) => (
+            <button
+              key={icon}
+              type="button"
+              title={icon}
+              disabled={disabled}
+              onClick={() => onChange({ ...value, icon })}
+              className={cn(
+                'flex h-9 w-9 items-center justify-center rounded-md border transition-colors hover:bg-muted',
+                value.icon === icon && 'border-primary bg-muted'
+              )}
+            >
+              <CollectionAvatar icon={icon} color={value.color} className="h-4 w-4" />
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <Label>Color</Label>
+        <div className="flex flex-wrap gap-2">
+          {COLLECTION_COLORS.map((color) => (
+            <button
+              key={color}
+              type="button"
+              title={color}
+              disabled={disabled}
+              onClick={() => onChange({ ...value, color })}
+              className={cn(
+                'h-7 w-7 rounded-full ring-offset-2 ring-offset-background transition-shadow',
+                COLOR_CLASSES[color].swatch,
+                value.color === color && 'ring-2 ring-ring'
+              )}
+            />
+          ))}
+        </div>
+      </div>
+
+      <label className="flex items-center gap-2 text-sm">
+        <input
+          type="checkbox"
+          checked={value.settings.includeInSearch}
+          disabled={disabled}
+          onChange={(e) =>
+            onChange({ ...value, settings: { ...value.settings, includeInSearch: e.target.checked } })
+          }
+        />
+        Include documents in chat answers
+      </label>
+
+      <div className="space-y-2">
+        <Label htmlFor="collection-refresh">Check web pages for changes</Label>
+        <NativeSelect
+          id="collection-refresh"
+          value={value.settings.refreshInterval}
+          disabled={disabled}
+          onChange={(e) =>
+            onChange({
+              ...value,
+              settings: { ...value.settings, refreshInterval: e.target.value as RefreshInterval },
+            })
+          }
+          className="h-9 max-w-xs"
+        >
+          {REFRESH_INTERVALS.map((interval) => (
+            <option key={interval} value={interval}>
+              {REFRESH_INTERVAL_LABELS[interval]}
+            </option>
+          ))}
+        </NativeSelect>
+        <p className="text-xs text-muted-foreground">
+          Pages that changed are fetched and indexed again.
+        </p>
+      </div>
+
+      <div className="space-y-2">
+        <Label>Document fields</Label>
+        <p className="text-xs text-muted-foreground">
+          Fields to fill in for each document added to this collection, shown as columns in
+          its document list.
+        </p>
+        <MetadataSchemaEditor
+          value={value.metadataFields}
+          onChange={(metadataFields) => onChange({ ...value, metadataFields })}
+          disabled={disabled}
+        />
+      </div>
+    </div>
+  );
+}
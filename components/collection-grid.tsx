@@ -4,19 +4,17 @@ import { Plus } from 'lucide-react';
 import { CollectionCard } from './collection-card';
 import { Card, CardContent } from '@/components/ui/card';
 import { Skeleton } from '@/components/ui/skeleton';
-
-interface Collection {
-  name: string;
-  documentCount: number;
-  lastUpdated?: string | null;
-}
+import type { CollectionWithStats } from '@/lib/collections';
+import { hasRole } from '@/lib/roles';
 
 interface CollectionGridProps {
-  collections: Collection[];
+  collections: CollectionWithStats[];
   isLoading: boolean;
   onSelectCollection: (name: string) => void;
   onDeleteCollection: (name: string) => void;
   onCreateCollection: () => void;
+  /** Called after a collection rename or merge has started */
+  onCollectionsChanged: () => void;
 }
 
 export function CollectionGrid({
@@ -25,6 +23,7 @@ export function CollectionGrid({
   onSelectCollection,
   onDeleteCollection,
   onCreateCollection,
+  onCollectionsChanged,
 }: CollectionGridProps) {
   if (isLoading) {
     return (
@@ -59,10 +58,18 @@ export function CollectionGrid({
         <CollectionCard
           key={collection.name}
           name={collection.name}
-          documentCount={collection.documentCount}
-          lastUpdated={collection.lastUpdated}
+          description={collection.description}
+          icon={collection.icon}
+          color={collection.color}
+          stats={collection.stats}
+          role={collection.role}
+          collectionNames={collections.map((c) => c.name)}
+          mergeTargets={collections
+            .filter((c) => c.name !== collection.name && hasRole(c.role, 'editor'))
+            .map((c) => c.name)}
           onClick={() => onSelectCollection(collection.name)}
           onDelete={() => onDeleteCollection(collection.name)}
+          onMoveStarted={onCollectionsChanged}
         />
       ))}
 
@@ -0,0 +1,140 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { AlertCircle, CheckCircle2, Clock, Globe, Loader2 } from 'lucide-react';
+import type { Crawl } from '@/lib/crawls';
+import { DocumentProcessor } from '@/lib/document-processor';
+import { isJobActive, JOB_STARTED_EVENT, type Job } from '@/lib/jobs';
+
+/** How often to refresh while a crawl is queued or running */
+const POLL_INTERVAL_MS = 2000;
+
+/** Number of recent crawls shown */
+const VISIBLE_CRAWLS = 3;
+
+interface CrawlProgressProps {
+  collectionName: string;
+  /** Called when a crawl the list was watching finishes */
+  onCrawlFinished: (crawl: Crawl) => void;
+}
+
+function isCrawlActive(crawl: Crawl): boolean {
+  return crawl.job !== null && isJobActive(crawl.job);
+}
+
+function CrawlStatusIcon({ job }: { job: Job | null }) {
+  switch (job?.status) {
+    case 'queued':
+      return <Clock className="h-4 w-4 text-muted-foreground shrink-0" />;
+    case 'running':
+      return <Loader2 className="h-4 w-4 animate-spin text-primary shrink-0" />;
+    case 'failed':
+      return <AlertCircle className="h-4 w-4 text-destructive shrink-0" />;
+    case 'completed':
+      return job.failures.length === 0 ? (
+        <CheckCircle2 className="h-4 w-4 text-green-600 shrink-0" />
+      ) : (
+        <AlertCircle className="h-4 w-4 text-amber-600 shrink-0" />
+      );
+    default:
+      return <Globe className="h-4 w-4 text-muted-foreground shrink-0" />;
+  }
+}
+
+/**
+ * The most recent website crawls into a collection with their progress,
+ * refreshed while any of them is running.
+ */
+export function CrawlProgress({ collectionName, onCrawlFinished }: CrawlProgressProps) {
+  const [crawls, setCrawls] = useState<Crawl[]>([]);
+  const activeIds = useRef<Set<string>>(new Set());
+  // The polling interval outlives renders, so read the latest callback from a ref
+  const onCrawlFinishedRef = useRef(onCrawlFinished);
+  onCrawlFinishedRef.current = onCrawlFinished;
+
+  const processor = new DocumentProcessor();
+
+  const loadCrawls = async () => {
+    try {
+      const next = await processor.listCrawls(collectionName);
+      for (const crawl of next) {
+        if (activeIds.current.has(crawl.id) && !isCrawlActive(crawl)) {
+          onCrawlFinishedRef.current(crawl);
+        }
+      }
+      activeIds.current = new Set(next.filter(isCrawlActive).map((crawl) => crawl.id));
+      setCrawls(next);
+    } catch {
+      // Logged by DocumentProcessor; try again on the next poll
+    }
+  };
+
+  useEffect(() => {
+    activeIds.current = new Set();
+    setCrawls([]);
+    loadCrawls();
+
+    const handleJobStarted = (event: Event) => {
+      const job = (event as CustomEvent<Job>).detail;
+      if (job.kind === 'crawl' && job.collection === collectionName) {
+        loadCrawls();
+      }
+    };
+
+    window.addEventListener(JOB_STARTED_EVENT, handleJobStarted);
+    return () => window.removeEventListener(JOB_STARTED_EVENT, handleJobStarted);
+  }, [collectionName]);
+
+  const hasActiveCrawls = crawls.some(isCrawlActive);
+
+  useEffect(() => {
+    if (!hasActiveCrawls) return;
+    const timer = setInterval(loadCrawls, POLL_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [hasActiveCrawls, collectionName]);
+
+  if (crawls.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="space-y-2">
+      {crawls.slice(0, VISIBLE_CRAWLS).map((crawl) => {
+        const { job } = crawl;
+        return (
+          <div key={crawl.id} className="space-y-1 p-2 rounded-md bg-muted/50 text-sm">
+            <div className="flex items-center gap-2">
+              <CrawlStatusIcon job={job} />
+              <span className="flex-1 truncate" title={crawl.url}>
+                {crawl.url}
+              </span>
+              <span className="text-xs text-muted-foreground shrink-0">
+                {crawl.pageCount} page{crawl.pageCount !== 1 ? 's' : ''} added
+              </span>
+            </div>
+
+            {job && isJobActive(job) && (
+              <div className="w-full bg-secondary rounded-full h-1.5">
+                <div
+                  className="bg-primary h-1.5 rounded-full transition-all duration-300"
+                  style={{ width: `${job.progress}%` }}
+                />
+              </div>
+            )}
+
+            {job?.status === 'queued' && (
+              <p className="text-xs text-muted-foreground">Waiting to start...</p>
+            )}
+            {job?.error && <p className="text-xs text-destructive">{job.error}</p>}
+            {job && job.failures.length > 0 && (
+              <p className="text-xs text-destructive">
+                {job.failures.length} page{job.failures.length !== 1 ? 's' : ''} could not be
+                added; see the job tray for details
+              </p>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
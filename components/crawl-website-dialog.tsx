@@ -0,0 +1,189 @@
+'use client';
+
+import { useState } from 'react';
+import {
+  DEFAULT_CRAWL_DEPTH,
+  DEFAULT_CRAWL_PAGES,
+  MAX_CRAWL_DEPTH,
+  MAX_CRAWL_PAGES,
+  type Crawl,
+} from '@/lib/crawls';
+import { DocumentProcessor } from '@/lib/document-processor';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import { useToast } from '@/components/ui/use-toast';
+
+interface CrawlWebsiteDialogProps {
+  collectionName: string;
+  /** URL to start from when the dialog opens */
+  initialUrl?: string;
+  /** Element that opens the dialog */
+  trigger: React.ReactNode;
+  /** Called once the crawl job has started */
+  onStarted: (crawl: Crawl) => void;
+}
+
+function parsePatterns(text: string): string[] {
+  return text
+    .split('\n')
+    .map((line) => line.trim())
+    .filter(Boolean);
+}
+
+export function CrawlWebsiteDialog({
+  collectionName,
+  initialUrl = '',
+  trigger,
+  onStarted,
+}: CrawlWebsiteDialogProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [url, setUrl] = useState('');
+  const [maxDepth, setMaxDepth] = useState(String(DEFAULT_CRAWL_DEPTH));
+  const [maxPages, setMaxPages] = useState(String(DEFAULT_CRAWL_PAGES));
+  const [include, setInclude] = useState('');
+  const [exclude, setExclude] = useState('');
+  const [error, setError] = useState('');
+  const [isStarting, setIsStarting] = useState(false);
+  const { toast } = useToast();
+
+  const processor = new DocumentProcessor();
+
+  const handleOpenChange = (open: boolean) => {
+    setIsOpen(open);
+    if (open) {
+      setUrl(initialUrl);
+      setMaxDepth(String(DEFAULT_CRAWL_DEPTH));
+      setMaxPages(String(DEFAULT_CRAWL_PAGES));
+      setInclude('');
+      setExclude('');
+      setError('');
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+
+    setIsStarting(true);
+    try {
+      const { crawl } = await processor.crawlWebsite(collectionName, {
+        url: url.trim(),
+        maxDepth: Number(maxDepth),
+        maxPages: Number(maxPages),
+        include: parsePatterns(include),
+        exclude: parsePatterns(exclude),
+      });
+      toast({
+        title: 'Crawl Started',
+        description: `Crawling ${crawl.url} into "${collectionName}" in the background`,
+      });
+      setIsOpen(false);
+      onStarted(crawl);
+    } catch (error: any) {
+      setError(error.message);
+    } finally {
+      setIsStarting(false);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>{trigger}</DialogTrigger>
+      <DialogContent>
+        <form onSubmit={handleSubmit}>
+          <DialogHeader>
+            <DialogTitle>Crawl Website</DialogTitle>
+            <DialogDescription>
+              Follows links on the same site from a page, or from every page in a sitemap.xml, and
+              adds each page to "{collectionName}" as its own document. Pages blocked by the
+              site's robots.txt are skipped.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="py-4 space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="crawl-url">Start URL or Sitemap</Label>
+              <Input
+                id="crawl-url"
+                value={url}
+                onChange={(e) => setUrl(e.target.value)}
+                placeholder="https://example.com/docs/"
+                disabled={isStarting}
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="crawl-depth">Link Depth</Label>
+                <Input
+                  id="crawl-depth"
+                  type="number"
+                  min={0}
+                  max={MAX_CRAWL_DEPTH}
+                  value={maxDepth}
+                  onChange={(e) => setMaxDepth(e.target.value)}
+                  disabled={isStarting}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="crawl-pages">Max Pages</Label>
+                <Input
+                  id="crawl-pages"
+                  type="number"
+                  min={1}
+                  max={MAX_CRAWL_PAGES}
+                  value={maxPages}
+                  onChange={(e) => setMaxPages(e.target.value)}
+                  disabled={isStarting}
+                />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="crawl-include">Include Paths</Label>
+              <Textarea
+                id="crawl-include"
+                value={include}
+                onChange={(e) => setInclude(e.target.value)}
+                placeholder="/docs/**"
+                rows={2}
+                disabled={isStarting}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="crawl-exclude">Exclude Paths</Label>
+              <Textarea
+                id="crawl-exclude"
+                value={exclude}
+                onChange={(e) => setExclude(e.target.value)}
+                placeholder="/docs/archive/**"
+                rows={2}
+                disabled={isStarting}
+              />
+              <p className="text-xs text-muted-foreground">
+                One pattern per line. * matches within a path segment, ** across segments.
+              </p>
+            </div>
+            {error && <p className="text-sm text-destructive">{error}</p>}
+          </div>
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => handleOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isStarting || !url.trim()}>
+              {isStarting ? 'Starting...' : 'Crawl'}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -12,11 +12,21 @@ import {
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
+import { DEFAULT_COLLECTION_SETTINGS, type CollectionDetailsInput } from '@/lib/collections';
+import { CollectionDetailsFields, type CollectionDetailsValue } from './collection-details-fields';
+
+const EMPTY_DETAILS: CollectionDetailsValue = {
+  description: '',
+  icon: 'folder',
+  color: 'blue',
+  settings: DEFAULT_COLLECTION_SETTINGS,
+  metadataFields: [],
+};
 
 interface CreateCollectionDialogProps {
   isOpen: boolean;
   onClose: () => void;
-  onCreate: (name: string) => void;
+  onCreate: (name: string, details: CollectionDetailsInput) => void;
   existingCollections: string[];
 }
 
@@ -27,6 +37,7 @@ export function CreateCollectionDialog({
   existingCollections,
 }: CreateCollectionDialogProps) {
   const [name, setName] = useState('');
+  const [details, setDetails] = useState<CollectionDetailsValue>(EMPTY_DETAILS);
   const [error, setError] = useState('');
 
   const handleSubmit = (e: React.FormEvent) => {
@@ -45,19 +56,21 @@ export function CreateCollectionDialog({
       return;
     }
 
-    onCreate(trimmedName);
+    onCreate(trimmedName, details);
     setName('');
+    setDetails(EMPTY_DETAILS);
   };
 
   const handleClose = () => {
     setName('');
+    setDetails(EMPTY_DETAILS);
     setError('');
     onClose();
   };
 
   return (
     <Dialog open={isOpen} onOpenChange={handleClose}>
-      <DialogContent>
+      <DialogContent className="max-h-[90vh] overflow-y-auto">
         <form onSubmit={handleSubmit}>
           <DialogHeader>
             <DialogTitle>Create New Collection</DialogTitle>
@@ -66,7 +79,7 @@ export function CreateCollectionDialog({
               documents.
             </DialogDescription>
           </DialogHeader>
-          <div className="py-4">
+          <div className="py-4 space-y-4">
             <div className="space-y-2">
               <Label htmlFor="name">Collection Name</Label>
               <Input
@@ -78,6 +91,7 @@ export function CreateCollectionDialog({
               />
               {error && <p className="text-sm text-destructive">{error}</p>}
             </div>
+            <CollectionDetailsFields value={details} onChange={setDetails} />
           </div>
           <DialogFooter>
             <Button type="button" variant="outline" onClick={handleClose}>
@@ -0,0 +1,135 @@
+'use client';
+
+import { useState } from 'react';
+import { DocumentProcessor, type Document } from '@/lib/document-processor';
+import type { CollectionSummary } from '@/lib/collections';
+import { hasRole } from '@/lib/roles';
+import { Button } from '@/components/ui/button';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import { useToast } from '@/components/ui/use-toast';
+import { CollectionAvatar } from './collection-avatar';
+
+interface DocumentCollectionsDialogProps {
+  document: Document;
+  /** Every collection the caller can see */
+  collections: CollectionSummary[];
+  /** Element that opens the dialog */
+  trigger: React.ReactNode;
+  /** Called after the document's collections have changed */
+  onChanged: () => void;
+}
+
+export function DocumentCollectionsDialog({
+  document,
+  collections,
+  trigger,
+  onChanged,
+}: DocumentCollectionsDialogProps) {
+  const initial = document.containerTags || [];
+  const [isOpen, setIsOpen] = useState(false);
+  const [selected, setSelected] = useState<string[]>(initial);
+  const [isSaving, setIsSaving] = useState(false);
+  const { toast } = useToast();
+
+  const processor = new DocumentProcessor();
+
+  const handleOpenChange = (open: boolean) => {
+    setIsOpen(open);
+    if (open) {
+      setSelected(initial);
+    }
+  };
+
+  const toggle = (name: string, checked: boolean) => {
+    setSelected((previous) =>
+      checked ? [...previous, name] : previous.filter((collection) => collection !== name)
+    );
+  };
+
+  const add = selected.filter((name) => !initial.includes(name));
+  const remove = initial.filter((name) => !selected.includes(name));
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      await processor.updateDocumentCollections(document.id, { add, remove });
+      toast({
+        title: 'Collections Updated',
+        description: `"${document.title}" is now in ${selected.length} collection${selected.length !== 1 ? 's' : ''}`,
+      });
+      setIsOpen(false);
+      onChanged();
+    } catch (error: any) {
+      toast({
+        title: 'Update Failed',
+        description: error.message,
+        variant: 'destructive',
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>{trigger}</DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Collections</DialogTitle>
+          <DialogDescription>
+            Choose every collection "{document.title}" belongs to. To move it, select the new
+            collection and clear the current one.
+          </DialogDescription>
+        </DialogHeader>
+        <ScrollArea className="max-h-80">
+          <div className="space-y-1">
+            {collections.map((collection) => {
+              const canChange = hasRole(collection.role, 'editor');
+              return (
+                <label
+                  key={collection.name}
+                  className="flex items-center gap-3 p-2 rounded-md hover:bg-muted/50 text-sm"
+                >
+                  <input
+                    type="checkbox"
+                    checked={selected.includes(collection.name)}
+                    disabled={!canChange || isSaving}
+                    onChange={(e) => toggle(collection.name, e.target.checked)}
+                  />
+                  <CollectionAvatar icon={collection.icon} color={collection.color} className="h-4 w-4" />
+                  <span className="flex-1 truncate">{collection.name}</span>
+                  {!canChange && <span className="text-xs text-muted-foreground">View only</span>}
+                </label>
+              );
+            })}
+          </div>
+        </ScrollArea>
+        {selected.length === 0 && (
+          <p className="text-sm text-destructive">
+            A document must belong to at least one collection.
+          </p>
+        )}
+        <DialogFooter>
+          <Button variant="outline" onClick={() => handleOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button
+            onClick={handleSave}
+            disabled={isSaving || selected.length === 0 || (add.length === 0 && remove.length === 0)}
+          >
+            {isSaving ? 'Saving...' : 'Save'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,245 @@
+'use client';
+
+import { useState } from 'react';
+import { Loader2, Plus, X } from 'lucide-react';
+import { DocumentProcessor } from '@/lib/document-processor';
+import type { DocumentDetails } from '@/lib/document-details';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { useToast } from '@/components/ui/use-toast';
+
+interface CustomFieldRow {
+  name: string;
+  value: string;
+}
+
+interface DocumentDetailsFormProps {
+  documentId: string;
+  details: DocumentDetails;
+  /** Called with the new title and details once they are saved */
+  onSaved: (title: string, details: DocumentDetails) => void;
+  onCancel: () => void;
+}
+
+/**
+ * The description, author, source URL and custom fields set on a document,
+ * above its content in the viewer.
+ */
+export function DocumentDetailsSummary({ details }: { details: DocumentDetails }) {
+  const fields = Object.entries(details.fields);
+  if (!details.description && !details.author && !details.sourceUrl && fields.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="mb-3 space-y-1 text-sm">
+      {details.description && <p>{details.description}</p>}
+      {details.author && (
+        <p>
+          <span className="text-muted-foreground">Author:</span> {details.author}
+        </p>
+      )}
+      {details.sourceUrl && (
+        <p className="truncate">
+          <span className="text-muted-foreground">Source:</span>{' '}
+          <a
+            href={details.sourceUrl}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="text-primary hover:underline"
+          >
+            {details.sourceUrl}
+          </a>
+        </p>
+      )}
+      {fields.map(([name, value]) => (
+        <p key={name}>
+          <span className="text-muted-foreground">{name}:</span> {value}
+        </p>
+      ))}
+    </div>
+  );
+}
+
+/**
+ * Form for editing a document's title, description, author, source URL and
+ * custom fields.
+ */
+export function DocumentDetailsForm({
+  documentId,
+  details,
+  onSaved,
+  onCancel,
+}: DocumentDetailsFormProps) {
+  const [title, setTitle] = useState(details.title ?? '');
+  const [description, setDescription] = useState(details.description ?? '');
+  const [author, setAuthor] = useState(details.author ?? '');
+  const [sourceUrl, setSourceUrl] = useState(details.sourceUrl ?? '');
+  const [fields, setFields] = useState<CustomFieldRow[]>(
+    Object.entries(details.fields).map(([name, value]) => ({ name, value }))
+  );
+  const [isSaving, setIsSaving] = useState(false);
+  const { toast } = useToast();
+
+  const processor = new DocumentProcessor();
+
+  const updateField = (index: number, change: Partial<CustomFieldRow>) => {
+    setFields((current) =>
+      current.map((field, i) => (i === index ? { ...field, ...change } : field))
+    );
+  };
+
+  const handleSave = async () => {
+    const named = fields
+      .map((field) => ({ name: field.name.trim(), value: field.value }))
+      .filter((field) => field.name);
+    const names = named.map((field) => field.name);
+    const duplicate = names.find((name, index) => names.indexOf(name) !== index);
+    if (duplicate) {
+      toast({
+        title: 'Duplicate Field',
+        description: `"${duplicate}" is used for more than one field`,
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    // Fields that were removed or renamed are cleared
+    const fieldUpdate: Record<string, string | null> = {};
+    for (const name of Object.keys(details.fields)) {
+      fieldUpdate[name] = null;
+    }
+    for (const field of named) {
+      fieldUpdate[field.name] = field.value;
+    }
+
+    setIsSaving(true);
+    try {
+      const result = await processor.updateDocument(documentId, {
+        title,
+        description,
+        author,
+        sourceUrl,
+        fields: fieldUpdate,
+      });
+      toast({
+        title: 'Details Saved',
+        description: `"${result.title}" has been updated`,
+      });
+      onSaved(result.title, result.details);
+    } catch (error: any) {
+      toast({
+        title: 'Save Failed',
+        description: error.message,
+        variant: 'destructive',
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <Label htmlFor="document-title">Title</Label>
+        <Input
+          id="document-title"
+          value={title}
+          onChange={(e) => setTitle(e.target.value)}
+          placeholder="Leave empty to use the title found in the document"
+          maxLength={200}
+          disabled={isSaving}
+        />
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor="document-description">Description</Label>
+        <Textarea
+          id="document-description"
+          value={description}
+          onChange={(e) => setDescription(e.target.value)}
+          maxLength={2000}
+          rows={3}
+          disabled={isSaving}
+        />
+      </div>
+      <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
+        <div className="space-y-2">
+          <Label htmlFor="document-author">Author</Label>
+          <Input
+            id="document-author"
+            value={author}
+            onChange={(e) => setAuthor(e.target.value)}
+            maxLength={200}
+            disabled={isSaving}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="document-source-url">Source URL</Label>
+          <Input
+            id="document-source-url"
+            type="url"
+            value={sourceUrl}
+            onChange={(e) => setSourceUrl(e.target.value)}
+            placeholder="https://"
+            disabled={isSaving}
+          />
+        </div>
+      </div>
+      <div className="space-y-2">
+        <Label>Custom Fields</Label>
+        {fields.map((field, index) => (
+          <div key={index} className="flex gap-2">
+            <Input
+              aria-label="Field name"
+              value={field.name}
+              onChange={(e) => updateField(index, { name: e.target.value })}
+              placeholder="Name"
+              maxLength={40}
+              className="w-40 shrink-0"
+              disabled={isSaving}
+            />
+            <Input
+              aria-label="Field value"
+              value={field.value}
+              onChange={(e) => updateField(index, { value: e.target.value })}
+              placeholder="Value"
+              maxLength={1000}
+              disabled={isSaving}
+            />
+            <Button
+              type="button"
+              variant="ghost"
+              size="icon"
+              title="Remove field"
+              onClick={() => setFields((current) => current.filter((_, i) => i !== index))}
+              disabled={isSaving}
+            >
+              <X className="h-4 w-4" />
+            </Button>
+          </div>
+        ))}
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          onClick={() => setFields((current) => [...current, { name: '', value: '' }])}
+          disabled={isSaving}
+        >
+          <Plus className="mr-2 h-4 w-4" />
+          Add Field
+        </Button>
+      </div>
+      <div className="flex justify-end gap-2">
+        <Button type="button" variant="outline" onClick={onCancel} disabled={isSaving}>
+          Cancel
+        </Button>
+        <Button type="button" onClick={handleSave} disabled={isSaving}>
+          {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+          Save
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,158 @@
+'use client';
+
+import { useState } from 'react';
+import { Plus, X } from 'lucide-react';
+import { DocumentProcessor, type Document } from '@/lib/document-processor';
+import { isLabel, MAX_DOCUMENT_LABELS } from '@/lib/labels';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { useToast } from '@/components/ui/use-toast';
+
+interface DocumentLabelsDialogProps {
+  document: Document;
+  /** Labels already in use, offered as suggestions */
+  knownLabels: string[];
+  /** Element that opens the dialog */
+  trigger: React.ReactNode;
+  /** Called after the document's labels have changed */
+  onChanged: () => void;
+}
+
+export function DocumentLabelsDialog({
+  document,
+  knownLabels,
+  trigger,
+  onChanged,
+}: DocumentLabelsDialogProps) {
+  const initial = document.labels;
+  const [isOpen, setIsOpen] = useState(false);
+  const [selected, setSelected] = useState<string[]>(initial);
+  const [input, setInput] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const { toast } = useToast();
+
+  const processor = new DocumentProcessor();
+
+  const handleOpenChange = (open: boolean) => {
+    setIsOpen(open);
+    if (open) {
+      setSelected(initial);
+      setInput('');
+    }
+  };
+
+  const newLabel = input.trim();
+  const canAddLabel =
+    isLabel(newLabel) && !selected.includes(newLabel) && selected.length < MAX_DOCUMENT_LABELS;
+
+  const handleAddLabel = (event?: React.FormEvent) => {
+    event?.preventDefault();
+    if (!canAddLabel) return;
+    setSelected((previous) => [...previous, newLabel]);
+    setInput('');
+  };
+
+  const add = selected.filter((label) => !initial.includes(label));
+  const remove = initial.filter((label) => !selected.includes(label));
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      const result = await processor.updateDocumentLabels(document.id, { add, remove });
+      toast({
+        title: 'Labels Updated',
+        description: `"${document.title}" has ${result.labels.length} label${result.labels.length !== 1 ? 's' : ''}`,
+      });
+      setIsOpen(false);
+      onChanged();
+    } catch (error: any) {
+      toast({
+        title: 'Update Failed',
+        description: error.message,
+        variant: 'destructive',
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const suggestions = knownLabels.filter((label) => !selected.includes(label));
+
+  return (
+    <Dialog open={isOpen} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>{trigger}</DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Labels</DialogTitle>
+          <DialogDescription>
+            Label "{document.title}" to find it again across collections. Labels are
+            case-sensitive.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-3">
+          <div className="flex flex-wrap gap-2">
+            {selected.length === 0 && (
+              <p className="text-sm text-muted-foreground">No labels yet.</p>
+            )}
+            {selected.map((label) => (
+              <Badge key={label} variant="secondary" className="gap-1 font-normal">
+                {label}
+                <button
+                  type="button"
+                  title={`Remove "${label}"`}
+                  onClick={() => setSelected((previous) => previous.filter((item) => item !== label))}
+                  disabled={isSaving}
+                >
+                  <X className="h-3 w-3" />
+                </button>
+              </Badge>
+            ))}
+          </div>
+          <form onSubmit={handleAddLabel} className="flex gap-2">
+            <Input
+              aria-label="New label"
+              value={input}
+              onChange={(e) => setInput(e.target.value)}
+              placeholder="Add a label, e.g. draft"
+              maxLength={40}
+              list="document-label-suggestions"
+              disabled={isSaving}
+            />
+            <datalist id="document-label-suggestions">
+              {suggestions.map((label) => (
+                <option key={label} value={label} />
+              ))}
+            </datalist>
+            <Button type="submit" variant="outline" size="icon" disabled={isSaving || !canAddLabel}>
+              <Plus className="h-4 w-4" />
+            </Button>
+          </form>
+          {newLabel.includes(',') && (
+            <p className="text-sm text-destructive">Labels cannot contain commas.</p>
+          )}
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => handleOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button
+            onClick={handleSave}
+            disabled={isSaving || (add.length === 0 && remove.length === 0)}
+          >
+            {isSaving ? 'Saving...' : 'Save'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,153 @@
+'use client';
+
+import { useState } from 'react';
+import { Eye, Loader2, Trash2 } from 'lucide-react';
+import { DocumentProcessor } from '@/lib/document-processor';
+import type { DuplicatesReport } from '@/lib/duplicates';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { useToast } from '@/components/ui/use-toast';
+
+interface DuplicatesReportDialogProps {
+  collectionName: string;
+  /** Element that opens the dialog */
+  trigger: React.ReactNode;
+  onViewDocument: (documentId: string) => void;
+  /** Deletes a copy; omitted for callers who cannot delete documents */
+  onDeleteDocument?: (documentId: string, title: string) => Promise<void>;
+}
+
+/**
+ * Lists documents in a collection that share a content hash or normalized
+ * URL, so extra copies can be reviewed and deleted.
+ */
+export function DuplicatesReportDialog({
+  collectionName,
+  trigger,
+  onViewDocument,
+  onDeleteDocument,
+}: DuplicatesReportDialogProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [report, setReport] = useState<DuplicatesReport | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const { toast } = useToast();
+
+  const processor = new DocumentProcessor();
+
+  const loadReport = async () => {
+    setIsLoading(true);
+    try {
+      setReport(await processor.getDuplicatesReport(collectionName));
+    } catch (error: any) {
+      toast({
+        title: 'Error',
+        description: 'Failed to find duplicates: ' + error.message,
+        variant: 'destructive',
+      });
+      setIsOpen(false);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleOpenChange = (open: boolean) => {
+    setIsOpen(open);
+    if (open) {
+      loadReport();
+    }
+  };
+
+  const handleView = (documentId: string) => {
+    setIsOpen(false);
+    onViewDocument(documentId);
+  };
+
+  const handleDelete = async (documentId: string, title: string) => {
+    await onDeleteDocument?.(documentId, title);
+    await loadReport();
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>{trigger}</DialogTrigger>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Duplicates in "{collectionName}"</DialogTitle>
+          <DialogDescription>
+            Documents with identical file contents or links to the same page.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading && !report ? (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : report ? (
+          <div className="space-y-3">
+            {report.groups.length === 0 ? (
+              <p className="text-sm text-muted-foreground py-4 text-center">No duplicates found</p>
+            ) : (
+              <ScrollArea className="max-h-[50vh] pr-4">
+                <div className="space-y-3">
+                  {report.groups.map((group) => (
+                    <div key={group.fingerprint} className="border rounded-lg p-2 space-y-1">
+                      <p className="text-xs text-muted-foreground px-1">
+                        {group.documents.length} copies •{' '}
+                        {group.fingerprint.startsWith('url:') ? 'Same link' : 'Same file contents'}
+                      </p>
+                      {group.documents.map((doc) => (
+                        <div key={doc.id} className="flex items-center gap-2 px-1 text-sm">
+                          <span className="flex-1 truncate">{doc.title || 'Untitled'}</span>
+                          {doc.uploadedAt && (
+                            <span className="text-xs text-muted-foreground">
+                              {new Date(doc.uploadedAt).toLocaleDateString()}
+                            </span>
+                          )}
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            className="h-7"
+                            onClick={() => handleView(doc.id)}
+                          >
+                            <Eye className="h-4 w-4" />
+                          </Button>
+                          {onDeleteDocument && (
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              className="h-7"
+                              disabled={isLoading}
+                              onClick={() => handleDelete(doc.id, doc.title || 'Untitled')}
+                            >
+                              <Trash2 className="h-4 w-4 text-destructive" />
+                            </Button>
+                          )}
+                        </div>
+                      ))}
+                    </div>
+                  ))}
+                </div>
+              </ScrollArea>
+            )}
+            {report.unchecked > 0 && (
+              <p className="text-xs text-muted-foreground">
+                {report.unchecked} file{report.unchecked !== 1 ? 's were' : ' was'} uploaded
+                before duplicate detection and could not be compared, and uploads of the same
+                file are not caught. Upload such a file again under the same name to check it
+                from then on; it becomes a new version of the document.
+              </p>
+            )}
+          </div>
+        ) : null}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,95 @@
+'use client';
+
+import { useState } from 'react';
+import { DocumentProcessor } from '@/lib/document-processor';
+import type { CollectionSummary } from '@/lib/collections';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import { useToast } from '@/components/ui/use-toast';
+import { CollectionDetailsFields, type CollectionDetailsValue } from './collection-details-fields';
+
+interface EditCollectionDialogProps {
+  collection: CollectionSummary;
+  /** Element that opens the dialog */
+  trigger: React.ReactNode;
+  onSaved: (collection: CollectionSummary) => void;
+}
+
+function toValue(collection: CollectionSummary): CollectionDetailsValue {
+  return {
+    description: collection.description,
+    icon: collection.icon,
+    color: collection.color,
+    settings: collection.settings,
+    metadataFields: collection.metadataFields,
+  };
+}
+
+export function EditCollectionDialog({ collection, trigger, onSaved }: EditCollectionDialogProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [details, setDetails] = useState<CollectionDetailsValue>(toValue(collection));
+  const [isSaving, setIsSaving] = useState(false);
+  const { toast } = useToast();
+
+  const processor = new DocumentProcessor();
+
+  const handleOpenChange = (open: boolean) => {
+    setIsOpen(open);
+    if (open) {
+      setDetails(toValue(collection));
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSaving(true);
+    try {
+      const result = await processor.updateCollection(collection.name, details);
+      onSaved(result.collection);
+      setIsOpen(false);
+    } catch (error: any) {
+      toast({
+        title: 'Update Failed',
+        description: error.message,
+        variant: 'destructive',
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>{trigger}</DialogTrigger>
+      <DialogContent className="max-h-[90vh] overflow-y-auto">
+        <form onSubmit={handleSubmit}>
+          <DialogHeader>
+            <DialogTitle>Edit "{collection.name}"</DialogTitle>
+            <DialogDescription>
+              Change how this collection is described and displayed.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="py-4">
+            <CollectionDetailsFields value={details} onChange={setDetails} disabled={isSaving} />
+          </div>
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => handleOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isSaving}>
+              {isSaving ? 'Saving...' : 'Save Changes'}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,290 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { AlertCircle, Loader2, RefreshCw, Rss, Trash2 } from 'lucide-react';
+import { DocumentProcessor } from '@/lib/document-processor';
+import { DEFAULT_FEED_INTERVAL, type Feed } from '@/lib/feeds';
+import { isJobActive, JOB_STARTED_EVENT, type Job } from '@/lib/jobs';
+import { REFRESH_INTERVAL_LABELS, REFRESH_INTERVALS, type RefreshInterval } from '@/lib/refresh';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { NativeSelect } from '@/components/ui/native-select';
+import { useToast } from '@/components/ui/use-toast';
+import { cn } from '@/lib/utils';
+
+/** How often to refresh while a feed is being polled */
+const POLL_INTERVAL_MS = 2000;
+
+/** Label for an interval in the feed pickers, where 'off' means manual polls only */
+function intervalLabel(interval: RefreshInterval): string {
+  return interval === 'off' ? 'Only when asked' : REFRESH_INTERVAL_LABELS[interval];
+}
+
+interface FeedsPanelProps {
+  collectionName: string;
+  /** Whether the caller can subscribe, unsubscribe and poll */
+  canEdit: boolean;
+  /** Called when a poll the panel was watching finishes */
+  onFeedPolled: (feed: Feed) => void;
+}
+
+function isPolling(feed: Feed): boolean {
+  return feed.job !== null && isJobActive(feed.job);
+}
+
+/**
+ * A collection's RSS and Atom feed subscriptions, with when each was last
+ * polled and why the last poll failed. Editors can subscribe, unsubscribe,
+ * change how often a feed is polled and poll it now.
+ */
+export function FeedsPanel({ collectionName, canEdit, onFeedPolled }: FeedsPanelProps) {
+  const [feeds, setFeeds] = useState<Feed[]>([]);
+  const [url, setUrl] = useState('');
+  const [newInterval, setNewInterval] = useState<RefreshInterval>(DEFAULT_FEED_INTERVAL);
+  const [isSubscribing, setIsSubscribing] = useState(false);
+  const activeIds = useRef<Set<string>>(new Set());
+  // The polling interval outlives renders, so read the latest callback from a ref
+  const onFeedPolledRef = useRef(onFeedPolled);
+  onFeedPolledRef.current = onFeedPolled;
+  const { toast } = useToast();
+
+  const processor = new DocumentProcessor();
+
+  const loadFeeds = async () => {
+    try {
+      const next = await processor.listFeeds(collectionName);
+      for (const feed of next) {
+        if (activeIds.current.has(feed.id) && !isPolling(feed)) {
+          onFeedPolledRef.current(feed);
+        }
+      }
+      activeIds.current = new Set(next.filter(isPolling).map((feed) => feed.id));
+      setFeeds(next);
+    } catch {
+      // Logged by DocumentProcessor; try again on the next poll
+    }
+  };
+
+  useEffect(() => {
+    activeIds.current = new Set();
+    setFeeds([]);
+    setUrl('');
+    loadFeeds();
+
+    const handleJobStarted = (event: Event) => {
+      const job = (event as CustomEvent<Job>).detail;
+      if (job.kind === 'poll-feed' && job.collection === collectionName) {
+        loadFeeds();
+      }
+    };
+
+    window.addEventListener(JOB_STARTED_EVENT, handleJobStarted);
+    return () => window.removeEventListener(JOB_STARTED_EVENT, handleJobStarted);
+  }, [collectionName]);
+
+  const hasActivePolls = feeds.some(isPolling);
+
+  useEffect(() => {
+    if (!hasActivePolls) return;
+    const timer = setInterval(loadFeeds, POLL_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [hasActivePolls, collectionName]);
+
+  const handleSubscribe = async () => {
+    if (!url.trim()) return;
+
+    setIsSubscribing(true);
+    try {
+      const { feed } = await processor.subscribeToFeed(collectionName, {
+        url: url.trim(),
+        interval: newInterval,
+      });
+      toast({
+        title: 'Subscribed',
+        description: `New entries from ${feed.url} will be added to "${collectionName}"`,
+      });
+      setUrl('');
+    } catch (error: any) {
+      toast({
+        title: 'Subscribe Failed',
+        description: error.message,
+        variant: 'destructive',
+      });
+    } finally {
+      setIsSubscribing(false);
+    }
+  };
+
+  const handlePoll = async (feed: Feed) => {
+    try {
+      await processor.pollFeed(collectionName, feed.id);
+    } catch (error: any) {
+      toast({
+        title: 'Poll Failed',
+        description: error.message,
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const handleIntervalChange = async (feed: Feed, next: RefreshInterval) => {
+    try {
+      const updated = await processor.updateFeed(collectionName, feed.id, next);
+      setFeeds((current) => current.map((item) => (item.id === feed.id ? updated : item)));
+    } catch (error: any) {
+      toast({
+        title: 'Update Failed',
+        description: error.message,
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const handleUnsubscribe = async (feed: Feed) => {
+    try {
+      await processor.unsubscribeFromFeed(collectionName, feed.id);
+      setFeeds((current) => current.filter((item) => item.id !== feed.id));
+      toast({
+        title: 'Unsubscribed',
+        description: `${feed.title || feed.url} will no longer be polled. Its documents are kept.`,
+      });
+    } catch (error: any) {
+      toast({
+        title: 'Unsubscribe Failed',
+        description: error.message,
+        variant: 'destructive',
+      });
+    }
+  };
+
+  if (!canEdit && feeds.length === 0) {
+    return null;
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg">Feeds</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {canEdit && (
+          <div className="flex gap-2">
+            <Input
+              value={url}
+              onChange={(e) => setUrl(e.target.value)}
+              placeholder="https://example.com/feed.xml"
+              disabled={isSubscribing}
+              onKeyDown={(e) => e.key === 'Enter' && handleSubscribe()}
+            />
+            <NativeSelect
+              aria-label="Poll interval"
+              value={newInterval}
+              onChange={(e) => setNewInterval(e.target.value as RefreshInterval)}
+              disabled={isSubscribing}
+              className="h-9 w-40 shrink-0"
+            >
+              {REFRESH_INTERVALS.map((option) => (
+                <option key={option} value={option}>
+                  {intervalLabel(option)}
+                </option>
+              ))}
+            </NativeSelect>
+            <Button
+              onClick={handleSubscribe}
+              disabled={isSubscribing || !url.trim()}
+              variant="outline"
+            >
+              {isSubscribing ? (
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              ) : (
+                <Rss className="mr-2 h-4 w-4" />
+              )}
+              Subscribe
+            </Button>
+          </div>
+        )}
+
+        {feeds.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            Subscribe to an RSS or Atom feed to add its new entries to this collection
+            automatically.
+          </p>
+        ) : (
+          <div className="space-y-2">
+            {feeds.map((feed) => (
+              <div key={feed.id} className="flex items-start gap-3 p-2 rounded-md bg-muted/50 text-sm">
+                <Rss className="h-4 w-4 mt-0.5 text-muted-foreground shrink-0" />
+                <div className="flex-1 min-w-0 space-y-0.5">
+                  <div className="font-medium truncate" title={feed.title || feed.url}>
+                    {feed.title || feed.url}
+                  </div>
+                  {feed.title && (
+                    <div className="text-xs text-muted-foreground truncate" title={feed.url}>
+                      {feed.url}
+                    </div>
+                  )}
+                  <div className="text-xs text-muted-foreground">
+                    {feed.entryCount} entr{feed.entryCount === 1 ? 'y' : 'ies'} added •{' '}
+                    {isPolling(feed)
+                      ? 'Polling...'
+                      : feed.lastPolledAt
+                        ? `Polled ${new Date(feed.lastPolledAt).toLocaleString()}`
+                        : 'Not polled yet'}
+                  </div>
+                  {feed.lastError && (
+                    <div className="flex items-center gap-1 text-xs text-destructive">
+                      <AlertCircle className="h-3 w-3 shrink-0" />
+                      <span className="truncate" title={feed.lastError}>
+                        {feed.lastError}
+                      </span>
+                    </div>
+                  )}
+                </div>
+                {canEdit ? (
+                  <div className="flex items-center gap-1 shrink-0">
+                    <NativeSelect
+                      aria-label="Poll interval"
+                      value={feed.interval}
+                      onChange={(e) =>
+                        handleIntervalChange(feed, e.target.value as RefreshInterval)
+                      }
+                      className="h-8 w-36 text-xs"
+                    >
+                      {REFRESH_INTERVALS.map((option) => (
+                        <option key={option} value={option}>
+                          {intervalLabel(option)}
+                        </option>
+                      ))}
+                    </NativeSelect>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      title="Poll now"
+                      onClick={() => handlePoll(feed)}
+                      disabled={isPolling(feed)}
+                    >
+                      <RefreshCw className={cn('h-4 w-4', isPolling(feed) && 'animate-spin')} />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      title="Unsubscribe"
+                      onClick={() => handleUnsubscribe(feed)}
+                    >
+                      <Trash2 className="h-4 w-4 text-destructive" />
+                    </Button>
+                  </div>
+                ) : (
+                  <span className="text-xs text-muted-foreground shrink-0">
+                    {intervalLabel(feed.interval)}
+                  </span>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,222 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import {
+  AlertCircle,
+  CheckCircle2,
+  ChevronDown,
+  ChevronUp,
+  Clock,
+  Loader2,
+  X,
+} from 'lucide-react';
+import { DocumentProcessor } from '@/lib/document-processor';
+import { describeJob, isJobActive, JOB_STARTED_EVENT, type Job } from '@/lib/jobs';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { useToast } from '@/components/ui/use-toast';
+
+/** How often to refresh while any job is queued or running */
+const POLL_INTERVAL_MS = 2000;
+
+interface JobTrayProps {
+  /** Called when a job the tray was watching finishes */
+  onJobFinished?: (job: Job) => void;
+}
+
+function JobStatusIcon({ job }: { job: Job }) {
+  switch (job.status) {
+    case 'queued':
+      return <Clock className="h-4 w-4 text-muted-foreground shrink-0" />;
+    case 'running':
+      return <Loader2 className="h-4 w-4 animate-spin text-primary shrink-0" />;
+    case 'completed':
+      return job.failures.length === 0 ? (
+        <CheckCircle2 className="h-4 w-4 text-green-600 shrink-0" />
+      ) : (
+        <AlertCircle className="h-4 w-4 text-amber-600 shrink-0" />
+      );
+    case 'failed':
+      return <AlertCircle className="h-4 w-4 text-destructive shrink-0" />;
+  }
+}
+
+function JobItem({ job, onDismiss }: { job: Job; onDismiss: () => void }) {
+  const [showFailures, setShowFailures] = useState(false);
+
+  return (
+    <div className="space-y-2 p-2 rounded-md bg-muted/50 text-sm">
+      <div className="flex items-center gap-2">
+        <JobStatusIcon job={job} />
+        <span className="flex-1 truncate font-medium" title={describeJob(job)}>
+          {describeJob(job)}
+        </span>
+        {!isJobActive(job) && (
+          <Button variant="ghost" size="icon" className="h-6 w-6" onClick={onDismiss}>
+            <X className="h-3 w-3" />
+          </Button>
+        )}
+      </div>
+
+      <div className="w-full bg-secondary rounded-full h-1.5">
+        <div
+          className="bg-primary h-1.5 rounded-full transition-all duration-300"
+          style={{ width: `${job.progress}%` }}
+        />
+      </div>
+
+      <div className="flex justify-between text-xs text-muted-foreground">
+        <span>
+          {job.status === 'queued'
+            ? 'Waiting to start...'
+            : job.total > 0
+              ? `${job.processed} of ${job.total} documents`
+              : job.status === 'running'
+                ? 'Preparing...'
+                : 'No documents'}
+        </span>
+        <span>{job.progress}%</span>
+      </div>
+
+      {job.error && <p className="text-xs text-destructive">{job.error}</p>}
+
+      {job.failures.length > 0 && (
+        <div>
+          <button
+            type="button"
+            className="text-xs text-destructive hover:underline"
+            onClick={() => setShowFailures(!showFailures)}
+          >
+            {job.failures.length} document{job.failures.length !== 1 ? 's' : ''} failed
+            {showFailures ? ' (hide)' : ' (show)'}
+          </button>
+          {showFailures && (
+            <ul className="mt-1 space-y-1 text-xs">
+              {job.failures.map((failure) => (
+                <li key={failure.id} className="p-1.5 bg-background rounded">
+                  <div className="font-medium truncate">{failure.title || failure.id}</div>
+                  <div className="text-muted-foreground">{failure.error}</div>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Floating panel listing the caller's background jobs with their progress.
+ *
+ * Jobs are stored on the server, so the tray picks up where it left off
+ * after a page reload.
+ */
+export function JobTray({ onJobFinished }: JobTrayProps) {
+  const [jobs, setJobs] = useState<Job[]>([]);
+  const [isCollapsed, setIsCollapsed] = useState(false);
+  const activeIds = useRef<Set<string>>(new Set());
+  // The polling interval outlives renders, so read the latest callback from a ref
+  const onJobFinishedRef = useRef(onJobFinished);
+  onJobFinishedRef.current = onJobFinished;
+  const { toast } = useToast();
+
+  const processor = new DocumentProcessor();
+
+  const updateJobs = (next: Job[]) => {
+    for (const job of next) {
+      if (activeIds.current.has(job.id) && !isJobActive(job)) {
+        const succeeded = job.status === 'completed' && job.failures.length === 0;
+        toast({
+          title: succeeded ? 'Job Finished' : 'Job Finished With Errors',
+          description: describeJob(job),
+          variant: succeeded ? 'default' : 'destructive',
+        });
+        onJobFinishedRef.current?.(job);
+      }
+    }
+    activeIds.current = new Set(next.filter(isJobActive).map((job) => job.id));
+    setJobs(next);
+  };
+
+  const loadJobs = async () => {
+    try {
+      updateJobs(await processor.listJobs());
+    } catch {
+      // Logged by DocumentProcessor; try again on the next poll
+    }
+  };
+
+  useEffect(() => {
+    loadJobs();
+
+    const handleJobStarted = (event: Event) => {
+      const job = (event as CustomEvent<Job>).detail;
+      activeIds.current.add(job.id);
+      setJobs((previous) => [job, ...previous.filter((item) => item.id !== job.id)]);
+      setIsCollapsed(false);
+    };
+
+    window.addEventListener(JOB_STARTED_EVENT, handleJobStarted);
+    return () => window.removeEventListener(JOB_STARTED_EVENT, handleJobStarted);
+  }, []);
+
+  const hasActiveJobs = jobs.some(isJobActive);
+
+  useEffect(() => {
+    if (!hasActiveJobs) return;
+    const timer = setInterval(loadJobs, POLL_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [hasActiveJobs]);
+
+  const handleDismiss = async (jobId: string) => {
+    try {
+      await processor.dismissJob(jobId);
+      setJobs((previous) => previous.filter((job) => job.id !== jobId));
+    } catch (error: any) {
+      toast({
+        title: 'Error',
+        description: error.message,
+        variant: 'destructive',
+      });
+    }
+  };
+
+  if (jobs.length === 0) {
+    return null;
+  }
+
+  const activeCount = jobs.filter(isJobActive).length;
+
+  return (
+    <Card className="fixed bottom-4 right-4 z-40 w-80 shadow-lg">
+      <CardHeader className="p-3 pb-2">
+        <div className="flex items-center justify-between">
+          <CardTitle className="text-sm">
+            {activeCount > 0 ? `Background Jobs (${activeCount} running)` : 'Background Jobs'}
+          </CardTitle>
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-6 w-6"
+            onClick={() => setIsCollapsed(!isCollapsed)}
+          >
+            {isCollapsed ? <ChevronUp className="h-4 w-4" /> : <ChevronDown className="h-4 w-4" />}
+          </Button>
+        </div>
+      </CardHeader>
+      {!isCollapsed && (
+        <CardContent className="p-3 pt-0">
+          <ScrollArea className="max-h-80">
+            <div className="space-y-2">
+              {jobs.map((job) => (
+                <JobItem key={job.id} job={job} onDismiss={() => handleDismiss(job.id)} />
+              ))}
+            </div>
+          </ScrollArea>
+        </CardContent>
+      )}
+    </Card>
+  );
+}
@@ -0,0 +1,65 @@
+'use client';
+
+import { Tag } from 'lucide-react';
+import type { LabelSummary } from '@/lib/labels';
+import { Button } from '@/components/ui/button';
+import { cn } from '@/lib/utils';
+
+interface LabelFilterProps {
+  /** Labels to choose from */
+  labels: LabelSummary[];
+  /** Selected labels; documents must carry all of them */
+  value: string[];
+  onChange: (value: string[]) => void;
+  disabled?: boolean;
+  className?: string;
+}
+
+/**
+ * Toggleable label chips for narrowing documents down to those carrying
+ * every selected label. Renders nothing when there are no labels.
+ */
+export function LabelFilter({ labels, value, onChange, disabled, className }: LabelFilterProps) {
+  if (labels.length === 0) {
+    return null;
+  }
+
+  const toggle = (name: string) => {
+    onChange(value.includes(name) ? value.filter((label) => label !== name) : [...value, name]);
+  };
+
+  return (
+    <div className={cn('flex flex-wrap items-center gap-2', className)}>
+      <Tag className="h-4 w-4 text-muted-foreground" />
+      {labels.map((label) => (
+        <button
+          key={label.name}
+          type="button"
+          onClick={() => toggle(label.name)}
+          disabled={disabled}
+          className={cn(
+            'rounded-full border px-2.5 py-0.5 text-xs transition-colors',
+            value.includes(label.name)
+              ? 'border-primary bg-primary text-primary-foreground'
+              : 'hover:bg-muted'
+          )}
+        >
+          {label.name}
+          <span className="ml-1 opacity-70">{label.documentCount}</span>
+        </button>
+      ))}
+      {value.length > 0 && (
+        <Button
+          type="button"
+          variant="ghost"
+          size="sm"
+          className="h-6 px-2 text-xs"
+          onClick={() => onChange([])}
+          disabled={disabled}
+        >
+          Clear
+        </Button>
+      )}
+    </div>
+  );
+}
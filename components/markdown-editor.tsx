@@ -0,0 +1,175 @@
+'use client';
+
+import { useRef } from 'react';
+import { Bold, Code, Heading, Italic, Link as LinkIcon, List, ListOrdered } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+
+interface MarkdownEditorProps {
+  id?: string;
+  value: string;
+  onChange: (value: string) => void;
+  placeholder?: string;
+  disabled?: boolean;
+  maxLength?: number;
+}
+
+interface Edit {
+  value: string;
+  selectionStart: number;
+  selectionEnd: number;
+}
+
+/**
+ * Wraps the selection in `before` and `after`, or inserts `placeholder`
+ * between them when nothing is selected.
+ */
+function wrapSelection(
+  text: string,
+  start: number,
+  end: number,
+  before: string,
+  after: string,
+  placeholder: string
+): Edit {
+  const selected = text.slice(start, end) || placeholder;
+  return {
+    value: text.slice(0, start) + before + selected + after + text.slice(end),
+    selectionStart: start + before.length,
+    selectionEnd: start + before.length + selected.length,
+  };
+}
+
+/**
+ * Adds a prefix to every line touched by the selection. `prefix` gets the
+ * line's position, for numbered lists.
+ */
+function prefixLines(
+  text: string,
+  start: number,
+  end: number,
+  prefix: (index: number) => string
+): Edit {
+  const lineStart = text.lastIndexOf('\n', start - 1) + 1;
+  const lineEnd = text.indexOf('\n', end);
+  const block = text.slice(lineStart, lineEnd === -1 ? text.length : lineEnd);
+  const prefixed = block
+    .split('\n')
+    .map((line, index) => prefix(index) + line)
+    .join('\n');
+  return {
+    value: text.slice(0, lineStart) + prefixed + text.slice(lineStart + block.length),
+    selectionStart: lineStart,
+    selectionEnd: lineStart + prefixed.length,
+  };
+}
+
+/**
+ * A plain-text Markdown editor with a formatting toolbar. Toolbar buttons
+ * insert Markdown syntax around the selection; Ctrl/Cmd+B and Ctrl/Cmd+I
+ * add bold and italic.
+ */
+export function MarkdownEditor({
+  id,
+  value,
+  onChange,
+  placeholder,
+  disabled,
+  maxLength,
+}: MarkdownEditorProps) {
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+
+  const apply = (edit: (text: string, start: number, end: number) => Edit) => {
+    const textarea = textareaRef.current;
+    if (!textarea) return;
+
+    const next = edit(value, textarea.selectionStart, textarea.selectionEnd);
+    onChange(next.value);
+    // Restore the selection once React has rendered the new value
+    requestAnimationFrame(() => {
+      textarea.focus();
+      textarea.setSelectionRange(next.selectionStart, next.selectionEnd);
+    });
+  };
+
+  const actions = [
+    {
+      label: 'Heading',
+      icon: Heading,
+      run: () => apply((text, start, end) => prefixLines(text, start, end, () => '## ')),
+    },
+    {
+      label: 'Bold',
+      icon: Bold,
+      run: () => apply((text, start, end) => wrapSelection(text, start, end, '**', '**', 'bold')),
+    },
+    {
+      label: 'Italic',
+      icon: Italic,
+      run: () => apply((text, start, end) => wrapSelection(text, start, end, '_', '_', 'italic')),
+    },
+    {
+      label: 'Code',
+      icon: Code,
+      run: () => apply((text, start, end) => wrapSelection(text, start, end, '`', '`', 'code')),
+    },
+    {
+      label: 'Link',
+      icon: LinkIcon,
+      run: () =>
+        apply((text, start, end) => wrapSelection(text, start, end, '[', '](https://)', 'link')),
+    },
+    {
+      label: 'Bulleted list',
+      icon: List,
+      run: () => apply((text, start, end) => prefixLines(text, start, end, () => '- ')),
+    },
+    {
+      label: 'Numbered list',
+      icon: ListOrdered,
+      run: () =>
+        apply((text, start, end) => prefixLines(text, start, end, (index) => `${index + 1}. `)),
+    },
+  ];
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (!(e.metaKey || e.ctrlKey)) return;
+    const key = e.key.toLowerCase();
+    if (key === 'b' || key === 'i') {
+      e.preventDefault();
+      actions.find((action) => action.label === (key === 'b' ? 'Bold' : 'Italic'))!.run();
+    }
+  };
+
+  return (
+    <div className="rounded-md border">
+      <div className="flex flex-wrap gap-1 border-b p-1">
+        {actions.map(({ label, icon: Icon, run }) => (
+          <Button
+            key={label}
+            type="button"
+            variant="ghost"
+            size="sm"
+            title={label}
+            aria-label={label}
+            onClick={run}
+            disabled={disabled}
+          >
+            <Icon className="h-4 w-4" />
+          </Button>
+        ))}
+      </div>
+      <Textarea
+        id={id}
+        ref={textareaRef}
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        onKeyDown={handleKeyDown}
+        placeholder={placeholder}
+        disabled={disabled}
+        maxLength={maxLength}
+        className="min-h-[320px] resize-y rounded-none border-0 font-mono focus-visible:ring-0 focus-visible:ring-offset-0"
+      />
+    </div>
+  );
+}
@@ -0,0 +1,119 @@
+'use client';
+
+import { useState } from 'react';
+import { DocumentProcessor } from '@/lib/document-processor';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { NativeSelect } from '@/components/ui/native-select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import { useToast } from '@/components/ui/use-toast';
+
+interface MergeCollectionDialogProps {
+  collectionName: string;
+  /** Collections the caller can add documents to */
+  targets: string[];
+  /** Element that opens the dialog */
+  trigger: React.ReactNode;
+  /** Called once the merge job has started; its progress is shown in the job tray */
+  onStarted: () => void;
+}
+
+export function MergeCollectionDialog({
+  collectionName,
+  targets,
+  trigger,
+  onStarted,
+}: MergeCollectionDialogProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [target, setTarget] = useState('');
+  const [error, setError] = useState('');
+  const [isStarting, setIsStarting] = useState(false);
+  const { toast } = useToast();
+
+  const processor = new DocumentProcessor();
+
+  const handleOpenChange = (open: boolean) => {
+    setIsOpen(open);
+    if (open) {
+      setTarget('');
+      setError('');
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+
+    if (!target) {
+      setError('Choose a collection to merge into');
+      return;
+    }
+
+    setIsStarting(true);
+    try {
+      await processor.mergeCollection(collectionName, target);
+      toast({
+        title: 'Merge Started',
+        description: `Moving the documents in "${collectionName}" to "${target}" in the background`,
+      });
+      setIsOpen(false);
+      onStarted();
+    } catch (error: any) {
+      setError(error.message);
+    } finally {
+      setIsStarting(false);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>{trigger}</DialogTrigger>
+      <DialogContent onClick={(e) => e.stopPropagation()}>
+        <form onSubmit={handleSubmit}>
+          <DialogHeader>
+            <DialogTitle>Merge Collection</DialogTitle>
+            <DialogDescription>
+              Every document in "{collectionName}" will be moved to the chosen collection, and
+              "{collectionName}" will be removed.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="py-4 space-y-2">
+            <Label htmlFor="merge-target">Merge Into</Label>
+            <NativeSelect
+              id="merge-target"
+              value={target}
+              onChange={(e) => setTarget(e.target.value)}
+              disabled={isStarting || targets.length === 0}
+            >
+              <option value="">
+                {targets.length === 0 ? 'No other collections' : 'Select a collection...'}
+              </option>
+              {targets.map((name) => (
+                <option key={name} value={name}>
+                  {name}
+                </option>
+              ))}
+            </NativeSelect>
+            {error && <p className="text-sm text-destructive">{error}</p>}
+          </div>
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => handleOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isStarting || !target}>
+              {isStarting ? 'Starting...' : 'Merge'}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
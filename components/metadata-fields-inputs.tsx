@@ -0,0 +1,63 @@
+'use client';
+
+import type { MetadataField } from '@/lib/metadata-schema';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { NativeSelect } from '@/components/ui/native-select';
+
+interface MetadataFieldsInputsProps {
+  fields: MetadataField[];
+  /** Entered values by field name */
+  values: Record<string, string>;
+  onChange: (values: Record<string, string>) => void;
+  disabled?: boolean;
+}
+
+/**
+ * Inputs for a collection's metadata fields, one per field in its type.
+ * Required fields are marked with an asterisk.
+ */
+export function MetadataFieldsInputs({ fields, values, onChange, disabled }: MetadataFieldsInputsProps) {
+  return (
+    <div className="grid grid-cols-1 gap-3 sm:grid-cols-2">
+      {fields.map((field, index) => {
+        const id = `metadata-field-${index}`;
+        const value = values[field.name] ?? '';
+        const setValue = (next: string) => onChange({ ...values, [field.name]: next });
+        return (
+          <div key={field.name} className="space-y-1">
+            <Label htmlFor={id} className="text-xs">
+              {field.name}
+              {field.required && <span className="text-destructive"> *</span>}
+            </Label>
+            {field.type === 'enum' ? (
+              <NativeSelect
+                id={id}
+                value={value}
+                onChange={(e) => setValue(e.target.value)}
+                className="h-9"
+                disabled={disabled}
+              >
+                <option value="">None</option>
+                {field.options.map((option) => (
+                  <option key={option} value={option}>
+                    {option}
+                  </option>
+                ))}
+              </NativeSelect>
+            ) : (
+              <Input
+                id={id}
+                type={field.type === 'text' ? 'text' : field.type}
+                value={value}
+                onChange={(e) => setValue(e.target.value)}
+                maxLength={field.type === 'text' ? 1000 : undefined}
+                disabled={disabled}
+              />
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
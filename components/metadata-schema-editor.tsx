@@ -0,0 +1,109 @@
+'use client';
+
+import { Plus, X } from 'lucide-react';
+import {
+  MAX_METADATA_FIELDS,
+  METADATA_FIELD_TYPE_LABELS,
+  METADATA_FIELD_TYPES,
+  type MetadataField,
+  type MetadataFieldType,
+} from '@/lib/metadata-schema';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { NativeSelect } from '@/components/ui/native-select';
+
+interface MetadataSchemaEditorProps {
+  value: MetadataField[];
+  onChange: (value: MetadataField[]) => void;
+  disabled?: boolean;
+}
+
+/**
+ * Editor for the typed fields of a collection's metadata schema. Enum
+ * options are entered separated by commas.
+ */
+export function MetadataSchemaEditor({ value, onChange, disabled }: MetadataSchemaEditorProps) {
+  const updateField = (index: number, change: Partial<MetadataField>) => {
+    onChange(value.map((field, i) => (i === index ? { ...field, ...change } : field)));
+  };
+
+  return (
+    <div className="space-y-2">
+      {value.map((field, index) => (
+        <div key={index} className="space-y-2 rounded-md border p-2">
+          <div className="flex items-center gap-2">
+            <Input
+              aria-label="Field name"
+              value={field.name}
+              onChange={(e) => updateField(index, { name: e.target.value })}
+              placeholder="Name"
+              maxLength={40}
+              className="h-8"
+              disabled={disabled}
+            />
+            <NativeSelect
+              aria-label="Field type"
+              value={field.type}
+              onChange={(e) =>
+                updateField(index, {
+                  type: e.target.value as MetadataFieldType,
+                  options: e.target.value === 'enum' ? field.options : [],
+                })
+              }
+              className="h-8 w-28 shrink-0"
+              disabled={disabled}
+            >
+              {METADATA_FIELD_TYPES.map((type) => (
+                <option key={type} value={type}>
+                  {METADATA_FIELD_TYPE_LABELS[type]}
+                </option>
+              ))}
+            </NativeSelect>
+            <label className="flex shrink-0 items-center gap-1 text-xs">
+              <input
+                type="checkbox"
+                checked={field.required}
+                onChange={(e) => updateField(index, { required: e.target.checked })}
+                disabled={disabled}
+              />
+              Required
+            </label>
+            <Button
+              type="button"
+              variant="ghost"
+              size="icon"
+              className="h-8 w-8 shrink-0"
+              title="Remove field"
+              onClick={() => onChange(value.filter((_, i) => i !== index))}
+              disabled={disabled}
+            >
+              <X className="h-4 w-4" />
+            </Button>
+          </div>
+          {field.type === 'enum' && (
+            <Input
+              aria-label="Options"
+              value={field.options.join(',')}
+              onChange={(e) => updateField(index, { options: e.target.value.split(',') })}
+              placeholder="Options, separated by commas"
+              className="h-8"
+              disabled={disabled}
+            />
+          )}
+        </div>
+      ))}
+      <Button
+        type="button"
+        variant="outline"
+        size="sm"
+        onClick={() =>
+          onChange([...value, { name: '', type: 'text', required: false, options: [] }])
+        }
+        disabled={disabled || value.length >= MAX_METADATA_FIELDS}
+      >
+        <Plus className="mr-2 h-4 w-4" />
+        Add Field
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,105 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { SlidersHorizontal } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { NativeSelect } from '@/components/ui/native-select';
+import {
+  DEFAULT_MAX_OUTPUT_TOKENS,
+  DEFAULT_TEMPERATURE,
+  MAX_OUTPUT_TOKENS_LIMIT,
+  MAX_TEMPERATURE,
+  type ModelOption,
+  type ModelSettings,
+  type ModelsResponse,
+} from '@/lib/models';
+
+interface ModelPickerProps {
+  settings: ModelSettings;
+  onChange: (settings: ModelSettings) => void;
+  disabled?: boolean;
+}
+
+export function ModelPicker({ settings, onChange, disabled }: ModelPickerProps) {
+  const [models, setModels] = useState<ModelOption[]>([]);
+  const [showParameters, setShowParameters] = useState(false);
+
+  useEffect(() => {
+    fetch('/api/models')
+      .then((response) => (response.ok ? response.json() : null))
+      .then((data: ModelsResponse | null) => {
+        if (!data) return;
+        setModels(data.models);
+        if (!settings.model && data.defaultModel) {
+          onChange({ ...settings, model: data.defaultModel });
+        }
+      })
+      .catch((error) => console.error('List models error:', error));
+  }, []);
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center gap-2">
+        <NativeSelect
+          aria-label="Model"
+          value={settings.model || ''}
+          onChange={(e) => onChange({ ...settings, model: e.target.value })}
+          disabled={disabled || models.length === 0}
+          className="h-9 max-w-xs"
+        >
+          {models.length === 0 && <option value="">No models configured</option>}
+          {models.map((model) => (
+            <option key={model.id} value={model.id}>
+              {model.label}
+            </option>
+          ))}
+        </NativeSelect>
+        <Button
+          type="button"
+          variant="ghost"
+          size="sm"
+          onClick={() => setShowParameters(!showParameters)}
+          aria-expanded={showParameters}
+        >
+          <SlidersHorizontal className="mr-2 h-4 w-4" />
+          Parameters
+        </Button>
+      </div>
+
+      {showParameters && (
+        <div className="flex flex-wrap gap-4">
+          <div className="space-y-1">
+            <Label htmlFor="model-temperature">Temperature</Label>
+            <Input
+              id="model-temperature"
+              type="number"
+              min={0}
+              max={MAX_TEMPERATURE}
+              step={0.1}
+              value={settings.temperature ?? DEFAULT_TEMPERATURE}
+              onChange={(e) => onChange({ ...settings, temperature: e.target.valueAsNumber })}
+              disabled={disabled}
+              className="h-9 w-28"
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="model-max-tokens">Max output tokens</Label>
+            <Input
+              id="model-max-tokens"
+              type="number"
+              min={1}
+              max={MAX_OUTPUT_TOKENS_LIMIT}
+              step={100}
+              value={settings.maxOutputTokens ?? DEFAULT_MAX_OUTPUT_TOKENS}
+              onChange={(e) => onChange({ ...settings, maxOutputTokens: e.target.valueAsNumber })}
+              disabled={disabled}
+              className="h-9 w-32"
+            />
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,114 @@
+'use client';
+
+import { useState } from 'react';
+import { Loader2 } from 'lucide-react';
+import { DocumentProcessor } from '@/lib/document-processor';
+import { MAX_NOTE_LENGTH, noteTitle } from '@/lib/notes';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import { useToast } from '@/components/ui/use-toast';
+import { MarkdownEditor } from './markdown-editor';
+
+interface NoteEditorDialogProps {
+  /** Collection a new note is added to */
+  collectionName: string;
+  /** The note to edit; leave out to write a new one */
+  note?: { id: string; content: string };
+  /** Metadata stored with a new note, e.g. the collection's field values */
+  metadata?: Record<string, unknown>;
+  /** Element that opens the dialog */
+  trigger: React.ReactNode;
+  /** Called with the note's ID once it is saved */
+  onSaved: (id: string) => void;
+}
+
+export function NoteEditorDialog({
+  collectionName,
+  note,
+  metadata,
+  trigger,
+  onSaved,
+}: NoteEditorDialogProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [content, setContent] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const { toast } = useToast();
+
+  const processor = new DocumentProcessor();
+
+  const handleOpenChange = (open: boolean) => {
+    setIsOpen(open);
+    if (open) {
+      setContent(note?.content ?? '');
+    }
+  };
+
+  const handleSave = async () => {
+    if (!content.trim()) return;
+
+    setIsSaving(true);
+    try {
+      const result = note
+        ? await processor.updateNote(note.id, content)
+        : await processor.createNote({ content, collection: collectionName, metadata });
+      toast({
+        title: note ? 'Note Updated' : 'Note Added',
+        description: `"${noteTitle(content)}" is being indexed`,
+      });
+      setIsOpen(false);
+      onSaved(result.id);
+    } catch (error: any) {
+      toast({
+        title: 'Failed to Save Note',
+        description: error.message,
+        variant: 'destructive',
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>{trigger}</DialogTrigger>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>{note ? 'Edit Note' : 'New Note'}</DialogTitle>
+          <DialogDescription>
+            Write in Markdown. The first line is the note&apos;s title.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="py-4 space-y-2">
+          <MarkdownEditor
+            id="note-content"
+            value={content}
+            onChange={setContent}
+            placeholder={'# Title\n\nWrite your note...'}
+            disabled={isSaving}
+            maxLength={MAX_NOTE_LENGTH}
+          />
+          <p className="text-xs text-muted-foreground text-right">
+            {content.length.toLocaleString()} / {MAX_NOTE_LENGTH.toLocaleString()} characters
+          </p>
+        </div>
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={() => setIsOpen(false)}>
+            Cancel
+          </Button>
+          <Button type="button" onClick={handleSave} disabled={isSaving || !content.trim()}>
+            {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Save
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
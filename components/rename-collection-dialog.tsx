@@ -0,0 +1,122 @@
+'use client';
+
+import { useState } from 'react';
+import { DocumentProcessor } from '@/lib/document-processor';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import { useToast } from '@/components/ui/use-toast';
+
+interface RenameCollectionDialogProps {
+  collectionName: string;
+  existingCollections: string[];
+  /** Element that opens the dialog */
+  trigger: React.ReactNode;
+  /** Called once the rename job has started; its progress is shown in the job tray */
+  onStarted: () => void;
+}
+
+export function RenameCollectionDialog({
+  collectionName,
+  existingCollections,
+  trigger,
+  onStarted,
+}: RenameCollectionDialogProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [newName, setNewName] = useState(collectionName);
+  const [error, setError] = useState('');
+  const [isStarting, setIsStarting] = useState(false);
+  const { toast } = useToast();
+
+  const processor = new DocumentProcessor();
+
+  const handleOpenChange = (open: boolean) => {
+    setIsOpen(open);
+    if (open) {
+      setNewName(collectionName);
+      setError('');
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+
+    const trimmedName = newName.trim();
+
+    if (!trimmedName) {
+      setError('Collection name is required');
+      return;
+    }
+
+    if (trimmedName === collectionName) {
+      setError('Enter a different name');
+      return;
+    }
+
+    if (existingCollections.includes(trimmedName)) {
+      setError('A collection with this name already exists');
+      return;
+    }
+
+    setIsStarting(true);
+    try {
+      await processor.renameCollection(collectionName, trimmedName);
+      toast({
+        title: 'Rename Started',
+        description: `Moving the documents in "${collectionName}" to "${trimmedName}" in the background`,
+      });
+      setIsOpen(false);
+      onStarted();
+    } catch (error: any) {
+      setError(error.message);
+    } finally {
+      setIsStarting(false);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>{trigger}</DialogTrigger>
+      <DialogContent onClick={(e) => e.stopPropagation()}>
+        <form onSubmit={handleSubmit}>
+          <DialogHeader>
+            <DialogTitle>Rename Collection</DialogTitle>
+            <DialogDescription>
+              Every document in "{collectionName}" will be moved to the new name. Sharing and
+              settings are kept.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="py-4 space-y-2">
+            <Label htmlFor="rename-collection">New Name</Label>
+            <Input
+              id="rename-collection"
+              value={newName}
+              onChange={(e) => setNewName(e.target.value)}
+              disabled={isStarting}
+              autoFocus
+            />
+            {error && <p className="text-sm text-destructive">{error}</p>}
+          </div>
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => handleOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isStarting}>
+              {isStarting ? 'Starting...' : 'Rename'}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
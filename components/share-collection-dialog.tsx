@@ -0,0 +1,267 @@
+'use client';
+
+import { useState } from 'react';
+import { Loader2, Trash2, UserPlus } from 'lucide-react';
+import { DocumentProcessor } from '@/lib/document-processor';
+import {
+  COLLECTION_ROLES,
+  type CollectionAccess,
+  type CollectionMember,
+  type CollectionRole,
+} from '@/lib/roles';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { NativeSelect } from '@/components/ui/native-select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import { useToast } from '@/components/ui/use-toast';
+
+interface ShareCollectionDialogProps {
+  collectionName: string;
+  /** Element that opens the dialog */
+  trigger: React.ReactNode;
+}
+
+const ROLE_LABELS: Record<CollectionRole, string> = {
+  owner: 'Owner',
+  editor: 'Editor',
+  viewer: 'Viewer',
+};
+
+export function ShareCollectionDialog({ collectionName, trigger }: ShareCollectionDialogProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [access, setAccess] = useState<CollectionAccess | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [newMemberId, setNewMemberId] = useState('');
+  const [newMemberRole, setNewMemberRole] = useState<CollectionRole>('viewer');
+  const { toast } = useToast();
+
+  const processor = new DocumentProcessor();
+
+  const loadAccess = async () => {
+    setIsLoading(true);
+    try {
+      setAccess(await processor.getCollectionAccess(collectionName));
+    } catch (error: any) {
+      toast({
+        title: 'Error',
+        description: 'Failed to load members: ' + error.message,
+        variant: 'destructive',
+      });
+      setIsOpen(false);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleOpenChange = (open: boolean) => {
+    setIsOpen(open);
+    if (open) {
+      loadAccess();
+    } else {
+      setNewMemberId('');
+      setNewMemberRole('viewer');
+    }
+  };
+
+  const runUpdate = async (update: () => Promise<unknown>) => {
+    setIsSaving(true);
+    try {
+      await update();
+      await loadAccess();
+    } catch (error: any) {
+      toast({
+        title: 'Sharing Failed',
+        description: error.message,
+        variant: 'destructive',
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleRoleChange = (member: CollectionMember, role: CollectionRole) =>
+    runUpdate(() =>
+      processor.setCollectionMember(collectionName, member.principalType, member.principalId, role)
+    );
+
+  const handleRemove = (member: CollectionMember) =>
+    runUpdate(() =>
+      processor.removeCollectionMember(collectionName, member.principalType, member.principalId)
+    );
+
+  const handleAddMember = () => {
+    if (!newMemberId) return;
+    runUpdate(async () => {
+      await processor.setCollectionMember(collectionName, 'user', newMemberId, newMemberRole);
+      setNewMemberId('');
+      setNewMemberRole('viewer');
+    });
+  };
+
+  const orgMember = access?.members.find((member) => member.principalType === 'org');
+  const userMembers = access?.members.filter((member) => member.principalType === 'user') || [];
+  const candidates =
+    access?.candidates.filter(
+      (candidate) => !userMembers.some((member) => member.principalId === candidate.userId)
+    ) || [];
+
+  return (
+    <Dialog open={isOpen} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>{trigger}</DialogTrigger>
+      <DialogContent onClick={(e) => e.stopPropagation()}>
+        <DialogHeader>
+          <DialogTitle>Share "{collectionName}"</DialogTitle>
+          <DialogDescription>
+            Owners manage sharing, editors add and remove documents, and viewers can browse
+            documents and ask questions.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading && !access ? (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : access && !access.shareable ? (
+          <p className="text-sm text-muted-foreground py-4">
+            This collection is in your personal workspace. Switch to an organization to share
+            collections with other people.
+          </p>
+        ) : access ? (
+          <div className="space-y-6 py-2">
+            <div className="space-y-2">
+              <Label htmlFor="org-role">Everyone in the organization</Label>
+              <NativeSelect
+                id="org-role"
+                value={orgMember?.role || (access.members.length === 0 ? 'editor' : '')}
+                disabled={isSaving}
+                onChange={(e) => {
+                  const orgId = access.orgId;
+                  if (!orgId) return;
+                  const role = e.target.value as CollectionRole | '';
+                  runUpdate(() =>
+                    role
+                      ? processor.setCollectionMember(collectionName, 'org', orgId, role)
+                      : processor.removeCollectionMember(collectionName, 'org', orgId)
+                  );
+                }}
+              >
+                <option value="">No access</option>
+                {COLLECTION_ROLES.filter((role) => role !== 'owner').map((role) => (
+                  <option key={role} value={role}>
+                    {ROLE_LABELS[role]}
+                  </option>
+                ))}
+              </NativeSelect>
+            </div>
+
+            <div className="space-y-2">
+              <Label>People</Label>
+              {userMembers.length === 0 ? (
+                <p className="text-sm text-muted-foreground">
+                  No one has been added yet. Until you share it, everyone in the organization can
+                  edit this collection.
+                </p>
+              ) : (
+                <div className="space-y-2">
+                  {userMembers.map((member) => (
+                    <div key={member.principalId} className="flex items-center gap-2">
+                      <div className="flex-1 min-w-0">
+                        <div className="text-sm font-medium truncate">
+                          {member.name || member.principalId}
+                        </div>
+                        {member.identifier && member.identifier !== member.name && (
+                          <div className="text-xs text-muted-foreground truncate">
+                            {member.identifier}
+                          </div>
+                        )}
+                      </div>
+                      <NativeSelect
+                        className="w-28"
+                        value={member.role}
+                        disabled={isSaving}
+                        onChange={(e) => handleRoleChange(member, e.target.value as CollectionRole)}
+                      >
+                        {COLLECTION_ROLES.map((role) => (
+                          <option key={role} value={role}>
+                            {ROLE_LABELS[role]}
+                          </option>
+                        ))}
+                      </NativeSelect>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        disabled={isSaving}
+                        onClick={() => handleRemove(member)}
+                      >
+                        <Trash2 className="h-4 w-4 text-destructive" />
+                      </Button>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="new-member">Add a person</Label>
+              <div className="flex gap-2">
+                <NativeSelect
+                  id="new-member"
+                  className="flex-1"
+                  value={newMemberId}
+                  disabled={isSaving || candidates.length === 0}
+                  onChange={(e) => setNewMemberId(e.target.value)}
+                >
+                  <option value="">
+                    {candidates.length === 0 ? 'Everyone has been added' : 'Select a member...'}
+                  </option>
+                  {candidates.map((candidate) => (
+                    <option key={candidate.userId} value={candidate.userId}>
+                      {candidate.name}
+                      {candidate.identifier !== candidate.name ? ` (${candidate.identifier})` : ''}
+                    </option>
+                  ))}
+                </NativeSelect>
+                <NativeSelect
+                  className="w-28"
+                  value={newMemberRole}
+                  disabled={isSaving}
+                  onChange={(e) => setNewMemberRole(e.target.value as CollectionRole)}
+                >
+                  {COLLECTION_ROLES.map((role) => (
+                    <option key={role} value={role}>
+                      {ROLE_LABELS[role]}
+                    </option>
+                  ))}
+                </NativeSelect>
+                <Button
+                  variant="outline"
+                  size="icon"
+                  className="flex-shrink-0"
+                  disabled={isSaving || !newMemberId}
+                  onClick={handleAddMember}
+                >
+                  <UserPlus className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+          </div>
+        ) : null}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => handleOpenChange(false)}>
+            Done
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,200 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Database, FileText, Loader2, RotateCcw, Trash2 } from 'lucide-react';
+import { DocumentProcessor } from '@/lib/document-processor';
+import type { TrashItem } from '@/lib/trash';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import { Skeleton } from '@/components/ui/skeleton';
+import { useToast } from '@/components/ui/use-toast';
+
+interface TrashViewProps {
+  /** Changing this reloads the trash, e.g. after a background job finishes */
+  refreshKey?: number;
+  /** Called after an item is restored, so collections can be reloaded */
+  onRestored?: () => void;
+}
+
+/**
+ * Lists the documents and collections the caller has deleted, with actions to
+ * restore them or delete them permanently.
+ */
+export function TrashView({ refreshKey = 0, onRestored }: TrashViewProps) {
+  const [items, setItems] = useState<TrashItem[]>([]);
+  const [retentionDays, setRetentionDays] = useState<number | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const { toast } = useToast();
+
+  const processor = new DocumentProcessor();
+
+  const loadTrash = async () => {
+    try {
+      const trash = await processor.listTrash();
+      setItems(trash.items);
+      setRetentionDays(trash.retentionDays);
+    } catch (error: any) {
+      toast({
+        title: 'Error',
+        description: 'Failed to load trash: ' + error.message,
+        variant: 'destructive',
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadTrash();
+  }, [refreshKey]);
+
+  const handleRestore = async (item: TrashItem) => {
+    setBusyId(item.id);
+    try {
+      const { job } = await processor.restoreTrashItem(item.id);
+      toast({
+        title: 'Restored',
+        description: job
+          ? `Restoring "${item.name}" and its documents in the background`
+          : `"${item.name}" has been restored`,
+      });
+      setItems((previous) => previous.filter((entry) => entry.id !== item.id));
+      onRestored?.();
+    } catch (error: any) {
+      toast({
+        title: 'Restore Failed',
+        description: error.message,
+        variant: 'destructive',
+      });
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handlePurge = async (item: TrashItem) => {
+    setBusyId(item.id);
+    try {
+      const { job } = await processor.purgeTrashItem(item.id);
+      toast({
+        title: job ? 'Delete Started' : 'Deleted',
+        description: job
+          ? `Permanently deleting "${item.name}" in the background`
+          : `"${item.name}" has been permanently deleted`,
+      });
+      setItems((previous) => previous.filter((entry) => entry.id !== item.id));
+    } catch (error: any) {
+      toast({
+        title: 'Delete Failed',
+        description: error.message,
+        variant: 'destructive',
+      });
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Trash</CardTitle>
+        <CardDescription>
+          {retentionDays === null
+            ? 'Documents and collections you deleted'
+            : retentionDays === 0
+              ? 'The trash is disabled: deleted documents and collections are removed straight away'
+              : `Documents and collections you deleted are kept for ${retentionDays} day${retentionDays !== 1 ? 's' : ''} before being removed permanently`}
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="space-y-2">
+            <Skeleton className="h-14 w-full" />
+            <Skeleton className="h-14 w-full" />
+          </div>
+        ) : items.length === 0 ? (
+          <div className="text-center py-12 text-muted-foreground">
+            <Trash2 className="h-12 w-12 mx-auto mb-4 opacity-50" />
+            <p>The trash is empty</p>
+          </div>
+        ) : (
+          <div className="space-y-2">
+            {items.map((item) => (
+              <div
+                key={item.id}
+                className="flex items-center gap-3 p-3 rounded-lg border bg-muted/30"
+              >
+                {item.kind === 'collection' ? (
+                  <Database className="h-5 w-5 text-muted-foreground shrink-0" />
+                ) : (
+                  <FileText className="h-5 w-5 text-muted-foreground shrink-0" />
+                )}
+                <div className="flex-1 min-w-0">
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium truncate">{item.name}</span>
+                    <Badge variant="secondary" className="text-xs">
+                      {item.kind === 'collection'
+                        ? `Collection · ${item.documentCount} document${item.documentCount !== 1 ? 's' : ''}`
+                        : 'Document'}
+                    </Badge>
+                  </div>
+                  <p className="text-xs text-muted-foreground truncate">
+                    {item.collections.length > 0 && `From ${item.collections.join(', ')} · `}
+                    Deleted {new Date(item.deletedAt).toLocaleString()} · Removed permanently on{' '}
+                    {new Date(item.expiresAt).toLocaleDateString()}
+                  </p>
+                </div>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  disabled={busyId === item.id}
+                  onClick={() => handleRestore(item)}
+                >
+                  {busyId === item.id ? (
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  ) : (
+                    <RotateCcw className="mr-2 h-4 w-4" />
+                  )}
+                  Restore
+                </Button>
+                <Dialog>
+                  <DialogTrigger asChild>
+                    <Button variant="ghost" size="sm" disabled={busyId === item.id}>
+                      <Trash2 className="h-4 w-4 text-destructive" />
+                    </Button>
+                  </DialogTrigger>
+                  <DialogContent>
+                    <DialogHeader>
+                      <DialogTitle>Delete Forever</DialogTitle>
+                      <DialogDescription>
+                        Are you sure you want to permanently delete "{item.name}"
+                        {item.kind === 'collection' &&
+                          ` and its ${item.documentCount} document${item.documentCount !== 1 ? 's' : ''}`}
+                        ? This action cannot be undone.
+                      </DialogDescription>
+                    </DialogHeader>
+                    <DialogFooter>
+                      <Button variant="destructive" onClick={() => handlePurge(item)}>
+                        Delete Forever
+                      </Button>
+                    </DialogFooter>
+                  </DialogContent>
+                </Dialog>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
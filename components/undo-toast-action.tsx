@@ -0,0 +1,45 @@
+'use client';
+
+import { DocumentProcessor } from '@/lib/document-processor';
+import type { TrashItem } from '@/lib/trash';
+import { ToastAction } from '@/components/ui/toast';
+import { useToast } from '@/components/ui/use-toast';
+
+interface UndoToastActionProps {
+  trashItem: TrashItem;
+  /** Called once the item has been restored, or its restore job started */
+  onRestored?: () => void;
+}
+
+/**
+ * "Undo" button for deletion toasts that restores the item from the trash.
+ */
+export function UndoToastAction({ trashItem, onRestored }: UndoToastActionProps) {
+  const { toast } = useToast();
+
+  const handleUndo = async () => {
+    try {
+      await new DocumentProcessor().restoreTrashItem(trashItem.id);
+      toast({
+        title: 'Restored',
+        description:
+          trashItem.kind === 'collection'
+            ? `Restoring "${trashItem.name}" and its documents in the background`
+            : `"${trashItem.name}" has been restored`,
+      });
+      onRestored?.();
+    } catch (error: any) {
+      toast({
+        title: 'Undo Failed',
+        description: error.message,
+        variant: 'destructive',
+      });
+    }
+  };
+
+  return (
+    <ToastAction altText={`Restore "${trashItem.name}" from the trash`} onClick={handleUndo}>
+      Undo
+    </ToastAction>
+  );
+}
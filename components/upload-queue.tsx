@@ -0,0 +1,371 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import {
+  AlertCircle,
+  CheckCircle2,
+  Clock,
+  Loader2,
+  RotateCw,
+  Upload,
+  X,
+} from 'lucide-react';
+import {
+  DocumentProcessor,
+  DuplicateDocumentError,
+  EmptyFileError,
+  FileContentMismatchError,
+  FileSizeExceededError,
+  UnsupportedFileTypeError,
+  UploadCancelledError,
+} from '@/lib/document-processor';
+import type { DuplicateAction, DuplicateDocument } from '@/lib/duplicates';
+import { KNOWN_FILE_EXTENSIONS } from '@/lib/file-validation';
+import { cn } from '@/lib/utils';
+import { Button } from '@/components/ui/button';
+import { useToast } from '@/components/ui/use-toast';
+
+/** How many files are uploaded at the same time */
+const UPLOAD_CONCURRENCY = 3;
+
+type UploadStatus = 'queued' | 'uploading' | 'done' | 'failed' | 'cancelled';
+
+interface UploadItem {
+  id: string;
+  file: File;
+  status: UploadStatus;
+  /** Bytes of the file sent so far */
+  loaded: number;
+  onDuplicate: DuplicateAction;
+  /** Outcome shown under the file name, e.g. the error or the new version */
+  message: string | null;
+  /** The existing copy, when the file was rejected as a duplicate */
+  duplicate: DuplicateDocument | null;
+  /** False once the server has rejected the file itself, so retrying cannot help */
+  retryable: boolean;
+}
+
+interface UploadQueueProps {
+  collectionName: string;
+  /** Metadata stored with each file, e.g. the collection's field values */
+  metadata: Record<string, unknown>;
+  /** Called when the queue empties after at least one file was uploaded */
+  onUploaded: () => void;
+}
+
+function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+}
+
+function isRejectedFile(error: unknown): boolean {
+  return (
+    error instanceof UnsupportedFileTypeError ||
+    error instanceof FileContentMismatchError ||
+    error instanceof EmptyFileError ||
+    error instanceof FileSizeExceededError
+  );
+}
+
+function UploadStatusIcon({ status }: { status: UploadStatus }) {
+  switch (status) {
+    case 'queued':
+      return <Clock className="h-4 w-4 text-muted-foreground shrink-0" />;
+    case 'uploading':
+      return <Loader2 className="h-4 w-4 animate-spin text-primary shrink-0" />;
+    case 'done':
+      return <CheckCircle2 className="h-4 w-4 text-green-600 shrink-0" />;
+    case 'failed':
+      return <AlertCircle className="h-4 w-4 text-destructive shrink-0" />;
+    case 'cancelled':
+      return <X className="h-4 w-4 text-muted-foreground shrink-0" />;
+  }
+}
+
+/**
+ * Drop zone and queue for uploading files to a collection.
+ *
+ * Files are uploaded a few at a time with per-file progress. Queued and
+ * running uploads can be cancelled, and failed or cancelled ones retried.
+ */
+export function UploadQueue({ collectionName, metadata, onUploaded }: UploadQueueProps) {
+  const [items, setItems] = useState<UploadItem[]>([]);
+  const [isDragging, setIsDragging] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const controllers = useRef<Map<string, AbortController>>(new Map());
+  // Outcomes since the queue last emptied, for the summary toast
+  const batch = useRef({ uploaded: 0, failed: 0 });
+  const { toast } = useToast();
+
+  const processor = new DocumentProcessor();
+
+  const updateItem = (id: string, changes: Partial<UploadItem>) => {
+    setItems((previous) =>
+      previous.map((item) => (item.id === id ? { ...item, ...changes } : item))
+    );
+  };
+
+  const startUpload = async (item: UploadItem) => {
+    const controller = new AbortController();
+    controllers.current.set(item.id, controller);
+    updateItem(item.id, { status: 'uploading', loaded: 0 });
+
+    try {
+      const result = await processor.uploadDocument({
+        file: item.file,
+        collection: collectionName,
+        metadata,
+        onDuplicate: item.onDuplicate,
+        // The request body includes form fields, so scale progress to the file's size
+        onProgress: (loaded, total) =>
+          updateItem(item.id, { loaded: Math.round((loaded / total) * item.file.size) }),
+        signal: controller.signal,
+      });
+      batch.current.uploaded++;
+      updateItem(item.id, {
+        status: 'done',
+        loaded: item.file.size,
+        message: result.linked
+          ? 'Existing copy added'
+          : result.replacedId
+            ? `Uploaded as version ${result.version}`
+            : null,
+      });
+    } catch (error: any) {
+      if (error instanceof UploadCancelledError) {
+        updateItem(item.id, { status: 'cancelled', message: null });
+        return;
+      }
+      batch.current.failed++;
+      updateItem(item.id, {
+        status: 'failed',
+        message: error.message,
+        duplicate: error instanceof DuplicateDocumentError ? error.duplicate : null,
+        retryable: !isRejectedFile(error),
+      });
+    } finally {
+      controllers.current.delete(item.id);
+    }
+  };
+
+  // Start queued uploads whenever a slot frees up
+  useEffect(() => {
+    const running = items.filter((item) => item.status === 'uploading').length;
+    const next = items
+      .filter((item) => item.status === 'queued' && !controllers.current.has(item.id))
+      .slice(0, Math.max(0, UPLOAD_CONCURRENCY - running));
+    for (const item of next) {
+      startUpload(item);
+    }
+  }, [items]);
+
+  const isBusy = items.some((item) => item.status === 'queued' || item.status === 'uploading');
+
+  // Report the batch once the queue empties
+  useEffect(() => {
+    if (isBusy) return;
+    const { uploaded, failed } = batch.current;
+    if (uploaded === 0 && failed === 0) return;
+    batch.current = { uploaded: 0, failed: 0 };
+
+    toast({
+      title: failed === 0 ? 'Success' : 'Uploads Finished With Errors',
+      description:
+        failed === 0
+          ? `${uploaded} file(s) uploaded successfully`
+          : `${uploaded} file(s) uploaded, ${failed} failed`,
+      variant: failed === 0 ? 'default' : 'destructive',
+    });
+    if (uploaded > 0) {
+      onUploaded();
+    }
+  }, [isBusy]);
+
+  // Abort running uploads when leaving the collection
+  useEffect(() => {
+    const running = controllers.current;
+    return () => {
+      for (const controller of running.values()) {
+        controller.abort();
+      }
+    };
+  }, []);
+
+  const addFiles = (files: FileList | null) => {
+    if (!files || files.length === 0) return;
+    const added = Array.from(files).map(
+      (file): UploadItem => ({
+        id: crypto.randomUUID(),
+        file,
+        status: 'queued',
+        loaded: 0,
+        onDuplicate: 'reject',
+        message: null,
+        duplicate: null,
+        retryable: true,
+      })
+    );
+    setItems((previous) => [...previous, ...added]);
+  };
+
+  const handleCancel = (item: UploadItem) => {
+    const controller = controllers.current.get(item.id);
+    if (controller) {
+      controller.abort();
+    } else {
+      updateItem(item.id, { status: 'cancelled' });
+    }
+  };
+
+  const handleRetry = (item: UploadItem, onDuplicate: DuplicateAction = 'reject') => {
+    updateItem(item.id, {
+      status: 'queued',
+      loaded: 0,
+      onDuplicate,
+      message: null,
+      duplicate: null,
+    });
+  };
+
+  const handleClearFinished = () => {
+    setItems((previous) =>
+      previous.filter((item) => item.status === 'queued' || item.status === 'uploading')
+    );
+  };
+
+  const counts = {
+    done: items.filter((item) => item.status === 'done').length,
+    failed: items.filter((item) => item.status === 'failed').length,
+    cancelled: items.filter((item) => item.status === 'cancelled').length,
+  };
+
+  return (
+    <div className="space-y-3">
+      <input
+        ref={fileInputRef}
+        type="file"
+        multiple
+        accept={KNOWN_FILE_EXTENSIONS.join(',')}
+        onChange={(e) => {
+          addFiles(e.target.files);
+          e.target.value = '';
+        }}
+        className="hidden"
+      />
+      <div
+        role="button"
+        tabIndex={0}
+        onClick={() => fileInputRef.current?.click()}
+        onKeyDown={(e) => (e.key === 'Enter' || e.key === ' ') && fileInputRef.current?.click()}
+        onDragOver={(e) => {
+          e.preventDefault();
+          setIsDragging(true);
+        }}
+        onDragLeave={() => setIsDragging(false)}
+        onDrop={(e) => {
+          e.preventDefault();
+          setIsDragging(false);
+          addFiles(e.dataTransfer.files);
+        }}
+        className={cn(
+          'flex flex-col items-center justify-center gap-1 rounded-md border-2 border-dashed p-6 text-sm text-muted-foreground cursor-pointer transition-colors',
+          isDragging ? 'border-primary bg-primary/5' : 'hover:bg-muted/50'
+        )}
+      >
+        <Upload className="h-5 w-5" />
+        <span>Drop files here or click to upload</span>
+        <span className="text-xs">{KNOWN_FILE_EXTENSIONS.join(', ')}</span>
+      </div>
+
+      {items.length > 0 && (
+        <div className="space-y-2">
+          <div className="flex items-center justify-between text-xs text-muted-foreground">
+            <span>
+              {counts.done} of {items.length} uploaded
+              {counts.failed > 0 && `, ${counts.failed} failed`}
+              {counts.cancelled > 0 && `, ${counts.cancelled} cancelled`}
+            </span>
+            {items.length > counts.done + counts.failed + counts.cancelled ? null : (
+              <Button variant="ghost" size="sm" className="h-6 text-xs" onClick={handleClearFinished}>
+                Clear finished
+              </Button>
+            )}
+          </div>
+
+          {items.map((item) => {
+            const progress =
+              item.file.size > 0 ? Math.round((item.loaded / item.file.size) * 100) : 0;
+            return (
+              <div key={item.id} className="space-y-1 p-2 rounded-md bg-muted/50 text-sm">
+                <div className="flex items-center gap-2">
+                  <UploadStatusIcon status={item.status} />
+                  <span className="flex-1 truncate" title={item.file.name}>
+                    {item.file.name}
+                  </span>
+                  <span className="text-xs text-muted-foreground shrink-0">
+                    {item.status === 'uploading'
+                      ? `${formatBytes(item.loaded)} / ${formatBytes(item.file.size)}`
+                      : formatBytes(item.file.size)}
+                  </span>
+                  {(item.status === 'queued' || item.status === 'uploading') && (
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-6 w-6"
+                      title="Cancel"
+                      onClick={() => handleCancel(item)}
+                    >
+                      <X className="h-3 w-3" />
+                    </Button>
+                  )}
+                  {(item.status === 'failed' || item.status === 'cancelled') &&
+                    item.retryable && (
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-6 w-6"
+                        title="Retry"
+                        onClick={() => handleRetry(item)}
+                      >
+                        <RotateCw className="h-3 w-3" />
+                      </Button>
+                    )}
+                </div>
+
+                {item.status === 'uploading' && (
+                  <div className="w-full bg-secondary rounded-full h-1.5">
+                    <div
+                      className="bg-primary h-1.5 rounded-full transition-all duration-300"
+                      style={{ width: `${progress}%` }}
+                    />
+                  </div>
+                )}
+
+                {item.message && (
+                  <p
+                    className={cn(
+                      'text-xs',
+                      item.status === 'failed' ? 'text-destructive' : 'text-muted-foreground'
+                    )}
+                  >
+                    {item.message}
+                    {item.duplicate && !item.duplicate.collections.includes(collectionName) && (
+                      <button
+                        type="button"
+                        className="ml-2 text-primary hover:underline"
+                        onClick={() => handleRetry(item, 'link')}
+                      >
+                        Add here
+                      </button>
+                    )}
+                  </p>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
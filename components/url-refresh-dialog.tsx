@@ -0,0 +1,189 @@
+'use client';
+
+import { useState } from 'react';
+import { Loader2, RefreshCw } from 'lucide-react';
+import { DocumentProcessor, type Document } from '@/lib/document-processor';
+import {
+  REFRESH_INTERVAL_LABELS,
+  REFRESH_INTERVALS,
+  type RefreshInterval,
+  type RefreshStatus,
+} from '@/lib/refresh';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { NativeSelect } from '@/components/ui/native-select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import { useToast } from '@/components/ui/use-toast';
+
+/** Select value for following the collections' interval */
+const FOLLOW_COLLECTION = 'collection';
+
+interface UrlRefreshDialogProps {
+  /** A web page document */
+  document: Document;
+  /** Element that opens the dialog */
+  trigger: React.ReactNode;
+  /** Called after a check so the document list can pick up the new state */
+  onRefreshed: () => void;
+}
+
+function formatTimestamp(value: string | null): string {
+  return value ? new Date(value).toLocaleString() : 'Never';
+}
+
+export function UrlRefreshDialog({ document, trigger, onRefreshed }: UrlRefreshDialogProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [status, setStatus] = useState<RefreshStatus | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [isChecking, setIsChecking] = useState(false);
+  const { toast } = useToast();
+
+  const processor = new DocumentProcessor();
+
+  const handleOpenChange = async (open: boolean) => {
+    setIsOpen(open);
+    if (!open) return;
+
+    setStatus(null);
+    try {
+      setStatus(await processor.getRefreshStatus(document.id));
+    } catch (error: any) {
+      toast({
+        title: 'Failed to Load Refresh Schedule',
+        description: error.message,
+        variant: 'destructive',
+      });
+      setIsOpen(false);
+    }
+  };
+
+  const handleIntervalChange = async (value: string) => {
+    setIsSaving(true);
+    try {
+      const interval = value === FOLLOW_COLLECTION ? null : (value as RefreshInterval);
+      setStatus(await processor.setRefreshInterval(document.id, interval));
+    } catch (error: any) {
+      toast({
+        title: 'Failed to Update Schedule',
+        description: error.message,
+        variant: 'destructive',
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleCheckNow = async () => {
+    setIsChecking(true);
+    try {
+      const result = await processor.refreshDocument(document.id);
+      setStatus(result.refresh);
+      if (result.outcome === 'failed') {
+        toast({
+          title: 'Check Failed',
+          description: result.refresh.lastError || `Could not fetch ${document.url}`,
+          variant: 'destructive',
+        });
+      } else {
+        toast({
+          title: result.outcome === 'changed' ? 'Page Changed' : 'No Changes',
+          description:
+            result.outcome === 'changed'
+              ? `"${document.title}" is being indexed again`
+              : `"${document.title}" is up to date`,
+        });
+      }
+      onRefreshed();
+    } catch (error: any) {
+      toast({
+        title: 'Check Failed',
+        description: error.message,
+        variant: 'destructive',
+      });
+    } finally {
+      setIsChecking(false);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>{trigger}</DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Check for Changes</DialogTitle>
+          <DialogDescription className="break-all">
+            {document.url} is fetched again on this schedule and indexed again only when its
+            text has changed.
+          </DialogDescription>
+        </DialogHeader>
+        {!status ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          <div className="py-4 space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="url-refresh-interval">Schedule</Label>
+              <NativeSelect
+                id="url-refresh-interval"
+                value={status.interval ?? FOLLOW_COLLECTION}
+                onChange={(e) => handleIntervalChange(e.target.value)}
+                disabled={isSaving || isChecking}
+                className="h-9"
+              >
+                <option value={FOLLOW_COLLECTION}>
+                  Same as collection
+                  {status.interval === null &&
+                    ` (${REFRESH_INTERVAL_LABELS[status.effectiveInterval].toLowerCase()})`}
+                </option>
+                {REFRESH_INTERVALS.map((interval) => (
+                  <option key={interval} value={interval}>
+                    {REFRESH_INTERVAL_LABELS[interval]}
+                  </option>
+                ))}
+              </NativeSelect>
+            </div>
+            <div className="text-sm space-y-1">
+              <p>
+                <span className="text-muted-foreground">Last checked:</span>{' '}
+                {formatTimestamp(status.lastCheckedAt)}
+              </p>
+              <p>
+                <span className="text-muted-foreground">Last changed:</span>{' '}
+                {formatTimestamp(status.lastChangedAt)}
+              </p>
+              {status.lastError && (
+                <p className="text-destructive">Last check failed: {status.lastError}</p>
+              )}
+            </div>
+          </div>
+        )}
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={() => setIsOpen(false)}>
+            Close
+          </Button>
+          <Button
+            type="button"
+            onClick={handleCheckNow}
+            disabled={!status || isChecking || isSaving}
+          >
+            {isChecking ? (
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            ) : (
+              <RefreshCw className="mr-2 h-4 w-4" />
+            )}
+            Check Now
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
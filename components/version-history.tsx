@@ -0,0 +1,119 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { History, Loader2, RotateCcw } from 'lucide-react';
+import { DocumentProcessor } from '@/lib/document-processor';
+import type { DocumentVersion } from '@/lib/versions';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { useToast } from '@/components/ui/use-toast';
+
+interface VersionHistoryProps {
+  /** ID of the document's current version */
+  documentId: string;
+  /** ID of the version shown in the viewer */
+  viewingId: string;
+  /** Whether the caller may restore older versions (editor on every collection) */
+  canRestore: boolean;
+  onView: (versionId: string) => void;
+  /** Called with the ID of the restored version, now the current one */
+  onRestored: (versionId: string) => void;
+}
+
+/**
+ * Version list for the document viewer. Hidden for documents that were only
+ * uploaded once.
+ */
+export function VersionHistory({
+  documentId,
+  viewingId,
+  canRestore,
+  onView,
+  onRestored,
+}: VersionHistoryProps) {
+  const [versions, setVersions] = useState<DocumentVersion[]>([]);
+  const [restoringId, setRestoringId] = useState<string | null>(null);
+  const { toast } = useToast();
+
+  const processor = new DocumentProcessor();
+
+  useEffect(() => {
+    processor
+      .listDocumentVersions(documentId)
+      .then(setVersions)
+      .catch(() => setVersions([]));
+  }, [documentId]);
+
+  const handleRestore = async (version: DocumentVersion) => {
+    setRestoringId(version.id);
+    try {
+      await processor.restoreDocumentVersion(documentId, version.id);
+      toast({
+        title: 'Version Restored',
+        description: `Version ${version.version} is now the current version`,
+      });
+      onRestored(version.id);
+    } catch (error: any) {
+      toast({
+        title: 'Restore Failed',
+        description: error.message,
+        variant: 'destructive',
+      });
+    } finally {
+      setRestoringId(null);
+    }
+  };
+
+  if (versions.length <= 1) {
+    return null;
+  }
+
+  return (
+    <div className="mt-3 border rounded-lg p-2">
+      <div className="flex items-center gap-2 px-1 pb-2 text-sm font-medium">
+        <History className="h-4 w-4" />
+        Version history
+      </div>
+      <div className="max-h-32 overflow-y-auto space-y-1">
+        {versions.map((version) => (
+          <div
+            key={version.id}
+            className={`flex items-center gap-2 px-2 py-1 rounded text-sm ${
+              version.id === viewingId ? 'bg-muted' : ''
+            }`}
+          >
+            <button
+              type="button"
+              className="flex-1 text-left truncate hover:underline"
+              onClick={() => onView(version.id)}
+            >
+              Version {version.version} • {new Date(version.createdAt).toLocaleString()}
+            </button>
+            {version.current ? (
+              <Badge variant="secondary" className="text-xs">
+                Current
+              </Badge>
+            ) : (
+              canRestore && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-7"
+                  disabled={restoringId !== null}
+                  onClick={() => handleRestore(version)}
+                >
+                  {restoringId === version.id ? (
+                    <Loader2 className="mr-1 h-3 w-3 animate-spin" />
+                  ) : (
+                    <RotateCcw className="mr-1 h-3 w-3" />
+                  )}
+                  Restore
+                </Button>
+              )
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
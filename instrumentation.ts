@@ -0,0 +1,16 @@
+// Runs once when the server starts
+export async function register() {
+  // The scheduler uses SQLite and Node timers, so it only runs on the Node.js runtime
+  if (process.env.NEXT_RUNTIME === 'nodejs') {
+    const { startRefreshScheduler } = await import('@/lib/refresh-scheduler');
+    startRefreshScheduler();
+
+    // Collections created before collection records existed only live in
+    // memory tags; give them records so they are listed again
+    const { backfillCollectionRecords } = await import('@/lib/collection-records');
+    const { getKnowledgeStore } = await import('@/lib/knowledge-store');
+    void Promise.resolve()
+      .then(() => backfillCollectionRecords(getKnowledgeStore()))
+      .catch((error) => console.error('Collection backfill failed:', error));
+  }
+}
@@ -0,0 +1,132 @@
+import { createHash } from 'node:crypto';
+import { createReadStream, createWriteStream, openAsBlob } from 'node:fs';
+import { mkdir, rename, rm } from 'node:fs/promises';
+import path from 'node:path';
+import { pipeline } from 'node:stream/promises';
+import { DATA_DIR } from '@/lib/db';
+import {
+  deleteUploadSession,
+  listExpiredUploadSessions,
+  recordUploadPart,
+} from '@/lib/upload-records';
+import { partSizeOf, type UploadSession } from '@/lib/uploads';
+
+/** Directory holding the parts of unfinished uploads, one subdirectory per upload */
+const UPLOADS_DIR = path.join(DATA_DIR, 'uploads');
+
+function partPath(id: string, partNumber: number): string {
+  return path.join(UPLOADS_DIR, id, `${partNumber}.part`);
+}
+
+/**
+ * Error thrown when a part of an upload is not the size it should be.
+ */
+export class PartSizeError extends Error {
+  constructor(partNumber: number, expectedSize: number, received: string) {
+    super(`Part ${partNumber} must be ${expectedSize} bytes, received ${received}`);
+    this.name = 'PartSizeError';
+  }
+}
+
+/**
+ * Stores a part of an upload on disk and records it as received.
+ *
+ * The body is streamed to a temporary file and renamed into place, so an
+ * interrupted request never leaves a truncated part behind. Reading stops
+ * as soon as the body is larger than the part should be.
+ *
+ * @throws PartSizeError if the body is not the part's size
+ */
+export async function saveUploadPart(
+  session: UploadSession,
+  partNumber: number,
+  body: ReadableStream<Uint8Array> | null
+) {
+  const expectedSize = partSizeOf(session, partNumber);
+  const target = partPath(session.id, partNumber);
+  await mkdir(path.dirname(target), { recursive: true });
+
+  let size = 0;
+  try {
+    await pipeline(async function* () {
+      const reader = body?.getReader();
+      if (!reader) return;
+      for (let chunk = await reader.read(); !chunk.done; chunk = await reader.read()) {
+        size += chunk.value.byteLength;
+        if (size > expectedSize) {
+          await reader.cancel();
+          throw new PartSizeError(partNumber, expectedSize, `more than ${expectedSize}`);
+        }
+        yield chunk.value;
+      }
+    }, createWriteStream(`${target}.tmp`));
+    if (size !== expectedSize) {
+      throw new PartSizeError(partNumber, expectedSize, String(size));
+    }
+  } catch (error) {
+    await rm(`${target}.tmp`, { force: true });
+    throw error;
+  }
+
+  await rename(`${target}.tmp`, target);
+  recordUploadPart(session.id, partNumber, size);
+}
+
+/**
+ * A complete upload joined into one file.
+ */
+export interface AssembledUpload {
+  /** The uploaded file, read from disk as it is used */
+  file: File;
+  /** SHA-256 hash of the file's bytes */
+  contentHash: string;
+}
+
+/**
+ * Joins the parts of a complete upload into the uploaded file. The parts are
+ * streamed into a file next to them and hashed on the way, so the upload is
+ * never held in memory as a whole.
+ */
+export async function assembleUpload(
+  session: UploadSession,
+  fileType: string
+): Promise<AssembledUpload> {
+  const target = path.join(UPLOADS_DIR, session.id, 'assembled');
+  const hash = createHash('sha256');
+
+  await pipeline(async function* () {
+    for (let partNumber = 1; partNumber <= session.partCount; partNumber++) {
+      for await (const chunk of createReadStream(partPath(session.id, partNumber))) {
+        hash.update(chunk);
+        yield chunk;
+      }
+    }
+  }, createWriteStream(target));
+
+  const blob = await openAsBlob(target, { type: fileType });
+  return {
+    file: new File([blob], session.fileName, { type: fileType }),
+    contentHash: hash.digest('hex'),
+  };
+}
+
+/**
+ * Deletes an upload's parts, its assembled file and its record.
+ */
+export async function discardUpload(id: string) {
+  await rm(path.join(UPLOADS_DIR, id), { recursive: true, force: true });
+  deleteUploadSession(id);
+}
+
+/**
+ * Discards uploads that were not completed in time.
+ */
+export async function purgeExpiredUploads() {
+  for (const id of listExpiredUploadSessions()) {
+    try {
+      await discardUpload(id);
+    } catch (error) {
+      console.error(`Failed to discard expired upload ${id}:`, error);
+    }
+  }
+}
@@ -0,0 +1,171 @@
+import { deleteCollectionRecord } from '@/lib/collection-records';
+import { deleteCrawls, moveCrawls } from '@/lib/crawl-records';
+import { deleteOlderVersions } from '@/lib/document-versions';
+import { deleteFeeds, moveFeeds } from '@/lib/feed-records';
+import type { JobHandler } from '@/lib/job-runner';
+import { listAllMemories, type KnowledgeStore } from '@/lib/knowledge-store';
+import { deleteOriginalFile } from '@/lib/original-files';
+import { canAccessAll, deleteCollectionMembers } from '@/lib/permissions';
+import { reprocessDocument } from '@/lib/reprocessing';
+import { collectionsFromTags, collectionTag, type RequestScope } from '@/lib/scope';
+
+/**
+ * Removes a collection's record, role grants, crawl history and feed
+ * subscriptions once its documents are gone.
+ */
+function removeCollection(scope: RequestScope, name: string) {
+  deleteCollectionRecord(scope, name);
+  deleteCollectionMembers(scope, name);
+  deleteCrawls(scope, name);
+  deleteFeeds(scope, name);
+}
+
+/**
+ * Deletes every document in a collection, then the collection itself.
+ * Documents that also belong to other collections are only removed from
+ * this one; they are deleted with their last collection.
+ *
+ * The collection is kept if any document could not be deleted, so the
+ * delete can be retried.
+ */
+export function deleteCollectionDocuments(
+  store: KnowledgeStore,
+  scope: RequestScope,
+  name: string
+): JobHandler {
+  return async (context) => {
+    const tag = collectionTag(scope, name);
+    // Collect IDs up front: deletions shift the remaining pages
+    const memories = await listAllMemories(store, { containerTags: [tag] });
+    context.setTotal(memories.length);
+
+    let failed = 0;
+    for (const memory of memories) {
+      try {
+        const others = collectionsFromTags(scope, memory.containerTags).filter(
+          (collection) => collection !== name
+        );
+        if (others.length > 0) {
+          await store.update(memory.id, {
+            containerTags: memory.containerTags.filter((containerTag) => containerTag !== tag),
+          });
+        } else {
+          await store.delete(memory.id);
+          await deleteOlderVersions(store, memory.id);
+          await deleteOriginalFile(memory.id);
+        }
+        context.succeeded();
+      } catch (error: any) {
+        console.error(`Failed to delete memory ${memory.id}:`, error);
+        failed++;
+        context.failed({ id: memory.id, title: memory.title, error: error.message });
+      }
+    }
+
+    if (failed === 0) {
+      removeCollection(scope, name);
+    }
+  };
+}
+
+/**
+ * Moves every document in `source` to `target` by swapping the collection's
+ * container tag. Used for both renames and merges.
+ *
+ * The source collection's record and role grants are removed only if every
+ * document moved; otherwise it is kept so the remaining documents stay
+ * reachable and the move can be retried. The target record must already exist.
+ */
+export function moveCollectionDocuments(
+  store: KnowledgeStore,
+  scope: RequestScope,
+  source: string,
+  target: string
+): JobHandler {
+  return async (context) => {
+    const sourceTag = collectionTag(scope, source);
+    const targetTag = collectionTag(scope, target);
+
+    // Collect IDs up front: re-tagging removes memories from the source listing,
+    // which would shift later pages
+    const memories = await listAllMemories(store, { containerTags: [sourceTag] });
+    context.setTotal(memories.length);
+
+    let failed = 0;
+    for (const memory of memories) {
+      const containerTags = Array.from(
+        new Set(memory.containerTags.map((tag) => (tag === sourceTag ? targetTag : tag)))
+      );
+
+      try {
+        await store.update(memory.id, { containerTags });
+        context.succeeded();
+      } catch (error: any) {
+        console.error(`Failed to move memory ${memory.id} to "${target}":`, error);
+        failed++;
+        context.failed({ id: memory.id, title: memory.title, error: error.message });
+      }
+    }
+
+    if (failed === 0) {
+      moveCrawls(scope, source, target);
+      moveFeeds(scope, source, target);
+      removeCollection(scope, source);
+    }
+  };
+}
+
+/**
+ * Resubmits every failed document in a collection for processing. Documents
+ * that also belong to collections the caller cannot edit are reported as failures.
+ */
+export function reprocessFailedDocuments(
+  store: KnowledgeStore,
+  scope: RequestScope,
+  name: string
+): JobHandler {
+  return async (context) => {
+    const memories = (
+      await listAllMemories(store, { containerTags: [collectionTag(scope, name)] })
+    ).filter((memory) => memory.status === 'failed');
+    context.setTotal(memories.length);
+
+    for (const memory of memories) {
+      try {
+        if (!canAccessAll(scope, collectionsFromTags(scope, memory.containerTags), 'editor')) {
+          throw new Error('You do not have permission to edit every collection of this document');
+        }
+        // Listings leave out content, which documents without a source are reprocessed from
+        await reprocessDocument(store, await store.get(memory.id));
+        context.succeeded();
+      } catch (error: any) {
+        console.error(`Failed to reprocess memory ${memory.id}:`, error);
+        context.failed({ id: memory.id, title: memory.title, error: error.message });
+      }
+    }
+  };
+}
+
+/**
+ * Rebuilds the search index of every document in a collection.
+ */
+export function reindexCollectionDocuments(
+  store: KnowledgeStore,
+  scope: RequestScope,
+  name: string
+): JobHandler {
+  return async (context) => {
+    const memories = await listAllMemories(store, { containerTags: [collectionTag(scope, name)] });
+    context.setTotal(memories.length);
+
+    for (const memory of memories) {
+      try {
+        await store.reindex(memory.id);
+        context.succeeded();
+      } catch (error: any) {
+        console.error(`Failed to re-index memory ${memory.id}:`, error);
+        context.failed({ id: memory.id, title: memory.title, error: error.message });
+      }
+    }
+  };
+}
@@ -0,0 +1,247 @@
+import { getDatabase } from '@/lib/db';
+import {
+  DEFAULT_COLLECTION_SETTINGS,
+  type CollectionColor,
+  type CollectionDetailsInput,
+  type CollectionIcon,
+  type CollectionRecord,
+} from '@/lib/collections';
+import { iterateMemories, type KnowledgeStore } from '@/lib/knowledge-store';
+import type { RefreshInterval } from '@/lib/refresh';
+import { backgroundScope, collectionsFromTags, type RequestScope } from '@/lib/scope';
+
+interface CollectionRow {
+  name: string;
+  description: string;
+  icon: CollectionIcon;
+  color: CollectionColor;
+  settings: string;
+  metadata_fields: string;
+  created_by: string;
+  created_at: string;
+  updated_at: string;
+}
+
+function toRecord(row: CollectionRow): CollectionRecord {
+  return {
+    name: row.name,
+    description: row.description,
+    icon: row.icon,
+    color: row.color,
+    settings: { ...DEFAULT_COLLECTION_SETTINGS, ...JSON.parse(row.settings) },
+    metadataFields: JSON.parse(row.metadata_fields),
+    createdBy: row.created_by,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+/**
+ * Lists every collection in a scope, ordered by name.
+ */
+export function listCollectionRecords(scope: RequestScope): CollectionRecord[] {
+  const rows = getDatabase()
+    .prepare('SELECT * FROM collections WHERE scope = ? ORDER BY name')
+    .all(scope.id) as CollectionRow[];
+  return rows.map(toRecord);
+}
+
+/**
+ * Lists the collections in every scope whose web pages are refreshed on a
+ * schedule, with their interval.
+ */
+export function listRefreshingCollections(): {
+  scope: string;
+  name: string;
+  interval: RefreshInterval;
+}[] {
+  return getDatabase()
+    .prepare(
+      `SELECT scope, name, json_extract(settings, '$.refreshInterval') AS interval FROM collections
+       WHERE json_extract(settings, '$.refreshInterval') IN ('hourly', 'daily', 'weekly')`
+    )
+    .all() as { scope: string; name: string; interval: RefreshInterval }[];
+}
+
+/**
+ * Fetches a collection by name.
+ *
+ * @returns The collection, or null if it does not exist in the scope
+ */
+export function getCollectionRecord(scope: RequestScope, name: string): CollectionRecord | null {
+  const row = getDatabase()
+    .prepare('SELECT * FROM collections WHERE scope = ? AND name = ?')
+    .get(scope.id, name) as CollectionRow | undefined;
+  return row ? toRecord(row) : null;
+}
+
+/**
+ * Whether every one of the named collections exists in the scope.
+ */
+export function collectionsExist(scope: RequestScope, names: string[]): boolean {
+  return names.every((name) => getCollectionRecord(scope, name) !== null);
+}
+
+/**
+ * Creates a collection owned by the caller. The caller must check that the
+ * name is free first.
+ */
+export function createCollectionRecord(
+  scope: RequestScope,
+  name: string,
+  details: CollectionDetailsInput = {}
+): CollectionRecord {
+  const now = new Date().toISOString();
+  getDatabase()
+    .prepare(
+      `INSERT INTO collections (scope, name, description, icon, color, settings, metadata_fields, created_by, created_at, updated_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+    )
+    .run(
+      scope.id,
+      name,
+      details.description ?? '',
+      details.icon ?? 'folder',
+      details.color ?? 'blue',
+      JSON.stringify({ ...DEFAULT_COLLECTION_SETTINGS, ...details.settings }),
+      JSON.stringify(details.metadataFields ?? []),
+      scope.userId,
+      now,
+      now
+    );
+  return getCollectionRecord(scope, name)!;
+}
+
+/**
+ * Updates a collection's editable fields. Settings are merged into the
+ * existing ones.
+ *
+ * @returns The updated collection, or null if it does not exist
+ */
+export function updateCollectionRecord(
+  scope: RequestScope,
+  name: string,
+  details: CollectionDetailsInput
+): CollectionRecord | null {
+  const existing = getCollectionRecord(scope, name);
+  if (!existing) {
+    return null;
+  }
+
+  getDatabase()
+    .prepare(
+      `UPDATE collections SET description = ?, icon = ?, color = ?, settings = ?, metadata_fields = ?,
+       updated_at = ? WHERE scope = ? AND name = ?`
+    )
+    .run(
+      details.description ?? existing.description,
+      details.icon ?? existing.icon,
+      details.color ?? existing.color,
+      JSON.stringify({ ...existing.settings, ...details.settings }),
+      JSON.stringify(details.metadataFields ?? existing.metadataFields),
+      new Date().toISOString(),
+      scope.id,
+      name
+    );
+  return getCollectionRecord(scope, name);
+}
+
+/**
+ * Creates `target` as a copy of `source`, keeping its details, creator and
+ * creation time. Used when renaming a collection. The caller must check that
+ * `target` is free first.
+ */
+export function copyCollectionRecord(scope: RequestScope, source: string, target: string) {
+  getDatabase()
+    .prepare(
+      `INSERT INTO collections (scope, name, description, icon, color, settings, metadata_fields, created_by, created_at, updated_at)
+       SELECT scope, ?, description, icon, color, settings, metadata_fields, created_by, created_at, ?
+       FROM collections WHERE scope = ? AND name = ?`
+    )
+    .run(target, new Date().toISOString(), scope.id, source);
+}
+
+/**
+ * Re-creates a collection exactly as it was, e.g. when restoring it from the
+ * trash. The caller must check that the name is free first.
+ */
+export function restoreCollectionRecord(scope: RequestScope, record: CollectionRecord) {
+  getDatabase()
+    .prepare(
+      `INSERT INTO collections (scope, name, description, icon, color, settings, metadata_fields, created_by, created_at, updated_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+    )
+    .run(
+      scope.id,
+      record.name,
+      record.description,
+      record.icon,
+      record.color,
+      JSON.stringify(record.settings),
+      // Collections trashed before schemas existed have none
+      JSON.stringify(record.metadataFields ?? []),
+      record.createdBy,
+      record.createdAt,
+      new Date().toISOString()
+    );
+}
+
+/**
+ * Deletes a collection record. Its documents and role grants are removed
+ * separately.
+ */
+export function deleteCollectionRecord(scope: RequestScope, name: string) {
+  getDatabase().prepare('DELETE FROM collections WHERE scope = ? AND name = ?').run(scope.id, name);
+}
+
+/** Name under which `backfillCollectionRecords` records that it has run */
+const COLLECTION_BACKFILL = 'collections';
+
+/**
+ * Creates a record for every collection that exists only as a container tag
+ * on memories, such as collections created before collection records
+ * existed. Runs once per database, from `instrumentation.ts`; the knowledge
+ * store may be Supermemory, so the tags can only be read by listing memories.
+ * A collection is attributed to the owner of its oldest memory.
+ */
+export async function backfillCollectionRecords(store: KnowledgeStore) {
+  const db = getDatabase();
+  if (db.prepare('SELECT 1 FROM backfills WHERE name = ?').get(COLLECTION_BACKFILL)) {
+    return;
+  }
+
+  const found = new Map<string, { scope: string; name: string; createdBy: string; createdAt: string }>();
+  for await (const memory of iterateMemories(store)) {
+    // Scope tags are the only tags without a collection or state suffix
+    const scopes = memory.containerTags.filter((tag) => !/[:#]/.test(tag));
+    for (const scopeId of scopes) {
+      for (const name of collectionsFromTags(backgroundScope(scopeId), memory.containerTags)) {
+        const key = JSON.stringify([scopeId, name]);
+        const previous = found.get(key);
+        if (!previous || memory.createdAt < previous.createdAt) {
+          const ownerId = memory.metadata.ownerId;
+          found.set(key, {
+            scope: scopeId,
+            name,
+            createdBy: typeof ownerId === 'string' ? ownerId : '',
+            createdAt: memory.createdAt,
+          });
+        }
+      }
+    }
+  }
+
+  db.transaction(() => {
+    const insertRecord = db.prepare(
+      `INSERT OR IGNORE INTO collections (scope, name, created_by, created_at, updated_at)
+       VALUES (?, ?, ?, ?, ?)`
+    );
+    for (const record of found.values()) {
+      insertRecord.run(record.scope, record.name, record.createdBy, record.createdAt, record.createdAt);
+    }
+    db.prepare('INSERT INTO backfills (name, completed_at) VALUES (?, ?)').run(
+      COLLECTION_BACKFILL,
+      new Date().toISOString()
+    );
+  })();
+}
@@ -0,0 +1,60 @@
+import type { CollectionStats, DocumentStatusGroup } from '@/lib/collections';
+import { iterateMemories, type KnowledgeStore, type MemoryStatus } from '@/lib/knowledge-store';
+import { collectionsFromTags, scopeTag, type RequestScope } from '@/lib/scope';
+
+/**
+ * Maps a backend processing status onto the groups shown in collection stats.
+ */
+export function statusGroup(status: MemoryStatus): DocumentStatusGroup {
+  switch (status) {
+    case 'done':
+      return 'ready';
+    case 'failed':
+      return 'failed';
+    default:
+      return 'processing';
+  }
+}
+
+function emptyStats(): CollectionStats {
+  return {
+    documentCount: 0,
+    types: {},
+    statuses: { ready: 0, processing: 0, failed: 0 },
+    lastUpdated: null,
+  };
+}
+
+/**
+ * Computes document stats for the given collections in a single pass over the
+ * scope's memories. A document in several collections counts towards each.
+ *
+ * @returns Stats keyed by collection name; collections without documents get
+ * zeroed stats
+ */
+export async function getCollectionStats(
+  store: KnowledgeStore,
+  scope: RequestScope,
+  collections: string[]
+): Promise<Record<string, CollectionStats>> {
+  const stats: Record<string, CollectionStats> = {};
+  for (const collection of collections) {
+    stats[collection] = emptyStats();
+  }
+
+  for await (const memory of iterateMemories(store, { containerTags: [scopeTag(scope)] })) {
+    for (const collection of collectionsFromTags(scope, memory.containerTags)) {
+      const entry = stats[collection];
+      if (!entry) continue;
+
+      entry.documentCount++;
+      entry.types[memory.type] = (entry.types[memory.type] ?? 0) + 1;
+      entry.statuses[statusGroup(memory.status)]++;
+      if (!entry.lastUpdated || memory.updatedAt > entry.lastUpdated) {
+        entry.lastUpdated = memory.updatedAt;
+      }
+    }
+  }
+
+  return stats;
+}
@@ -0,0 +1,192 @@
+import { parseMetadataSchema, type MetadataField } from '@/lib/metadata-schema';
+import { isRefreshInterval, type RefreshInterval } from '@/lib/refresh';
+import type { CollectionRole } from '@/lib/roles';
+
+/**
+ * Icons a collection can be shown with. Mapped to lucide icons by
+ * `components/collection-avatar.tsx`.
+ */
+export const COLLECTION_ICONS = [
+  'folder',
+  'book',
+  'briefcase',
+  'flask',
+  'graduation-cap',
+  'scale',
+  'globe',
+] as const;
+
+export type CollectionIcon = (typeof COLLECTION_ICONS)[number];
+
+/** Accent colors a collection can be shown with */
+export const COLLECTION_COLORS = ['blue', 'slate', 'green', 'amber', 'red', 'violet'] as const;
+
+export type CollectionColor = (typeof COLLECTION_COLORS)[number];
+
+/** Maximum length of a collection description */
+export const MAX_COLLECTION_DESCRIPTION_LENGTH = 500;
+
+/**
+ * Per-collection behaviour settings.
+ */
+export interface CollectionSettings {
+  /** Whether the collection's documents are searched by the Q&A chat */
+  includeInSearch: boolean;
+  /** How often the collection's web pages are fetched again to check for changes */
+  refreshInterval: RefreshInterval;
+}
+
+export const DEFAULT_COLLECTION_SETTINGS: CollectionSettings = {
+  includeInSearch: true,
+  refreshInterval: 'off',
+};
+
+/**
+ * A collection as stored in the database.
+ */
+export interface CollectionRecord {
+  /** Collection name, unique within a scope */
+  name: string;
+  description: string;
+  icon: CollectionIcon;
+  color: CollectionColor;
+  settings: CollectionSettings;
+  /** Typed fields every document in the collection carries */
+  metadataFields: MetadataField[];
+  /** Clerk user ID of the creator */
+  createdBy: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * Editable fields of a collection, as accepted by the collections API.
+ */
+export interface CollectionDetailsInput {
+  description?: string;
+  icon?: CollectionIcon;
+  color?: CollectionColor;
+  settings?: Partial<CollectionSettings>;
+  metadataFields?: MetadataField[];
+}
+
+/**
+ * Validates the editable fields of a collection from an untrusted request
+ * body. Unknown fields are ignored.
+ *
+ * @returns The validated fields, or an error message
+ */
+export function parseCollectionDetails(
+  body: Record<string, unknown>
+): { details: CollectionDetailsInput } | { error: string } {
+  const details: CollectionDetailsInput = {};
+
+  if (body.description !== undefined) {
+    if (typeof body.description !== 'string') {
+      return { error: 'Description must be a string' };
+    }
+    if (body.description.length > MAX_COLLECTION_DESCRIPTION_LENGTH) {
+      return {
+        error: `Description must be at most ${MAX_COLLECTION_DESCRIPTION_LENGTH} characters`,
+      };
+    }
+    details.description = body.description.trim();
+  }
+
+  if (body.icon !== undefined) {
+    if (!COLLECTION_ICONS.includes(body.icon as CollectionIcon)) {
+      return { error: 'Invalid icon' };
+    }
+    details.icon = body.icon as CollectionIcon;
+  }
+
+  if (body.color !== undefined) {
+    if (!COLLECTION_COLORS.includes(body.color as CollectionColor)) {
+      return { error: 'Invalid color' };
+    }
+    details.color = body.color as CollectionColor;
+  }
+
+  if (body.settings !== undefined) {
+    const settings = body.settings as Record<string, unknown>;
+    if (typeof settings !== 'object' || settings === null || Array.isArray(settings)) {
+      return { error: 'Settings must be an object' };
+    }
+    details.settings = {};
+    if (settings.includeInSearch !== undefined) {
+      if (typeof settings.includeInSearch !== 'boolean') {
+        return { error: 'includeInSearch must be a boolean' };
+      }
+      details.settings.includeInSearch = settings.includeInSearch;
+    }
+    if (settings.refreshInterval !== undefined) {
+      if (!isRefreshInterval(settings.refreshInterval)) {
+        return { error: 'Invalid refreshInterval' };
+      }
+      details.settings.refreshInterval = settings.refreshInterval;
+    }
+  }
+
+  if (body.metadataFields !== undefined) {
+    const schema = parseMetadataSchema(body.metadataFields);
+    if ('error' in schema) {
+      return schema;
+    }
+    details.metadataFields = schema.fields;
+  }
+
+  return { details };
+}
+
+/**
+ * Validates a list of target collection names from an untrusted request.
+ * Names are trimmed and repeats are dropped.
+ *
+ * @returns The names, or null unless the value is a non-empty array of
+ * non-blank strings
+ */
+export function parseCollectionNames(value: unknown): string[] | null {
+  if (!Array.isArray(value) || value.length === 0) {
+    return null;
+  }
+  if (!value.every((name) => typeof name === 'string' && name.trim())) {
+    return null;
+  }
+  return Array.from(new Set(value.map((name: string) => name.trim())));
+}
+
+/**
+ * A collection together with the caller's role on it, as returned by
+ * `GET /api/collections`.
+ */
+export interface CollectionSummary extends CollectionRecord {
+  role: CollectionRole;
+}
+
+/**
+ * Coarse processing states documents are grouped into for collection stats.
+ */
+export const DOCUMENT_STATUS_GROUPS = ['ready', 'processing', 'failed'] as const;
+
+export type DocumentStatusGroup = (typeof DOCUMENT_STATUS_GROUPS)[number];
+
+/**
+ * Aggregated document counts for a collection.
+ */
+export interface CollectionStats {
+  documentCount: number;
+  /** Document count per document type (e.g., 'pdf', 'webpage') */
+  types: Record<string, number>;
+  /** Document count per processing state */
+  statuses: Record<DocumentStatusGroup, number>;
+  /** ISO timestamp of the most recently updated document, if any */
+  lastUpdated: string | null;
+}
+
+/**
+ * A collection summary with its document stats, as returned by
+ * `GET /api/collections?withStats=1`.
+ */
+export interface CollectionWithStats extends CollectionSummary {
+  stats: CollectionStats;
+}
@@ -2,13 +2,21 @@
 export const appName = 'Your App';
 
 /**
- * Maximum file size allowed for uploads in bytes.
- * Must match the `serverActions.bodySizeLimit` and `proxyClientMaxBodySize`
- * values in next.config.mjs.
+ * Maximum file size allowed for uploads in bytes. Files larger than
+ * `UPLOAD_PART_SIZE_BYTES` are sent in parts, so this is not bound by the
+ * request body limits in next.config.mjs.
  */
-export const MAX_UPLOAD_SIZE_BYTES = 50 * 1024 * 1024; // 50MB
+export const MAX_UPLOAD_SIZE_BYTES = 500 * 1024 * 1024; // 500MB
 
 /**
  * Human-readable maximum file size for display in UI.
  */
-export const MAX_UPLOAD_SIZE_DISPLAY = '50MB';
+export const MAX_UPLOAD_SIZE_DISPLAY = '500MB';
+
+/**
+ * Size of each part of a chunked upload in bytes. Files up to this size are
+ * uploaded in a single request. Must stay below the
+ * `serverActions.bodySizeLimit` and `proxyClientMaxBodySize` values in
+ * next.config.mjs.
+ */
+export const UPLOAD_PART_SIZE_BYTES = 8 * 1024 * 1024; // 8MB
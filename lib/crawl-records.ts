@@ -0,0 +1,157 @@
+import { randomUUID } from 'node:crypto';
+import type { Crawl, CrawlOptions } from '@/lib/crawls';
+import { getDatabase } from '@/lib/db';
+import { getJobRecord } from '@/lib/job-records';
+import type { RequestScope } from '@/lib/scope';
+
+/** Number of crawls returned by `listCrawls` */
+const CRAWL_LIST_LIMIT = 10;
+
+interface CrawlRow {
+  id: string;
+  collection: string;
+  url: string;
+  max_depth: number;
+  max_pages: number;
+  include: string;
+  exclude: string;
+  job_id: string | null;
+  created_by: string;
+  created_at: string;
+  page_count: number;
+}
+
+/**
+ * A page ingested by a crawl.
+ */
+export interface CrawlPage {
+  memoryId: string;
+  url: string;
+  /** Links followed from the starting pages to reach this one */
+  depth: number;
+  /** Page the link was found on, or null for starting pages */
+  parentUrl: string | null;
+}
+
+const SELECT_CRAWLS = `
+  SELECT c.*, (SELECT COUNT(*) FROM crawl_pages p WHERE p.crawl_id = c.id) AS page_count
+  FROM crawls c`;
+
+function toCrawl(scope: RequestScope, row: CrawlRow): Crawl {
+  return {
+    id: row.id,
+    collection: row.collection,
+    url: row.url,
+    maxDepth: row.max_depth,
+    maxPages: row.max_pages,
+    include: JSON.parse(row.include),
+    exclude: JSON.parse(row.exclude),
+    pageCount: row.page_count,
+    job: row.job_id ? getJobRecord(scope, row.job_id) : null,
+    createdBy: row.created_by,
+    createdAt: row.created_at,
+  };
+}
+
+/**
+ * Records a crawl into a collection started by the caller. The job running
+ * it is attached with `setCrawlJob` once it has been started.
+ */
+export function createCrawl(scope: RequestScope, collection: string, options: CrawlOptions): Crawl {
+  const id = randomUUID();
+  getDatabase()
+    .prepare(
+      `INSERT INTO crawls (id, scope, collection, url, max_depth, max_pages, include, exclude, created_by, created_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+    )
+    .run(
+      id,
+      scope.id,
+      collection,
+      options.url,
+      options.maxDepth,
+      options.maxPages,
+      JSON.stringify(options.include),
+      JSON.stringify(options.exclude),
+      scope.userId,
+      new Date().toISOString()
+    );
+  return getCrawl(scope, id)!;
+}
+
+/**
+ * Links a crawl to the background job running it.
+ */
+export function setCrawlJob(id: string, jobId: string) {
+  getDatabase().prepare('UPDATE crawls SET job_id = ? WHERE id = ?').run(jobId, id);
+}
+
+/**
+ * Fetches a crawl in the caller's scope.
+ */
+export function getCrawl(scope: RequestScope, id: string): Crawl | null {
+  const row = getDatabase()
+    .prepare(`${SELECT_CRAWLS} WHERE c.scope = ? AND c.id = ?`)
+    .get(scope.id, id) as CrawlRow | undefined;
+  return row ? toCrawl(scope, row) : null;
+}
+
+/**
+ * Lists the most recent crawls into a collection, newest first.
+ */
+export function listCrawls(scope: RequestScope, collection: string): Crawl[] {
+  const rows = getDatabase()
+    .prepare(
+      `${SELECT_CRAWLS} WHERE c.scope = ? AND c.collection = ?
+       ORDER BY c.created_at DESC LIMIT ?`
+    )
+    .all(scope.id, collection, CRAWL_LIST_LIMIT) as CrawlRow[];
+  return rows.map((row) => toCrawl(scope, row));
+}
+
+/**
+ * Records a page a crawl ingested.
+ */
+export function recordCrawlPage(crawlId: string, page: CrawlPage) {
+  getDatabase()
+    .prepare(
+      `INSERT OR REPLACE INTO crawl_pages (crawl_id, memory_id, url, depth, parent_url)
+       VALUES (?, ?, ?, ?, ?)`
+    )
+    .run(crawlId, page.memoryId, page.url, page.depth, page.parentUrl);
+}
+
+/**
+ * Lists the pages a crawl ingested, in crawl order.
+ */
+export function listCrawlPages(crawlId: string): CrawlPage[] {
+  const rows = getDatabase()
+    .prepare(
+      'SELECT memory_id, url, depth, parent_url FROM crawl_pages WHERE crawl_id = ? ORDER BY rowid'
+    )
+    .all(crawlId) as { memory_id: string; url: string; depth: number; parent_url: string | null }[];
+  return rows.map((row) => ({
+    memoryId: row.memory_id,
+    url: row.url,
+    depth: row.depth,
+    parentUrl: row.parent_url,
+  }));
+}
+
+/**
+ * Moves a collection's crawls to another name, when it is renamed or merged.
+ */
+export function moveCrawls(scope: RequestScope, from: string, to: string) {
+  getDatabase()
+    .prepare('UPDATE crawls SET collection = ? WHERE scope = ? AND collection = ?')
+    .run(to, scope.id, from);
+}
+
+/**
+ * Deletes a collection's crawl records and their page lists.
+ */
+export function deleteCrawls(scope: RequestScope, collection: string) {
+  getDatabase()
+    .prepare('DELETE FROM crawls WHERE scope = ? AND collection = ?')
+    .run(scope.id, collection);
+}
@@ -0,0 +1,145 @@
+import assert from 'node:assert/strict';
+import { mkdtempSync, rmSync } from 'node:fs';
+import http from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { after, before, describe, it } from 'node:test';
+import type { CrawlOptions } from '@/lib/crawls';
+import type { JobFailure } from '@/lib/jobs';
+
+// The database and knowledge store are set up on first import, so modules
+// that use them are imported once DATA_DIR points at a scratch directory
+const dataDir = mkdtempSync(path.join(tmpdir(), 'crawler-test-'));
+process.env.DATA_DIR = dataDir;
+process.env.KNOWLEDGE_STORE = 'sqlite';
+// The site is served from 127.0.0.1
+process.env.ALLOW_PRIVATE_URLS = 'true';
+
+type Modules = {
+  crawler: typeof import('@/lib/crawler');
+  crawlRecords: typeof import('@/lib/crawl-records');
+  knowledgeStore: typeof import('@/lib/knowledge-store');
+  scope: typeof import('@/lib/scope');
+};
+
+/** A small static site, served from a local HTTP server */
+const PAGES: Record<string, { status?: number; headers?: Record<string, string>; body?: string }> = {
+  '/robots.txt': { body: 'User-agent: *\nDisallow: /private' },
+  '/': {
+    body: `<title>Home</title>
+      <a href="/docs/a">A</a>
+      <a href="/private/secret">Secret</a>
+      <a href="/moved">Moved</a>
+      <a href="/skip/me">Skipped</a>
+      <a href="/hidden">Hidden</a>
+      <a href="/huge">Huge</a>`,
+  },
+  '/docs/a': { body: '<title>Page A</title><p>Text of page A</p><a href="/docs/b">B</a>' },
+  '/docs/b': { body: '<title>Page B</title><p>Text of page B</p>' },
+  '/private/secret': { body: '<title>Secret</title>' },
+  '/moved': { status: 302, headers: { location: '/private/landing' } },
+  '/private/landing': { body: '<title>Landing</title>' },
+  '/skip/me': { body: '<title>Skipped</title>' },
+  '/hidden': { body: '<meta name="robots" content="noindex"><title>Hidden</title>' },
+  '/huge': { body: `<title>Huge</title>${'x'.repeat(11 * 1024 * 1024)}` },
+};
+
+describe('crawlWebsite', () => {
+  let modules: Modules;
+  let server: http.Server;
+  let origin: string;
+  const requested: string[] = [];
+
+  before(async () => {
+    modules = {
+      crawler: await import('@/lib/crawler'),
+      crawlRecords: await import('@/lib/crawl-records'),
+      knowledgeStore: await import('@/lib/knowledge-store'),
+      scope: await import('@/lib/scope'),
+    };
+
+    server = http.createServer((request, response) => {
+      requested.push(request.url!);
+      const page = PAGES[request.url!];
+      if (!page) {
+        response.writeHead(404).end();
+        return;
+      }
+      response.writeHead(page.status ?? 200, { 'content-type': 'text/html', ...page.headers });
+      response.end(page.body);
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    origin = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  after(async () => {
+    await new Promise((resolve) => server.close(resolve));
+    rmSync(dataDir, { recursive: true, force: true });
+  });
+
+  const crawl = async (options: Partial<CrawlOptions>) => {
+    const { crawler, crawlRecords, knowledgeStore, scope } = modules;
+    const crawlScope = scope.backgroundScope('crawler-test', 'tester');
+    const crawlOptions: CrawlOptions = {
+      url: `${origin}/`,
+      maxDepth: 2,
+      maxPages: 50,
+      include: [],
+      exclude: [],
+      ...options,
+    };
+    const record = crawlRecords.createCrawl(crawlScope, 'docs', crawlOptions);
+    const failures: JobFailure[] = [];
+    requested.length = 0;
+
+    await crawler.crawlWebsite(
+      knowledgeStore.getKnowledgeStore(),
+      crawlScope,
+      'docs',
+      record.id,
+      crawlOptions
+    )({ setTotal() {}, succeeded() {}, failed: (failure) => failures.push(failure) });
+
+    const pages = crawlRecords.listCrawlPages(record.id).map((page) => new URL(page.url).pathname);
+    return { pages: pages.sort(), failures, requested: [...requested] };
+  };
+
+  it('follows links, honouring robots.txt, patterns, redirects and noindex', async () => {
+    const { pages, failures, requested } = await crawl({ exclude: ['/skip/**'] });
+
+    assert.deepEqual(pages, ['/', '/docs/a', '/docs/b']);
+    assert.ok(!requested.includes('/private/secret'));
+    assert.ok(!requested.includes('/skip/me'));
+    // The redirect is followed but the disallowed page it lands on is not added
+    assert.ok(requested.includes('/moved'));
+    assert.deepEqual(
+      failures.map((failure) => new URL(failure.id).pathname),
+      ['/huge']
+    );
+    assert.match(failures[0].error, /larger than/);
+  });
+
+  it('fetches each page once', async () => {
+    const { requested } = await crawl({ exclude: ['/skip/**', '/huge'] });
+
+    const counts = new Map<string, number>();
+    for (const url of requested) counts.set(url, (counts.get(url) ?? 0) + 1);
+    assert.ok([...counts.values()].every((count) => count === 1), `Fetched twice: ${requested}`);
+  });
+
+  it('counts skipped pages against maxPages', async () => {
+    const { pages, requested } = await crawl({ maxPages: 4 });
+
+    // The redirect to a disallowed page uses up one of the four
+    assert.deepEqual(
+      requested.filter((url) => url !== '/robots.txt' && url !== '/private/landing'),
+      ['/', '/docs/a', '/moved', '/skip/me']
+    );
+    assert.deepEqual(pages, ['/', '/docs/a', '/skip/me']);
+  });
+
+  it('stops when the starting page redirects to a disallowed path', async () => {
+    await assert.rejects(crawl({ url: `${origin}/moved` }), /robots\.txt does not allow/);
+  });
+});
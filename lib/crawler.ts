@@ -0,0 +1,434 @@
+import { recordCrawlPage } from '@/lib/crawl-records';
+import type { CrawlOptions } from '@/lib/crawls';
+import { findDuplicate, linkDuplicate, normalizeUrl, urlFingerprint } from '@/lib/fingerprints';
+import type { JobHandler } from '@/lib/job-runner';
+import type { KnowledgeStore } from '@/lib/knowledge-store';
+import { extractPageText } from '@/lib/knowledge-store/text-extraction';
+import { fetchPublicUrl } from '@/lib/public-fetch';
+import type { RequestScope } from '@/lib/scope';
+import { addUrlDocument } from '@/lib/url-documents';
+
+/** Sent as the User-Agent, and the token looked for in robots.txt */
+const CRAWLER_USER_AGENT = 'document-kb-crawler';
+
+/** Time allowed for each request before it is abandoned */
+const FETCH_TIMEOUT_MS = 15_000;
+
+/** Largest response read, in bytes; larger pages and sitemaps fail */
+const MAX_RESPONSE_BYTES = 10 * 1024 * 1024;
+
+/** Most nested sitemaps read from a sitemap index */
+const MAX_SITEMAPS = 20;
+
+/** Links to files that are not web pages, which are never followed */
+const NON_PAGE_EXTENSION =
+  /\.(png|jpe?g|gif|svg|webp|ico|css|js|mjs|map|json|xml|pdf|docx?|xlsx?|pptx?|zip|gz|tar|mp3|mp4|webm|woff2?|ttf)$/i;
+
+/**
+ * Allow and disallow path patterns that apply to the crawler, from robots.txt.
+ */
+export interface RobotsRules {
+  allow: string[];
+  disallow: string[];
+}
+
+interface FetchedPage {
+  /** URL after redirects */
+  url: string;
+  contentType: string;
+  body: string;
+}
+
+interface QueuedPage {
+  url: string;
+  depth: number;
+  parentUrl: string | null;
+}
+
+/**
+ * Reads a response's body as text, giving up once it is larger than
+ * `MAX_RESPONSE_BYTES` rather than holding all of it in memory.
+ */
+async function readText(response: Response, url: string): Promise<string> {
+  const tooLarge = new Error(`${url} is larger than ${MAX_RESPONSE_BYTES} bytes`);
+  if (Number(response.headers.get('content-length')) > MAX_RESPONSE_BYTES) {
+    await response.body?.cancel();
+    throw tooLarge;
+  }
+
+  const reader = response.body?.getReader();
+  if (!reader) {
+    return '';
+  }
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  for (let chunk = await reader.read(); !chunk.done; chunk = await reader.read()) {
+    size += chunk.value.byteLength;
+    if (size > MAX_RESPONSE_BYTES) {
+      await reader.cancel();
+      throw tooLarge;
+    }
+    chunks.push(chunk.value);
+  }
+  return Buffer.concat(chunks).toString('utf8');
+}
+
+async function fetchPage(url: string): Promise<FetchedPage> {
+  const response = await fetchPublicUrl(url, {
+    headers: { 'User-Agent': CRAWLER_USER_AGENT },
+    signal: AbortSignal.timeout(FETCH_TIMEOUT_MS),
+  });
+  if (!response.ok) {
+    throw new Error(`Failed to fetch ${url}: ${response.status} ${response.statusText}`);
+  }
+  return {
+    url: response.url || url,
+    contentType: response.headers.get('content-type') || '',
+    body: await readText(response, url),
+  };
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Whether a page's path and query match a crawl include/exclude glob.
+ * `**` matches anything, `*` anything but a slash.
+ */
+export function matchesGlob(path: string, pattern: string): boolean {
+  const source = pattern
+    .split('**')
+    .map((part) => part.split('*').map(escapeRegExp).join('[^/]*'))
+    .join('.*');
+  return new RegExp(`^${source}$`).test(path);
+}
+
+/**
+ * Reads the rules for the crawler from a robots.txt file: the group naming
+ * the crawler if there is one, otherwise the `*` group.
+ */
+export function parseRobots(text: string): RobotsRules {
+  const groups: { agents: string[]; rules: RobotsRules }[] = [];
+  let current: { agents: string[]; rules: RobotsRules } | null = null;
+  let inAgentLines = false;
+
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.replace(/#.*$/, '').trim();
+    const separator = line.indexOf(':');
+    if (separator === -1) continue;
+    const field = line.slice(0, separator).trim().toLowerCase();
+    const value = line.slice(separator + 1).trim();
+
+    if (field === 'user-agent') {
+      // Consecutive user-agent lines share one group
+      if (!current || !inAgentLines) {
+        current = { agents: [], rules: { allow: [], disallow: [] } };
+        groups.push(current);
+      }
+      current.agents.push(value.toLowerCase());
+      inAgentLines = true;
+    } else if (current && (field === 'allow' || field === 'disallow')) {
+      inAgentLines = false;
+      // An empty Disallow allows everything
+      if (value) {
+        current.rules[field].push(value);
+      }
+    }
+  }
+
+  const named = groups.find((group) =>
+    group.agents.some((agent) => agent !== '*' && CRAWLER_USER_AGENT.includes(agent))
+  );
+  const fallback = groups.find((group) => group.agents.includes('*'));
+  return (named ?? fallback)?.rules ?? { allow: [], disallow: [] };
+}
+
+function robotsPatternLength(path: string, pattern: string): number {
+  const anchored = pattern.endsWith('$');
+  const source = (anchored ? pattern.slice(0, -1) : pattern)
+    .split('*')
+    .map(escapeRegExp)
+    .join('.*');
+  return new RegExp(`^${source}${anchored ? '$' : ''}`).test(path) ? pattern.length : -1;
+}
+
+/**
+ * Whether robots.txt rules allow a path. The longest matching rule wins,
+ * and Allow wins a tie.
+ */
+export function isAllowedByRobots(rules: RobotsRules, path: string): boolean {
+  const longest = (patterns: string[]) =>
+    Math.max(-1, ...patterns.map((pattern) => robotsPatternLength(path, pattern)));
+  return longest(rules.allow) >= longest(rules.disallow);
+}
+
+/**
+ * Fetches a site's robots.txt. A missing file allows everything; one that
+ * cannot be read for any other reason stops the crawl.
+ */
+async function loadRobots(origin: string): Promise<RobotsRules> {
+  const response = await fetchPublicUrl(`${origin}/robots.txt`, {
+    headers: { 'User-Agent': CRAWLER_USER_AGENT },
+    signal: AbortSignal.timeout(FETCH_TIMEOUT_MS),
+  });
+  if (response.status >= 400 && response.status < 500) {
+    return { allow: [], disallow: [] };
+  }
+  if (!response.ok) {
+    throw new Error(`Could not read ${origin}/robots.txt: ${response.status} ${response.statusText}`);
+  }
+  return parseRobots(await readText(response, `${origin}/robots.txt`));
+}
+
+function decodeHtmlAttribute(value: string): string {
+  return value
+    .replace(/&amp;/g, '&')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>');
+}
+
+/**
+ * The absolute URLs of the links on a page, resolved against its `<base>`.
+ */
+function extractLinks(html: string, pageUrl: string): string[] {
+  const base = html.match(/<base\s[^>]*href\s*=\s*["']([^"']+)["']/i)?.[1];
+  let baseUrl = pageUrl;
+  try {
+    baseUrl = base ? new URL(decodeHtmlAttribute(base), pageUrl).toString() : pageUrl;
+  } catch {
+    // Ignore a malformed <base> and resolve against the page itself
+  }
+
+  const links: string[] = [];
+  for (const match of html.matchAll(/<a\s[^>]*?href\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s>]+))/gi)) {
+    const href = decodeHtmlAttribute((match[1] ?? match[2] ?? match[3]).trim());
+    if (!href || href.startsWith('#') || /^(mailto|javascript|tel):/i.test(href)) continue;
+    try {
+      const url = new URL(href, baseUrl);
+      url.hash = '';
+      links.push(url.toString());
+    } catch {
+      // Skip links that are not valid URLs
+    }
+  }
+  return links;
+}
+
+/**
+ * The directives of a page's `<meta name="robots">` tag.
+ */
+function metaRobots(html: string): { noindex: boolean; nofollow: boolean } {
+  const tag = html.match(/<meta\s[^>]*name\s*=\s*["']?robots["']?[^>]*>/i)?.[0] ?? '';
+  const content = (tag.match(/content\s*=\s*["']([^"']*)["']/i)?.[1] ?? '').toLowerCase();
+  return {
+    noindex: content.includes('noindex') || content.includes('none'),
+    nofollow: content.includes('nofollow') || content.includes('none'),
+  };
+}
+
+function isSitemap(page: FetchedPage): boolean {
+  return /<(urlset|sitemapindex)[\s>]/i.test(page.body.slice(0, 2048));
+}
+
+/**
+ * The page URLs listed in a sitemap, following a sitemap index to the
+ * sitemaps it lists.
+ */
+async function readSitemap(sitemap: FetchedPage, origin: string): Promise<string[]> {
+  const locations = (xml: string) =>
+    Array.from(xml.matchAll(/<loc>\s*([^<]+?)\s*<\/loc>/gi), (match) =>
+      decodeHtmlAttribute(match[1])
+    );
+
+  if (!/<sitemapindex[\s>]/i.test(sitemap.body)) {
+    return locations(sitemap.body);
+  }
+
+  const pages: string[] = [];
+  const nested = locations(sitemap.body).filter((url) => isSameOrigin(url, origin));
+  for (const url of nested.slice(0, MAX_SITEMAPS)) {
+    try {
+      pages.push(...locations((await fetchPage(url)).body));
+    } catch (error) {
+      console.error(`Failed to read sitemap ${url}:`, error);
+    }
+  }
+  return pages;
+}
+
+function isSameOrigin(url: string, origin: string): boolean {
+  try {
+    return new URL(url).origin === origin;
+  } catch {
+    return false;
+  }
+}
+
+function pathOf(url: string): string {
+  const { pathname, search } = new URL(url);
+  return pathname + search;
+}
+
+/**
+ * Crawls a website into a collection, as a background job.
+ *
+ * Starting from a page, or from every page in a sitemap, the crawler follows
+ * same-origin links breadth-first up to `maxDepth` links away, fetching one
+ * page at a time. Each HTML page becomes a URL document in the collection,
+ * with `crawlId`, `crawlDepth` and `parentUrl` metadata, and is recorded
+ * against the crawl. robots.txt rules for the crawler, `<meta name="robots">`
+ * directives and the include/exclude patterns are honoured, including for the
+ * page a redirect lands on. Pages already in
+ * a collection the caller can view are added to this one instead of being
+ * stored again, but their links are still followed.
+ *
+ * The job's total grows as links are found, up to `maxPages`. Every page
+ * fetched counts against `maxPages`, whether it is added or not.
+ */
+export function crawlWebsite(
+  store: KnowledgeStore,
+  scope: RequestScope,
+  collection: string,
+  crawlId: string,
+  options: CrawlOptions
+): JobHandler {
+  return async (context) => {
+    const origin = new URL(options.url).origin;
+    const robots = await loadRobots(origin);
+
+    const isCrawlable = (url: string) => {
+      const { pathname } = new URL(url);
+      const path = pathOf(url);
+      return (
+        isAllowedByRobots(robots, pathname) &&
+        !NON_PAGE_EXTENSION.test(pathname) &&
+        (options.include.length === 0 ||
+          options.include.some((pattern) => matchesGlob(path, pattern))) &&
+        !options.exclude.some((pattern) => matchesGlob(path, pattern))
+      );
+    };
+
+    if (!isAllowedByRobots(robots, new URL(options.url).pathname)) {
+      throw new Error(`robots.txt does not allow crawling ${options.url}`);
+    }
+
+    const queue: QueuedPage[] = [];
+    const seen = new Set<string>();
+    const enqueue = (page: QueuedPage) => {
+      const key = normalizeUrl(page.url);
+      if (seen.has(key)) return;
+      seen.add(key);
+      queue.push(page);
+    };
+
+    // The seed is fetched whatever the patterns say, so its links can be followed
+    const seed = await fetchPage(options.url);
+    if (!isSameOrigin(seed.url, origin)) {
+      throw new Error(`${options.url} redirects to another site (${seed.url})`);
+    }
+    if (!isAllowedByRobots(robots, new URL(seed.url).pathname)) {
+      throw new Error(`robots.txt does not allow crawling ${seed.url}`);
+    }
+    seen.add(normalizeUrl(options.url));
+    seen.add(normalizeUrl(seed.url));
+    let prefetched: FetchedPage | null = null;
+    if (isSitemap(seed)) {
+      for (const url of await readSitemap(seed, origin)) {
+        if (isSameOrigin(url, origin) && isCrawlable(url)) {
+          enqueue({ url, depth: 0, parentUrl: null });
+        }
+      }
+    } else {
+      queue.push({ url: seed.url, depth: 0, parentUrl: null });
+      prefetched = seed;
+    }
+
+    // Every page fetched counts against maxPages, including the starting page
+    // and pages that are then skipped, so a crawl never fetches more
+    let fetched = 0;
+    let handled = 0;
+    const updateTotal = () =>
+      context.setTotal(handled + Math.min(queue.length, options.maxPages - fetched));
+    updateTotal();
+
+    while (queue.length > 0 && fetched < options.maxPages) {
+      const next = queue.shift()!;
+      const isSeed = prefetched !== null && next.url === prefetched.url;
+
+      fetched++;
+      let page: FetchedPage;
+      try {
+        page = isSeed ? prefetched! : await fetchPage(next.url);
+      } catch (error: any) {
+        handled++;
+        context.failed({ id: next.url, title: next.url, error: error.message });
+        continue;
+      }
+
+      // Redirects may leave the site, land on a page already crawled or on
+      // one that robots.txt or the patterns rule out
+      if (!isSeed && page.url !== next.url) {
+        const key = normalizeUrl(page.url);
+        if (!isSameOrigin(page.url, origin) || seen.has(key) || !isCrawlable(page.url)) {
+          updateTotal();
+          continue;
+        }
+        seen.add(key);
+      }
+
+      const directives = page.contentType.includes('html')
+        ? metaRobots(page.body)
+        : { noindex: true, nofollow: true };
+      if (!directives.nofollow && next.depth < options.maxDepth) {
+        for (const link of extractLinks(page.body, page.url)) {
+          if (isSameOrigin(link, origin) && isCrawlable(link)) {
+            enqueue({ url: link, depth: next.depth + 1, parentUrl: page.url });
+          }
+        }
+      }
+
+      if (directives.noindex || (isSeed && !isCrawlable(page.url))) {
+        updateTotal();
+        continue;
+      }
+
+      handled++;
+      try {
+        const existing = await findDuplicate(store, scope, urlFingerprint(normalizeUrl(page.url)));
+        let memoryId: string;
+        if (existing) {
+          await linkDuplicate(store, scope, existing.memory, [collection]);
+          memoryId = existing.memory.id;
+        } else {
+          const result = await addUrlDocument(
+            store,
+            scope,
+            collection,
+            page.url,
+            {
+              crawlId,
+              crawlDepth: next.depth,
+              ...(next.parentUrl ? { parentUrl: next.parentUrl } : {}),
+            },
+            extractPageText(page.url, page.contentType, page.body)
+          );
+          memoryId = result.id;
+        }
+        recordCrawlPage(crawlId, {
+          memoryId,
+          url: page.url,
+          depth: next.depth,
+          parentUrl: next.parentUrl,
+        });
+        context.succeeded();
+      } catch (error: any) {
+        console.error(`Failed to ingest ${page.url}:`, error);
+        context.failed({ id: page.url, title: page.url, error: error.message });
+      }
+      updateTotal();
+    }
+  };
+}
@@ -0,0 +1,115 @@
+import type { Job } from '@/lib/jobs';
+
+/** Link depth followed from the seed when a crawl does not set one */
+export const DEFAULT_CRAWL_DEPTH = 2;
+
+/** Deepest link depth a crawl may follow */
+export const MAX_CRAWL_DEPTH = 5;
+
+/** Pages ingested when a crawl does not set a limit */
+export const DEFAULT_CRAWL_PAGES = 50;
+
+/** Most pages a single crawl may ingest */
+export const MAX_CRAWL_PAGES = 500;
+
+/** Most include or exclude patterns a crawl may have */
+const MAX_CRAWL_PATTERNS = 20;
+
+/**
+ * What a crawl fetches, as accepted by `POST /api/collections/[name]/crawls`.
+ *
+ * `include` and `exclude` are globs matched against a page's path and query
+ * (e.g. `/docs/**`): `*` matches within one path segment, `**` across
+ * segments. With `include` set, only matching pages are crawled; the
+ * starting page is always fetched for its links but ingested only if it
+ * matches. Pages matching `exclude` are never crawled.
+ */
+export interface CrawlOptions {
+  /** Page to start from, or a sitemap.xml whose pages are the starting points */
+  url: string;
+  /** How many links away from the starting pages to follow */
+  maxDepth: number;
+  /** Most pages to ingest */
+  maxPages: number;
+  include: string[];
+  exclude: string[];
+}
+
+/**
+ * A crawl of a website into a collection, as returned by the crawls API.
+ */
+export interface Crawl extends CrawlOptions {
+  id: string;
+  collection: string;
+  /** Number of pages ingested so far */
+  pageCount: number;
+  /** The background job running the crawl, or null once it has been dismissed */
+  job: Job | null;
+  createdBy: string;
+  createdAt: string;
+}
+
+function parsePatterns(value: unknown, field: string): string[] | { error: string } {
+  if (value === undefined) {
+    return [];
+  }
+  if (!Array.isArray(value) || value.some((pattern) => typeof pattern !== 'string')) {
+    return { error: `${field} must be an array of strings` };
+  }
+  const patterns = value.map((pattern: string) => pattern.trim()).filter(Boolean);
+  if (patterns.length > MAX_CRAWL_PATTERNS) {
+    return { error: `${field} can have at most ${MAX_CRAWL_PATTERNS} patterns` };
+  }
+  return patterns;
+}
+
+function parseLimit(
+  value: unknown,
+  field: string,
+  min: number,
+  max: number,
+  fallback: number
+): number | { error: string } {
+  if (value === undefined) {
+    return fallback;
+  }
+  if (typeof value !== 'number' || !Number.isInteger(value) || value < min || value > max) {
+    return { error: `${field} must be a whole number from ${min} to ${max}` };
+  }
+  return value;
+}
+
+/**
+ * Validates crawl options from an untrusted request body, filling in the
+ * default limits. Unknown fields are ignored.
+ *
+ * @returns The validated options, or an error message
+ */
+export function parseCrawlOptions(
+  body: Record<string, unknown>
+): { options: CrawlOptions } | { error: string } {
+  if (typeof body.url !== 'string' || !body.url.trim()) {
+    return { error: 'URL is required' };
+  }
+  let url: URL;
+  try {
+    url = new URL(body.url.trim());
+  } catch {
+    return { error: 'URL is not valid' };
+  }
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    return { error: 'URL must use http or https' };
+  }
+
+  const maxDepth = parseLimit(body.maxDepth, 'maxDepth', 0, MAX_CRAWL_DEPTH, DEFAULT_CRAWL_DEPTH);
+  if (typeof maxDepth !== 'number') return maxDepth;
+  const maxPages = parseLimit(body.maxPages, 'maxPages', 1, MAX_CRAWL_PAGES, DEFAULT_CRAWL_PAGES);
+  if (typeof maxPages !== 'number') return maxPages;
+  const include = parsePatterns(body.include, 'include');
+  if (!Array.isArray(include)) return include;
+  const exclude = parsePatterns(body.exclude, 'exclude');
+  if (!Array.isArray(exclude)) return exclude;
+
+  url.hash = '';
+  return { options: { url: url.toString(), maxDepth, maxPages, include, exclude } };
+}
@@ -0,0 +1,258 @@
+import Database from 'better-sqlite3';
+import { mkdirSync } from 'node:fs';
+import path from 'node:path';
+
+/**
+ * Directory holding the local SQLite database, which stores application
+ * records (such as collections and their permissions) and, when the sqlite
+ * knowledge store is selected, documents and their embedding index. Defaults
+ * to `.data` in the project root.
+ */
+export const DATA_DIR = path.resolve(process.env.DATA_DIR || '.data');
+
+/**
+ * Schema migrations, applied in order. The index of each entry (plus one) is
+ * recorded in SQLite's `user_version` pragma, so entries must only ever be
+ * appended.
+ */
+const migrations: string[] = [
+  `
+  CREATE TABLE memories (
+    id TEXT PRIMARY KEY,
+    title TEXT,
+    content TEXT,
+    type TEXT NOT NULL,
+    status TEXT NOT NULL,
+    metadata TEXT NOT NULL DEFAULT '{}',
+    created_at TEXT NOT NULL,
+    updated_at TEXT NOT NULL
+  );
+  CREATE TABLE memory_tags (
+    memory_id TEXT NOT NULL REFERENCES memories(id) ON DELETE CASCADE,
+    tag TEXT NOT NULL,
+    PRIMARY KEY (memory_id, tag)
+  );
+  CREATE INDEX memory_tags_tag ON memory_tags(tag);
+  CREATE TABLE memory_chunks (
+    memory_id TEXT NOT NULL REFERENCES memories(id) ON DELETE CASCADE,
+    position INTEGER NOT NULL,
+    content TEXT NOT NULL,
+    embedding BLOB NOT NULL,
+    PRIMARY KEY (memory_id, position)
+  );
+  `,
+  `
+  CREATE TABLE collection_members (
+    scope TEXT NOT NULL,
+    collection TEXT NOT NULL,
+    principal_type TEXT NOT NULL CHECK (principal_type IN ('user', 'org')),
+    principal_id TEXT NOT NULL,
+    role TEXT NOT NULL CHECK (role IN ('owner', 'editor', 'viewer')),
+    created_at TEXT NOT NULL,
+    PRIMARY KEY (scope, collection, principal_type, principal_id)
+  );
+  `,
+  `
+  CREATE TABLE collections (
+    scope TEXT NOT NULL,
+    name TEXT NOT NULL,
+    description TEXT NOT NULL DEFAULT '',
+    icon TEXT NOT NULL DEFAULT 'folder',
+    color TEXT NOT NULL DEFAULT 'blue',
+    settings TEXT NOT NULL DEFAULT '{}',
+    created_by TEXT NOT NULL,
+    created_at TEXT NOT NULL,
+    updated_at TEXT NOT NULL,
+    PRIMARY KEY (scope, name)
+  );
+  INSERT OR IGNORE INTO collections (scope, name, created_by, created_at, updated_at)
+    SELECT scope, collection, principal_id, MIN(created_at), MIN(created_at)
+    FROM collection_members
+    WHERE principal_type = 'user' AND role = 'owner'
+    GROUP BY scope, collection;
+  `,
+  `
+  CREATE TABLE jobs (
+    id TEXT PRIMARY KEY,
+    scope TEXT NOT NULL,
+    kind TEXT NOT NULL,
+    collection TEXT NOT NULL,
+    target TEXT,
+    status TEXT NOT NULL DEFAULT 'queued',
+    total INTEGER NOT NULL DEFAULT 0,
+    processed INTEGER NOT NULL DEFAULT 0,
+    failures TEXT NOT NULL DEFAULT '[]',
+    error TEXT,
+    created_by TEXT NOT NULL,
+    created_at TEXT NOT NULL,
+    updated_at TEXT NOT NULL,
+    finished_at TEXT
+  );
+  CREATE INDEX jobs_scope_creator ON jobs (scope, created_by, created_at);
+  `,
+  `
+  CREATE TABLE trash_items (
+    id TEXT PRIMARY KEY,
+    scope TEXT NOT NULL,
+    kind TEXT NOT NULL,
+    name TEXT NOT NULL,
+    state TEXT NOT NULL DEFAULT 'trashed',
+    snapshot TEXT,
+    deleted_by TEXT NOT NULL,
+    deleted_at TEXT NOT NULL,
+    expires_at TEXT NOT NULL
+  );
+  CREATE INDEX trash_items_scope_user ON trash_items (scope, deleted_by, deleted_at);
+  CREATE TABLE trash_documents (
+    trash_id TEXT NOT NULL REFERENCES trash_items(id) ON DELETE CASCADE,
+    memory_id TEXT NOT NULL,
+    title TEXT,
+    container_tags TEXT NOT NULL,
+    PRIMARY KEY (trash_id, memory_id)
+  );
+  `,
+  `
+  CREATE TABLE document_versions (
+    memory_id TEXT PRIMARY KEY,
+    scope TEXT NOT NULL,
+    group_id TEXT NOT NULL,
+    version INTEGER NOT NULL,
+    original_name TEXT NOT NULL,
+    is_current INTEGER NOT NULL DEFAULT 1,
+    created_by TEXT NOT NULL,
+    created_at TEXT NOT NULL
+  );
+  CREATE INDEX document_versions_group ON document_versions (group_id, version);
+  CREATE INDEX document_versions_name ON document_versions (scope, original_name);
+  `,
+  `
+  CREATE TABLE document_fingerprints (
+    memory_id TEXT PRIMARY KEY,
+    scope TEXT NOT NULL,
+    fingerprint TEXT NOT NULL
+  );
+  CREATE INDEX document_fingerprints_scope ON document_fingerprints (scope, fingerprint);
+  `,
+  `
+  CREATE TABLE upload_sessions (
+    id TEXT PRIMARY KEY,
+    scope TEXT NOT NULL,
+    file_name TEXT NOT NULL,
+    file_type TEXT NOT NULL,
+    size INTEGER NOT NULL,
+    part_size INTEGER NOT NULL,
+    collections TEXT NOT NULL,
+    metadata TEXT NOT NULL DEFAULT '{}',
+    created_by TEXT NOT NULL,
+    created_at TEXT NOT NULL,
+    expires_at TEXT NOT NULL
+  );
+  CREATE TABLE upload_parts (
+    session_id TEXT NOT NULL REFERENCES upload_sessions(id) ON DELETE CASCADE,
+    part_number INTEGER NOT NULL,
+    size INTEGER NOT NULL,
+    PRIMARY KEY (session_id, part_number)
+  );
+  `,
+  `
+  CREATE TABLE crawls (
+    id TEXT PRIMARY KEY,
+    scope TEXT NOT NULL,
+    collection TEXT NOT NULL,
+    url TEXT NOT NULL,
+    max_depth INTEGER NOT NULL,
+    max_pages INTEGER NOT NULL,
+    include TEXT NOT NULL DEFAULT '[]',
+    exclude TEXT NOT NULL DEFAULT '[]',
+    job_id TEXT,
+    created_by TEXT NOT NULL,
+    created_at TEXT NOT NULL
+  );
+  CREATE INDEX crawls_collection ON crawls (scope, collection, created_at);
+  CREATE TABLE crawl_pages (
+    crawl_id TEXT NOT NULL REFERENCES crawls(id) ON DELETE CASCADE,
+    memory_id TEXT NOT NULL,
+    url TEXT NOT NULL,
+    depth INTEGER NOT NULL,
+    parent_url TEXT,
+    PRIMARY KEY (crawl_id, memory_id)
+  );
+  `,
+  `
+  CREATE TABLE url_refresh (
+    memory_id TEXT PRIMARY KEY,
+    scope TEXT NOT NULL,
+    interval TEXT,
+    page_hash TEXT,
+    last_checked_at TEXT,
+    last_changed_at TEXT,
+    last_error TEXT
+  );
+  CREATE INDEX url_refresh_interval ON url_refresh (interval);
+  `,
+  `
+  CREATE TABLE feeds (
+    id TEXT PRIMARY KEY,
+    scope TEXT NOT NULL,
+    collection TEXT NOT NULL,
+    url TEXT NOT NULL,
+    title TEXT,
+    interval TEXT NOT NULL,
+    last_polled_at TEXT,
+    last_error TEXT,
+    job_id TEXT,
+    created_by TEXT NOT NULL,
+    created_at TEXT NOT NULL,
+    UNIQUE (scope, collection, url)
+  );
+  CREATE TABLE feed_entries (
+    feed_id TEXT NOT NULL REFERENCES feeds(id) ON DELETE CASCADE,
+    entry_key TEXT NOT NULL,
+    memory_id TEXT NOT NULL,
+    ingested_at TEXT NOT NULL,
+    PRIMARY KEY (feed_id, entry_key)
+  );
+  `,
+  `
+  ALTER TABLE collections ADD COLUMN metadata_fields TEXT NOT NULL DEFAULT '[]';
+  `,
+  `
+  CREATE TABLE backfills (
+    name TEXT PRIMARY KEY,
+    completed_at TEXT NOT NULL
+  );
+  `,
+  `
+  ALTER TABLE upload_sessions ADD COLUMN completing_at TEXT;
+  `,
+];
+
+function migrate(db: Database.Database) {
+  const currentVersion = db.pragma('user_version', { simple: true }) as number;
+
+  for (let version = currentVersion; version < migrations.length; version++) {
+    db.transaction(() => {
+      db.exec(migrations[version]);
+      db.pragma(`user_version = ${version + 1}`);
+    })();
+  }
+}
+
+const globalForDb = globalThis as unknown as { documentKbDb?: Database.Database };
+
+/**
+ * Returns the shared SQLite connection, creating and migrating the database
+ * on first use. The handle is cached on `globalThis` so dev-mode hot reloads
+ * do not open a new connection per module evaluation.
+ */
+export function getDatabase(): Database.Database {
+  if (!globalForDb.documentKbDb) {
+    mkdirSync(DATA_DIR, { recursive: true });
+    const db = new Database(path.join(DATA_DIR, 'document-kb.db'));
+    db.pragma('journal_mode = WAL');
+    db.pragma('foreign_keys = ON');
+    migrate(db);
+    globalForDb.documentKbDb = db;
+  }
+  return globalForDb.documentKbDb;
+}
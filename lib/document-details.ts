@@ -0,0 +1,214 @@
+/**
+ * Descriptive fields of a document that editors can change. They are kept
+ * in the document's metadata, so they survive reprocessing and re-indexing.
+ */
+export interface DocumentDetails {
+  /** Title shown instead of the one taken from the document's content */
+  title: string | null;
+  description: string | null;
+  author: string | null;
+  /** Where the document came from, shown as its link in Q&A sources */
+  sourceUrl: string | null;
+  /** Custom fields by name */
+  fields: Record<string, string>;
+}
+
+/**
+ * Changes to a document's details. Omitted fields are left alone and null
+ * clears a field; a custom field set to null is removed.
+ */
+export interface DocumentDetailsUpdate {
+  title?: string | null;
+  description?: string | null;
+  author?: string | null;
+  sourceUrl?: string | null;
+  fields?: Record<string, string | null>;
+}
+
+/** Metadata key prefix of custom fields, which are stored flat like other metadata */
+export const CUSTOM_FIELD_PREFIX = 'custom_';
+
+/** Most custom fields a document can have */
+export const MAX_CUSTOM_FIELDS = 30;
+
+const MAX_LENGTHS = {
+  title: 200,
+  description: 2000,
+  author: 200,
+  sourceUrl: 2000,
+  field: 1000,
+} as const;
+
+/** Custom field names: letters, digits, spaces, dashes and underscores */
+const FIELD_NAME_PATTERN = /^[A-Za-z0-9][A-Za-z0-9 _-]{0,39}$/;
+
+const TEXT_FIELDS = ['title', 'description', 'author', 'sourceUrl'] as const;
+
+/**
+ * Whether a custom field name is allowed: 1-40 letters, digits, spaces,
+ * dashes and underscores, starting with a letter or digit.
+ */
+export function isCustomFieldName(name: string): boolean {
+  return FIELD_NAME_PATTERN.test(name);
+}
+
+function stringValue(metadata: Record<string, unknown> | undefined, key: string): string | null {
+  const value = metadata?.[key];
+  return typeof value === 'string' && value ? value : null;
+}
+
+/**
+ * A document's custom field values by field name, as stored.
+ */
+export function customFieldValues(
+  metadata: Record<string, unknown> | undefined
+): Record<string, unknown> {
+  const values: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(metadata ?? {})) {
+    if (key.startsWith(CUSTOM_FIELD_PREFIX) && value !== null && value !== undefined) {
+      values[key.slice(CUSTOM_FIELD_PREFIX.length)] = value;
+    }
+  }
+  return values;
+}
+
+/**
+ * A document's editable details, from its metadata.
+ */
+export function documentDetails(metadata: Record<string, unknown> | undefined): DocumentDetails {
+  const fields: Record<string, string> = {};
+  for (const [name, value] of Object.entries(customFieldValues(metadata))) {
+    fields[name] = String(value);
+  }
+  return {
+    title: stringValue(metadata, 'title'),
+    description: stringValue(metadata, 'description'),
+    author: stringValue(metadata, 'author'),
+    sourceUrl: stringValue(metadata, 'sourceUrl'),
+    fields,
+  };
+}
+
+/**
+ * The title to show for a document: the one an editor set, else the one the
+ * store found, else its file name.
+ */
+export function documentTitle(
+  title: string | null | undefined,
+  metadata: Record<string, unknown> | undefined
+): string {
+  return stringValue(metadata, 'title') || title || stringValue(metadata, 'originalName') || 'Untitled';
+}
+
+/**
+ * The link for a document: the source URL an editor set, else the page it
+ * was added from.
+ */
+export function documentSourceUrl(metadata: Record<string, unknown> | undefined): string | null {
+  return (
+    stringValue(metadata, 'sourceUrl') ||
+    stringValue(metadata, 'originalUrl') ||
+    stringValue(metadata, 'url')
+  );
+}
+
+/**
+ * Validates changes to a document's details from an untrusted request body.
+ * Strings are trimmed and empty strings clear a field. Unknown fields are
+ * ignored.
+ *
+ * @returns The validated changes, or an error message
+ */
+export function parseDocumentDetailsUpdate(
+  body: Record<string, unknown>
+): { update: DocumentDetailsUpdate } | { error: string } {
+  const update: DocumentDetailsUpdate = {};
+
+  for (const key of TEXT_FIELDS) {
+    const value = body[key];
+    if (value === undefined) continue;
+    if (value !== null && typeof value !== 'string') {
+      return { error: `${key} must be a string or null` };
+    }
+    const trimmed = value?.trim() || null;
+    if (trimmed && trimmed.length > MAX_LENGTHS[key]) {
+      return { error: `${key} can be at most ${MAX_LENGTHS[key]} characters` };
+    }
+    update[key] = trimmed;
+  }
+
+  if (update.sourceUrl) {
+    let url: URL;
+    try {
+      url = new URL(update.sourceUrl);
+    } catch {
+      return { error: 'sourceUrl is not a valid URL' };
+    }
+    if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+      return { error: 'sourceUrl must use http or https' };
+    }
+  }
+
+  if (body.fields !== undefined) {
+    if (typeof body.fields !== 'object' || body.fields === null || Array.isArray(body.fields)) {
+      return { error: 'fields must be an object of field names to values' };
+    }
+    const fields: Record<string, string | null> = {};
+    for (const [name, value] of Object.entries(body.fields)) {
+      if (!isCustomFieldName(name)) {
+        return {
+          error: `Field name "${name}" must be 1-40 letters, digits, spaces, dashes or underscores`,
+        };
+      }
+      if (value !== null && typeof value !== 'string') {
+        return { error: `Field "${name}" must be a string or null` };
+      }
+      const trimmed = value?.trim() || null;
+      if (trimmed && trimmed.length > MAX_LENGTHS.field) {
+        return { error: `Field "${name}" can be at most ${MAX_LENGTHS.field} characters` };
+      }
+      fields[name] = trimmed;
+    }
+    update.fields = fields;
+  }
+
+  return { update };
+}
+
+/**
+ * Applies changes to a document's details to its metadata.
+ *
+ * @returns The new metadata, or an error message if the document would end
+ *   up with too many custom fields
+ */
+export function applyDocumentDetails<T extends Record<string, unknown>>(
+  metadata: T,
+  update: DocumentDetailsUpdate
+): { metadata: T } | { error: string } {
+  const next: Record<string, unknown> = { ...metadata };
+
+  for (const key of TEXT_FIELDS) {
+    const value = update[key];
+    if (value === undefined) continue;
+    if (value === null) {
+      delete next[key];
+    } else {
+      next[key] = value;
+    }
+  }
+
+  for (const [name, value] of Object.entries(update.fields ?? {})) {
+    if (value === null) {
+      delete next[CUSTOM_FIELD_PREFIX + name];
+    } else {
+      next[CUSTOM_FIELD_PREFIX + name] = value;
+    }
+  }
+
+  const fieldCount = Object.keys(next).filter((key) => key.startsWith(CUSTOM_FIELD_PREFIX)).length;
+  if (fieldCount > MAX_CUSTOM_FIELDS) {
+    return { error: `Documents can have at most ${MAX_CUSTOM_FIELDS} custom fields` };
+  }
+
+  return { metadata: next as T };
+}
@@ -0,0 +1,92 @@
+import { getCollectionRecord } from '@/lib/collection-records';
+import type { MemoryMetadata } from '@/lib/knowledge-store';
+import { LABELS_KEY } from '@/lib/labels';
+import { validateMetadataFields } from '@/lib/metadata-schema';
+import type { RequestScope } from '@/lib/scope';
+
+/**
+ * Metadata keys the server sets or relies on (file names, fingerprints,
+ * versions, scope, labels, processing and refresh state, crawl and feed
+ * origins). Clients cannot set them when adding a document.
+ */
+const RESERVED_METADATA_KEYS = new Set([
+  'type',
+  'originalName',
+  'fileType',
+  'uploadedAt',
+  'url',
+  'originalUrl',
+  'normalizedUrl',
+  'contentHash',
+  'version',
+  'scope',
+  'ownerId',
+  LABELS_KEY,
+  'failureReason',
+  'editedAt',
+  'editedBy',
+  'lastCheckedAt',
+  'lastChangedAt',
+  'crawlId',
+  'crawlDepth',
+  'parentUrl',
+  'feedId',
+  'feedUrl',
+  'feedTitle',
+  'publishedAt',
+]);
+
+/**
+ * Validates the metadata sent with a new document from an untrusted request
+ * body: an object of strings, numbers and booleans. Reserved keys are left
+ * out, so the server's own values cannot be overwritten.
+ *
+ * @returns The metadata (empty when none was sent), or an error message
+ */
+export function parseDocumentMetadata(
+  value: unknown
+): { metadata: MemoryMetadata } | { error: string } {
+  if (value === undefined || value === null) {
+    return { metadata: {} };
+  }
+  if (typeof value !== 'object' || Array.isArray(value)) {
+    return { error: 'metadata must be an object' };
+  }
+
+  const metadata: MemoryMetadata = {};
+  for (const [key, item] of Object.entries(value)) {
+    if (typeof item !== 'string' && typeof item !== 'number' && typeof item !== 'boolean') {
+      return { error: `metadata.${key} must be a string, number or boolean` };
+    }
+    if (!RESERVED_METADATA_KEYS.has(key)) {
+      metadata[key] = item;
+    }
+  }
+  return { metadata };
+}
+
+/**
+ * Validates a document's metadata against the schema of every collection it
+ * goes into, converting field values to their stored form.
+ *
+ * @param only - Check only these fields, e.g. the ones an edit changes
+ * @returns The metadata with converted values, or an error message
+ */
+export function validateDocumentFields<T extends Record<string, unknown>>(
+  scope: RequestScope,
+  collections: string[],
+  metadata: T,
+  only?: string[]
+): { metadata: T } | { error: string } {
+  let validated = metadata;
+  for (const collection of collections) {
+    const record = getCollectionRecord(scope, collection);
+    if (!record) continue;
+    const result = validateMetadataFields(record.metadataFields, validated, only);
+    if ('error' in result) {
+      return result;
+    }
+    validated = result.metadata;
+  }
+  return { metadata: validated };
+}
@@ -0,0 +1,105 @@
+import {
+  listAllMemories,
+  type KnowledgeStore,
+  type MemoryMetadata,
+  type StoredMemory,
+} from '@/lib/knowledge-store';
+import { documentLabels, LABELS_KEY, type LabelSummary } from '@/lib/labels';
+import { canAccessAll, canAccessAny } from '@/lib/permissions';
+import { collectionsFromTags, collectionTag, scopeTag, type RequestScope } from '@/lib/scope';
+
+/**
+ * Outcome of renaming or removing a label on every document carrying it.
+ */
+export interface LabelChangeResult {
+  /** Documents whose labels changed */
+  updated: number;
+  /** Documents left alone because the caller cannot edit all their collections */
+  skipped: number;
+}
+
+/**
+ * Documents in the scope, or in one collection, that the caller can view.
+ */
+async function listViewableMemories(
+  store: KnowledgeStore,
+  scope: RequestScope,
+  collection?: string
+): Promise<StoredMemory[]> {
+  const memories = await listAllMemories(store, {
+    containerTags: [collection ? collectionTag(scope, collection) : scopeTag(scope)],
+  });
+  return memories.filter((memory) =>
+    canAccessAny(scope, collectionsFromTags(scope, memory.containerTags), 'viewer')
+  );
+}
+
+/**
+ * Every label on documents the caller can view, with the number of
+ * documents carrying it, sorted by name.
+ *
+ * @param collection - Only count documents in this collection
+ */
+export async function listLabels(
+  store: KnowledgeStore,
+  scope: RequestScope,
+  collection?: string
+): Promise<LabelSummary[]> {
+  const counts = new Map<string, number>();
+  for (const memory of await listViewableMemories(store, scope, collection)) {
+    for (const label of documentLabels(memory.metadata)) {
+      counts.set(label, (counts.get(label) ?? 0) + 1);
+    }
+  }
+  return Array.from(counts, ([name, documentCount]) => ({ name, documentCount })).sort((a, b) =>
+    a.name.localeCompare(b.name)
+  );
+}
+
+/**
+ * Replaces a document's labels, keeping the rest of its metadata.
+ */
+export async function saveDocumentLabels(
+  store: KnowledgeStore,
+  memory: StoredMemory,
+  labels: string[]
+): Promise<void> {
+  const metadata = { ...memory.metadata, [LABELS_KEY]: labels } as MemoryMetadata;
+  await store.update(memory.id, { metadata });
+}
+
+/**
+ * Renames a label on every document carrying it, or removes it when `to` is
+ * null. Renaming to a label a document already has merges the two.
+ * Documents are changed only where the caller is an editor of all their
+ * collections; the others are counted as skipped.
+ */
+export async function replaceLabel(
+  store: KnowledgeStore,
+  scope: RequestScope,
+  from: string,
+  to: string | null
+): Promise<LabelChangeResult> {
+  const result: LabelChangeResult = { updated: 0, skipped: 0 };
+
+  // Collect the documents first; updating them reorders the listing
+  const memories = (await listViewableMemories(store, scope)).filter((memory) =>
+    documentLabels(memory.metadata).includes(from)
+  );
+
+  for (const memory of memories) {
+    if (!canAccessAll(scope, collectionsFromTags(scope, memory.containerTags), 'editor')) {
+      result.skipped++;
+      continue;
+    }
+
+    const labels = documentLabels(memory.metadata).filter((label) => label !== from);
+    if (to !== null && !labels.includes(to)) {
+      labels.push(to);
+    }
+    await saveDocumentLabels(store, memory, labels.sort((a, b) => a.localeCompare(b)));
+    result.updated++;
+  }
+
+  return result;
+}
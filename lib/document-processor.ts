@@ -1,5 +1,32 @@
-import { uploadDocument as uploadDocumentAction, type UploadDocumentResponse } from '@/app/actions/upload-document';
-import { MAX_UPLOAD_SIZE_BYTES, MAX_UPLOAD_SIZE_DISPLAY } from '@/lib/constants';
+import {
+  MAX_UPLOAD_SIZE_BYTES,
+  MAX_UPLOAD_SIZE_DISPLAY,
+  UPLOAD_PART_SIZE_BYTES,
+} from '@/lib/constants';
+import type {
+  CollectionDetailsInput,
+  CollectionSummary,
+  CollectionWithStats,
+} from '@/lib/collections';
+import type { Crawl, CrawlOptions } from '@/lib/crawls';
+import {
+  customFieldValues,
+  documentDetails,
+  documentTitle,
+  type DocumentDetails,
+  type DocumentDetailsUpdate,
+} from '@/lib/document-details';
+import { documentProgress, type DocumentStatusEvent } from '@/lib/document-status';
+import type { UploadDocumentResponse } from '@/lib/document-upload';
+import type { DuplicateAction, DuplicateDocument, DuplicatesReport } from '@/lib/duplicates';
+import type { Feed, FeedSubscription } from '@/lib/feeds';
+import { JOB_STARTED_EVENT, type Job } from '@/lib/jobs';
+import { documentLabels, type LabelSummary } from '@/lib/labels';
+import type { RefreshInterval, RefreshStatus } from '@/lib/refresh';
+import type { CollectionAccess, CollectionRole, PrincipalType } from '@/lib/roles';
+import type { TrashItem } from '@/lib/trash';
+import { partSizeOf, type UploadSession } from '@/lib/uploads';
+import type { DocumentVersion } from '@/lib/versions';
 
 /**
  * Error thrown when a file exceeds the maximum allowed upload size.
@@ -18,6 +45,111 @@ export class FileSizeExceededError extends Error {
   }
 }
 
+/**
+ * Error thrown when an upload is rejected because the same file or URL
+ * already exists.
+ */
+export class DuplicateDocumentError extends Error {
+  /** The existing copy */
+  public readonly duplicate: DuplicateDocument;
+
+  constructor(message: string, duplicate: DuplicateDocument) {
+    super(message);
+    this.name = 'DuplicateDocumentError';
+    this.duplicate = duplicate;
+  }
+}
+
+/**
+ * Error thrown when a file's extension is not an allowed upload type.
+ */
+export class UnsupportedFileTypeError extends Error {
+  /** Name of the rejected file */
+  public readonly fileName: string;
+
+  constructor(message: string, fileName: string) {
+    super(message);
+    this.name = 'UnsupportedFileTypeError';
+    this.fileName = fileName;
+  }
+}
+
+/**
+ * Error thrown when a file's content does not match its extension, such as
+ * a renamed executable.
+ */
+export class FileContentMismatchError extends Error {
+  /** Name of the rejected file */
+  public readonly fileName: string;
+
+  constructor(message: string, fileName: string) {
+    super(message);
+    this.name = 'FileContentMismatchError';
+    this.fileName = fileName;
+  }
+}
+
+/**
+ * Error thrown when an uploaded file has no content.
+ */
+export class EmptyFileError extends Error {
+  /** Name of the rejected file */
+  public readonly fileName: string;
+
+  constructor(message: string, fileName: string) {
+    super(message);
+    this.name = 'EmptyFileError';
+    this.fileName = fileName;
+  }
+}
+
+/**
+ * Error thrown when an upload is cancelled through its abort signal.
+ */
+export class UploadCancelledError extends Error {
+  constructor() {
+    super('Upload cancelled');
+    this.name = 'UploadCancelledError';
+  }
+}
+
+/**
+ * Error thrown when an upload request does not reach the server.
+ */
+class UploadNetworkError extends Error {
+  constructor() {
+    super('Upload failed: network error');
+    this.name = 'UploadNetworkError';
+  }
+}
+
+/** localStorage key prefix under which unfinished chunked uploads are remembered */
+const RESUMABLE_UPLOAD_KEY_PREFIX = 'document-kb:upload:';
+
+/** Times a part of a chunked upload is attempted before the upload fails */
+const UPLOAD_PART_ATTEMPTS = 5;
+
+/** Delay before the first retry of a part; doubled on every further retry */
+const UPLOAD_RETRY_DELAY_MS = 1000;
+
+/**
+ * Waits before retrying a request, or rejects as soon as the upload is
+ * cancelled.
+ */
+function waitForRetry(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', handleAbort);
+      resolve();
+    }, ms);
+    const handleAbort = () => {
+      clearTimeout(timer);
+      reject(new UploadCancelledError());
+    };
+    signal?.addEventListener('abort', handleAbort, { once: true });
+  });
+}
+
 /**
  * Parameters for uploading a document to a collection.
  */
@@ -28,6 +160,12 @@ export interface DocumentUpload {
   collection: string;
   /** Optional metadata to attach to the document */
   metadata?: Record<string, unknown>;
+  /** Whether to reject a file that already exists (default) or add the existing copy to the collection */
+  onDuplicate?: DuplicateAction;
+  /** Called as the file's bytes are sent to the server */
+  onProgress?: (loaded: number, total: number) => void;
+  /** Aborts the upload when signalled */
+  signal?: AbortSignal;
 }
 
 /**
@@ -42,12 +180,37 @@ export interface Document {
   type: string;
   /** Processing status */
   status: string;
+  /** Processing progress (0-100) */
+  progress?: number;
+  /** Why processing failed, if it did */
+  failureReason?: string;
   /** ISO timestamp of when the document was uploaded */
   uploadedAt: string;
   /** Original URL if document was added via URL */
   url?: string;
+  /** ISO timestamp of the last check of the URL for changes */
+  lastCheckedAt?: string;
+  /** ISO timestamp of the last check that found the page changed */
+  lastChangedAt?: string;
   /** Container tags associated with this document */
   containerTags?: string[];
+  /** Version number if the file has been uploaded more than once */
+  version?: number;
+  /** Custom field values by field name, including the collection's schema fields */
+  fields: Record<string, unknown>;
+  /** Free-form labels, sorted by name */
+  labels: string[];
+}
+
+/**
+ * One page of documents in a collection.
+ */
+export interface DocumentPage {
+  documents: Document[];
+  /** Cursor for the next page, or null on the last page */
+  nextCursor: string | null;
+  /** Total number of documents in the collection */
+  totalItems: number;
 }
 
 /**
@@ -70,25 +233,33 @@ export interface DocumentContent {
   url?: string;
   /** Document metadata */
   metadata?: Record<string, unknown>;
+  /** Title, description, author, source URL and custom fields editors can change */
+  details: DocumentDetails;
 }
 
 /**
  * Client-side service for document operations.
  *
  * Provides methods for uploading, retrieving, listing, and deleting documents
- * within collections. Uses server actions for file uploads to support large
- * file sizes configured via serverActions.bodySizeLimit.
+ * within collections. Files are uploaded with XMLHttpRequest so callers can
+ * follow their progress.
  */
 export class DocumentProcessor {
   /**
    * Uploads a document file to a collection.
    *
-   * Uses a server action to handle the upload, which supports configurable
-   * body size limits for large files.
+   * Posts the file to `/api/memories/upload` with XMLHttpRequest, since fetch
+   * cannot report upload progress. Files larger than UPLOAD_PART_SIZE_BYTES
+   * are sent in parts and resume where they left off when uploaded again.
    *
    * @param params - Upload parameters including file, collection, and optional metadata
    * @returns Promise resolving to the upload response with document ID
    * @throws FileSizeExceededError if the file exceeds MAX_UPLOAD_SIZE_BYTES
+   * @throws DuplicateDocumentError if the file already exists and `onDuplicate` is not 'link'
+   * @throws UnsupportedFileTypeError if the file's type is not allowed
+   * @throws FileContentMismatchError if the file's content does not match its extension
+   * @throws EmptyFileError if the file is empty
+   * @throws UploadCancelledError if the upload is aborted through `signal`
    * @throws Error if the upload fails
    *
    * @example
@@ -97,45 +268,285 @@ export class DocumentProcessor {
    * const result = await processor.uploadDocument({
    *   file: myFile,
    *   collection: 'my-collection',
-   *   metadata: { category: 'reports' }
+   *   metadata: { category: 'reports' },
+   *   onProgress: (loaded, total) => console.log(`${loaded} of ${total} bytes`),
    * });
    * ```
    */
-  async uploadDocument({ file, collection, metadata = {} }: DocumentUpload): Promise<UploadDocumentResponse> {
+  async uploadDocument({
+    file,
+    collection,
+    metadata = {},
+    onDuplicate = 'reject',
+    onProgress,
+    signal,
+  }: DocumentUpload): Promise<UploadDocumentResponse> {
     if (file.size > MAX_UPLOAD_SIZE_BYTES) {
       throw new FileSizeExceededError(file.size, MAX_UPLOAD_SIZE_BYTES);
     }
 
-    const formData = new FormData();
-    formData.append('file', file);
-    formData.append('containerTags', JSON.stringify([collection]));
-    formData.append(
-      'metadata',
-      JSON.stringify({
-        originalName: file.name,
-        fileType: file.type,
-        uploadedAt: new Date().toISOString(),
-        ...metadata,
-      })
-    );
+    let result: UploadDocumentResponse;
+    if (file.size > UPLOAD_PART_SIZE_BYTES) {
+      result = await this.uploadInParts(file, collection, metadata, onDuplicate, onProgress, signal);
+    } else {
+      const formData = new FormData();
+      formData.append('file', file);
+      formData.append('containerTags', JSON.stringify([collection]));
+      formData.append('metadata', JSON.stringify(metadata));
+      formData.append('onDuplicate', onDuplicate);
 
-    const result = await uploadDocumentAction(formData);
+      const { status, data } = await this.sendWithProgress<UploadDocumentResponse>(
+        'POST',
+        '/api/memories/upload',
+        formData,
+        onProgress,
+        signal
+      );
+      if (!data) {
+        throw new Error(`Upload failed (HTTP ${status})`);
+      }
+      result = data;
+    }
 
     if (!result.success) {
-      throw new Error(result.error || 'Upload failed');
+      throw this.toUploadError(file, result);
+    }
+
+    return result;
+  }
+
+  /**
+   * Maps a failed upload response to the error class for its code.
+   */
+  private toUploadError(file: File, result: UploadDocumentResponse): Error {
+    const message = result.error || 'Upload failed';
+    switch (result.code) {
+      case 'DUPLICATE':
+        return result.duplicate
+          ? new DuplicateDocumentError(message, result.duplicate)
+          : new Error(message);
+      case 'FILE_TOO_LARGE':
+        return new FileSizeExceededError(file.size, MAX_UPLOAD_SIZE_BYTES);
+      case 'UNSUPPORTED_FILE_TYPE':
+        return new UnsupportedFileTypeError(message, file.name);
+      case 'FILE_CONTENT_MISMATCH':
+        return new FileContentMismatchError(message, file.name);
+      case 'EMPTY_FILE':
+        return new EmptyFileError(message, file.name);
+      default:
+        return new Error(result.details || message);
+    }
+  }
+
+  /**
+   * Uploads a file in parts through `/api/memories/uploads`.
+   *
+   * The upload's ID is kept in localStorage until it completes, so uploading
+   * the same file to the same collection again resumes it, sending only the
+   * parts the server is missing. Parts that fail on a network error or a
+   * server error are retried with backoff.
+   */
+  private async uploadInParts(
+    file: File,
+    collection: string,
+    metadata: Record<string, unknown>,
+    onDuplicate: DuplicateAction,
+    onProgress?: (loaded: number, total: number) => void,
+    signal?: AbortSignal
+  ): Promise<UploadDocumentResponse> {
+    const resumeKey = `${RESUMABLE_UPLOAD_KEY_PREFIX}${collection}:${file.name}:${file.size}:${file.lastModified}`;
+
+    let upload = await this.findResumableUpload(resumeKey);
+    if (!upload) {
+      const response = await fetch('/api/memories/uploads', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          fileName: file.name,
+          fileType: file.type,
+          size: file.size,
+          collections: [collection],
+          metadata,
+        }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw this.toUploadError(file, { success: false, ...data, error: data.error || 'Failed to start upload' });
+      }
+      upload = data.upload as UploadSession;
+      localStorage.setItem(resumeKey, upload.id);
+    }
+
+    const received = new Set(upload.receivedParts);
+    let sent = upload.receivedParts.reduce((total, partNumber) => total + partSizeOf(upload, partNumber), 0);
+    onProgress?.(sent, file.size);
+
+    try {
+      for (let partNumber = 1; partNumber <= upload.partCount; partNumber++) {
+        if (received.has(partNumber)) continue;
+
+        const start = (partNumber - 1) * upload.partSize;
+        const part = file.slice(start, start + upload.partSize);
+        await this.sendUploadPart(
+          `/api/memories/uploads/${upload.id}/parts/${partNumber}`,
+          part,
+          (loaded) => onProgress?.(sent + loaded, file.size),
+          signal
+        );
+        sent += part.size;
+      }
+    } catch (error) {
+      if (error instanceof UploadCancelledError) {
+        localStorage.removeItem(resumeKey);
+        // Best effort: unfinished uploads also expire on the server
+        fetch(`/api/memories/uploads/${upload.id}`, { method: 'DELETE' }).catch(() => {});
+      }
+      throw error;
     }
 
+    const response = await fetch(`/api/memories/uploads/${upload.id}/complete`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ onDuplicate }),
+    });
+    const result = (await response.json()) as UploadDocumentResponse;
+    if (result.success) {
+      localStorage.removeItem(resumeKey);
+    }
     return result;
   }
 
+  /**
+   * Looks up an unfinished upload saved under a resume key.
+   *
+   * @returns The upload, or null if there is none or it has expired
+   */
+  private async findResumableUpload(resumeKey: string): Promise<UploadSession | null> {
+    const id = localStorage.getItem(resumeKey);
+    if (!id) {
+      return null;
+    }
+
+    try {
+      const response = await fetch(`/api/memories/uploads/${id}`);
+      if (response.ok) {
+        const data = await response.json();
+        return data.upload as UploadSession;
+      }
+    } catch (error) {
+      console.error('Resume upload error:', error);
+    }
+    localStorage.removeItem(resumeKey);
+    return null;
+  }
+
+  /**
+   * Sends one part of a chunked upload, retrying on network and server
+   * errors.
+   */
+  private async sendUploadPart(
+    url: string,
+    part: Blob,
+    onProgress: (loaded: number) => void,
+    signal?: AbortSignal
+  ) {
+    for (let attempt = 1; ; attempt++) {
+      let failure: string;
+      try {
+        const { status, data } = await this.sendWithProgress<{ error?: string }>(
+          'PUT',
+          url,
+          part,
+          (loaded, total) => onProgress(Math.round((loaded / total) * part.size)),
+          signal
+        );
+        if (status < 400) {
+          return;
+        }
+        failure = data?.error || `Failed to upload part (HTTP ${status})`;
+        if (status < 500) {
+          throw new Error(failure);
+        }
+      } catch (error) {
+        if (!(error instanceof UploadNetworkError)) throw error;
+        failure = error.message;
+      }
+
+      if (attempt >= UPLOAD_PART_ATTEMPTS) {
+        throw new Error(failure);
+      }
+      onProgress(0);
+      await waitForRetry(UPLOAD_RETRY_DELAY_MS * 2 ** (attempt - 1), signal);
+    }
+  }
+
+  /**
+   * Sends a request body with XMLHttpRequest, reporting progress as the body
+   * is sent.
+   *
+   * @returns The response status and parsed JSON body, if any
+   * @throws UploadCancelledError if the request is aborted through `signal`
+   * @throws UploadNetworkError if the request does not reach the server
+   */
+  private sendWithProgress<T>(
+    method: string,
+    url: string,
+    body: XMLHttpRequestBodyInit,
+    onProgress?: (loaded: number, total: number) => void,
+    signal?: AbortSignal
+  ): Promise<{ status: number; data: T | null }> {
+    return new Promise((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(new UploadCancelledError());
+        return;
+      }
+
+      const request = new XMLHttpRequest();
+      const handleAbort = () => request.abort();
+      signal?.addEventListener('abort', handleAbort);
+      const settle = () => signal?.removeEventListener('abort', handleAbort);
+
+      request.open(method, url);
+      request.responseType = 'json';
+
+      request.upload.onprogress = (event) => {
+        if (event.lengthComputable) {
+          onProgress?.(event.loaded, event.total);
+        }
+      };
+      request.onload = () => {
+        settle();
+        resolve({ status: request.status, data: request.response as T | null });
+      };
+      request.onerror = () => {
+        settle();
+        console.error('Upload document error: network error');
+        reject(new UploadNetworkError());
+      };
+      request.onabort = () => {
+        settle();
+        reject(new UploadCancelledError());
+      };
+
+      request.send(body);
+    });
+  }
+
+  /**
+   * Adds a web page to a collection by URL.
+   *
+   * @throws DuplicateDocumentError if the URL already exists and `onDuplicate` is not 'link'
+   */
   async uploadURL({
     url,
     collection,
     metadata = {},
+    onDuplicate = 'reject',
   }: {
     url: string;
     collection: string;
     metadata?: Record<string, any>;
+    onDuplicate?: DuplicateAction;
   }) {
     try {
       const response = await fetch('/api/memories', {
@@ -146,16 +557,16 @@ export class DocumentProcessor {
         body: JSON.stringify({
           url,
           collection,
-          metadata: {
-            uploadedBy: 'user',
-            category: 'qa-document',
-            ...metadata,
-          },
+          metadata,
+          onDuplicate,
         }),
       });
 
       if (!response.ok) {
         const error = await response.json();
+        if (error.code === 'DUPLICATE') {
+          throw new DuplicateDocumentError(error.error, error.duplicate);
+        }
         throw new Error(error.error || `URL upload failed: ${response.statusText}`);
       }
 
@@ -166,205 +577,863 @@ export class DocumentProcessor {
     }
   }
 
-  private getMetadataValue(
-    metadata: unknown,
-    key: string
-  ): unknown | undefined {
-    if (
-      typeof metadata === 'object' &&
-      metadata !== null &&
-      !Array.isArray(metadata) &&
-      key in metadata
-    ) {
-      return (metadata as Record<string, unknown>)[key];
-    }
-    return undefined;
-  }
-
-  async getDocumentStatus(documentId: string) {
+  /**
+   * Saves a Markdown note written in the browser to a collection. Its first
+   * line is its title.
+   */
+  async createNote({
+    content,
+    collection,
+    metadata = {},
+  }: {
+    content: string;
+    collection: string;
+    metadata?: Record<string, any>;
+  }): Promise<{ id: string; status: string }> {
     try {
-      const response = await fetch(`/api/memories/${documentId}`);
+      const response = await fetch('/api/memories', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ content, collection, metadata }),
+      });
 
       if (!response.ok) {
         const error = await response.json();
-        throw new Error(error.error || `Failed to get document status: ${response.statusText}`);
+        throw new Error(error.error || `Failed to save note: ${response.statusText}`);
       }
 
-      const memory = await response.json();
-      return {
-        id: memory.id,
-        status: memory.status,
-        title: memory.title,
-        progress: (this.getMetadataValue(memory.metadata, 'progress') as
-          | number
-          | undefined) || 0,
-      };
+      return await response.json();
     } catch (error) {
-      console.error('Status check error:', error);
+      console.error('Create note error:', error);
       throw error;
     }
   }
 
-  async getDocument(documentId: string): Promise<DocumentContent> {
+  /**
+   * Replaces a note's content. The note is indexed again in the background.
+   */
+  async updateNote(documentId: string, content: string): Promise<{ id: string; status: string }> {
     try {
-      const response = await fetch(`/api/memories/${documentId}`);
+      const response = await fetch(`/api/memories/${encodeURIComponent(documentId)}/content`, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ content }),
+      });
 
       if (!response.ok) {
         const error = await response.json();
-        throw new Error(error.error || `Failed to get document: ${response.statusText}`);
+        throw new Error(error.error || `Failed to save note: ${response.statusText}`);
       }
 
-      const memory = await response.json();
-      return {
-        id: memory.id,
-        title: memory.title || 'Untitled',
-        content: memory.content || '',
-        type:
-          (this.getMetadataValue(memory.metadata, 'fileType') as
-            | string
-            | undefined) ||
-          (this.getMetadataValue(memory.metadata, 'type') as
-            | string
-            | undefined) ||
-          'unknown',
-        status: memory.status,
-        createdAt: memory.createdAt,
-        url: this.getMetadataValue(memory.metadata, 'originalUrl') as
-          | string
-          | undefined,
-        metadata: memory.metadata,
-      };
+      return await response.json();
     } catch (error) {
-      console.error('Get document error:', error);
+      console.error('Update note error:', error);
       throw error;
     }
   }
 
-  async listDocuments(collection: string): Promise<Document[]> {
+  /**
+   * Crawls a website into a collection as a background job, one document
+   * per page. Limits left out use the server's defaults.
+   */
+  async crawlWebsite(
+    collectionName: string,
+    options: Pick<CrawlOptions, 'url'> & Partial<CrawlOptions>
+  ): Promise<{ crawl: Crawl; job: Job }> {
     try {
-      const response = await fetch(
-        `/api/memories?containerTags=${encodeURIComponent(collection)}&limit=50&sort=updatedAt&order=desc`
-      );
+      const response = await fetch(`/api/collections/${encodeURIComponent(collectionName)}/crawls`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(options),
+      });
+
+      return await this.readStartedJob<{ crawl: Crawl; job: Job }>(response, 'start crawl');
+    } catch (error) {
+      console.error('Crawl website error:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Lists the most recent crawls into a collection with their progress.
+   */
+  async listCrawls(collectionName: string): Promise<Crawl[]> {
+    try {
+      const response = await fetch(`/api/collections/${encodeURIComponent(collectionName)}/crawls`);
 
       if (!response.ok) {
         const error = await response.json();
-        throw new Error(error.error || `Failed to list documents: ${response.statusText}`);
+        throw new Error(error.error || `Failed to list crawls: ${response.statusText}`);
       }
 
-      const memories = await response.json();
-
-      return memories.memories.map((memory: any) => ({
-        id: memory.id,
-        title:
-          memory.title ||
-          (this.getMetadataValue(memory.metadata, 'originalName') as
-            | string
-            | undefined) ||
-          'Untitled',
-        type:
-          (this.getMetadataValue(memory.metadata, 'fileType') as
-            | string
-            | undefined) ||
-          (this.getMetadataValue(memory.metadata, 'type') as
-            | string
-            | undefined) ||
-          'unknown',
-        uploadedAt:
-          (this.getMetadataValue(memory.metadata, 'uploadedAt') as
-            | string
-            | undefined) || '',
-        status: memory.status,
-        url: this.getMetadataValue(memory.metadata, 'originalUrl') as
-          | string
-          | undefined,
-        containerTags: memory.containerTags || [],
-      }));
+      const data = await response.json();
+      return data.crawls || [];
     } catch (error) {
-      console.error('List documents error:', error);
+      console.error('List crawls error:', error);
       throw error;
     }
   }
 
-  async listCollections(): Promise<string[]> {
+  /**
+   * Lists a collection's feed subscriptions with their last poll.
+   */
+  async listFeeds(collectionName: string): Promise<Feed[]> {
     try {
-      const response = await fetch('/api/collections');
+      const response = await fetch(`/api/collections/${encodeURIComponent(collectionName)}/feeds`);
 
       if (!response.ok) {
         const error = await response.json();
-        throw new Error(error.error || `Failed to list collections: ${response.statusText}`);
+        throw new Error(error.error || `Failed to list feeds: ${response.statusText}`);
       }
 
       const data = await response.json();
-      return data.collections || [];
+      return data.feeds || [];
     } catch (error) {
-      console.error('List collections error:', error);
+      console.error('List feeds error:', error);
       throw error;
     }
   }
 
-  async getCollectionStats(collection: string) {
+  /**
+   * Subscribes a collection to an RSS or Atom feed. Its current entries are
+   * added in a background job.
+   */
+  async subscribeToFeed(
+    collectionName: string,
+    subscription: Pick<FeedSubscription, 'url'> & Partial<FeedSubscription>
+  ): Promise<{ feed: Feed; job: Job }> {
     try {
-      const docs = await this.listDocuments(collection);
-      const types = docs.reduce((acc, doc) => {
-        acc[doc.type] = (acc[doc.type] || 0) + 1;
-        return acc;
-      }, {} as Record<string, number>);
+      const response = await fetch(`/api/collections/${encodeURIComponent(collectionName)}/feeds`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(subscription),
+      });
 
-      return {
-        totalDocs: docs.length,
-        types,
-        lastUpdated: docs[0]?.uploadedAt || null,
-      };
+      return await this.readStartedJob<{ feed: Feed; job: Job }>(response, 'subscribe to feed');
     } catch (error) {
-      console.error('Get collection stats error:', error);
+      console.error('Subscribe to feed error:', error);
       throw error;
     }
   }
 
-  async deleteDocument(documentId: string) {
+  /**
+   * Polls a feed for new entries now, as a background job.
+   */
+  async pollFeed(collectionName: string, feedId: string): Promise<{ feed: Feed; job: Job }> {
     try {
-      const response = await fetch(`/api/memories?id=${encodeURIComponent(documentId)}`, {
-        method: 'DELETE',
-      });
-
-      if (!response.ok) {
-        const error = await response.json();
-        throw new Error(error.error || `Failed to delete document: ${response.statusText}`);
-      }
+      const response = await fetch(
+        `/api/collections/${encodeURIComponent(collectionName)}/feeds/${encodeURIComponent(feedId)}/poll`,
+        { method: 'POST' }
+      );
 
-      return await response.json();
+      return await this.readStartedJob<{ feed: Feed; job: Job }>(response, 'poll feed');
     } catch (error) {
-      console.error('Delete document error:', error);
+      console.error('Poll feed error:', error);
       throw error;
     }
   }
 
-  async deleteCollection(collectionName: string): Promise<{ deletedCount: number }> {
+  /**
+   * Changes how often a feed is polled.
+   */
+  async updateFeed(
+    collectionName: string,
+    feedId: string,
+    interval: FeedSubscription['interval']
+  ): Promise<Feed> {
+    try {
+      const response = await fetch(
+        `/api/collections/${encodeURIComponent(collectionName)}/feeds/${encodeURIComponent(feedId)}`,
+        {
+          method: 'PATCH',
+          headers: {
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify({ interval }),
+        }
+      );
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || `Failed to update feed: ${response.statusText}`);
+      }
+
+      const data = await response.json();
+      return data.feed;
+    } catch (error) {
+      console.error('Update feed error:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Unsubscribes a collection from a feed. Documents already added are kept.
+   */
+  async unsubscribeFromFeed(collectionName: string, feedId: string) {
+    try {
+      const response = await fetch(
+        `/api/collections/${encodeURIComponent(collectionName)}/feeds/${encodeURIComponent(feedId)}`,
+        { method: 'DELETE' }
+      );
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || `Failed to unsubscribe from feed: ${response.statusText}`);
+      }
+    } catch (error) {
+      console.error('Unsubscribe from feed error:', error);
+      throw error;
+    }
+  }
+
+  private getMetadataValue(
+    metadata: unknown,
+    key: string
+  ): unknown | undefined {
+    if (
+      typeof metadata === 'object' &&
+      metadata !== null &&
+      !Array.isArray(metadata) &&
+      key in metadata
+    ) {
+      return (metadata as Record<string, unknown>)[key];
+    }
+    return undefined;
+  }
+
+  async getDocumentStatus(documentId: string) {
+    try {
+      const response = await fetch(`/api/memories/${documentId}`);
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || `Failed to get document status: ${response.statusText}`);
+      }
+
+      const memory = await response.json();
+      return {
+        id: memory.id,
+        status: memory.status,
+        title: documentTitle(memory.title, memory.metadata),
+        progress: documentProgress(memory.status, memory.metadata || {}),
+      failureReason: this.getMetadataValue(memory.metadata, 'failureReason') as
+        | string
+        | undefined,
+      };
+    } catch (error) {
+      console.error('Status check error:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Subscribes to processing status changes of the documents in a collection
+   * over server-sent events. The browser reconnects on its own if the stream
+   * drops.
+   *
+   * @returns A function that ends the subscription
+   */
+  watchCollectionStatus(
+    collectionName: string,
+    {
+      onStatus,
+      onRemoved,
+    }: {
+      onStatus: (event: DocumentStatusEvent) => void;
+      onRemoved?: (documentId: string) => void;
+    }
+  ): () => void {
+    const source = new EventSource(
+      `/api/collections/${encodeURIComponent(collectionName)}/events`
+    );
+    source.addEventListener('status', (event) => {
+      onStatus(JSON.parse((event as MessageEvent).data) as DocumentStatusEvent);
+    });
+    source.addEventListener('removed', (event) => {
+      onRemoved?.(JSON.parse((event as MessageEvent).data).id);
+    });
+    return () => source.close();
+  }
+
+  async getDocument(documentId: string): Promise<DocumentContent> {
+    try {
+      const response = await fetch(`/api/memories/${documentId}`);
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || `Failed to get document: ${response.statusText}`);
+      }
+
+      const memory = await response.json();
+      return {
+        id: memory.id,
+        title: documentTitle(memory.title, memory.metadata),
+        content: memory.content || '',
+        type:
+          (this.getMetadataValue(memory.metadata, 'fileType') as
+            | string
+            | undefined) ||
+          (this.getMetadataValue(memory.metadata, 'type') as
+            | string
+            | undefined) ||
+          'unknown',
+        status: memory.status,
+        createdAt: memory.createdAt,
+        url: this.getMetadataValue(memory.metadata, 'originalUrl') as
+          | string
+          | undefined,
+        metadata: memory.metadata,
+        details: documentDetails(memory.metadata),
+      };
+    } catch (error) {
+      console.error('Get document error:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Edits a document's title, description, author, source URL and custom
+   * fields. Omitted fields are left alone; null clears one.
+   *
+   * @returns The document's title and details after the edit
+   */
+  async updateDocument(
+    documentId: string,
+    update: DocumentDetailsUpdate
+  ): Promise<{ title: string; details: DocumentDetails }> {
+    try {
+      const response = await fetch(`/api/memories/${encodeURIComponent(documentId)}`, {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(update),
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || `Failed to update document: ${response.statusText}`);
+      }
+
+      const { title, details } = await response.json();
+      return { title, details };
+    } catch (error) {
+      console.error('Update document error:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Finds documents in a collection that share a content hash or normalized URL.
+   */
+  async getDuplicatesReport(collectionName: string): Promise<DuplicatesReport> {
+    try {
+      const response = await fetch(
+        `/api/collections/${encodeURIComponent(collectionName)}/duplicates`
+      );
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || `Failed to find duplicates: ${response.statusText}`);
+      }
+
+      return await response.json();
+    } catch (error) {
+      console.error('Duplicates report error:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Lists every version of a document, newest first. Fetch an older
+   * version's content with `getDocument`.
+   *
+   * @returns The versions, or an empty list if the document was never re-uploaded
+   */
+  async listDocumentVersions(documentId: string): Promise<DocumentVersion[]> {
+    try {
+      const response = await fetch(`/api/memories/${encodeURIComponent(documentId)}/versions`);
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || `Failed to list versions: ${response.statusText}`);
+      }
+
+      const data = await response.json();
+      return data.versions || [];
+    } catch (error) {
+      console.error('List document versions error:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Makes an older version the current version of a document. The restored
+   * version takes over the document's collections.
+   *
+   * @returns The ID of the restored version, now the current one
+   */
+  async restoreDocumentVersion(
+    documentId: string,
+    versionId: string
+  ): Promise<{ success: boolean; id: string; version: number }> {
+    try {
+      const response = await fetch(
+        `/api/memories/${encodeURIComponent(documentId)}/versions/${encodeURIComponent(versionId)}/restore`,
+        { method: 'POST' }
+      );
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || `Failed to restore version: ${response.statusText}`);
+      }
+
+      return await response.json();
+    } catch (error) {
+      console.error('Restore document version error:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Lists one page of documents in a collection, newest first.
+   *
+   * @param cursor - `nextCursor` from the previous page; omit for the first page
+   * @param labels - Only list documents carrying every one of these labels
+   */
+  async listDocumentsPage(
+    collection: string,
+    {
+      cursor,
+      limit = 50,
+      labels = [],
+    }: { cursor?: string | null; limit?: number; labels?: string[] } = {}
+  ): Promise<DocumentPage> {
+    try {
+      const query = new URLSearchParams({
+        containerTags: collection,
+        limit: String(limit),
+        sort: 'updatedAt',
+        order: 'desc',
+      });
+      if (cursor) {
+        query.set('cursor', cursor);
+      }
+      if (labels.length > 0) {
+        query.set('labels', labels.join(','));
+      }
+
+      const response = await fetch(`/api/memories?${query}`);
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || `Failed to list documents: ${response.statusText}`);
+      }
+
+      const data = await response.json();
+
+      return {
+        documents: data.memories.map((memory: any) => this.toDocument(memory)),
+        nextCursor: data.nextCursor ?? null,
+        totalItems: data.pagination?.totalItems ?? data.memories.length,
+      };
+    } catch (error) {
+      console.error('List documents error:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Lists every document in a collection by following page cursors.
+   */
+  async listDocuments(collection: string): Promise<Document[]> {
+    const documents: Document[] = [];
+    let cursor: string | null = null;
+
+    do {
+      const page: DocumentPage = await this.listDocumentsPage(collection, { cursor, limit: 100 });
+      documents.push(...page.documents);
+      cursor = page.nextCursor;
+    } while (cursor);
+
+    return documents;
+  }
+
+  private toDocument(memory: any): Document {
+    return {
+      id: memory.id,
+      title: documentTitle(memory.title, memory.metadata),
+      type:
+        (this.getMetadataValue(memory.metadata, 'fileType') as
+          | string
+          | undefined) ||
+        (this.getMetadataValue(memory.metadata, 'type') as
+          | string
+          | undefined) ||
+        'unknown',
+      uploadedAt:
+        (this.getMetadataValue(memory.metadata, 'uploadedAt') as
+          | string
+          | undefined) || '',
+      status: memory.status,
+      progress: documentProgress(memory.status, memory.metadata || {}),
+      url: this.getMetadataValue(memory.metadata, 'originalUrl') as
+        | string
+        | undefined,
+      lastCheckedAt: this.getMetadataValue(memory.metadata, 'lastCheckedAt') as
+        | string
+        | undefined,
+      lastChangedAt: this.getMetadataValue(memory.metadata, 'lastChangedAt') as
+        | string
+        | undefined,
+      containerTags: memory.containerTags || [],
+      fields: customFieldValues(memory.metadata),
+      labels: documentLabels(memory.metadata),
+      version: this.getMetadataValue(memory.metadata, 'version') as
+        | number
+        | undefined,
+    };
+  }
+
+  async listCollections(): Promise<CollectionSummary[]> {
+    try {
+      const response = await fetch('/api/collections');
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || `Failed to list collections: ${response.statusText}`);
+      }
+
+      const data = await response.json();
+      return data.collections || [];
+    } catch (error) {
+      console.error('List collections error:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Lists collections together with their document counts, type and status
+   * breakdown and last-updated time, aggregated by the server in one request.
+   */
+  async listCollectionsWithStats(): Promise<CollectionWithStats[]> {
+    try {
+      const response = await fetch('/api/collections?withStats=1');
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || `Failed to load collection stats: ${response.statusText}`);
+      }
+
+      const data = await response.json();
+      return data.collections || [];
+    } catch (error) {
+      console.error('List collection stats error:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Moves a document to the trash, or deletes it permanently when the trash
+   * is disabled.
+   *
+   * @returns The trash item to restore, or null when the trash is disabled
+   */
+  async deleteDocument(documentId: string): Promise<{ success: boolean; trashItem: TrashItem | null }> {
+    try {
+      const response = await fetch(`/api/memories?id=${encodeURIComponent(documentId)}`, {
+        method: 'DELETE',
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || `Failed to delete document: ${response.statusText}`);
+      }
+
+      return await response.json();
+    } catch (error) {
+      console.error('Delete document error:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Adds a document to collections and/or removes it from others. Moving a
+   * document is an add and a remove in the same call.
+   *
+   * @returns The collections the document belongs to afterwards
+   */
+  async updateDocumentCollections(
+    documentId: string,
+    changes: { add?: string[]; remove?: string[] }
+  ): Promise<{ success: boolean; collections: string[] }> {
+    try {
+      const response = await fetch(`/api/memories/${encodeURIComponent(documentId)}/collections`, {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(changes),
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || `Failed to update document collections: ${response.statusText}`);
+      }
+
+      return await response.json();
+    } catch (error) {
+      console.error('Update document collections error:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Adds labels to a document and/or removes others.
+   *
+   * @returns The document's labels afterwards
+   */
+  async updateDocumentLabels(
+    documentId: string,
+    changes: { add?: string[]; remove?: string[] }
+  ): Promise<{ success: boolean; labels: string[] }> {
+    try {
+      const response = await fetch(`/api/memories/${encodeURIComponent(documentId)}/labels`, {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(changes),
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || `Failed to update document labels: ${response.statusText}`);
+      }
+
+      return await response.json();
+    } catch (error) {
+      console.error('Update document labels error:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Lists the labels on documents the caller can view, with how many
+   * documents carry each.
+   *
+   * @param collectionName - Only count documents in this collection
+   */
+  async listLabels(collectionName?: string): Promise<LabelSummary[]> {
+    try {
+      const query = collectionName ? `?collection=${encodeURIComponent(collectionName)}` : '';
+      const response = await fetch(`/api/labels${query}`);
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || `Failed to list labels: ${response.statusText}`);
+      }
+
+      const data = await response.json();
+      return data.labels || [];
+    } catch (error) {
+      console.error('List labels error:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Renames a label on every document the caller can edit. Renaming to an
+   * existing label merges the two.
+   *
+   * @returns How many documents changed, and how many were skipped
+   */
+  async renameLabel(
+    label: string,
+    newName: string
+  ): Promise<{ success: boolean; name: string; updated: number; skipped: number }> {
+    try {
+      const response = await fetch(`/api/labels/${encodeURIComponent(label)}`, {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ name: newName }),
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || `Failed to rename label: ${response.statusText}`);
+      }
+
+      return await response.json();
+    } catch (error) {
+      console.error('Rename label error:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Removes a label from every document the caller can edit.
+   *
+   * @returns How many documents changed, and how many were skipped
+   */
+  async deleteLabel(label: string): Promise<{ success: boolean; updated: number; skipped: number }> {
+    try {
+      const response = await fetch(`/api/labels/${encodeURIComponent(label)}`, {
+        method: 'DELETE',
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || `Failed to delete label: ${response.statusText}`);
+      }
+
+      return await response.json();
+    } catch (error) {
+      console.error('Delete label error:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Submits a document for processing again from its original file or URL.
+   *
+   * @returns The document's ID, which changes if the backend had to replace it
+   */
+  async reprocessDocument(documentId: string): Promise<{ success: boolean; id: string; status: string }> {
+    try {
+      const response = await fetch(`/api/memories/${encodeURIComponent(documentId)}/reprocess`, {
+        method: 'POST',
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || `Failed to reprocess document: ${response.statusText}`);
+      }
+
+      return await response.json();
+    } catch (error) {
+      console.error('Reprocess document error:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Fetches a web page document's refresh schedule and last check.
+   */
+  async getRefreshStatus(documentId: string): Promise<RefreshStatus> {
     try {
-      const response = await fetch(`/api/collections/${encodeURIComponent(collectionName)}`, {
-        method: 'DELETE',
+      const response = await fetch(`/api/memories/${encodeURIComponent(documentId)}/refresh`);
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || `Failed to get refresh status: ${response.statusText}`);
+      }
+
+      const data = await response.json();
+      return data.refresh;
+    } catch (error) {
+      console.error('Get refresh status error:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Sets how often a web page document is checked for changes, or clears
+   * its own interval with null so it follows its collections.
+   */
+  async setRefreshInterval(
+    documentId: string,
+    interval: RefreshInterval | null
+  ): Promise<RefreshStatus> {
+    try {
+      const response = await fetch(`/api/memories/${encodeURIComponent(documentId)}/refresh`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ interval }),
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || `Failed to set refresh interval: ${response.statusText}`);
+      }
+
+      const data = await response.json();
+      return data.refresh;
+    } catch (error) {
+      console.error('Set refresh interval error:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Checks a web page document for changes now, reprocessing it if the page
+   * changed.
+   *
+   * @returns What the check found, and the document's ID, which changes if the backend had to replace it
+   */
+  async refreshDocument(documentId: string): Promise<{
+    id: string;
+    outcome: 'changed' | 'unchanged' | 'failed';
+    refresh: RefreshStatus;
+  }> {
+    try {
+      const response = await fetch(`/api/memories/${encodeURIComponent(documentId)}/refresh`, {
+        method: 'POST',
       });
 
       if (!response.ok) {
         const error = await response.json();
-        throw new Error(error.error || `Failed to delete collection: ${response.statusText}`);
+        throw new Error(error.error || `Failed to refresh document: ${response.statusText}`);
       }
 
       return await response.json();
+    } catch (error) {
+      console.error('Refresh document error:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Moves a collection to the trash, moving its documents in the background.
+   * When the trash is disabled, the collection and its documents are deleted
+   * permanently instead.
+   *
+   * @returns The background job, and the trash item to restore (null when the trash is disabled)
+   */
+  async deleteCollection(collectionName: string): Promise<{ job: Job; trashItem: TrashItem | null }> {
+    try {
+      const response = await fetch(`/api/collections/${encodeURIComponent(collectionName)}`, {
+        method: 'DELETE',
+      });
+
+      return await this.readStartedJob(response, 'delete collection');
     } catch (error) {
       console.error('Delete collection error:', error);
       throw error;
     }
   }
 
-  async createCollection(collectionName: string): Promise<{ success: boolean }> {
+  async createCollection(
+    collectionName: string,
+    details: CollectionDetailsInput = {}
+  ): Promise<{ success: boolean; collection: CollectionSummary }> {
     try {
       const response = await fetch('/api/collections', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
         },
-        body: JSON.stringify({ name: collectionName }),
+        body: JSON.stringify({ ...details, name: collectionName }),
       });
 
       if (!response.ok) {
@@ -378,4 +1447,325 @@ export class DocumentProcessor {
       throw error;
     }
   }
+
+  async getCollection(collectionName: string): Promise<CollectionSummary> {
+    try {
+      const response = await fetch(`/api/collections/${encodeURIComponent(collectionName)}`);
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || `Failed to get collection: ${response.statusText}`);
+      }
+
+      return await response.json();
+    } catch (error) {
+      console.error('Get collection error:', error);
+      throw error;
+    }
+  }
+
+  async updateCollection(
+    collectionName: string,
+    details: CollectionDetailsInput
+  ): Promise<{ success: boolean; collection: CollectionSummary }> {
+    try {
+      const response = await fetch(`/api/collections/${encodeURIComponent(collectionName)}`, {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(details),
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || `Failed to update collection: ${response.statusText}`);
+      }
+
+      return await response.json();
+    } catch (error) {
+      console.error('Update collection error:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Starts renaming a collection, moving every document to the new name in
+   * the background.
+   *
+   * @returns The background job; the old name is kept if any document fails to move
+   */
+  async renameCollection(collectionName: string, newName: string): Promise<Job> {
+    try {
+      const response = await fetch(`/api/collections/${encodeURIComponent(collectionName)}`, {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ name: newName }),
+      });
+
+      const { job } = await this.readStartedJob<{ job: Job }>(response, 'rename collection');
+      return job;
+    } catch (error) {
+      console.error('Rename collection error:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Starts merging a collection into another in the background, moving every
+   * document and removing the merged collection.
+   *
+   * @returns The background job; the source is kept if any document fails to move
+   */
+  async mergeCollection(collectionName: string, target: string): Promise<Job> {
+    try {
+      const response = await fetch(`/api/collections/${encodeURIComponent(collectionName)}/merge`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ target }),
+      });
+
+      const { job } = await this.readStartedJob<{ job: Job }>(response, 'merge collection');
+      return job;
+    } catch (error) {
+      console.error('Merge collection error:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Starts rebuilding the search index of every document in a collection in
+   * the background.
+   */
+  async reindexCollection(collectionName: string): Promise<Job> {
+    try {
+      const response = await fetch(`/api/collections/${encodeURIComponent(collectionName)}/reindex`, {
+        method: 'POST',
+      });
+
+      const { job } = await this.readStartedJob<{ job: Job }>(response, 're-index collection');
+      return job;
+    } catch (error) {
+      console.error('Reindex collection error:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Submits every failed document in a collection for processing again,
+   * as a background job.
+   */
+  async reprocessFailedDocuments(collectionName: string): Promise<Job> {
+    try {
+      const response = await fetch(
+        `/api/collections/${encodeURIComponent(collectionName)}/reprocess-failed`,
+        { method: 'POST' }
+      );
+
+      const { job } = await this.readStartedJob<{ job: Job }>(response, 'reprocess failed documents');
+      return job;
+    } catch (error) {
+      console.error('Reprocess failed documents error:', error);
+      throw error;
+    }
+  }
+
+  async listJobs(): Promise<Job[]> {
+    try {
+      const response = await fetch('/api/jobs');
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || `Failed to list jobs: ${response.statusText}`);
+      }
+
+      const data = await response.json();
+      return data.jobs || [];
+    } catch (error) {
+      console.error('List jobs error:', error);
+      throw error;
+    }
+  }
+
+  async getJob(jobId: string): Promise<Job> {
+    try {
+      const response = await fetch(`/api/jobs/${encodeURIComponent(jobId)}`);
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || `Failed to get job: ${response.statusText}`);
+      }
+
+      const data = await response.json();
+      return data.job;
+    } catch (error) {
+      console.error('Get job error:', error);
+      throw error;
+    }
+  }
+
+  async dismissJob(jobId: string) {
+    try {
+      const response = await fetch(`/api/jobs/${encodeURIComponent(jobId)}`, {
+        method: 'DELETE',
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || `Failed to dismiss job: ${response.statusText}`);
+      }
+
+      return await response.json();
+    } catch (error) {
+      console.error('Dismiss job error:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Lists the documents and collections the caller has deleted.
+   *
+   * @returns The trash items, and the days they are kept before being purged
+   */
+  async listTrash(): Promise<{ items: TrashItem[]; retentionDays: number }> {
+    try {
+      const response = await fetch('/api/trash');
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || `Failed to list trash: ${response.statusText}`);
+      }
+
+      return await response.json();
+    } catch (error) {
+      console.error('List trash error:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Restores a trashed document or collection. Collections get their
+   * documents back in the background.
+   *
+   * @returns The background job for collections
+   */
+  async restoreTrashItem(trashId: string): Promise<{ success: boolean; job?: Job }> {
+    try {
+      const response = await fetch(`/api/trash/${encodeURIComponent(trashId)}/restore`, {
+        method: 'POST',
+      });
+
+      return await this.readStartedJob(response, 'restore from the trash');
+    } catch (error) {
+      console.error('Restore trash item error:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Permanently deletes a trashed document or collection. Collections are
+   * purged in the background.
+   *
+   * @returns The background job for collections
+   */
+  async purgeTrashItem(trashId: string): Promise<{ success: boolean; job?: Job }> {
+    try {
+      const response = await fetch(`/api/trash/${encodeURIComponent(trashId)}`, {
+        method: 'DELETE',
+      });
+
+      return await this.readStartedJob(response, 'delete from the trash');
+    } catch (error) {
+      console.error('Purge trash item error:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Reads the body of a response that may have started a job and tells the
+   * job tray about the job, if any.
+   */
+  private async readStartedJob<T extends { job?: Job }>(response: Response, action: string): Promise<T> {
+    if (!response.ok) {
+      const error = await response.json();
+      throw new Error(error.error || `Failed to ${action}: ${response.statusText}`);
+    }
+
+    const data = await response.json();
+    if (data.job) {
+      window.dispatchEvent(new CustomEvent<Job>(JOB_STARTED_EVENT, { detail: data.job }));
+    }
+    return data;
+  }
+
+  async getCollectionAccess(collectionName: string): Promise<CollectionAccess> {
+    try {
+      const response = await fetch(`/api/collections/${encodeURIComponent(collectionName)}/members`);
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || `Failed to load collection members: ${response.statusText}`);
+      }
+
+      return await response.json();
+    } catch (error) {
+      console.error('Get collection access error:', error);
+      throw error;
+    }
+  }
+
+  async setCollectionMember(
+    collectionName: string,
+    principalType: PrincipalType,
+    principalId: string,
+    role: CollectionRole
+  ): Promise<{ success: boolean }> {
+    try {
+      const response = await fetch(`/api/collections/${encodeURIComponent(collectionName)}/members`, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ principalType, principalId, role }),
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || `Failed to update member: ${response.statusText}`);
+      }
+
+      return await response.json();
+    } catch (error) {
+      console.error('Set collection member error:', error);
+      throw error;
+    }
+  }
+
+  async removeCollectionMember(
+    collectionName: string,
+    principalType: PrincipalType,
+    principalId: string
+  ): Promise<{ success: boolean }> {
+    try {
+      const query = new URLSearchParams({ principalType, principalId });
+      const response = await fetch(
+        `/api/collections/${encodeURIComponent(collectionName)}/members?${query}`,
+        { method: 'DELETE' }
+      );
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || `Failed to remove member: ${response.statusText}`);
+      }
+
+      return await response.json();
+    } catch (error) {
+      console.error('Remove collection member error:', error);
+      throw error;
+    }
+  }
 }
@@ -0,0 +1,54 @@
+import type { MemoryStatus } from '@/lib/knowledge-store';
+
+/**
+ * A document's processing status, as streamed by
+ * `GET /api/collections/[name]/events`.
+ */
+export interface DocumentStatusEvent {
+  id: string;
+  title: string | null;
+  status: MemoryStatus;
+  /** Processing progress (0-100) */
+  progress: number;
+  /** Why processing failed, if it did */
+  failureReason: string | null;
+}
+
+/** Rough progress reached at each processing stage, for backends that do not report it */
+const STAGE_PROGRESS: Record<MemoryStatus, number> = {
+  unknown: 0,
+  queued: 0,
+  extracting: 20,
+  chunking: 40,
+  embedding: 60,
+  indexing: 80,
+  done: 100,
+  failed: 100,
+};
+
+/**
+ * Whether a document is still being processed.
+ */
+export function isProcessing(status: string): boolean {
+  return status !== 'done' && status !== 'failed' && status !== 'unknown';
+}
+
+/**
+ * Why a document's processing failed, from its `failureReason` metadata.
+ */
+export function failureReasonOf(status: MemoryStatus, metadata: Record<string, unknown>): string | null {
+  const reason = metadata.failureReason;
+  return status === 'failed' && typeof reason === 'string' ? reason : null;
+}
+
+/**
+ * A document's processing progress: the `progress` metadata value if the
+ * backend reports one, otherwise an estimate from its status.
+ */
+export function documentProgress(status: MemoryStatus, metadata: Record<string, unknown>): number {
+  const reported = metadata.progress;
+  if (typeof reported === 'number' && isProcessing(status)) {
+    return Math.max(0, Math.min(100, Math.round(reported)));
+  }
+  return STAGE_PROGRESS[status] ?? 0;
+}
@@ -0,0 +1,307 @@
+import { collectionsExist } from '@/lib/collection-records';
+import { parseCollectionNames } from '@/lib/collections';
+import { parseDocumentMetadata, validateDocumentFields } from '@/lib/document-fields';
+import {
+  addVersion,
+  carriedOverMetadata,
+  findReplacedVersion,
+  removeAddedVersion,
+} from '@/lib/document-versions';
+import { describeDuplicate, type DuplicateAction, type DuplicateDocument } from '@/lib/duplicates';
+import {
+  mimeTypeForName,
+  validateFile,
+  type FileValidationCode,
+} from '@/lib/file-validation';
+import { recordFingerprint } from '@/lib/fingerprint-records';
+import { fileFingerprint, findDuplicate, hashFile, linkDuplicate } from '@/lib/fingerprints';
+import { getKnowledgeStore, type MemoryMetadata } from '@/lib/knowledge-store';
+import { deleteOriginalFile, saveOriginalFile } from '@/lib/original-files';
+import { canAccessAll, canAccessCollection } from '@/lib/permissions';
+import {
+  collectionsFromTags,
+  containerTagsFor,
+  getRequestScope,
+  scopeMetadata,
+  type RequestScope,
+} from '@/lib/scope';
+import { nextVersionNumber } from '@/lib/version-records';
+
+/**
+ * Response of a file upload, from the `uploadDocument` server action or
+ * `POST /api/memories/upload`.
+ */
+export interface UploadDocumentResponse {
+  success: boolean;
+  documentId?: string;
+  /** Version number of the upload; above 1 when it replaced a file with the same name */
+  version?: number;
+  /** ID of the version the upload replaced, if any */
+  replacedId?: string;
+  /** Whether an existing copy of the file was added to the collections instead */
+  linked?: boolean;
+  message?: string;
+  error?: string;
+  /**
+   * 'DUPLICATE' when the file already exists and was not uploaded, or why
+   * the file failed validation
+   */
+  code?: 'DUPLICATE' | FileValidationCode;
+  /** The existing copy, when the upload was rejected as a duplicate */
+  duplicate?: DuplicateDocument;
+  details?: string;
+}
+
+/**
+ * A received file and where to store it.
+ */
+export interface StoredFileUpload {
+  file: File;
+  /** Collection names, not yet namespaced by scope */
+  collections: string[];
+  metadata: MemoryMetadata;
+  onDuplicate: DuplicateAction;
+  /** SHA-256 hash of the file, if it was computed while receiving it */
+  contentHash?: string;
+}
+
+/**
+ * An upload response with the HTTP status the upload route answers with.
+ */
+export interface UploadResult {
+  status: number;
+  response: UploadDocumentResponse;
+}
+
+/**
+ * Uploads a file from a multipart form to the knowledge store. Shared by the
+ * `uploadDocument` server action and `POST /api/memories/upload`.
+ *
+ * Container tags are collection names; they are namespaced by the caller's
+ * scope before being stored.
+ *
+ * Files are identified by the SHA-256 hash of their bytes. A file that
+ * already exists in a collection the caller can view is rejected with
+ * `code: 'DUPLICATE'`, or added to the requested collections when `onDuplicate`
+ * is 'link'.
+ *
+ * A file with the same name as a document already in one of the collections
+ * is stored as a new version of that document: it takes over the document's
+ * collections, and the previous version is kept in its version history. The
+ * details, custom fields and labels edited on the previous version carry
+ * over to the new one unless the upload's metadata sets them.
+ *
+ * @param formData - FormData containing:
+ *   - file: The File object to upload
+ *   - containerTags: JSON string array of collection names (e.g., '["collection-name"]')
+ *   - metadata: Optional JSON string of metadata object (see `parseDocumentMetadata`)
+ *   - onDuplicate: Optional 'reject' (default) or 'link'
+ * @returns The response and its HTTP status
+ * @throws Never throws - all errors are caught and returned in the response object
+ */
+export async function handleDocumentUpload(formData: FormData): Promise<UploadResult> {
+  const scope = await getRequestScope();
+  if (!scope) {
+    return { status: 401, response: { success: false, error: 'Unauthorized' } };
+  }
+
+  const file = formData.get('file') as File | null;
+  const containerTagsRaw = formData.get('containerTags') as string | null;
+  const metadataRaw = formData.get('metadata') as string | null;
+  const onDuplicate = (formData.get('onDuplicate') as DuplicateAction | null) ?? 'reject';
+
+  if (!file || typeof file === 'string') {
+    return { status: 400, response: { success: false, error: 'No file provided' } };
+  }
+
+  if (!containerTagsRaw) {
+    return { status: 400, response: { success: false, error: 'No containerTags provided' } };
+  }
+
+  let collections: string[] | null = null;
+  try {
+    collections = parseCollectionNames(JSON.parse(containerTagsRaw));
+  } catch {
+    // Reported below
+  }
+  if (!collections) {
+    return {
+      status: 400,
+      response: {
+        success: false,
+        error: 'Invalid containerTags format - must be a JSON array of collection names',
+      },
+    };
+  }
+
+  let metadata: ReturnType<typeof parseDocumentMetadata> = { metadata: {} };
+  if (metadataRaw) {
+    try {
+      metadata = parseDocumentMetadata(JSON.parse(metadataRaw));
+    } catch {
+      metadata = { error: 'Invalid metadata format - must be JSON object string' };
+    }
+  }
+  if ('error' in metadata) {
+    return { status: 400, response: { success: false, error: metadata.error } };
+  }
+
+  return storeUploadedFile(scope, {
+    file,
+    collections,
+    metadata: metadata.metadata,
+    onDuplicate,
+  });
+}
+
+/**
+ * Rejects uploads to collections that do not exist or that the caller
+ * cannot edit.
+ *
+ * @returns The error to answer with, or null if the upload may go ahead
+ */
+export function checkUploadTarget(scope: RequestScope, collections: string[]): UploadResult | null {
+  if (!collectionsExist(scope, collections)) {
+    return { status: 404, response: { success: false, error: 'Collection not found' } };
+  }
+
+  if (!collections.every((collection) => canAccessCollection(scope, collection, 'editor'))) {
+    return {
+      status: 403,
+      response: { success: false, error: 'You do not have permission to upload to this collection' },
+    };
+  }
+
+  return null;
+}
+
+/**
+ * Stores a received file in the knowledge store, after checking the target
+ * collections, the metadata fields their schemas require, the file itself
+ * (see `validateFile`), duplicates and earlier versions. Shared by single-request and
+ * chunked uploads.
+ */
+export async function storeUploadedFile(
+  scope: RequestScope,
+  { file: received, collections, metadata, onDuplicate, contentHash: knownHash }: StoredFileUpload
+): Promise<UploadResult> {
+  try {
+    const targetError = checkUploadTarget(scope, collections);
+    if (targetError) {
+      return targetError;
+    }
+
+    // Details, custom fields and labels edited on the version being replaced
+    // carry over unless the upload sets them
+    const store = getKnowledgeStore();
+    const replaced = await findReplacedVersion(store, scope, received.name, collections);
+    const fields = validateDocumentFields(scope, collections, {
+      ...(replaced ? carriedOverMetadata(replaced.memory) : {}),
+      ...metadata,
+    });
+    if ('error' in fields) {
+      return { status: 400, response: { success: false, error: fields.error } };
+    }
+
+    const validationError = await validateFile(received);
+    if (validationError) {
+      return {
+        status: validationError.status,
+        response: { success: false, code: validationError.code, error: validationError.message },
+      };
+    }
+    // Store the file with the MIME type of its checked extension, not the one the browser sent
+    const file = new File([received], received.name, { type: mimeTypeForName(received.name) });
+
+    const contentHash = knownHash ?? (await hashFile(file));
+    const existing = await findDuplicate(store, scope, fileFingerprint(contentHash));
+    if (existing && onDuplicate === 'link') {
+      await linkDuplicate(store, scope, existing.memory, collections);
+      return {
+        status: 200,
+        response: {
+          success: true,
+          documentId: existing.memory.id,
+          linked: true,
+          message: `Added the existing copy of "${file.name}" to the collection`,
+        },
+      };
+    }
+    if (existing) {
+      return {
+        status: 409,
+        response: {
+          success: false,
+          code: 'DUPLICATE',
+          error: describeDuplicate(existing.duplicate),
+          duplicate: existing.duplicate,
+        },
+      };
+    }
+
+    if (
+      replaced &&
+      !canAccessAll(scope, collectionsFromTags(scope, replaced.memory.containerTags), 'editor')
+    ) {
+      return {
+        status: 403,
+        response: {
+          success: false,
+          error: `You do not have permission to replace "${file.name}" in every collection it belongs to`,
+        },
+      };
+    }
+
+    const version = nextVersionNumber(replaced?.record ?? null);
+    const result = await store.uploadFile({
+      file,
+      containerTags: replaced
+        ? replaced.memory.containerTags
+        : containerTagsFor(scope, collections),
+      metadata: {
+        ...fields.metadata,
+        originalName: file.name,
+        fileType: file.type,
+        uploadedAt: new Date().toISOString(),
+        version,
+        contentHash,
+        ...scopeMetadata(scope),
+      },
+    });
+
+    try {
+      await addVersion(store, scope, result.id, file.name, version, replaced);
+      recordFingerprint(scope, result.id, fileFingerprint(contentHash));
+      await saveOriginalFile(result.id, file);
+    } catch (error) {
+      await removeAddedVersion(store, result.id, replaced);
+      await store.delete(result.id);
+      await deleteOriginalFile(result.id);
+      throw error;
+    }
+
+    return {
+      status: 200,
+      response: {
+        success: true,
+        documentId: result.id,
+        version,
+        replacedId: replaced?.memory.id,
+        message: replaced
+          ? `Uploaded as version ${version} of "${file.name}"`
+          : 'Document uploaded successfully',
+      },
+    };
+  } catch (error: unknown) {
+    const errorMessage =
+      error instanceof Error ? error.message : 'Unknown error occurred';
+    return {
+      status: 500,
+      response: {
+        success: false,
+        error: 'Upload failed',
+        details: errorMessage,
+      },
+    };
+  }
+}
@@ -0,0 +1,234 @@
+import { CUSTOM_FIELD_PREFIX } from '@/lib/document-details';
+import {
+  MemoryNotFoundError,
+  type KnowledgeStore,
+  type MemoryMetadata,
+  type StoredMemory,
+} from '@/lib/knowledge-store';
+import { LABELS_KEY } from '@/lib/labels';
+import { deleteOriginalFile } from '@/lib/original-files';
+import { collectionsFromTags, getScopedMemory, versionsTag, type RequestScope } from '@/lib/scope';
+import {
+  deleteVersionGroup,
+  deleteVersionRecord,
+  getVersionRecord,
+  listCurrentVersionsNamed,
+  listVersionRecords,
+  recordVersion,
+  setCurrentVersion,
+  type VersionRecord,
+} from '@/lib/version-records';
+import type { DocumentVersion } from '@/lib/versions';
+
+/** Metadata keys editors set on a document rather than its file, besides custom fields */
+const CARRIED_OVER_KEYS = [
+  'title',
+  'description',
+  'author',
+  'sourceUrl',
+  LABELS_KEY,
+  'editedAt',
+  'editedBy',
+];
+
+/**
+ * The current version of a document that a new upload replaces.
+ */
+export interface ReplacedVersion {
+  record: VersionRecord;
+  memory: StoredMemory;
+}
+
+/**
+ * Finds the current version of a file uploaded under the same name into any
+ * of the given collections. Trashed and deleted documents are not matched.
+ *
+ * @returns The version a new upload replaces, or null if the upload is a new document
+ */
+export async function findReplacedVersion(
+  store: KnowledgeStore,
+  scope: RequestScope,
+  originalName: string,
+  collections: string[]
+): Promise<ReplacedVersion | null> {
+  for (const record of listCurrentVersionsNamed(scope, originalName)) {
+    const memory = await getScopedMemory(store, scope, record.memoryId);
+    if (
+      memory &&
+      collectionsFromTags(scope, memory.containerTags).some((collection) =>
+        collections.includes(collection)
+      )
+    ) {
+      return { record, memory };
+    }
+  }
+  return null;
+}
+
+/**
+ * The metadata of a replaced version that editors set rather than its file:
+ * its details, custom fields and labels, and who last edited them.
+ */
+export function carriedOverMetadata(memory: StoredMemory): MemoryMetadata {
+  return Object.fromEntries(
+    Object.entries(memory.metadata).filter(
+      ([key]) => CARRIED_OVER_KEYS.includes(key) || key.startsWith(CUSTOM_FIELD_PREFIX)
+    )
+  ) as MemoryMetadata;
+}
+
+/**
+ * Records an uploaded file as the current version of its document. The
+ * version it replaces is then moved out of its collections, so only the new
+ * one is listed and searched by default. If anything fails, callers undo it
+ * with `removeAddedVersion`.
+ */
+export async function addVersion(
+  store: KnowledgeStore,
+  scope: RequestScope,
+  memoryId: string,
+  originalName: string,
+  version: number,
+  replaced: ReplacedVersion | null
+): Promise<VersionRecord> {
+  const record = recordVersion(scope, memoryId, originalName, version, replaced?.record ?? null);
+  if (replaced) {
+    await store.update(replaced.memory.id, { containerTags: [versionsTag(scope)] });
+  }
+  return record;
+}
+
+/**
+ * Undoes `addVersion` for an upload that could not be stored: the upload's
+ * version is forgotten, and the version it replaced is current again with
+ * its collections back.
+ */
+export async function removeAddedVersion(
+  store: KnowledgeStore,
+  memoryId: string,
+  replaced: ReplacedVersion | null
+) {
+  deleteVersionRecord(memoryId);
+  if (replaced) {
+    setCurrentVersion(replaced.record.groupId, replaced.memory.id);
+    await store.update(replaced.memory.id, { containerTags: replaced.memory.containerTags });
+  }
+}
+
+/**
+ * Makes an older version current again: it takes over the current version's
+ * collections, and the current version becomes an older one.
+ */
+export async function restoreVersion(
+  store: KnowledgeStore,
+  scope: RequestScope,
+  current: StoredMemory,
+  target: VersionRecord
+) {
+  await store.update(target.memoryId, { containerTags: current.containerTags });
+  try {
+    await store.update(current.id, { containerTags: [versionsTag(scope)] });
+  } catch (error) {
+    await store.update(target.memoryId, { containerTags: [versionsTag(scope)] });
+    throw error;
+  }
+  setCurrentVersion(target.groupId, target.memoryId);
+}
+
+/**
+ * Lists every version of a document, newest first. Versions whose memory has
+ * been deleted are left out.
+ *
+ * @returns The versions, or an empty list if the document has no history
+ */
+export async function listDocumentVersions(
+  store: KnowledgeStore,
+  memoryId: string
+): Promise<DocumentVersion[]> {
+  const record = getVersionRecord(memoryId);
+  if (!record) {
+    return [];
+  }
+
+  const versions: DocumentVersion[] = [];
+  for (const version of listVersionRecords(record.groupId)) {
+    try {
+      const memory = await store.get(version.memoryId);
+      versions.push({
+        id: version.memoryId,
+        version: version.version,
+        title: memory.title,
+        status: memory.status,
+        current: version.current,
+        createdBy: version.createdBy,
+        createdAt: version.createdAt,
+      });
+    } catch (error) {
+      if (!(error instanceof MemoryNotFoundError)) {
+        throw error;
+      }
+    }
+  }
+  return versions;
+}
+
+/**
+ * Fetches an older version of a document in the scope, with the container
+ * tags of the current version so callers can check collection access.
+ *
+ * @returns The version, or null if the memory is not an older version in the scope
+ */
+export async function getOlderVersion(
+  store: KnowledgeStore,
+  scope: RequestScope,
+  memoryId: string
+): Promise<StoredMemory | null> {
+  const record = getVersionRecord(memoryId);
+  const current = record && listVersionRecords(record.groupId).find((version) => version.current);
+  if (!record || record.current || !current) {
+    return null;
+  }
+
+  const currentMemory = await getScopedMemory(store, scope, current.memoryId);
+  if (!currentMemory) {
+    return null;
+  }
+
+  let memory: StoredMemory;
+  try {
+    memory = await store.get(memoryId);
+  } catch (error) {
+    if (error instanceof MemoryNotFoundError) {
+      return null;
+    }
+    throw error;
+  }
+  if (!memory.containerTags.includes(versionsTag(scope))) {
+    return null;
+  }
+  return { ...memory, containerTags: currentMemory.containerTags };
+}
+
+/**
+ * Permanently deletes the older versions of a document that is itself being
+ * deleted permanently.
+ */
+export async function deleteOlderVersions(store: KnowledgeStore, memoryId: string) {
+  const record = getVersionRecord(memoryId);
+  if (!record) {
+    return;
+  }
+
+  for (const version of listVersionRecords(record.groupId)) {
+    if (version.memoryId === memoryId) continue;
+    try {
+      await store.delete(version.memoryId);
+    } catch (error) {
+      if (!(error instanceof MemoryNotFoundError)) {
+        throw error;
+      }
+    }
+    await deleteOriginalFile(version.memoryId);
+  }
+  deleteVersionGroup(record.groupId);
+}
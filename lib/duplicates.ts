@@ -0,0 +1,51 @@
+/**
+ * An existing document that a new upload duplicates, as returned with
+ * `code: 'DUPLICATE'` when an upload is rejected.
+ */
+export interface DuplicateDocument {
+  id: string;
+  title: string | null;
+  /** Collections the document belongs to that the caller can view */
+  collections: string[];
+}
+
+/**
+ * What to do when an upload matches an existing document: reject it, or add
+ * the existing document to the upload's collection instead.
+ */
+export type DuplicateAction = 'reject' | 'link';
+
+/**
+ * Documents in a collection with the same content hash or normalized URL.
+ */
+export interface DuplicateGroup {
+  /** `sha256:<hex>` for files, `url:<normalized URL>` for links */
+  fingerprint: string;
+  documents: {
+    id: string;
+    title: string | null;
+    uploadedAt: string | null;
+  }[];
+}
+
+/**
+ * Response of `GET /api/collections/[name]/duplicates`.
+ */
+export interface DuplicatesReport {
+  groups: DuplicateGroup[];
+  /**
+   * Files uploaded before content hashing, which cannot be compared here or
+   * matched by later uploads
+   */
+  unchecked: number;
+}
+
+/**
+ * Builds the message shown when an upload is rejected as a duplicate.
+ */
+export function describeDuplicate(duplicate: DuplicateDocument): string {
+  const title = duplicate.title ? `"${duplicate.title}"` : 'This document';
+  return duplicate.collections.length > 0
+    ? `${title} already exists in ${duplicate.collections.map((name) => `"${name}"`).join(', ')}`
+    : `${title} already exists`;
+}
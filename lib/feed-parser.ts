@@ -0,0 +1,188 @@
+/**
+ * An entry read from an RSS or Atom feed.
+ */
+export interface FeedEntry {
+  /** Identifies the entry across polls: its guid or id, else its link, else title and date */
+  key: string;
+  title: string;
+  /** Absolute URL of the entry's page, if it has one */
+  link: string | null;
+  author: string | null;
+  /** ISO timestamp the entry was published, if the feed says */
+  publishedAt: string | null;
+  /** The entry's summary or content as plain text */
+  content: string;
+}
+
+/**
+ * An RSS (0.9x, 1.0, 2.0) or Atom feed.
+ */
+export interface ParsedFeed {
+  title: string;
+  entries: FeedEntry[];
+}
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: ' ',
+};
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, code: string) => {
+    if (code[0] === '#') {
+      const point =
+        code[1].toLowerCase() === 'x' ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10);
+      return Number.isFinite(point) && point <= 0x10ffff ? String.fromCodePoint(point) : entity;
+    }
+    return NAMED_ENTITIES[code.toLowerCase()] ?? entity;
+  });
+}
+
+/**
+ * The text of an element's body: CDATA sections verbatim, everything else
+ * with XML entities decoded.
+ */
+function elementText(body: string): string {
+  return body
+    .split(/(<!\[CDATA\[[\s\S]*?\]\]>)/)
+    .map((part) =>
+      part.startsWith('<![CDATA[') ? part.slice(9, -3) : decodeEntities(part)
+    )
+    .join('')
+    .trim();
+}
+
+/**
+ * Plain text from an HTML fragment, such as an entry's description.
+ */
+function htmlToText(html: string): string {
+  return decodeEntities(
+    html
+      .replace(/<(script|style)[\s\S]*?<\/\1>/gi, ' ')
+      .replace(/<br\s*\/?>|<\/(p|div|li|h[1-6])>/gi, '\n')
+      .replace(/<[^>]+>/g, ' ')
+  )
+    .replace(/[ \t]+/g, ' ')
+    .replace(/\s*\n\s*/g, '\n')
+    .trim();
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * The text of the first child element with one of the given names
+ * (including a namespace prefix, e.g. `dc:creator`), or null.
+ */
+function childText(block: string, ...names: string[]): string | null {
+  for (const name of names) {
+    const tag = escapeRegExp(name);
+    const match = block.match(new RegExp(`<${tag}(?:\\s[^>]*)?>([\\s\\S]*?)</${tag}>`, 'i'));
+    if (match) {
+      const text = elementText(match[1]);
+      if (text) return text;
+    }
+  }
+  return null;
+}
+
+function attribute(tag: string, name: string): string | null {
+  const match = tag.match(new RegExp(`\\s${name}\\s*=\\s*(?:"([^"]*)"|'([^']*)')`, 'i'));
+  return match ? decodeEntities(match[1] ?? match[2]) : null;
+}
+
+function absoluteUrl(href: string | null, baseUrl: string): string | null {
+  if (!href) return null;
+  try {
+    const url = new URL(href.trim(), baseUrl);
+    return url.protocol === 'http:' || url.protocol === 'https:' ? url.toString() : null;
+  } catch {
+    return null;
+  }
+}
+
+function isoDate(value: string | null): string | null {
+  if (!value) return null;
+  const time = Date.parse(value);
+  return Number.isNaN(time) ? null : new Date(time).toISOString();
+}
+
+/**
+ * The part of a feed before its first entry, where the feed's own title is.
+ */
+function feedHead(xml: string, entryTag: string): string {
+  const start = xml.search(new RegExp(`<${entryTag}[\\s>]`, 'i'));
+  return start === -1 ? xml : xml.slice(0, start);
+}
+
+function toEntry(
+  fields: Omit<FeedEntry, 'key' | 'title'> & { id: string | null; title: string | null }
+): FeedEntry {
+  const title = fields.title ? htmlToText(fields.title) : fields.link || 'Untitled';
+  return {
+    key: fields.id || fields.link || `${title}|${fields.publishedAt ?? ''}`,
+    title,
+    link: fields.link,
+    author: fields.author,
+    publishedAt: fields.publishedAt,
+    content: fields.content,
+  };
+}
+
+function parseRss(xml: string, feedUrl: string): ParsedFeed {
+  const entries = Array.from(xml.matchAll(/<item[\s>][\s\S]*?<\/item>/gi), ([item]) =>
+    toEntry({
+      id: childText(item, 'guid'),
+      title: childText(item, 'title'),
+      link: absoluteUrl(childText(item, 'link'), feedUrl),
+      author: childText(item, 'dc:creator', 'author'),
+      publishedAt: isoDate(childText(item, 'pubDate', 'dc:date')),
+      content: htmlToText(childText(item, 'content:encoded', 'description') ?? ''),
+    })
+  );
+  return { title: childText(feedHead(xml, 'item'), 'title') ?? feedUrl, entries };
+}
+
+function parseAtom(xml: string, feedUrl: string): ParsedFeed {
+  const head = feedHead(xml, 'entry');
+  const feedAuthor = childText(childText(head, 'author') ?? '', 'name');
+
+  const entries = Array.from(xml.matchAll(/<entry[\s>][\s\S]*?<\/entry>/gi), ([entry]) => {
+    const links = Array.from(entry.matchAll(/<link\s[^>]*>/gi), ([tag]) => tag);
+    const alternate =
+      links.find((tag) => (attribute(tag, 'rel') ?? 'alternate') === 'alternate') ?? links[0];
+    const authorBlock = entry.match(/<author[\s>][\s\S]*?<\/author>/i)?.[0] ?? '';
+
+    return toEntry({
+      id: childText(entry, 'id'),
+      title: childText(entry, 'title'),
+      link: absoluteUrl(alternate ? attribute(alternate, 'href') : null, feedUrl),
+      author: childText(authorBlock, 'name') ?? feedAuthor,
+      publishedAt: isoDate(childText(entry, 'published', 'updated')),
+      content: htmlToText(childText(entry, 'content', 'summary') ?? ''),
+    });
+  });
+  return { title: childText(head, 'title') ?? feedUrl, entries };
+}
+
+/**
+ * Parses an RSS or Atom feed. Relative entry links are resolved against the
+ * feed's URL.
+ *
+ * @throws Error if the document is not an RSS or Atom feed
+ */
+export function parseFeed(xml: string, feedUrl: string): ParsedFeed {
+  const root = xml.slice(0, 4096);
+  if (/<(rss|rdf:RDF)[\s>]/i.test(root)) {
+    return parseRss(xml, feedUrl);
+  }
+  if (/<feed[\s>]/i.test(root)) {
+    return parseAtom(xml, feedUrl);
+  }
+  throw new Error('Not an RSS or Atom feed');
+}
@@ -0,0 +1,221 @@
+import { parseFeed, type FeedEntry, type ParsedFeed } from '@/lib/feed-parser';
+import { hasFeedEntry, listScheduledFeeds, recordFeedEntry, recordFeedPoll } from '@/lib/feed-records';
+import type { Feed } from '@/lib/feeds';
+import { findDuplicate, linkDuplicate, normalizeUrl, urlFingerprint } from '@/lib/fingerprints';
+import type { JobContext, JobHandler } from '@/lib/job-runner';
+import type { KnowledgeStore, MemoryMetadata } from '@/lib/knowledge-store';
+import { fetchPublicUrl } from '@/lib/public-fetch';
+import { isRefreshDue } from '@/lib/refresh';
+import { backgroundScope, containerTagsFor, scopeMetadata, type RequestScope } from '@/lib/scope';
+import { addUrlDocument } from '@/lib/url-documents';
+
+/** Sent as the User-Agent when fetching feeds */
+const FEED_USER_AGENT = 'document-kb-feed-reader';
+
+/** Time allowed for fetching a feed before it is abandoned */
+const FETCH_TIMEOUT_MS = 15_000;
+
+/** Most new entries ingested by one poll; the rest wait for the next */
+const MAX_ENTRIES_PER_POLL = 50;
+
+const globalForFeeds = globalThis as unknown as {
+  /** The poll running for each feed, shared by scheduled polls and poll jobs */
+  documentKbFeedPolls?: Map<string, Promise<void>>;
+};
+
+function feedPolls(): Map<string, Promise<void>> {
+  return (globalForFeeds.documentKbFeedPolls ??= new Map());
+}
+
+/**
+ * Counts from one pass over the feeds due a poll.
+ */
+export interface FeedPollSummary {
+  /** Feeds polled */
+  polled: number;
+  /** Entries added as documents */
+  added: number;
+  /** Feeds that could not be read, and entries that could not be added */
+  failed: number;
+}
+
+/**
+ * Fetches and parses a feed.
+ *
+ * @throws Error if the feed cannot be fetched or is not an RSS or Atom feed
+ */
+export async function readFeed(url: string): Promise<ParsedFeed> {
+  const response = await fetchPublicUrl(url, {
+    headers: {
+      'User-Agent': FEED_USER_AGENT,
+      Accept: 'application/rss+xml, application/atom+xml, application/xml;q=0.9, */*;q=0.8',
+    },
+    signal: AbortSignal.timeout(FETCH_TIMEOUT_MS),
+  });
+  if (!response.ok) {
+    throw new Error(`Failed to fetch ${url}: ${response.status} ${response.statusText}`);
+  }
+  return parseFeed(await response.text(), response.url || url);
+}
+
+/**
+ * Adds a feed entry to the feed's collection: its page if it links to one,
+ * otherwise its text. A page already in the scope is added to the collection
+ * instead of being stored again.
+ *
+ * @returns The ID of the entry's document
+ */
+async function ingestEntry(
+  store: KnowledgeStore,
+  scope: RequestScope,
+  feed: Feed,
+  feedTitle: string,
+  entry: FeedEntry
+): Promise<string> {
+  const metadata: MemoryMetadata = {
+    feedId: feed.id,
+    feedUrl: feed.url,
+    feedTitle,
+    ...(entry.author && { author: entry.author }),
+    ...(entry.publishedAt && { publishedAt: entry.publishedAt }),
+  };
+
+  if (entry.link) {
+    const existing = await findDuplicate(store, scope, urlFingerprint(normalizeUrl(entry.link)));
+    if (existing) {
+      await linkDuplicate(store, scope, existing.memory, [feed.collection]);
+      return existing.memory.id;
+    }
+    const result = await addUrlDocument(store, scope, feed.collection, entry.link, metadata);
+    return result.id;
+  }
+
+  const result = await store.add({
+    content: entry.content ? `${entry.title}\n\n${entry.content}` : entry.title,
+    contentType: 'text',
+    containerTags: containerTagsFor(scope, [feed.collection]),
+    metadata: {
+      type: 'text',
+      originalName: entry.title,
+      uploadedAt: new Date().toISOString(),
+      ...metadata,
+      ...scopeMetadata(scope),
+    },
+  });
+  return result.id;
+}
+
+/**
+ * Polls a feed and adds each entry not seen before to the feed's
+ * collection, with `feedId`, `feedUrl`, `feedTitle`, `author` and
+ * `publishedAt` metadata. Up to 50 of the newest unseen entries are added
+ * per poll, oldest first. Entries that fail are tried again on the next
+ * poll. Polls of the same feed run one at a time: a poll waits for the one
+ * already running, so a scheduled poll and a "poll now" job never add the
+ * same entry twice.
+ *
+ * @throws Error if the feed cannot be read; the error is recorded on the feed
+ */
+export async function pollFeed(
+  store: KnowledgeStore,
+  scope: RequestScope,
+  feed: Feed,
+  context: JobContext
+): Promise<void> {
+  const polls = feedPolls();
+  const poll = (polls.get(feed.id) ?? Promise.resolve())
+    .catch(() => {})
+    .then(() => readAndIngestFeed(store, scope, feed, context));
+  polls.set(feed.id, poll);
+  try {
+    await poll;
+  } finally {
+    if (polls.get(feed.id) === poll) {
+      polls.delete(feed.id);
+    }
+  }
+}
+
+async function readAndIngestFeed(
+  store: KnowledgeStore,
+  scope: RequestScope,
+  feed: Feed,
+  context: JobContext
+): Promise<void> {
+  const polledAt = new Date().toISOString();
+  let parsed: ParsedFeed;
+  try {
+    parsed = await readFeed(feed.url);
+  } catch (error: any) {
+    recordFeedPoll(feed.id, { polledAt, error: error.message });
+    throw error;
+  }
+
+  const unseen = parsed.entries
+    .filter((entry) => !hasFeedEntry(feed.id, entry.key))
+    .slice(0, MAX_ENTRIES_PER_POLL)
+    .reverse();
+  context.setTotal(unseen.length);
+
+  let failures = 0;
+  for (const entry of unseen) {
+    try {
+      const memoryId = await ingestEntry(store, scope, feed, parsed.title, entry);
+      recordFeedEntry(feed.id, entry.key, memoryId);
+      context.succeeded();
+    } catch (error: any) {
+      console.error(`Failed to ingest feed entry ${entry.link ?? entry.key}:`, error);
+      failures++;
+      context.failed({ id: entry.link ?? entry.key, title: entry.title, error: error.message });
+    }
+  }
+
+  recordFeedPoll(feed.id, {
+    polledAt,
+    title: parsed.title,
+    ...(failures > 0 && {
+      error: `${failures} entr${failures === 1 ? 'y' : 'ies'} could not be added`,
+    }),
+  });
+}
+
+/**
+ * Polls a feed as a background job, when someone subscribes or asks for a poll.
+ */
+export function pollFeedJob(store: KnowledgeStore, scope: RequestScope, feed: Feed): JobHandler {
+  return (context) => pollFeed(store, scope, feed, context);
+}
+
+/**
+ * Polls every feed in every scope whose interval has passed since its last
+ * poll, one at a time. Entries are added on behalf of whoever subscribed.
+ * Feeds with a poll already running, e.g. a "poll now" job, are left for
+ * the next pass.
+ */
+export async function pollDueFeeds(store: KnowledgeStore): Promise<FeedPollSummary> {
+  const summary: FeedPollSummary = { polled: 0, added: 0, failed: 0 };
+  const now = Date.now();
+
+  for (const { scope, feed } of listScheduledFeeds()) {
+    if (!isRefreshDue(feed.lastPolledAt, feed.interval, now)) continue;
+    if (feedPolls().has(feed.id)) continue;
+
+    const context: JobContext = {
+      setTotal() {},
+      succeeded() {
+        summary.added++;
+      },
+      failed() {
+        summary.failed++;
+      },
+    };
+    summary.polled++;
+    try {
+      await pollFeed(store, backgroundScope(scope, feed.createdBy), feed, context);
+    } catch (error) {
+      console.error(`Failed to poll feed ${feed.url}:`, error);
+      summary.failed++;
+    }
+  }
+  return summary;
+}
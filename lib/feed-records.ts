@@ -0,0 +1,201 @@
+import { randomUUID } from 'node:crypto';
+import { getDatabase } from '@/lib/db';
+import type { Feed, FeedSubscription } from '@/lib/feeds';
+import { getJobRecord } from '@/lib/job-records';
+import type { RefreshInterval } from '@/lib/refresh';
+import { backgroundScope, type RequestScope } from '@/lib/scope';
+
+interface FeedRow {
+  id: string;
+  scope: string;
+  collection: string;
+  url: string;
+  title: string | null;
+  interval: RefreshInterval;
+  last_polled_at: string | null;
+  last_error: string | null;
+  job_id: string | null;
+  created_by: string;
+  created_at: string;
+  entry_count: number;
+}
+
+/**
+ * The outcome of one poll of a feed.
+ */
+export interface FeedPoll {
+  polledAt: string;
+  /** The feed's title; omitted when the feed could not be read */
+  title?: string;
+  error?: string;
+}
+
+const SELECT_FEEDS = `
+  SELECT f.*, (SELECT COUNT(*) FROM feed_entries e WHERE e.feed_id = f.id) AS entry_count
+  FROM feeds f`;
+
+function toFeed(scope: RequestScope, row: FeedRow): Feed {
+  return {
+    id: row.id,
+    collection: row.collection,
+    url: row.url,
+    title: row.title,
+    interval: row.interval,
+    entryCount: row.entry_count,
+    lastPolledAt: row.last_polled_at,
+    lastError: row.last_error,
+    job: row.job_id ? getJobRecord(scope, row.job_id) : null,
+    createdBy: row.created_by,
+    createdAt: row.created_at,
+  };
+}
+
+/**
+ * Subscribes a collection to a feed on behalf of the caller.
+ *
+ * @returns The new subscription, or null if the collection already has one for the URL
+ */
+export function createFeed(
+  scope: RequestScope,
+  collection: string,
+  subscription: FeedSubscription
+): Feed | null {
+  const id = randomUUID();
+  const result = getDatabase()
+    .prepare(
+      `INSERT OR IGNORE INTO feeds (id, scope, collection, url, interval, created_by, created_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?)`
+    )
+    .run(
+      id,
+      scope.id,
+      collection,
+      subscription.url,
+      subscription.interval,
+      scope.userId,
+      new Date().toISOString()
+    );
+  return result.changes > 0 ? getFeed(scope, id) : null;
+}
+
+/**
+ * Fetches a feed subscription in the caller's scope.
+ */
+export function getFeed(scope: RequestScope, id: string): Feed | null {
+  const row = getDatabase()
+    .prepare(`${SELECT_FEEDS} WHERE f.scope = ? AND f.id = ?`)
+    .get(scope.id, id) as FeedRow | undefined;
+  return row ? toFeed(scope, row) : null;
+}
+
+/**
+ * Lists a collection's feed subscriptions, oldest first.
+ */
+export function listFeeds(scope: RequestScope, collection: string): Feed[] {
+  const rows = getDatabase()
+    .prepare(`${SELECT_FEEDS} WHERE f.scope = ? AND f.collection = ? ORDER BY f.created_at`)
+    .all(scope.id, collection) as FeedRow[];
+  return rows.map((row) => toFeed(scope, row));
+}
+
+/**
+ * Lists the feeds in every scope that are polled on a schedule, with the
+ * scope each belongs to.
+ */
+export function listScheduledFeeds(): { scope: string; feed: Feed }[] {
+  const rows = getDatabase()
+    .prepare(`${SELECT_FEEDS} WHERE f.interval IN ('hourly', 'daily', 'weekly')`)
+    .all() as FeedRow[];
+  return rows.map((row) => ({ scope: row.scope, feed: toFeed(backgroundScope(row.scope), row) }));
+}
+
+/**
+ * Changes how often a feed is polled.
+ *
+ * @returns Whether the feed exists in the caller's scope
+ */
+export function setFeedInterval(scope: RequestScope, id: string, interval: RefreshInterval): boolean {
+  const result = getDatabase()
+    .prepare('UPDATE feeds SET interval = ? WHERE scope = ? AND id = ?')
+    .run(interval, scope.id, id);
+  return result.changes > 0;
+}
+
+/**
+ * Links a feed to the background job of a poll someone started.
+ */
+export function setFeedJob(id: string, jobId: string) {
+  getDatabase().prepare('UPDATE feeds SET job_id = ? WHERE id = ?').run(jobId, id);
+}
+
+/**
+ * Records the outcome of a poll. A failed poll keeps the previous title.
+ */
+export function recordFeedPoll(id: string, poll: FeedPoll) {
+  getDatabase()
+    .prepare(
+      `UPDATE feeds SET last_polled_at = ?, title = COALESCE(?, title), last_error = ?
+       WHERE id = ?`
+    )
+    .run(poll.polledAt, poll.title ?? null, poll.error ?? null, id);
+}
+
+/**
+ * Whether a feed entry has already been ingested.
+ */
+export function hasFeedEntry(feedId: string, entryKey: string): boolean {
+  return (
+    getDatabase()
+      .prepare('SELECT 1 FROM feed_entries WHERE feed_id = ? AND entry_key = ?')
+      .get(feedId, entryKey) !== undefined
+  );
+}
+
+/**
+ * Records that a feed entry was ingested as a document, so later polls skip it.
+ */
+export function recordFeedEntry(feedId: string, entryKey: string, memoryId: string) {
+  getDatabase()
+    .prepare(
+      `INSERT OR REPLACE INTO feed_entries (feed_id, entry_key, memory_id, ingested_at)
+       VALUES (?, ?, ?, ?)`
+    )
+    .run(feedId, entryKey, memoryId, new Date().toISOString());
+}
+
+/**
+ * Unsubscribes from a feed. Documents ingested from it are kept.
+ *
+ * @returns Whether the feed existed in the caller's scope
+ */
+export function deleteFeed(scope: RequestScope, id: string): boolean {
+  const result = getDatabase()
+    .prepare('DELETE FROM feeds WHERE scope = ? AND id = ?')
+    .run(scope.id, id);
+  return result.changes > 0;
+}
+
+/**
+ * Moves a collection's feeds to another name, when it is renamed or merged.
+ * Feeds the target collection already follows are dropped from the source.
+ */
+export function moveFeeds(scope: RequestScope, from: string, to: string) {
+  const db = getDatabase();
+  db.transaction(() => {
+    db.prepare('UPDATE OR IGNORE feeds SET collection = ? WHERE scope = ? AND collection = ?').run(
+      to,
+      scope.id,
+      from
+    );
+    db.prepare('DELETE FROM feeds WHERE scope = ? AND collection = ?').run(scope.id, from);
+  })();
+}
+
+/**
+ * Deletes a collection's feed subscriptions and their entry lists.
+ */
+export function deleteFeeds(scope: RequestScope, collection: string) {
+  getDatabase()
+    .prepare('DELETE FROM feeds WHERE scope = ? AND collection = ?')
+    .run(scope.id, collection);
+}
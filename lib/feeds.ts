@@ -0,0 +1,67 @@
+import type { Job } from '@/lib/jobs';
+import { isRefreshInterval, type RefreshInterval } from '@/lib/refresh';
+
+/** How often a feed is polled when a subscription does not say */
+export const DEFAULT_FEED_INTERVAL: RefreshInterval = 'hourly';
+
+/**
+ * A feed subscription, as accepted by `POST /api/collections/[name]/feeds`.
+ */
+export interface FeedSubscription {
+  /** URL of the RSS or Atom feed */
+  url: string;
+  /** How often the feed is polled; `off` only polls when asked */
+  interval: RefreshInterval;
+}
+
+/**
+ * A collection's subscription to an RSS or Atom feed, as returned by the
+ * feeds API.
+ */
+export interface Feed extends FeedSubscription {
+  id: string;
+  collection: string;
+  /** The feed's own title, from its last successful poll */
+  title: string | null;
+  /** Number of entries ingested so far */
+  entryCount: number;
+  /** ISO timestamp of the last poll, or null if never polled */
+  lastPolledAt: string | null;
+  /** Why the last poll failed, if it did */
+  lastError: string | null;
+  /** The background job of the last poll someone started, or null */
+  job: Job | null;
+  createdBy: string;
+  createdAt: string;
+}
+
+/**
+ * Validates a feed subscription from an untrusted request body. Unknown
+ * fields are ignored.
+ *
+ * @returns The validated subscription, or an error message
+ */
+export function parseFeedSubscription(
+  body: Record<string, unknown>
+): { subscription: FeedSubscription } | { error: string } {
+  if (typeof body.url !== 'string' || !body.url.trim()) {
+    return { error: 'URL is required' };
+  }
+  let url: URL;
+  try {
+    url = new URL(body.url.trim());
+  } catch {
+    return { error: 'URL is not valid' };
+  }
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    return { error: 'URL must use http or https' };
+  }
+
+  const interval = body.interval ?? DEFAULT_FEED_INTERVAL;
+  if (!isRefreshInterval(interval)) {
+    return { error: 'interval must be off, hourly, daily or weekly' };
+  }
+
+  url.hash = '';
+  return { subscription: { url: url.toString(), interval } };
+}
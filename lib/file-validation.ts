@@ -0,0 +1,234 @@
+import { MAX_UPLOAD_SIZE_BYTES, MAX_UPLOAD_SIZE_DISPLAY } from '@/lib/constants';
+
+/**
+ * Why an uploaded file was rejected, returned as `code` in upload responses.
+ */
+export type FileValidationCode =
+  | 'FILE_TOO_LARGE'
+  | 'UNSUPPORTED_FILE_TYPE'
+  | 'FILE_CONTENT_MISMATCH'
+  | 'EMPTY_FILE';
+
+/**
+ * A rejected file: the code, a message for the user, and the HTTP status the
+ * upload routes answer with.
+ */
+export interface FileValidationError {
+  code: FileValidationCode;
+  message: string;
+  status: number;
+}
+
+/**
+ * How a file type's content is recognized: by its leading magic bytes, as
+ * a ZIP archive holding a given folder, or as UTF-8 text.
+ */
+type FileSignature =
+  | { kind: 'magic'; bytes: number[] }
+  | { kind: 'zip'; folder: string }
+  | { kind: 'text' };
+
+interface FileTypeDefinition {
+  label: string;
+  extensions: string[];
+  /** MIME type the file is stored with, whatever the browser reported */
+  mimeType: string;
+  signature: FileSignature;
+}
+
+/**
+ * File types the knowledge store can extract text from, by ID. Which of
+ * them may be uploaded is set by `ALLOWED_FILE_TYPES`.
+ */
+export const FILE_TYPES = {
+  pdf: {
+    label: 'PDF',
+    extensions: ['.pdf'],
+    mimeType: 'application/pdf',
+    signature: { kind: 'magic', bytes: [0x25, 0x50, 0x44, 0x46, 0x2d] }, // %PDF-
+  },
+  docx: {
+    label: 'Word (DOCX)',
+    extensions: ['.docx'],
+    mimeType: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+    signature: { kind: 'zip', folder: 'word/' },
+  },
+  txt: {
+    label: 'Text',
+    extensions: ['.txt'],
+    mimeType: 'text/plain',
+    signature: { kind: 'text' },
+  },
+  md: {
+    label: 'Markdown',
+    extensions: ['.md', '.markdown'],
+    mimeType: 'text/markdown',
+    signature: { kind: 'text' },
+  },
+  csv: {
+    label: 'CSV',
+    extensions: ['.csv'],
+    mimeType: 'text/csv',
+    signature: { kind: 'text' },
+  },
+  json: {
+    label: 'JSON',
+    extensions: ['.json'],
+    mimeType: 'application/json',
+    signature: { kind: 'text' },
+  },
+  html: {
+    label: 'HTML',
+    extensions: ['.html', '.htm'],
+    mimeType: 'text/html',
+    signature: { kind: 'text' },
+  },
+} satisfies Record<string, FileTypeDefinition>;
+
+export type FileTypeId = keyof typeof FILE_TYPES;
+
+/** File types allowed when `ALLOWED_FILE_TYPES` is not set */
+const DEFAULT_ALLOWED_FILE_TYPES: FileTypeId[] = ['pdf', 'docx', 'txt', 'md'];
+
+/** Bytes read from the start and end of a file to recognize its content */
+const SNIFF_BYTES = 64 * 1024;
+
+/** ZIP local file header signature (PK\x03\x04) */
+const ZIP_MAGIC = [0x50, 0x4b, 0x03, 0x04];
+
+/**
+ * Every extension of a known file type, for file pickers.
+ */
+export const KNOWN_FILE_EXTENSIONS: string[] = Object.values(FILE_TYPES).flatMap(
+  (type) => type.extensions
+);
+
+/**
+ * File types that may be uploaded, from the comma-separated IDs in
+ * `ALLOWED_FILE_TYPES` (e.g. "pdf,docx,txt,md,csv"). Unknown IDs are ignored.
+ */
+export function getAllowedFileTypes(): FileTypeId[] {
+  const configured = (process.env.ALLOWED_FILE_TYPES ?? '')
+    .split(',')
+    .map((id) => id.trim().toLowerCase())
+    .filter((id): id is FileTypeId => id in FILE_TYPES);
+  return configured.length > 0 ? configured : DEFAULT_ALLOWED_FILE_TYPES;
+}
+
+/**
+ * The known file type a file name's extension belongs to.
+ */
+export function fileTypeForName(fileName: string): FileTypeId | null {
+  const name = fileName.toLowerCase();
+  const match = (Object.keys(FILE_TYPES) as FileTypeId[]).find((id) =>
+    FILE_TYPES[id].extensions.some((extension) => name.endsWith(extension))
+  );
+  return match ?? null;
+}
+
+/**
+ * Checks what can be known about a file before its content arrives: its
+ * size and whether its extension is allowed.
+ *
+ * @returns The reason the file is rejected, or null if it may be uploaded
+ */
+export function checkFileDeclaration(fileName: string, size: number): FileValidationError | null {
+  if (size === 0) {
+    return { code: 'EMPTY_FILE', message: `"${fileName}" is empty`, status: 422 };
+  }
+
+  if (size > MAX_UPLOAD_SIZE_BYTES) {
+    return {
+      code: 'FILE_TOO_LARGE',
+      message: `"${fileName}" exceeds the maximum upload size of ${MAX_UPLOAD_SIZE_DISPLAY}`,
+      status: 413,
+    };
+  }
+
+  const allowed = getAllowedFileTypes();
+  const type = fileTypeForName(fileName);
+  if (!type || !allowed.includes(type)) {
+    return {
+      code: 'UNSUPPORTED_FILE_TYPE',
+      message: `"${fileName}" is not a supported file type (allowed: ${allowed
+        .map((id) => FILE_TYPES[id].label)
+        .join(', ')})`,
+      status: 415,
+    };
+  }
+
+  return null;
+}
+
+function startsWith(bytes: Uint8Array, prefix: number[]): boolean {
+  return prefix.every((byte, index) => bytes[index] === byte);
+}
+
+function containsText(bytes: Uint8Array, text: string): boolean {
+  return new TextDecoder('latin1').decode(bytes).includes(text);
+}
+
+function isText(bytes: Uint8Array): boolean {
+  if (bytes.includes(0)) {
+    return false;
+  }
+  try {
+    // Streaming mode tolerates a character cut off at the end of the sample
+    new TextDecoder('utf-8', { fatal: true }).decode(bytes, { stream: true });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+async function matchesSignature(file: File, signature: FileSignature): Promise<boolean> {
+  const head = new Uint8Array(await file.slice(0, SNIFF_BYTES).arrayBuffer());
+
+  switch (signature.kind) {
+    case 'magic':
+      return startsWith(head, signature.bytes);
+    case 'zip': {
+      if (!startsWith(head, ZIP_MAGIC)) {
+        return false;
+      }
+      // Entry names appear in the local headers and in the central directory at the end
+      const tail = new Uint8Array(await file.slice(-SNIFF_BYTES).arrayBuffer());
+      return containsText(head, signature.folder) || containsText(tail, signature.folder);
+    }
+    case 'text':
+      return isText(head);
+  }
+}
+
+/**
+ * Validates an uploaded file on the server: its size, whether its type is
+ * allowed, and whether its content matches its extension. The browser's
+ * reported MIME type is ignored.
+ *
+ * @returns The reason the file is rejected, or null if it is valid
+ */
+export async function validateFile(file: File): Promise<FileValidationError | null> {
+  const declarationError = checkFileDeclaration(file.name, file.size);
+  if (declarationError) {
+    return declarationError;
+  }
+
+  const type = fileTypeForName(file.name)!;
+  if (!(await matchesSignature(file, FILE_TYPES[type].signature))) {
+    return {
+      code: 'FILE_CONTENT_MISMATCH',
+      message: `The content of "${file.name}" does not match a ${FILE_TYPES[type].label} file`,
+      status: 422,
+    };
+  }
+
+  return null;
+}
+
+/**
+ * The MIME type a valid file is stored with, based on its extension.
+ */
+export function mimeTypeForName(fileName: string): string {
+  const type = fileTypeForName(fileName);
+  return type ? FILE_TYPES[type].mimeType : 'application/octet-stream';
+}
@@ -0,0 +1,33 @@
+import { getDatabase } from '@/lib/db';
+import type { RequestScope } from '@/lib/scope';
+
+/**
+ * Records the content fingerprint of an uploaded document.
+ */
+export function recordFingerprint(scope: RequestScope, memoryId: string, fingerprint: string) {
+  getDatabase()
+    .prepare(
+      'INSERT OR REPLACE INTO document_fingerprints (memory_id, scope, fingerprint) VALUES (?, ?, ?)'
+    )
+    .run(memoryId, scope.id, fingerprint);
+}
+
+/**
+ * Lists the IDs of documents in the scope recorded with a fingerprint,
+ * newest first. Some may since have been trashed or deleted.
+ */
+export function listFingerprintMatches(scope: RequestScope, fingerprint: string): string[] {
+  const rows = getDatabase()
+    .prepare(
+      'SELECT memory_id FROM document_fingerprints WHERE scope = ? AND fingerprint = ? ORDER BY rowid DESC'
+    )
+    .all(scope.id, fingerprint) as { memory_id: string }[];
+  return rows.map((row) => row.memory_id);
+}
+
+/**
+ * Forgets the fingerprint of a document that no longer exists.
+ */
+export function deleteFingerprint(memoryId: string) {
+  getDatabase().prepare('DELETE FROM document_fingerprints WHERE memory_id = ?').run(memoryId);
+}
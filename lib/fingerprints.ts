@@ -0,0 +1,193 @@
+import { createHash } from 'node:crypto';
+import {
+  listAllMemories,
+  MemoryNotFoundError,
+  type KnowledgeStore,
+  type StoredMemory,
+} from '@/lib/knowledge-store';
+import type { DuplicateDocument, DuplicateGroup, DuplicatesReport } from '@/lib/duplicates';
+import { deleteFingerprint, listFingerprintMatches } from '@/lib/fingerprint-records';
+import { canAccessCollection } from '@/lib/permissions';
+import {
+  collectionsFromTags,
+  collectionTag,
+  isInScope,
+  type RequestScope,
+} from '@/lib/scope';
+
+/** Query parameters that only track where a visitor came from */
+const TRACKING_PARAM = /^(utm_.+|fbclid|gclid|mc_cid|mc_eid)$/i;
+
+/**
+ * SHA-256 hash of a file's bytes, as stored in `contentHash` metadata.
+ */
+export async function hashFile(file: File): Promise<string> {
+  return createHash('sha256')
+    .update(Buffer.from(await file.arrayBuffer()))
+    .digest('hex');
+}
+
+/**
+ * Normalizes a URL so that links to the same page compare equal: drops the
+ * fragment, tracking parameters, a leading `www.` and a trailing slash, and
+ * sorts the remaining query parameters. Stored in `normalizedUrl` metadata.
+ */
+export function normalizeUrl(url: string): string {
+  let parsed: URL;
+  try {
+    parsed = new URL(url.trim());
+  } catch {
+    return url.trim();
+  }
+
+  parsed.hash = '';
+  parsed.hostname = parsed.hostname.replace(/^www\./, '');
+  for (const key of [...parsed.searchParams.keys()]) {
+    if (TRACKING_PARAM.test(key)) {
+      parsed.searchParams.delete(key);
+    }
+  }
+  parsed.searchParams.sort();
+  if (parsed.pathname.length > 1 && parsed.pathname.endsWith('/')) {
+    parsed.pathname = parsed.pathname.replace(/\/+$/, '');
+  }
+  return parsed.toString();
+}
+
+/**
+ * Fingerprint of an uploaded file's content.
+ */
+export function fileFingerprint(contentHash: string): string {
+  return `sha256:${contentHash}`;
+}
+
+/**
+ * Fingerprint of a link.
+ */
+export function urlFingerprint(normalizedUrl: string): string {
+  return `url:${normalizedUrl}`;
+}
+
+/**
+ * Fingerprint of a stored document, from its `contentHash` or URL metadata.
+ *
+ * @returns The fingerprint, or null for files uploaded before content hashing
+ */
+export function memoryFingerprint(memory: StoredMemory): string | null {
+  const { contentHash, normalizedUrl, originalUrl } = memory.metadata;
+  if (typeof contentHash === 'string') {
+    return fileFingerprint(contentHash);
+  }
+  if (typeof normalizedUrl === 'string') {
+    return urlFingerprint(normalizedUrl);
+  }
+  if (typeof originalUrl === 'string') {
+    return urlFingerprint(normalizeUrl(originalUrl));
+  }
+  return null;
+}
+
+/**
+ * A document's title, falling back to its file name or URL while the
+ * backend has not extracted one yet.
+ */
+function displayTitle(memory: StoredMemory): string | null {
+  const { originalName, originalUrl } = memory.metadata;
+  if (memory.title) return memory.title;
+  if (typeof originalName === 'string') return originalName;
+  if (typeof originalUrl === 'string') return originalUrl;
+  return null;
+}
+
+/**
+ * Finds a document in the scope with the given fingerprint that the caller
+ * can view. Trashed documents and older versions are not matched, and the
+ * fingerprints of deleted documents are forgotten.
+ *
+ * @returns The existing document, or null if the upload is new
+ */
+export async function findDuplicate(
+  store: KnowledgeStore,
+  scope: RequestScope,
+  fingerprint: string
+): Promise<{ memory: StoredMemory; duplicate: DuplicateDocument } | null> {
+  for (const id of listFingerprintMatches(scope, fingerprint)) {
+    let memory: StoredMemory;
+    try {
+      memory = await store.get(id);
+    } catch (error) {
+      if (error instanceof MemoryNotFoundError) {
+        deleteFingerprint(id);
+        continue;
+      }
+      throw error;
+    }
+
+    const collections = isInScope(scope, memory)
+      ? collectionsFromTags(scope, memory.containerTags).filter((collection) =>
+          canAccessCollection(scope, collection, 'viewer')
+        )
+      : [];
+    if (collections.length > 0) {
+      return { memory, duplicate: { id: memory.id, title: displayTitle(memory), collections } };
+    }
+  }
+  return null;
+}
+
+/**
+ * Adds an existing document to collections instead of uploading a copy.
+ */
+export async function linkDuplicate(
+  store: KnowledgeStore,
+  scope: RequestScope,
+  memory: StoredMemory,
+  collections: string[]
+) {
+  const tags = collections
+    .map((collection) => collectionTag(scope, collection))
+    .filter((tag) => !memory.containerTags.includes(tag));
+  if (tags.length > 0) {
+    await store.update(memory.id, { containerTags: [...memory.containerTags, ...tags] });
+  }
+}
+
+/**
+ * Groups a collection's documents that share a content hash or normalized
+ * URL. Files uploaded before content hashing have no hash and cannot be
+ * hashed now, since their bytes were not kept; they are counted as unchecked.
+ * Notes and feed entries stored as text have no fingerprint and are left out.
+ */
+export async function getDuplicatesReport(
+  store: KnowledgeStore,
+  scope: RequestScope,
+  collection: string
+): Promise<DuplicatesReport> {
+  const memories = await listAllMemories(store, { containerTags: [collectionTag(scope, collection)] });
+
+  const groups = new Map<string, DuplicateGroup>();
+  let unchecked = 0;
+  for (const memory of memories) {
+    const fingerprint = memoryFingerprint(memory);
+    if (!fingerprint) {
+      // Uploaded files carry their MIME type; text documents do not
+      if (typeof memory.metadata.fileType === 'string') {
+        unchecked++;
+      }
+      continue;
+    }
+
+    const group = groups.get(fingerprint) ?? { fingerprint, documents: [] };
+    group.documents.push({
+      id: memory.id,
+      title: displayTitle(memory),
+      uploadedAt: (memory.metadata.uploadedAt as string | undefined) ?? memory.createdAt,
+    });
+    groups.set(fingerprint, group);
+  }
+
+  return {
+    groups: [...groups.values()].filter((group) => group.documents.length > 1),
+    unchecked,
+  };
+}
@@ -0,0 +1,161 @@
+import { randomUUID } from 'node:crypto';
+import { getDatabase } from '@/lib/db';
+import type { Job, JobFailure, JobKind, JobStatus } from '@/lib/jobs';
+import type { RequestScope } from '@/lib/scope';
+
+interface JobRow {
+  id: string;
+  kind: JobKind;
+  collection: string;
+  target: string | null;
+  status: JobStatus;
+  total: number;
+  processed: number;
+  failures: string;
+  error: string | null;
+  created_by: string;
+  created_at: string;
+  updated_at: string;
+  finished_at: string | null;
+}
+
+/** Number of jobs returned by `listJobRecords` */
+const JOB_LIST_LIMIT = 20;
+
+const globalForJobs = globalThis as unknown as { documentKbJobsRecovered?: boolean };
+
+/**
+ * Returns the database, first failing any job left queued or running by a
+ * previous server process. Jobs run in-process, so those will never finish.
+ */
+function jobsDatabase() {
+  const db = getDatabase();
+  if (!globalForJobs.documentKbJobsRecovered) {
+    const now = new Date().toISOString();
+    db.prepare(
+      `UPDATE jobs SET status = 'failed', error = 'Interrupted by a server restart',
+         updated_at = ?, finished_at = ?
+       WHERE status IN ('queued', 'running')`
+    ).run(now, now);
+    globalForJobs.documentKbJobsRecovered = true;
+  }
+  return db;
+}
+
+function toJob(row: JobRow): Job {
+  const progress =
+    row.total > 0
+      ? Math.round((row.processed / row.total) * 100)
+      : row.status === 'completed'
+        ? 100
+        : 0;
+
+  return {
+    id: row.id,
+    kind: row.kind,
+    collection: row.collection,
+    target: row.target,
+    status: row.status,
+    total: row.total,
+    processed: row.processed,
+    progress,
+    failures: JSON.parse(row.failures),
+    error: row.error,
+    createdBy: row.created_by,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+    finishedAt: row.finished_at,
+  };
+}
+
+function getJobById(id: string): Job | null {
+  const row = jobsDatabase().prepare('SELECT * FROM jobs WHERE id = ?').get(id) as
+    | JobRow
+    | undefined;
+  return row ? toJob(row) : null;
+}
+
+/**
+ * Creates a queued job started by the caller.
+ */
+export function createJobRecord(
+  scope: RequestScope,
+  kind: JobKind,
+  collection: string,
+  target: string | null = null
+): Job {
+  const id = randomUUID();
+  const now = new Date().toISOString();
+  jobsDatabase()
+    .prepare(
+      `INSERT INTO jobs (id, scope, kind, collection, target, created_by, created_at, updated_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?)`
+    )
+    .run(id, scope.id, kind, collection, target, scope.userId, now, now);
+  return getJobById(id)!;
+}
+
+/**
+ * Fetches a job in the caller's scope.
+ *
+ * @returns The job, or null if it does not exist in the scope
+ */
+export function getJobRecord(scope: RequestScope, id: string): Job | null {
+  const row = jobsDatabase()
+    .prepare('SELECT * FROM jobs WHERE scope = ? AND id = ?')
+    .get(scope.id, id) as JobRow | undefined;
+  return row ? toJob(row) : null;
+}
+
+/**
+ * Lists the most recent jobs the caller started in the scope, newest first.
+ */
+export function listJobRecords(scope: RequestScope): Job[] {
+  const rows = jobsDatabase()
+    .prepare(
+      `SELECT * FROM jobs WHERE scope = ? AND created_by = ?
+       ORDER BY created_at DESC LIMIT ?`
+    )
+    .all(scope.id, scope.userId, JOB_LIST_LIMIT) as JobRow[];
+  return rows.map(toJob);
+}
+
+/**
+ * Marks a queued job as running.
+ */
+export function markJobRunning(id: string) {
+  jobsDatabase()
+    .prepare(`UPDATE jobs SET status = 'running', updated_at = ? WHERE id = ?`)
+    .run(new Date().toISOString(), id);
+}
+
+/**
+ * Records how far a running job has got.
+ */
+export function saveJobProgress(
+  id: string,
+  { total, processed, failures }: { total: number; processed: number; failures: JobFailure[] }
+) {
+  jobsDatabase()
+    .prepare('UPDATE jobs SET total = ?, processed = ?, failures = ?, updated_at = ? WHERE id = ?')
+    .run(total, processed, JSON.stringify(failures), new Date().toISOString(), id);
+}
+
+/**
+ * Marks a job as finished.
+ *
+ * @param error - Why the job stopped early; omit when it ran to completion
+ */
+export function finishJob(id: string, error?: string) {
+  const now = new Date().toISOString();
+  jobsDatabase()
+    .prepare('UPDATE jobs SET status = ?, error = ?, updated_at = ?, finished_at = ? WHERE id = ?')
+    .run(error === undefined ? 'completed' : 'failed', error ?? null, now, now, id);
+}
+
+/**
+ * Deletes a job record. Only finished jobs should be removed.
+ */
+export function deleteJobRecord(scope: RequestScope, id: string) {
+  jobsDatabase().prepare('DELETE FROM jobs WHERE scope = ? AND id = ?').run(scope.id, id);
+}
@@ -0,0 +1,128 @@
+import {
+  createJobRecord,
+  finishJob,
+  markJobRunning,
+  saveJobProgress,
+} from '@/lib/job-records';
+import type { Job, JobFailure, JobKind } from '@/lib/jobs';
+import type { RequestScope } from '@/lib/scope';
+
+/** Minutes a job may run when `JOB_TIMEOUT_MINUTES` is not set */
+const DEFAULT_JOB_TIMEOUT_MINUTES = 60;
+
+/**
+ * Progress reporting handed to a running job.
+ *
+ * Once the job has timed out, every call throws, so handlers stop at their
+ * next document.
+ */
+export interface JobContext {
+  /** Sets the number of documents the job will process */
+  setTotal(total: number): void;
+  /** Records that a document was processed */
+  succeeded(): void;
+  /** Records that a document could not be processed */
+  failed(failure: JobFailure): void;
+}
+
+/**
+ * The work a job performs. Throwing marks the whole job as failed; per-document
+ * problems should be reported through `context.failed` instead.
+ */
+export type JobHandler = (context: JobContext) => Promise<void>;
+
+const globalForJobs = globalThis as unknown as {
+  documentKbJobQueues?: Map<string, Promise<void>>;
+};
+
+/**
+ * Minutes a job may run before it is marked failed, from
+ * `JOB_TIMEOUT_MINUTES`. Zero lets jobs run without a limit.
+ */
+export function getJobTimeoutMinutes(): number {
+  const configured = Number.parseInt(process.env.JOB_TIMEOUT_MINUTES ?? '', 10);
+  return Number.isInteger(configured) && configured >= 0 ? configured : DEFAULT_JOB_TIMEOUT_MINUTES;
+}
+
+async function runJob(id: string, handler: JobHandler) {
+  const state = { total: 0, processed: 0, failures: [] as JobFailure[] };
+  let timedOut = false;
+  markJobRunning(id);
+
+  const checkTimeout = () => {
+    if (timedOut) {
+      throw new Error('Job timed out');
+    }
+  };
+
+  const context: JobContext = {
+    setTotal(total) {
+      checkTimeout();
+      state.total = total;
+      saveJobProgress(id, state);
+    },
+    succeeded() {
+      checkTimeout();
+      state.processed++;
+      saveJobProgress(id, state);
+    },
+    failed(failure) {
+      checkTimeout();
+      state.processed++;
+      state.failures.push(failure);
+      saveJobProgress(id, state);
+    },
+  };
+
+  // A hung handler cannot be stopped, but it stops holding up the queue
+  const timeoutMinutes = getJobTimeoutMinutes();
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    if (timeoutMinutes > 0) {
+      timer = setTimeout(() => {
+        timedOut = true;
+        reject(new Error(`Job timed out after ${timeoutMinutes} minutes`));
+      }, timeoutMinutes * 60 * 1000);
+    }
+  });
+
+  try {
+    await Promise.race([handler(context), timeout]);
+    finishJob(id);
+  } catch (error: any) {
+    console.error(`Job ${id} failed:`, error);
+    finishJob(id, error.message);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * Records a job and runs it in the background, returning immediately.
+ *
+ * Each scope has its own queue: a scope's jobs run one at a time in the order
+ * they were started, so two jobs never work on the same collection at once,
+ * while jobs of other scopes run alongside them.
+ */
+export function startJob(
+  scope: RequestScope,
+  kind: JobKind,
+  collection: string,
+  target: string | null,
+  handler: JobHandler
+): Job {
+  const job = createJobRecord(scope, kind, collection, target);
+
+  const queues = (globalForJobs.documentKbJobQueues ??= new Map());
+  const previous = queues.get(scope.id) ?? Promise.resolve();
+  const next = previous.then(() => runJob(job.id, handler));
+  queues.set(scope.id, next);
+  // Forget the queue once it is empty so idle scopes do not pile up
+  next.then(() => {
+    if (queues.get(scope.id) === next) {
+      queues.delete(scope.id);
+    }
+  });
+
+  return job;
+}
@@ -0,0 +1,97 @@
+/**
+ * Long-running collection operations that run as background jobs.
+ */
+export const JOB_KINDS = [
+  'delete-collection',
+  'rename-collection',
+  'merge-collection',
+  'reindex-collection',
+  'restore-collection',
+  'purge-collection',
+  'reprocess-failed',
+  'crawl',
+  'poll-feed',
+] as const;
+
+export type JobKind = (typeof JOB_KINDS)[number];
+
+/**
+ * Lifecycle of a job. `completed` means every document was attempted, even
+ * if some failed; `failed` means the job stopped early.
+ */
+export type JobStatus = 'queued' | 'running' | 'completed' | 'failed';
+
+/**
+ * A document a job could not process.
+ */
+export interface JobFailure {
+  /** Document ID */
+  id: string;
+  title: string | null;
+  error: string;
+}
+
+/**
+ * A background job as returned by `/api/jobs`.
+ */
+export interface Job {
+  id: string;
+  kind: JobKind;
+  /** Collection the job operates on */
+  collection: string;
+  /** New name for renames, the collection merged into, or the URL crawled */
+  target: string | null;
+  status: JobStatus;
+  /** Number of documents to process, known once the job has started */
+  total: number;
+  /** Documents processed so far, including failures */
+  processed: number;
+  /** Completion percentage (0-100) */
+  progress: number;
+  failures: JobFailure[];
+  /** Why the job stopped early, if it failed */
+  error: string | null;
+  createdBy: string;
+  createdAt: string;
+  updatedAt: string;
+  finishedAt: string | null;
+}
+
+/**
+ * Window event dispatched when the client starts a job, so the job tray can
+ * pick it up without waiting for its next poll.
+ */
+export const JOB_STARTED_EVENT = 'document-kb:job-started';
+
+/**
+ * Whether the job is still queued or running.
+ */
+export function isJobActive(job: Job): boolean {
+  return job.status === 'queued' || job.status === 'running';
+}
+
+/**
+ * Short human-readable description of what a job does.
+ */
+export function describeJob(job: Job): string {
+  switch (job.kind) {
+    case 'delete-collection':
+      return `Delete "${job.collection}"`;
+    case 'rename-collection':
+      return `Rename "${job.collection}" to "${job.target}"`;
+    case 'merge-collection':
+      return `Merge "${job.collection}" into "${job.target}"`;
+    case 'reindex-collection':
+      return `Re-index "${job.collection}"`;
+    case 'restore-collection':
+      return `Restore "${job.collection}" from the trash`;
+    case 'purge-collection':
+      return `Permanently delete "${job.collection}"`;
+    case 'reprocess-failed':
+      return `Reprocess failed documents in "${job.collection}"`;
+    case 'crawl':
+      return `Crawl ${job.target} into "${job.collection}"`;
+    case 'poll-feed':
+      return `Check ${job.target} for new entries in "${job.collection}"`;
+  }
+}
@@ -0,0 +1,117 @@
+import { cosineSimilarity, embedMany } from 'ai';
+import { createOpenAI } from '@ai-sdk/openai';
+
+/**
+ * Turns text into vectors for the local embedding index.
+ */
+export interface Embedder {
+  /** Embeds each text into a vector */
+  embed(texts: string[]): Promise<number[][]>;
+  /** Scores how relevant a stored vector is to a query vector, in [0, 1] */
+  similarity(query: number[], candidate: number[]): number;
+}
+
+const HASHING_DIMENSIONS = 2048;
+
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'can', 'do', 'does', 'for',
+  'from', 'has', 'have', 'how', 'i', 'in', 'is', 'it', 'its', 'me', 'my', 'of',
+  'on', 'or', 'our', 'so', 'that', 'the', 'their', 'there', 'these', 'this',
+  'to', 'was', 'we', 'what', 'when', 'where', 'which', 'who', 'why', 'will',
+  'with', 'you', 'your',
+]);
+
+function tokenize(text: string): string[] {
+  return (text.toLowerCase().match(/[\p{L}\p{N}]+/gu) || []).filter(
+    (token) => token.length > 1 && !STOP_WORDS.has(token)
+  );
+}
+
+function hashToken(token: string): number {
+  // FNV-1a
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < token.length; i++) {
+    hash ^= token.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0) % HASHING_DIMENSIONS;
+}
+
+/**
+ * Dependency-free embedder that hashes terms into a fixed-size presence
+ * vector. Works fully offline and is deterministic, which makes it the
+ * default for air-gapped installs and tests.
+ *
+ * Similarity is the fraction of query terms present in the candidate, so
+ * scores stay comparable to the relevance thresholds used by the Q&A route.
+ */
+export class HashingEmbedder implements Embedder {
+  async embed(texts: string[]): Promise<number[][]> {
+    return texts.map((text) => {
+      const vector = new Array<number>(HASHING_DIMENSIONS).fill(0);
+      for (const token of tokenize(text)) {
+        vector[hashToken(token)] = 1;
+      }
+      return vector;
+    });
+  }
+
+  similarity(query: number[], candidate: number[]): number {
+    let queryTerms = 0;
+    let shared = 0;
+    for (let i = 0; i < query.length; i++) {
+      if (query[i] > 0) {
+        queryTerms++;
+        if (candidate[i] > 0) shared++;
+      }
+    }
+    return queryTerms === 0 ? 0 : shared / queryTerms;
+  }
+}
+
+/**
+ * Embedder backed by any OpenAI-compatible embeddings endpoint, such as
+ * OpenAI itself or a local Ollama / llama.cpp server.
+ */
+export class ModelEmbedder implements Embedder {
+  private readonly provider: ReturnType<typeof createOpenAI>;
+
+  constructor(
+    private readonly modelId: string,
+    options: { baseURL?: string; apiKey?: string } = {}
+  ) {
+    this.provider = createOpenAI({
+      baseURL: options.baseURL,
+      // Local servers ignore the key, but the provider requires one to be set.
+      apiKey: options.apiKey || 'local',
+    });
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    const { embeddings } = await embedMany({
+      model: this.provider.embedding(this.modelId),
+      values: texts,
+    });
+    return embeddings;
+  }
+
+  similarity(query: number[], candidate: number[]): number {
+    return cosineSimilarity(query, candidate);
+  }
+}
+
+/**
+ * Creates the embedder configured through `LOCAL_EMBEDDING_MODEL`,
+ * `LOCAL_EMBEDDING_BASE_URL` and `LOCAL_EMBEDDING_API_KEY`, falling back to
+ * the offline hashing embedder when no model is configured.
+ */
+export function createEmbedder(): Embedder {
+  const modelId = process.env.LOCAL_EMBEDDING_MODEL;
+  if (!modelId) {
+    return new HashingEmbedder();
+  }
+  return new ModelEmbedder(modelId, {
+    baseURL: process.env.LOCAL_EMBEDDING_BASE_URL,
+    apiKey: process.env.LOCAL_EMBEDDING_API_KEY,
+  });
+}
@@ -0,0 +1,27 @@
+/**
+ * Error thrown by a knowledge store when a memory does not exist.
+ */
+export class MemoryNotFoundError extends Error {
+  /** The ID of the memory that was requested */
+  public readonly memoryId: string;
+
+  constructor(memoryId: string) {
+    super(`Memory ${memoryId} not found`);
+    this.name = 'MemoryNotFoundError';
+    this.memoryId = memoryId;
+  }
+}
+
+/**
+ * Error thrown when a pagination cursor cannot be decoded.
+ */
+export class InvalidCursorError extends Error {
+  /** The cursor that was supplied */
+  public readonly cursor: string;
+
+  constructor(cursor: string) {
+    super('Invalid pagination cursor');
+    this.name = 'InvalidCursorError';
+    this.cursor = cursor;
+  }
+}
@@ -0,0 +1,50 @@
+import { SqliteStore } from './sqlite-store';
+import { SupermemoryStore } from './supermemory-store';
+import type { KnowledgeStore } from './types';
+
+export type * from './types';
+export { InvalidCursorError, MemoryNotFoundError } from './errors';
+export {
+  decodeCursor,
+  encodeCursor,
+  iterateMemories,
+  listAllMemories,
+  MAX_PAGE_SIZE,
+  nextCursor,
+} from './pagination';
+
+/**
+ * Names accepted by the `KNOWLEDGE_STORE` environment variable.
+ */
+export type KnowledgeStoreBackend = 'supermemory' | 'sqlite';
+
+/**
+ * Creates a knowledge store for the given backend.
+ *
+ * @throws Error if the backend name is unknown or its configuration is missing
+ */
+export function createKnowledgeStore(backend: string = 'supermemory'): KnowledgeStore {
+  switch (backend) {
+    case 'supermemory':
+      return new SupermemoryStore(process.env.SUPERMEMORY_API_KEY);
+    case 'sqlite':
+      return new SqliteStore();
+    default:
+      throw new Error(
+        `Unknown KNOWLEDGE_STORE "${backend}". Expected one of: supermemory, sqlite.`
+      );
+  }
+}
+
+let store: KnowledgeStore | undefined;
+
+/**
+ * Returns the knowledge store selected by the `KNOWLEDGE_STORE` environment
+ * variable (defaults to Supermemory), creating it on first use.
+ */
+export function getKnowledgeStore(): KnowledgeStore {
+  if (!store) {
+    store = createKnowledgeStore(process.env.KNOWLEDGE_STORE || undefined);
+  }
+  return store;
+}
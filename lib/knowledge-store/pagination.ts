@@ -0,0 +1,116 @@
+import { InvalidCursorError } from './errors';
+import type {
+  KnowledgeStore,
+  ListMemoriesParams,
+  ListMemoriesResult,
+  ListPosition,
+  StoredMemory,
+} from './types';
+
+/** Largest page a single list request may ask for */
+export const MAX_PAGE_SIZE = 100;
+
+/** Page size used when walking every page on the server */
+const ITERATION_PAGE_SIZE = 100;
+
+/**
+ * Encodes a list position as an opaque cursor, so clients do not depend on
+ * how the backend paginates.
+ */
+export function encodeCursor(position: ListPosition): string {
+  return Buffer.from(JSON.stringify(position)).toString('base64url');
+}
+
+/**
+ * Decodes a cursor created by `encodeCursor`.
+ *
+ * @throws InvalidCursorError if the cursor is malformed
+ */
+export function decodeCursor(cursor: string): ListPosition {
+  try {
+    const { sortValue, id, offset } = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+    if (
+      typeof sortValue === 'string' &&
+      typeof id === 'string' &&
+      Number.isInteger(offset) &&
+      offset >= 0
+    ) {
+      return { sortValue, id, offset };
+    }
+  } catch {
+    // Fall through to the error below
+  }
+  throw new InvalidCursorError(cursor);
+}
+
+/**
+ * Cursor for the page after `result`, or null if it is the last page.
+ */
+export function nextCursor(result: ListMemoriesResult): string | null {
+  return result.next ? encodeCursor(result.next) : null;
+}
+
+/**
+ * Position of `memory` in a listing sorted by `sort`, where it is memory
+ * number `offset`.
+ */
+export function positionOf(
+  memory: StoredMemory,
+  sort: NonNullable<ListMemoriesParams['sort']>,
+  offset: number
+): ListPosition {
+  return { sortValue: memory[sort], id: memory.id, offset };
+}
+
+/**
+ * Whether `memory` sorts after `position`, comparing the sort field and then
+ * the ID in the listing's direction.
+ */
+export function isAfterPosition(
+  memory: StoredMemory,
+  position: ListPosition,
+  sort: NonNullable<ListMemoriesParams['sort']>,
+  order: NonNullable<ListMemoriesParams['order']>
+): boolean {
+  // Compare code units, as SQLite does, rather than by locale
+  const [value, other] =
+    memory[sort] === position.sortValue
+      ? [memory.id, position.id]
+      : [memory[sort], position.sortValue];
+  return order === 'asc' ? value > other : value < other;
+}
+
+/**
+ * Yields every memory matching `params`, fetching one page at a time.
+ *
+ * Each page starts after the last memory of the previous one, so memories
+ * removed while iterating do not cause others to be skipped. Memories whose
+ * sort field changes while iterating may be skipped or repeated; use
+ * `listAllMemories` first when the loop itself updates what it lists.
+ */
+export async function* iterateMemories(
+  store: KnowledgeStore,
+  params: Omit<ListMemoriesParams, 'after' | 'limit'> = {}
+): AsyncGenerator<StoredMemory> {
+  let after: ListPosition | undefined;
+
+  do {
+    const result = await store.list({ ...params, limit: ITERATION_PAGE_SIZE, after });
+    yield* result.memories;
+    after = result.next ?? undefined;
+  } while (after);
+}
+
+/**
+ * Collects every memory matching `params` across all pages.
+ */
+export async function listAllMemories(
+  store: KnowledgeStore,
+  params: Omit<ListMemoriesParams, 'after' | 'limit'> = {}
+): Promise<StoredMemory[]> {
+  const memories: StoredMemory[] = [];
+  for await (const memory of iterateMemories(store, params)) {
+    memories.push(memory);
+  }
+  return memories;
+}
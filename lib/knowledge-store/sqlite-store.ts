@@ -0,0 +1,482 @@
+import { randomUUID } from 'node:crypto';
+import type Database from 'better-sqlite3';
+import { getDatabase } from '@/lib/db';
+import { createEmbedder, type Embedder } from './embeddings';
+import { MemoryNotFoundError } from './errors';
+import { positionOf } from './pagination';
+import {
+  chunkText,
+  extractFileText,
+  extractUrlText,
+  isUrl,
+  type ExtractedText,
+} from './text-extraction';
+import type {
+  AddMemoryParams,
+  AddMemoryResult,
+  KnowledgeStore,
+  ListMemoriesParams,
+  ListMemoriesResult,
+  MemoryMetadata,
+  MemoryStatus,
+  SearchParams,
+  SearchResult,
+  StoredMemory,
+  UpdateMemoryParams,
+  UploadFileParams,
+} from './types';
+
+interface MemoryRow {
+  id: string;
+  title: string | null;
+  content: string | null;
+  type: string;
+  status: MemoryStatus;
+  metadata: string;
+  created_at: string;
+  updated_at: string;
+}
+
+interface ChunkRow {
+  memory_id: string;
+  content: string;
+  embedding: Buffer;
+  title: string | null;
+  type: string;
+  metadata: string;
+}
+
+const SORT_COLUMNS = {
+  createdAt: 'created_at',
+  updatedAt: 'updated_at',
+} as const;
+
+/** Maximum number of chunks returned per search result */
+const MAX_CHUNKS_PER_RESULT = 5;
+
+function titleFromText(text: string): string {
+  const firstLine = text.split('\n').find((line) => line.trim()) || 'Untitled';
+  const title = firstLine.replace(/^#+\s*/, '').trim();
+  return title.length > 80 ? `${title.slice(0, 77)}...` : title;
+}
+
+function toBlob(vector: number[]): Buffer {
+  return Buffer.from(new Float32Array(vector).buffer);
+}
+
+function fromBlob(blob: Buffer): number[] {
+  return Array.from(new Float32Array(blob.buffer, blob.byteOffset, blob.byteLength / 4));
+}
+
+/**
+ * Builds an `EXISTS` clause restricting memories (aliased `m`) to those
+ * carrying at least one of the given tags.
+ */
+function tagFilter(containerTags: string[] | undefined): { sql: string; params: string[] } {
+  if (!containerTags?.length) {
+    return { sql: '', params: [] };
+  }
+  const placeholders = containerTags.map(() => '?').join(', ');
+  return {
+    sql: `EXISTS (SELECT 1 FROM memory_tags t WHERE t.memory_id = m.id AND t.tag IN (${placeholders}))`,
+    params: containerTags,
+  };
+}
+
+/**
+ * Builds `EXISTS` clauses restricting memories (aliased `m`) to those whose
+ * `labels` metadata contains every one of the given labels.
+ */
+function labelFilter(labels: string[] | undefined): { sql: string; params: string[] } {
+  if (!labels?.length) {
+    return { sql: '', params: [] };
+  }
+  return {
+    sql: labels
+      .map(() => `EXISTS (SELECT 1 FROM json_each(m.metadata, '$.labels') l WHERE l.value = ?)`)
+      .join(' AND '),
+    params: labels,
+  };
+}
+
+/**
+ * Joins filter clauses with `AND`, skipping empty ones.
+ */
+function allOf(...filters: { sql: string; params: string[] }[]): { sql: string; params: string[] } {
+  const active = filters.filter((filter) => filter.sql);
+  return {
+    sql: active.map((filter) => filter.sql).join(' AND '),
+    params: active.flatMap((filter) => filter.params),
+  };
+}
+
+/**
+ * Knowledge store backed by a local SQLite database with an on-disk
+ * embedding index. Needs no external services, so it is suitable for
+ * air-gapped installs and tests.
+ *
+ * Text extraction and embedding run in the background after `add` and
+ * `uploadFile` return, moving the memory through the same statuses that
+ * Supermemory reports.
+ */
+export class SqliteStore implements KnowledgeStore {
+  constructor(
+    private readonly db: Database.Database = getDatabase(),
+    private readonly embedder: Embedder = createEmbedder()
+  ) {}
+
+  async add({
+    content,
+    contentType,
+    containerTags,
+    metadata = {},
+    page,
+  }: AddMemoryParams): Promise<AddMemoryResult> {
+    const fetchUrl = contentType ? contentType === 'url' : isUrl(content);
+    const id = this.insert(fetchUrl ? 'webpage' : 'text', containerTags, metadata);
+
+    void this.process(id, () =>
+      fetchUrl
+        ? page
+          ? Promise.resolve({ ...page, type: 'webpage' })
+          : extractUrlText(content.trim())
+        : Promise.resolve({ title: titleFromText(content), text: content, type: 'text' })
+    );
+
+    return { id, status: 'queued' };
+  }
+
+  async uploadFile({ file, containerTags, metadata = {} }: UploadFileParams): Promise<AddMemoryResult> {
+    const id = this.insert('text', containerTags, metadata);
+
+    void this.process(id, () => extractFileText(file));
+
+    return { id, status: 'queued' };
+  }
+
+  async list({
+    containerTags,
+    labels,
+    limit = 50,
+    after,
+    sort = 'updatedAt',
+    order = 'desc',
+  }: ListMemoriesParams = {}): Promise<ListMemoriesResult> {
+    const filter = allOf(tagFilter(containerTags), labelFilter(labels));
+    const where = filter.sql ? `WHERE ${filter.sql}` : '';
+    const column = `m.${SORT_COLUMNS[sort]}`;
+    const direction = order === 'asc' ? 'ASC' : 'DESC';
+
+    const { count } = this.db
+      .prepare(`SELECT COUNT(*) AS count FROM memories m ${where}`)
+      .get(...filter.params) as { count: number };
+
+    // Resume after the previous page's last memory, with the ID breaking ties
+    const page = allOf(filter, {
+      sql: after ? `(${column}, m.id) ${order === 'asc' ? '>' : '<'} (?, ?)` : '',
+      params: after ? [after.sortValue, after.id] : [],
+    });
+
+    // Read one extra row to tell whether another page follows
+    const rows = this.db
+      .prepare(
+        `SELECT m.* FROM memories m ${page.sql ? `WHERE ${page.sql}` : ''}
+         ORDER BY ${column} ${direction}, m.id ${direction}
+         LIMIT ?`
+      )
+      .all(...page.params, limit + 1) as MemoryRow[];
+
+    const tags = this.tagsFor(rows.map((row) => row.id));
+    const memories = rows
+      .slice(0, limit)
+      .map((row) => this.toMemory(row, tags.get(row.id) || [], false));
+    const offset = (after?.offset ?? 0) + memories.length;
+
+    return {
+      memories,
+      pagination: { totalItems: count, limit },
+      next: rows.length > limit ? positionOf(memories[memories.length - 1], sort, offset) : null,
+    };
+  }
+
+  async get(id: string): Promise<StoredMemory> {
+    const row = this.db.prepare('SELECT * FROM memories WHERE id = ?').get(id) as
+      | MemoryRow
+      | undefined;
+
+    if (!row) {
+      throw new MemoryNotFoundError(id);
+    }
+
+    return this.toMemory(row, this.tagsFor([id]).get(id) || [], true);
+  }
+
+  async update(id: string, { containerTags, metadata }: UpdateMemoryParams): Promise<void> {
+    this.db.transaction(() => {
+      const { changes } = this.db
+        .prepare('UPDATE memories SET updated_at = ? WHERE id = ?')
+        .run(new Date().toISOString(), id);
+      if (changes === 0) {
+        throw new MemoryNotFoundError(id);
+      }
+
+      if (metadata) {
+        this.db
+          .prepare('UPDATE memories SET metadata = ? WHERE id = ?')
+          .run(JSON.stringify(metadata), id);
+      }
+
+      if (containerTags) {
+        this.db.prepare('DELETE FROM memory_tags WHERE memory_id = ?').run(id);
+        const insertTag = this.db.prepare('INSERT OR IGNORE INTO memory_tags (memory_id, tag) VALUES (?, ?)');
+        for (const tag of containerTags) {
+          insertTag.run(id, tag);
+        }
+      }
+    })();
+  }
+
+  /**
+   * Replaces the stored text and processes it again in the background, like
+   * `add`.
+   */
+  async updateContent(id: string, content: string): Promise<AddMemoryResult> {
+    const row = this.db.prepare('SELECT id FROM memories WHERE id = ?').get(id);
+    if (!row) {
+      throw new MemoryNotFoundError(id);
+    }
+
+    this.setStatus(id, 'queued');
+    void this.process(id, async () => ({ title: titleFromText(content), text: content, type: 'text' }));
+
+    return { id, status: 'queued' };
+  }
+
+  /**
+   * Re-chunks and re-embeds the stored text, e.g. after changing the
+   * embedder. Resolves once the memory is searchable again.
+   */
+  async reindex(id: string): Promise<void> {
+    const row = this.db.prepare('SELECT * FROM memories WHERE id = ?').get(id) as
+      | MemoryRow
+      | undefined;
+
+    if (!row) {
+      throw new MemoryNotFoundError(id);
+    }
+
+    const { title, content, type } = row;
+    if (content === null) {
+      throw new Error(`Memory ${id} has no extracted text to re-index`);
+    }
+
+    const indexed = await this.process(id, async () => ({
+      title: title || titleFromText(content),
+      text: content,
+      type,
+    }));
+    if (!indexed) {
+      throw new Error(`Failed to re-index memory ${id}`);
+    }
+  }
+
+  /**
+   * Extracts the memory again from the given file, its original URL or its
+   * stored text, in the background like `uploadFile`. The ID is unchanged.
+   */
+  async reprocess(id: string, original?: File): Promise<AddMemoryResult> {
+    const row = this.db.prepare('SELECT * FROM memories WHERE id = ?').get(id) as
+      | MemoryRow
+      | undefined;
+
+    if (!row) {
+      throw new MemoryNotFoundError(id);
+    }
+
+    const { originalUrl } = JSON.parse(row.metadata);
+    const { title, content, type } = row;
+    let extract: () => Promise<ExtractedText>;
+    if (original) {
+      extract = () => extractFileText(original);
+    } else if (typeof originalUrl === 'string') {
+      extract = () => extractUrlText(originalUrl);
+    } else if (content !== null) {
+      extract = async () => ({ title: title || titleFromText(content), text: content, type });
+    } else {
+      throw new Error(`Memory ${id} has no source to reprocess`);
+    }
+
+    this.setStatus(id, 'queued');
+    void this.process(id, extract);
+
+    return { id, status: 'queued' };
+  }
+
+  async delete(id: string): Promise<void> {
+    this.db.prepare('DELETE FROM memories WHERE id = ?').run(id);
+  }
+
+  async search({
+    q,
+    containerTags,
+    labels,
+    limit = 8,
+    documentThreshold = 0,
+    chunkThreshold = 0,
+  }: SearchParams): Promise<SearchResult[]> {
+    const [queryVector] = await this.embedder.embed([q]);
+    const filter = allOf(tagFilter(containerTags), labelFilter(labels));
+
+    const rows = this.db
+      .prepare(
+        `SELECT c.memory_id, c.content, c.embedding, m.title, m.type, m.metadata
+         FROM memory_chunks c
+         JOIN memories m ON m.id = c.memory_id
+         WHERE m.status = 'done' ${filter.sql ? `AND ${filter.sql}` : ''}`
+      )
+      .iterate(...filter.params) as IterableIterator<ChunkRow>;
+
+    const results = new Map<string, SearchResult>();
+
+    for (const row of rows) {
+      const score = this.embedder.similarity(queryVector, fromBlob(row.embedding));
+      let result = results.get(row.memory_id);
+      if (!result) {
+        result = {
+          documentId: row.memory_id,
+          title: row.title,
+          type: row.type,
+          score: 0,
+          metadata: JSON.parse(row.metadata),
+          chunks: [],
+        };
+        results.set(row.memory_id, result);
+      }
+      result.score = Math.max(result.score, score);
+      result.chunks.push({ content: row.content, score, isRelevant: score >= chunkThreshold });
+    }
+
+    return Array.from(results.values())
+      .filter((result) => result.score > 0 && result.score >= documentThreshold)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, limit)
+      .map((result) => ({
+        ...result,
+        chunks: result.chunks
+          .sort((a, b) => b.score - a.score)
+          .slice(0, MAX_CHUNKS_PER_RESULT),
+      }));
+  }
+
+  private insert(type: string, containerTags: string[], metadata: MemoryMetadata): string {
+    const id = randomUUID();
+    const now = new Date().toISOString();
+
+    this.db.transaction(() => {
+      this.db
+        .prepare(
+          `INSERT INTO memories (id, title, content, type, status, metadata, created_at, updated_at)
+           VALUES (?, NULL, NULL, ?, 'queued', ?, ?, ?)`
+        )
+        .run(id, type, JSON.stringify(metadata), now, now);
+
+      const insertTag = this.db.prepare('INSERT OR IGNORE INTO memory_tags (memory_id, tag) VALUES (?, ?)');
+      for (const tag of containerTags) {
+        insertTag.run(id, tag);
+      }
+    })();
+
+    return id;
+  }
+
+  /**
+   * Moves a memory to a new status. `failureReason` is recorded in the
+   * metadata of failed memories and cleared on any other status.
+   */
+  private setStatus(id: string, status: MemoryStatus, failureReason: string | null = null) {
+    this.db
+      .prepare(
+        `UPDATE memories SET status = ?, updated_at = ?,
+           metadata = CASE WHEN ? IS NULL THEN json_remove(metadata, '$.failureReason')
+             ELSE json_set(metadata, '$.failureReason', ?) END
+         WHERE id = ?`
+      )
+      .run(status, new Date().toISOString(), failureReason, failureReason, id);
+  }
+
+  /**
+   * Extracts, chunks and embeds a memory, recording each step in its status.
+   * Failures are logged and leave the memory in the `failed` state, with the
+   * error message as its `failureReason`.
+   *
+   * @returns Whether the memory was processed successfully
+   */
+  private async process(id: string, extract: () => Promise<ExtractedText>): Promise<boolean> {
+    try {
+      this.setStatus(id, 'extracting');
+      const { title, text, type } = await extract();
+
+      this.setStatus(id, 'chunking');
+      const chunks = chunkText(text);
+
+      this.setStatus(id, 'embedding');
+      const embeddings = chunks.length > 0 ? await this.embedder.embed(chunks) : [];
+
+      this.db.transaction(() => {
+        this.db
+          .prepare('UPDATE memories SET title = ?, content = ?, type = ? WHERE id = ?')
+          .run(title, text, type, id);
+        this.db.prepare('DELETE FROM memory_chunks WHERE memory_id = ?').run(id);
+        const insertChunk = this.db.prepare(
+          'INSERT INTO memory_chunks (memory_id, position, content, embedding) VALUES (?, ?, ?, ?)'
+        );
+        chunks.forEach((chunk, position) => {
+          insertChunk.run(id, position, chunk, toBlob(embeddings[position]));
+        });
+      })();
+
+      this.setStatus(id, 'done');
+      return true;
+    } catch (error) {
+      console.error(`Failed to process memory ${id}:`, error);
+      this.setStatus(
+        id,
+        'failed',
+        error instanceof Error && error.message ? error.message : 'Unknown processing error'
+      );
+      return false;
+    }
+  }
+
+  private tagsFor(ids: string[]): Map<string, string[]> {
+    const tags = new Map<string, string[]>();
+    if (ids.length === 0) {
+      return tags;
+    }
+
+    const rows = this.db
+      .prepare(
+        `SELECT memory_id, tag FROM memory_tags WHERE memory_id IN (${ids.map(() => '?').join(', ')})`
+      )
+      .all(...ids) as { memory_id: string; tag: string }[];
+
+    for (const row of rows) {
+      tags.set(row.memory_id, [...(tags.get(row.memory_id) || []), row.tag]);
+    }
+    return tags;
+  }
+
+  private toMemory(row: MemoryRow, containerTags: string[], includeContent: boolean): StoredMemory {
+    return {
+      id: row.id,
+      title: row.title,
+      ...(includeContent && { content: row.content }),
+      type: row.type,
+      status: row.status,
+      metadata: JSON.parse(row.metadata),
+      containerTags,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at,
+    };
+  }
+}
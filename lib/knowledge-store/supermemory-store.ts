@@ -0,0 +1,282 @@
+import { NotFoundError, Supermemory, toFile } from 'supermemory';
+import { MemoryNotFoundError } from './errors';
+import { isAfterPosition, positionOf } from './pagination';
+import { isUrl } from './text-extraction';
+import type {
+  AddMemoryParams,
+  AddMemoryResult,
+  KnowledgeStore,
+  ListMemoriesParams,
+  ListMemoriesResult,
+  MemoryMetadata,
+  MemoryStatus,
+  SearchParams,
+  SearchResult,
+  StoredMemory,
+  UpdateMemoryParams,
+  UploadFileParams,
+} from './types';
+
+/**
+ * Normalizes Supermemory's loosely typed metadata field into a plain object.
+ */
+function toMetadataObject(metadata: unknown): Record<string, unknown> {
+  if (typeof metadata === 'object' && metadata !== null && !Array.isArray(metadata)) {
+    return metadata as Record<string, unknown>;
+  }
+  return {};
+}
+
+/**
+ * Metadata filter matching memories whose `labels` array contains every one
+ * of the given labels.
+ */
+function labelFilters(labels: string[]) {
+  return {
+    AND: labels.map((label) => ({
+      key: 'labels',
+      value: label,
+      filterType: 'array_contains' as const,
+    })),
+  };
+}
+
+/**
+ * Knowledge store backed by the hosted Supermemory API.
+ */
+export class SupermemoryStore implements KnowledgeStore {
+  private readonly client: Supermemory;
+
+  constructor(apiKey: string | undefined) {
+    if (!apiKey) {
+      throw new Error(
+        'The SUPERMEMORY_API_KEY environment variable is missing or empty. ' +
+          'Please set it in your .env or .env.local file.'
+      );
+    }
+    this.client = new Supermemory({ apiKey });
+  }
+
+  async add({
+    content,
+    contentType,
+    containerTags,
+    metadata = {},
+  }: AddMemoryParams): Promise<AddMemoryResult> {
+    // Supermemory fetches content that is a URL, so text that is just one is sent as a file
+    if (contentType === 'text' && isUrl(content)) {
+      return this.uploadFile({
+        file: new File([content], 'text.md', { type: 'text/markdown' }),
+        containerTags,
+        metadata,
+      });
+    }
+
+    const result = await this.client.memories.add({ content, containerTags, metadata });
+    return { id: result.id, status: result.status as MemoryStatus };
+  }
+
+  async uploadFile({ file, containerTags, metadata = {} }: UploadFileParams): Promise<AddMemoryResult> {
+    const uploadableFile = await toFile(file, file.name, { type: file.type });
+
+    const result = await this.client.memories.uploadFile({
+      file: uploadableFile,
+      containerTags: JSON.stringify(containerTags),
+      metadata: JSON.stringify(metadata),
+    });
+
+    return { id: result.id, status: result.status as MemoryStatus };
+  }
+
+  /**
+   * Supermemory pages by number only, so a page after `after` is read from
+   * the numbered page holding its offset, starting one page early in case
+   * memories before it were removed, and skipping memories at or before the
+   * position.
+   */
+  async list({
+    containerTags,
+    labels,
+    limit = 50,
+    after,
+    sort = 'updatedAt',
+    order = 'desc',
+  }: ListMemoriesParams = {}): Promise<ListMemoriesResult> {
+    const memories: StoredMemory[] = [];
+    let page = after ? Math.max(1, Math.floor(after.offset / limit)) : 1;
+    let totalItems = 0;
+    let totalPages = 0;
+
+    // Read one memory past the page to tell whether another page follows
+    do {
+      const result = await this.client.memories.list({
+        ...(containerTags?.length && { containerTags }),
+        ...(labels?.length && { filters: labelFilters(labels) }),
+        limit,
+        page,
+        sort,
+        order,
+      });
+      totalItems = result.pagination.totalItems;
+      totalPages = result.pagination.totalPages;
+
+      for (const memory of result.memories) {
+        const stored: StoredMemory = {
+          id: memory.id,
+          title: memory.title,
+          type: memory.type,
+          status: memory.status,
+          metadata: toMetadataObject(memory.metadata),
+          containerTags: memory.containerTags || [],
+          createdAt: memory.createdAt,
+          updatedAt: memory.updatedAt,
+        };
+        const seen = memories.some((previous) => previous.id === stored.id);
+        if (!seen && (!after || isAfterPosition(stored, after, sort, order))) {
+          memories.push(stored);
+        }
+      }
+      page++;
+    } while (memories.length <= limit && page <= totalPages);
+
+    const pageMemories = memories.slice(0, limit);
+    const offset = (after?.offset ?? 0) + pageMemories.length;
+
+    return {
+      memories: pageMemories,
+      pagination: { totalItems, limit },
+      next:
+        memories.length > limit
+          ? positionOf(pageMemories[pageMemories.length - 1], sort, offset)
+          : null,
+    };
+  }
+
+  async get(id: string): Promise<StoredMemory> {
+    let memory;
+    try {
+      memory = await this.client.memories.get(id);
+    } catch (error) {
+      if (error instanceof NotFoundError) {
+        throw new MemoryNotFoundError(id);
+      }
+      throw error;
+    }
+    return {
+      id: memory.id,
+      title: memory.title,
+      content: memory.content,
+      type: memory.type,
+      status: memory.status,
+      metadata: toMetadataObject(memory.metadata),
+      containerTags: memory.containerTags || [],
+      createdAt: memory.createdAt,
+      updatedAt: memory.updatedAt,
+    };
+  }
+
+  async update(id: string, { containerTags, metadata }: UpdateMemoryParams): Promise<void> {
+    try {
+      await this.client.memories.update(id, {
+        ...(containerTags && { containerTags }),
+        ...(metadata && { metadata }),
+      });
+    } catch (error) {
+      if (error instanceof NotFoundError) {
+        throw new MemoryNotFoundError(id);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Submits the new text as the memory's content, which Supermemory
+   * processes again. Processing continues after this resolves.
+   */
+  async updateContent(id: string, content: string): Promise<AddMemoryResult> {
+    try {
+      await this.client.memories.update(id, { content });
+    } catch (error) {
+      if (error instanceof NotFoundError) {
+        throw new MemoryNotFoundError(id);
+      }
+      throw error;
+    }
+    return { id, status: 'queued' };
+  }
+
+  /**
+   * Resubmits the memory's source (its original URL, or its extracted text)
+   * so Supermemory processes it again. Processing continues after this
+   * resolves.
+   */
+  async reindex(id: string): Promise<void> {
+    const memory = await this.get(id);
+    const originalUrl = memory.metadata.originalUrl;
+    const content = typeof originalUrl === 'string' ? originalUrl : memory.content;
+
+    if (!content) {
+      throw new Error(`Memory ${id} has no content to re-index`);
+    }
+
+    await this.client.memories.update(id, { content });
+  }
+
+  /**
+   * Resubmits the memory's original URL or text like `reindex`. Supermemory
+   * cannot replace the file of an existing memory, so an original file is
+   * uploaded as a new memory with the same tags and metadata, and the old
+   * one is deleted.
+   */
+  async reprocess(id: string, original?: File): Promise<AddMemoryResult> {
+    if (!original) {
+      await this.reindex(id);
+      return { id, status: 'queued' };
+    }
+
+    const memory = await this.get(id);
+    const result = await this.uploadFile({
+      file: original,
+      containerTags: memory.containerTags,
+      metadata: memory.metadata as MemoryMetadata,
+    });
+    await this.delete(id);
+    return result;
+  }
+
+  async delete(id: string): Promise<void> {
+    await this.client.memories.delete(id);
+  }
+
+  async search({
+    q,
+    containerTags,
+    labels,
+    limit = 8,
+    rerank = true,
+    documentThreshold,
+    chunkThreshold,
+  }: SearchParams): Promise<SearchResult[]> {
+    const response = await this.client.search.documents({
+      q,
+      ...(containerTags?.length && { containerTags }),
+      ...(labels?.length && { filters: labelFilters(labels) }),
+      limit,
+      rerank,
+      includeFullDocs: true,
+      includeSummary: true,
+      onlyMatchingChunks: false,
+      documentThreshold,
+      chunkThreshold,
+    });
+
+    return response.results.map((result) => ({
+      documentId: result.documentId,
+      title: result.title,
+      type: result.type,
+      score: result.score,
+      metadata: result.metadata,
+      chunks: result.chunks,
+    }));
+  }
+}
@@ -0,0 +1,153 @@
+import path from 'node:path';
+import { fetchPublicUrl } from '@/lib/public-fetch';
+
+/**
+ * Text extracted from a file or web page.
+ */
+export interface ExtractedText {
+  /** Best-effort title for the document */
+  title: string;
+  /** Plain text content */
+  text: string;
+  /** Document type reported to the UI (mirrors Supermemory's types) */
+  type: string;
+}
+
+const TEXT_EXTENSIONS = new Set(['.txt', '.md', '.markdown', '.csv', '.json']);
+const HTML_EXTENSIONS = new Set(['.html', '.htm']);
+
+function decodeEntities(text: string): string {
+  return text
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&amp;/g, '&')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;|&apos;/g, "'")
+    .replace(/&#(\d+);/g, (_, code) => String.fromCodePoint(Number(code)));
+}
+
+/**
+ * Strips markup from an HTML document, keeping block-level line breaks.
+ */
+export function htmlToText(html: string): { title: string; text: string } {
+  const title = decodeEntities(html.match(/<title[^>]*>([\s\S]*?)<\/title>/i)?.[1]?.trim() || '');
+  const text = decodeEntities(
+    html
+      .replace(/<(script|style|noscript|head)[^>]*>[\s\S]*?<\/\1>/gi, '')
+      .replace(/<\/(p|div|section|article|li|tr|h[1-6])>|<br\s*\/?>/gi, '\n')
+      .replace(/<[^>]+>/g, ' ')
+  )
+    .replace(/[ \t]+/g, ' ')
+    .replace(/\n\s*\n\s*/g, '\n\n')
+    .trim();
+  return { title, text };
+}
+
+/**
+ * Extracts plain text from an uploaded file based on its extension and MIME
+ * type. PDF and DOCX parsers are loaded lazily so they only cost anything
+ * when such a file is actually uploaded.
+ *
+ * @throws Error if the file type is not supported for local extraction
+ */
+export async function extractFileText(file: File): Promise<ExtractedText> {
+  const extension = path.extname(file.name).toLowerCase();
+  const title = file.name;
+
+  if (extension === '.pdf' || file.type === 'application/pdf') {
+    const { extractText, getDocumentProxy } = await import('unpdf');
+    const pdf = await getDocumentProxy(new Uint8Array(await file.arrayBuffer()));
+    const { text } = await extractText(pdf, { mergePages: true });
+    return { title, text, type: 'pdf' };
+  }
+
+  if (
+    extension === '.docx' ||
+    file.type === 'application/vnd.openxmlformats-officedocument.wordprocessingml.document'
+  ) {
+    const mammoth = await import('mammoth');
+    const { value } = await mammoth.extractRawText({
+      buffer: Buffer.from(await file.arrayBuffer()),
+    });
+    return { title, text: value, type: 'text' };
+  }
+
+  if (HTML_EXTENSIONS.has(extension) || file.type === 'text/html') {
+    const { title: htmlTitle, text } = htmlToText(await file.text());
+    return { title: htmlTitle || title, text, type: 'webpage' };
+  }
+
+  if (TEXT_EXTENSIONS.has(extension) || file.type.startsWith('text/')) {
+    return { title, text: await file.text(), type: 'text' };
+  }
+
+  throw new Error(`Unsupported file type for local extraction: ${file.name}`);
+}
+
+/**
+ * Fetches a web page and extracts its readable text.
+ *
+ * @throws Error if the page cannot be fetched
+ */
+export async function extractUrlText(url: string): Promise<ExtractedText> {
+  const response = await fetchPublicUrl(url);
+  if (!response.ok) {
+    throw new Error(`Failed to fetch ${url}: ${response.status} ${response.statusText}`);
+  }
+
+  return extractPageText(url, response.headers.get('content-type') || '', await response.text());
+}
+
+/**
+ * Whether text is nothing but a web address, which stores take for a page to
+ * fetch unless told otherwise.
+ */
+export function isUrl(content: string): boolean {
+  return /^https?:\/\/\S+$/i.test(content.trim());
+}
+
+/**
+ * Extracts the text of a fetched web page from its body.
+ */
+export function extractPageText(url: string, contentType: string, body: string): ExtractedText {
+  if (contentType.includes('html')) {
+    const { title, text } = htmlToText(body);
+    return { title: title || url, text, type: 'webpage' };
+  }
+
+  return { title: url, text: body, type: 'webpage' };
+}
+
+/**
+ * Splits text into overlapping chunks of roughly `size` characters along
+ * paragraph boundaries.
+ */
+export function chunkText(text: string, size = 1200, overlap = 200): string[] {
+  const paragraphs = text
+    .split(/\n\s*\n/)
+    .map((paragraph) => paragraph.trim())
+    .filter(Boolean);
+
+  const chunks: string[] = [];
+  let current = '';
+
+  for (const paragraph of paragraphs) {
+    if (current && current.length + paragraph.length + 2 > size) {
+      chunks.push(current);
+      current = current.slice(-overlap);
+    }
+    current = current ? `${current}\n\n${paragraph}` : paragraph;
+
+    while (current.length > size) {
+      chunks.push(current.slice(0, size));
+      current = current.slice(size - overlap);
+    }
+  }
+
+  if (current) {
+    chunks.push(current);
+  }
+
+  return chunks;
+}
@@ -0,0 +1,227 @@
+/**
+ * Processing status of a stored memory.
+ *
+ * Mirrors the lifecycle reported by Supermemory so every backend can be
+ * rendered the same way in the UI.
+ */
+export type MemoryStatus =
+  | 'unknown'
+  | 'queued'
+  | 'extracting'
+  | 'chunking'
+  | 'embedding'
+  | 'indexing'
+  | 'done'
+  | 'failed';
+
+/**
+ * Metadata values accepted by every backend.
+ */
+export type MemoryMetadata = Record<string, string | number | boolean | string[]>;
+
+/**
+ * A memory (document) as returned by a knowledge store.
+ */
+export interface StoredMemory {
+  /** Unique identifier for the memory */
+  id: string;
+  /** Title reported by the backend, if any */
+  title: string | null;
+  /** Extracted text content (only populated by `get`) */
+  content?: string | null;
+  /** Backend-specific document type (e.g., 'pdf', 'webpage', 'text') */
+  type: string;
+  /** Processing status */
+  status: MemoryStatus;
+  /**
+   * Metadata attached at upload time. Backends that know why processing
+   * failed record it as `failureReason`; Supermemory does not report it.
+   */
+  metadata: Record<string, unknown>;
+  /** Container tags the memory belongs to */
+  containerTags: string[];
+  /** ISO timestamp of when the memory was created */
+  createdAt: string;
+  /** ISO timestamp of when the memory was last updated */
+  updatedAt: string;
+}
+
+/**
+ * Parameters for adding a text or URL memory.
+ */
+export interface AddMemoryParams {
+  /** Raw text, or a URL that the backend should fetch */
+  content: string;
+  /**
+   * Whether `content` is text to store as is or a URL to fetch. Guessed from
+   * `content` when omitted, so text that may be just a URL should say 'text'.
+   */
+  contentType?: 'text' | 'url';
+  /** Container tags to associate the memory with */
+  containerTags: string[];
+  /** Optional metadata to attach */
+  metadata?: MemoryMetadata;
+  /**
+   * Title and text already extracted from the URL in `content`, so the page
+   * is not fetched a second time. Backends that fetch URLs themselves
+   * (Supermemory) ignore it.
+   */
+  page?: { title: string; text: string };
+}
+
+/**
+ * Parameters for uploading a file memory.
+ */
+export interface UploadFileParams {
+  /** The file to upload */
+  file: File;
+  /** Container tags to associate the memory with */
+  containerTags: string[];
+  /** Optional metadata to attach */
+  metadata?: MemoryMetadata;
+}
+
+/**
+ * Result of an add or upload call.
+ */
+export interface AddMemoryResult {
+  /** Identifier of the created memory */
+  id: string;
+  /** Initial processing status */
+  status: MemoryStatus;
+}
+
+/**
+ * Changes to an existing memory. Omitted fields are left unchanged; provided
+ * fields replace the stored value entirely.
+ */
+export interface UpdateMemoryParams {
+  containerTags?: string[];
+  metadata?: MemoryMetadata;
+}
+
+/**
+ * Where a listing stopped: the last memory returned, identified by its sort
+ * field value and ID so the next page starts right after it even when
+ * memories were added or removed in between.
+ */
+export interface ListPosition {
+  /** The memory's value of the sort field */
+  sortValue: string;
+  /** The memory's ID, breaking ties between equal sort values */
+  id: string;
+  /**
+   * Memories listed up to and including this one. Lets backends that can only
+   * page by number start reading close to the position.
+   */
+  offset: number;
+}
+
+/**
+ * Parameters for listing memories.
+ */
+export interface ListMemoriesParams {
+  /** Only return memories carrying at least one of these tags */
+  containerTags?: string[];
+  /** Only return memories labelled with every one of these labels */
+  labels?: string[];
+  /** Page size */
+  limit?: number;
+  /** Return the memories after this position; omit for the first page */
+  after?: ListPosition;
+  /** Field to sort by */
+  sort?: 'createdAt' | 'updatedAt';
+  /** Sort direction */
+  order?: 'asc' | 'desc';
+}
+
+/**
+ * A page of memories.
+ */
+export interface ListMemoriesResult {
+  memories: StoredMemory[];
+  pagination: {
+    totalItems: number;
+    limit: number;
+  };
+  /** Position of the last memory returned, or null if this is the last page */
+  next: ListPosition | null;
+}
+
+/**
+ * Parameters for a semantic document search.
+ */
+export interface SearchParams {
+  /** The search query */
+  q: string;
+  /** Restrict results to memories carrying at least one of these tags */
+  containerTags?: string[];
+  /** Restrict results to memories labelled with every one of these labels */
+  labels?: string[];
+  /** Maximum number of documents to return */
+  limit?: number;
+  /** Whether the backend should rerank results (ignored where unsupported) */
+  rerank?: boolean;
+  /** Minimum document relevance score */
+  documentThreshold?: number;
+  /** Minimum chunk relevance score for a chunk to be marked relevant */
+  chunkThreshold?: number;
+}
+
+/**
+ * A matching chunk within a search result.
+ */
+export interface SearchChunk {
+  content: string;
+  isRelevant: boolean;
+  score: number;
+}
+
+/**
+ * A single document returned by a search.
+ */
+export interface SearchResult {
+  documentId: string;
+  title: string | null;
+  type: string | null;
+  score: number;
+  metadata: Record<string, unknown> | null;
+  chunks: SearchChunk[];
+}
+
+/**
+ * Storage backend for documents, their tags and their search index.
+ *
+ * Every API route and server action talks to the knowledge base through this
+ * interface, so the backend can be swapped via the `KNOWLEDGE_STORE`
+ * environment variable without touching callers.
+ */
+export interface KnowledgeStore {
+  /** Adds a text or URL memory */
+  add(params: AddMemoryParams): Promise<AddMemoryResult>;
+  /** Uploads a file and indexes its extracted text */
+  uploadFile(params: UploadFileParams): Promise<AddMemoryResult>;
+  /** Lists memories, newest first by default */
+  list(params?: ListMemoriesParams): Promise<ListMemoriesResult>;
+  /** Gets a single memory including its content */
+  get(id: string): Promise<StoredMemory>;
+  /** Replaces a memory's container tags and/or metadata without reprocessing it */
+  update(id: string, params: UpdateMemoryParams): Promise<void>;
+  /**
+   * Replaces a text memory's content and processes it again. Processing
+   * continues after this resolves; the ID is unchanged.
+   */
+  updateContent(id: string, content: string): Promise<AddMemoryResult>;
+  /** Rebuilds a memory's search index from its content */
+  reindex(id: string): Promise<void>;
+  /**
+   * Processes a memory again from its source: the original file if given,
+   * otherwise its original URL or stored text. Backends that cannot resubmit
+   * a file in place replace the memory, so the returned ID may differ.
+   */
+  reprocess(id: string, original?: File): Promise<AddMemoryResult>;
+  /** Permanently deletes a memory */
+  delete(id: string): Promise<void>;
+  /** Searches documents semantically */
+  search(params: SearchParams): Promise<SearchResult[]>;
+}
@@ -0,0 +1,86 @@
+/**
+ * Free-form labels (e.g. "draft", "legal-reviewed", "Q3") that can be
+ * attached to any document, across collections. They are kept in the
+ * document's metadata under `labels`.
+ */
+
+/** Metadata key a document's labels are stored under */
+export const LABELS_KEY = 'labels';
+
+/** Most labels a document can have */
+export const MAX_DOCUMENT_LABELS = 20;
+
+/** Labels: 1-40 characters without commas or surrounding whitespace */
+const LABEL_PATTERN = /^[^\s,](?:[^,\n]{0,38}[^\s,])?$/;
+
+/**
+ * A label and how many documents the caller can see carry it.
+ */
+export interface LabelSummary {
+  name: string;
+  documentCount: number;
+}
+
+/**
+ * Whether a label is allowed: 1-40 characters, without commas or leading and
+ * trailing whitespace. Labels are case-sensitive.
+ */
+export function isLabel(value: string): boolean {
+  return LABEL_PATTERN.test(value);
+}
+
+/**
+ * The labels of a document, from its metadata.
+ */
+export function documentLabels(metadata: Record<string, unknown> | null | undefined): string[] {
+  const labels = metadata?.[LABELS_KEY];
+  return Array.isArray(labels)
+    ? labels.filter((label): label is string => typeof label === 'string')
+    : [];
+}
+
+/**
+ * Validates a list of labels from an untrusted request body. Undefined is
+ * read as an empty list; whitespace is trimmed and repeats are dropped.
+ *
+ * @returns The labels, or null if any of them is not a valid label
+ */
+export function parseLabelList(value: unknown): string[] | null {
+  if (value === undefined) {
+    return [];
+  }
+  if (!Array.isArray(value) || !value.every((item) => typeof item === 'string')) {
+    return null;
+  }
+  const labels = Array.from(new Set(value.map((item: string) => item.trim())));
+  return labels.every(isLabel) ? labels : null;
+}
+
+/**
+ * Labels from a comma-separated query parameter, e.g. `?labels=draft,Q3`.
+ *
+ * @returns The labels (empty when the parameter is missing), or null if any
+ *   of them is not a valid label
+ */
+export function parseLabelQuery(value: string | null): string[] | null {
+  return parseLabelList(value ? value.split(',').filter((label) => label.trim()) : undefined);
+}
+
+/**
+ * A document's labels after adding and removing some, sorted by name.
+ *
+ * @returns The new labels, or an error message if there would be too many
+ */
+export function applyLabelChanges(
+  current: string[],
+  add: string[],
+  remove: string[]
+): { labels: string[] } | { error: string } {
+  const labels = Array.from(new Set([...current, ...add]))
+    .filter((label) => !remove.includes(label))
+    .sort((a, b) => a.localeCompare(b));
+  if (labels.length > MAX_DOCUMENT_LABELS) {
+    return { error: `A document can have at most ${MAX_DOCUMENT_LABELS} labels` };
+  }
+  return { labels };
+}
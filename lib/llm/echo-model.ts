@@ -0,0 +1,82 @@
+import type {
+  LanguageModelV3,
+  LanguageModelV3CallOptions,
+  LanguageModelV3GenerateResult,
+  LanguageModelV3StreamPart,
+  LanguageModelV3StreamResult,
+  LanguageModelV3Usage,
+} from '@ai-sdk/provider';
+
+const USAGE: LanguageModelV3Usage = {
+  inputTokens: { total: 0, noCache: 0, cacheRead: 0, cacheWrite: 0 },
+  outputTokens: { total: 0, text: 0, reasoning: 0 },
+};
+
+/**
+ * Builds the deterministic answer: the latest user question followed by the
+ * Sources section the Q&A route placed in the system prompt, so the citation
+ * UI can be exercised end to end.
+ */
+function buildAnswer({ prompt }: LanguageModelV3CallOptions): string {
+  const system = prompt
+    .filter((message) => message.role === 'system')
+    .map((message) => message.content)
+    .join('\n');
+
+  const lastUser = [...prompt].reverse().find((message) => message.role === 'user');
+  const question =
+    lastUser?.role === 'user'
+      ? lastUser.content
+          .map((part) => (part.type === 'text' ? part.text : ''))
+          .join('')
+      : '';
+
+  const sources = system.match(/## Sources\n\n([\s\S]*?)\n\n/)?.[1];
+
+  return sources
+    ? `Echo: ${question}\n\n## Sources\n\n${sources}`
+    : `Echo: ${question}`;
+}
+
+/**
+ * Language model that echoes the question back without calling any service.
+ * Intended for tests and offline development.
+ */
+export class EchoLanguageModel implements LanguageModelV3 {
+  readonly specificationVersion = 'v3';
+  readonly provider = 'echo';
+  readonly modelId = 'echo';
+  readonly supportedUrls = {};
+
+  async doGenerate(options: LanguageModelV3CallOptions): Promise<LanguageModelV3GenerateResult> {
+    return {
+      content: [{ type: 'text', text: buildAnswer(options) }],
+      finishReason: { unified: 'stop', raw: undefined },
+      usage: USAGE,
+      warnings: [],
+    };
+  }
+
+  async doStream(options: LanguageModelV3CallOptions): Promise<LanguageModelV3StreamResult> {
+    const words = buildAnswer(options).split(/(?<=\s)/);
+
+    const stream = new ReadableStream<LanguageModelV3StreamPart>({
+      start(controller) {
+        controller.enqueue({ type: 'stream-start', warnings: [] });
+        controller.enqueue({ type: 'text-start', id: 'echo' });
+        for (const word of words) {
+          controller.enqueue({ type: 'text-delta', id: 'echo', delta: word });
+        }
+        controller.enqueue({ type: 'text-end', id: 'echo' });
+        controller.enqueue({
+          type: 'finish',
+          finishReason: { unified: 'stop', raw: undefined },
+          usage: USAGE,
+        });
+        controller.close();
+      },
+    });
+
+    return { stream };
+  }
+}
@@ -0,0 +1,164 @@
+import { createProviderRegistry, customProvider, type LanguageModel } from 'ai';
+import { createOpenAI } from '@ai-sdk/openai';
+import type { LanguageModelV3, ProviderV3 } from '@ai-sdk/provider';
+import {
+  DEFAULT_MAX_OUTPUT_TOKENS,
+  DEFAULT_TEMPERATURE,
+  MAX_OUTPUT_TOKENS_LIMIT,
+  MAX_TEMPERATURE,
+  type ModelOption,
+  type ModelSettings,
+} from '@/lib/models';
+import { EchoLanguageModel } from './echo-model';
+
+/**
+ * Error thrown when a request names a model that is not configured.
+ */
+export class UnknownModelError extends Error {
+  /** The model identifier that was requested */
+  public readonly modelId: string;
+
+  constructor(modelId: string) {
+    super(`Model "${modelId}" is not configured`);
+    this.name = 'UnknownModelError';
+    this.modelId = modelId;
+  }
+}
+
+/**
+ * A fully resolved model ready to pass to `streamText`.
+ */
+export interface ResolvedModel {
+  id: string;
+  model: LanguageModel;
+  temperature: number;
+  maxOutputTokens: number;
+}
+
+function parseList(value: string | undefined): string[] {
+  return (value || '')
+    .split(',')
+    .map((item) => item.trim())
+    .filter(Boolean);
+}
+
+interface ModelCatalog {
+  registry: ReturnType<typeof createProviderRegistry>;
+  models: ModelOption[];
+}
+
+/**
+ * Builds the provider registry from environment variables:
+ *
+ * - `OPENAI_API_KEY` / `OPENAI_MODELS` - OpenAI models (default `gpt-4o-mini`)
+ * - `LOCAL_LLM_BASE_URL` / `LOCAL_LLM_MODELS` / `LOCAL_LLM_API_KEY` - any
+ *   OpenAI-compatible endpoint such as Ollama or llama.cpp
+ * - `ENABLE_ECHO_MODEL=true` - deterministic echo model for tests
+ */
+function buildCatalog(): ModelCatalog {
+  const providers: Record<string, ProviderV3> = {};
+  const models: ModelOption[] = [];
+
+  const addProvider = (
+    key: string,
+    label: string,
+    languageModels: Record<string, LanguageModelV3>
+  ) => {
+    providers[key] = customProvider({ languageModels });
+    for (const modelId of Object.keys(languageModels)) {
+      models.push({ id: `${key}:${modelId}`, label: `${modelId} (${label})`, provider: key });
+    }
+  };
+
+  if (process.env.OPENAI_API_KEY) {
+    const openai = createOpenAI({ apiKey: process.env.OPENAI_API_KEY });
+    const modelIds = parseList(process.env.OPENAI_MODELS);
+    addProvider(
+      'openai',
+      'OpenAI',
+      Object.fromEntries(
+        (modelIds.length > 0 ? modelIds : ['gpt-4o-mini']).map((id) => [id, openai(id)])
+      )
+    );
+  }
+
+  if (process.env.LOCAL_LLM_BASE_URL) {
+    const local = createOpenAI({
+      name: 'local',
+      baseURL: process.env.LOCAL_LLM_BASE_URL,
+      // Local servers ignore the key, but the provider requires one to be set.
+      apiKey: process.env.LOCAL_LLM_API_KEY || 'local',
+    });
+    addProvider(
+      'local',
+      'Local',
+      Object.fromEntries(parseList(process.env.LOCAL_LLM_MODELS).map((id) => [id, local.chat(id)]))
+    );
+  }
+
+  if (process.env.ENABLE_ECHO_MODEL === 'true') {
+    addProvider('echo', 'Echo', { echo: new EchoLanguageModel() });
+  }
+
+  return { registry: createProviderRegistry(providers), models };
+}
+
+let catalog: ModelCatalog | undefined;
+
+function getCatalog(): ModelCatalog {
+  if (!catalog) {
+    catalog = buildCatalog();
+  }
+  return catalog;
+}
+
+/**
+ * Lists every configured model.
+ */
+export function listModels(): ModelOption[] {
+  return getCatalog().models;
+}
+
+/**
+ * Returns the model used when a request does not specify one: `DEFAULT_MODEL`
+ * if it is configured, otherwise the first available model.
+ */
+export function getDefaultModelId(): string | null {
+  const { models } = getCatalog();
+  const configured = process.env.DEFAULT_MODEL;
+  if (configured && models.some((model) => model.id === configured)) {
+    return configured;
+  }
+  return models[0]?.id ?? null;
+}
+
+function clamp(value: unknown, min: number, max: number, fallback: number): number {
+  if (typeof value !== 'number' || !Number.isFinite(value)) {
+    return fallback;
+  }
+  return Math.min(Math.max(value, min), max);
+}
+
+/**
+ * Resolves the model and generation parameters for a request, clamping the
+ * parameters to safe ranges.
+ *
+ * @throws UnknownModelError if the requested model (or the default) is not configured
+ */
+export function resolveModel(settings: ModelSettings = {}): ResolvedModel {
+  const { registry, models } = getCatalog();
+  const id = settings.model || getDefaultModelId();
+
+  if (!id || !models.some((model) => model.id === id)) {
+    throw new UnknownModelError(id || '(none configured)');
+  }
+
+  return {
+    id,
+    model: registry.languageModel(id as `${string}:${string}`),
+    temperature: clamp(settings.temperature, 0, MAX_TEMPERATURE, DEFAULT_TEMPERATURE),
+    maxOutputTokens: Math.round(
+      clamp(settings.maxOutputTokens, 1, MAX_OUTPUT_TOKENS_LIMIT, DEFAULT_MAX_OUTPUT_TOKENS)
+    ),
+  };
+}
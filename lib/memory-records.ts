@@ -0,0 +1,31 @@
+import { getDatabase } from '@/lib/db';
+
+/**
+ * Local tables that reference a knowledge store memory by ID. Add new tables
+ * here so their rows follow a document whose ID changes.
+ */
+const MEMORY_ID_TABLES = [
+  'document_versions',
+  'document_fingerprints',
+  'url_refresh',
+  'crawl_pages',
+  'feed_entries',
+  'trash_documents',
+] as const;
+
+/**
+ * Points every local record of a memory at the memory that replaced it, such
+ * as its version, fingerprint, refresh schedule and crawl or feed origin. All
+ * tables move in one transaction, so a failure leaves none of them moved.
+ */
+export function moveMemoryRecords(fromMemoryId: string, toMemoryId: string) {
+  const db = getDatabase();
+  db.transaction(() => {
+    for (const table of MEMORY_ID_TABLES) {
+      db.prepare(`UPDATE ${table} SET memory_id = ? WHERE memory_id = ?`).run(
+        toMemoryId,
+        fromMemoryId
+      );
+    }
+  })();
+}
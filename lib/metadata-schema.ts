@@ -0,0 +1,229 @@
+import { CUSTOM_FIELD_PREFIX, isCustomFieldName } from '@/lib/document-details';
+
+/** Kinds of value a collection's metadata field can hold */
+export const METADATA_FIELD_TYPES = ['text', 'number', 'date', 'enum'] as const;
+
+export type MetadataFieldType = (typeof METADATA_FIELD_TYPES)[number];
+
+export const METADATA_FIELD_TYPE_LABELS: Record<MetadataFieldType, string> = {
+  text: 'Text',
+  number: 'Number',
+  date: 'Date',
+  enum: 'Choice',
+};
+
+/** Most fields a collection's schema can have */
+export const MAX_METADATA_FIELDS = 20;
+
+/** Most options an enum field can have */
+export const MAX_ENUM_OPTIONS = 50;
+
+const MAX_TEXT_LENGTH = 1000;
+const MAX_OPTION_LENGTH = 100;
+
+/**
+ * A typed field every document in a collection carries. Values are stored
+ * in the document's metadata as custom fields (`custom_<name>`): text,
+ * dates (`YYYY-MM-DD`) and enum options as strings, numbers as numbers.
+ */
+export interface MetadataField {
+  /** Field name, also its column heading */
+  name: string;
+  type: MetadataFieldType;
+  /** Whether documents added by hand must have a value */
+  required: boolean;
+  /** Allowed values of an enum field; empty for other types */
+  options: string[];
+}
+
+/** A field's value as stored in metadata */
+export type MetadataFieldValue = string | number;
+
+/** Metadata key a field's value is stored under */
+export function metadataFieldKey(name: string): string {
+  return CUSTOM_FIELD_PREFIX + name;
+}
+
+/**
+ * Validates a collection's metadata schema from an untrusted request body.
+ *
+ * @returns The validated fields, or an error message
+ */
+export function parseMetadataSchema(value: unknown): { fields: MetadataField[] } | { error: string } {
+  if (!Array.isArray(value)) {
+    return { error: 'metadataFields must be an array' };
+  }
+  if (value.length > MAX_METADATA_FIELDS) {
+    return { error: `A collection can have at most ${MAX_METADATA_FIELDS} metadata fields` };
+  }
+
+  const fields: MetadataField[] = [];
+  for (const item of value) {
+    if (typeof item !== 'object' || item === null) {
+      return { error: 'Each metadata field must be an object' };
+    }
+    const { name, type, required, options } = item as Record<string, unknown>;
+
+    if (typeof name !== 'string' || !isCustomFieldName(name.trim())) {
+      return {
+        error: 'Field names must be 1-40 letters, digits, spaces, dashes or underscores',
+      };
+    }
+    const trimmedName = name.trim();
+    if (fields.some((field) => field.name === trimmedName)) {
+      return { error: `Field "${trimmedName}" is defined more than once` };
+    }
+    if (!METADATA_FIELD_TYPES.includes(type as MetadataFieldType)) {
+      return { error: `Field "${trimmedName}" must be text, number, date or enum` };
+    }
+    if (required !== undefined && typeof required !== 'boolean') {
+      return { error: `required of "${trimmedName}" must be a boolean` };
+    }
+
+    let fieldOptions: string[] = [];
+    if (type === 'enum') {
+      if (!Array.isArray(options) || options.some((option) => typeof option !== 'string')) {
+        return { error: `Field "${trimmedName}" needs a list of options` };
+      }
+      fieldOptions = Array.from(
+        new Set((options as string[]).map((option) => option.trim()).filter(Boolean))
+      );
+      if (fieldOptions.length === 0 || fieldOptions.length > MAX_ENUM_OPTIONS) {
+        return { error: `Field "${trimmedName}" needs 1-${MAX_ENUM_OPTIONS} options` };
+      }
+      if (fieldOptions.some((option) => option.length > MAX_OPTION_LENGTH)) {
+        return {
+          error: `Options of "${trimmedName}" can be at most ${MAX_OPTION_LENGTH} characters`,
+        };
+      }
+    }
+
+    fields.push({
+      name: trimmedName,
+      type: type as MetadataFieldType,
+      required: required ?? false,
+      options: fieldOptions,
+    });
+  }
+
+  return { fields };
+}
+
+function isIsoDate(value: string): boolean {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(value)) return false;
+  const date = new Date(`${value}T00:00:00Z`);
+  return !Number.isNaN(date.getTime()) && date.toISOString().startsWith(value);
+}
+
+/**
+ * Checks a value against a field's type.
+ *
+ * @returns The value as stored (null when empty), or an error message
+ */
+export function parseMetadataFieldValue(
+  field: MetadataField,
+  value: unknown
+): { value: MetadataFieldValue | null } | { error: string } {
+  if (value === undefined || value === null || (typeof value === 'string' && !value.trim())) {
+    return { value: null };
+  }
+
+  switch (field.type) {
+    case 'number': {
+      const number = typeof value === 'string' ? Number(value.trim()) : value;
+      if (typeof number !== 'number' || !Number.isFinite(number)) {
+        return { error: `"${field.name}" must be a number` };
+      }
+      return { value: number };
+    }
+    case 'date':
+      if (typeof value !== 'string' || !isIsoDate(value.trim())) {
+        return { error: `"${field.name}" must be a date (YYYY-MM-DD)` };
+      }
+      return { value: value.trim() };
+    case 'enum':
+      if (typeof value !== 'string' || !field.options.includes(value.trim())) {
+        return { error: `"${field.name}" must be one of: ${field.options.join(', ')}` };
+      }
+      return { value: value.trim() };
+    case 'text':
+      if (typeof value !== 'string') {
+        return { error: `"${field.name}" must be text` };
+      }
+      if (value.trim().length > MAX_TEXT_LENGTH) {
+        return { error: `"${field.name}" can be at most ${MAX_TEXT_LENGTH} characters` };
+      }
+      return { value: value.trim() };
+  }
+}
+
+/**
+ * Validates the schema fields in a document's metadata and converts them to
+ * their stored form. Empty values are dropped; metadata not covered by the
+ * schema is left alone.
+ *
+ * @param only - Check only these fields, e.g. the ones an edit changes.
+ *   Defaults to every field in the schema.
+ * @returns The metadata with converted values, or an error message
+ */
+export function validateMetadataFields<T extends Record<string, unknown>>(
+  schema: MetadataField[],
+  metadata: T,
+  only?: string[]
+): { metadata: T } | { error: string } {
+  const next: Record<string, unknown> = { ...metadata };
+
+  for (const field of schema) {
+    if (only && !only.includes(field.name)) continue;
+
+    const key = metadataFieldKey(field.name);
+    const parsed = parseMetadataFieldValue(field, next[key]);
+    if ('error' in parsed) {
+      return parsed;
+    }
+    if (parsed.value === null) {
+      if (field.required) {
+        return { error: `"${field.name}" is required` };
+      }
+      delete next[key];
+    } else {
+      next[key] = parsed.value;
+    }
+  }
+
+  return { metadata: next as T };
+}
+
+/**
+ * Metadata for a new document from the values entered for a collection's
+ * fields, leaving out empty ones.
+ */
+export function metadataFromFieldValues(
+  schema: MetadataField[],
+  values: Record<string, string>
+): Record<string, string> {
+  const metadata: Record<string, string> = {};
+  for (const field of schema) {
+    const value = values[field.name]?.trim();
+    if (value) {
+      metadata[metadataFieldKey(field.name)] = value;
+    }
+  }
+  return metadata;
+}
+
+/**
+ * A field's value for display, e.g. in a list column.
+ */
+export function formatMetadataFieldValue(field: MetadataField, value: unknown): string {
+  if (value === undefined || value === null || value === '') {
+    return '';
+  }
+  if (field.type === 'date' && typeof value === 'string' && isIsoDate(value)) {
+    return new Date(`${value}T00:00:00`).toLocaleDateString();
+  }
+  if (field.type === 'number' && typeof value === 'number') {
+    return value.toLocaleString();
+  }
+  return String(value);
+}
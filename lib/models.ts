@@ -0,0 +1,43 @@
+/**
+ * A language model the Q&A endpoint can answer with.
+ */
+export interface ModelOption {
+  /** Registry identifier in `provider:model` form (e.g., 'openai:gpt-4o-mini') */
+  id: string;
+  /** Human-readable name for the model picker */
+  label: string;
+  /** Provider key (e.g., 'openai', 'local', 'echo') */
+  provider: string;
+}
+
+/**
+ * Per-request model selection sent along with each chat message.
+ */
+export interface ModelSettings {
+  /** Registry identifier of the model to use; the server default if omitted */
+  model?: string;
+  /** Sampling temperature */
+  temperature?: number;
+  /** Maximum number of tokens in the response */
+  maxOutputTokens?: number;
+}
+
+/**
+ * Response shape of `GET /api/models`.
+ */
+export interface ModelsResponse {
+  models: ModelOption[];
+  defaultModel: string | null;
+}
+
+/** Default sampling temperature. Lower values keep answers close to the sources. */
+export const DEFAULT_TEMPERATURE = 0.1;
+
+/** Upper bound accepted for the temperature parameter */
+export const MAX_TEMPERATURE = 2;
+
+/** Default maximum response length in tokens */
+export const DEFAULT_MAX_OUTPUT_TOKENS = 2000;
+
+/** Upper bound accepted for the maxOutputTokens parameter */
+export const MAX_OUTPUT_TOKENS_LIMIT = 8000;
@@ -0,0 +1,55 @@
+import type {
+  AddMemoryResult,
+  KnowledgeStore,
+  MemoryMetadata,
+  StoredMemory,
+} from '@/lib/knowledge-store';
+import { NOTE_TYPE, noteTitle } from '@/lib/notes';
+import { containerTagsFor, scopeMetadata, type RequestScope } from '@/lib/scope';
+
+/**
+ * Adds a Markdown note written in the browser to a collection. Its first
+ * line is its title.
+ */
+export async function addNoteDocument(
+  store: KnowledgeStore,
+  scope: RequestScope,
+  collection: string,
+  content: string,
+  metadata: MemoryMetadata = {}
+): Promise<AddMemoryResult> {
+  return store.add({
+    content,
+    contentType: 'text',
+    containerTags: containerTagsFor(scope, [collection]),
+    metadata: {
+      uploadedAt: new Date().toISOString(),
+      ...metadata,
+      type: NOTE_TYPE,
+      originalName: noteTitle(content),
+      ...scopeMetadata(scope),
+    },
+  });
+}
+
+/**
+ * Replaces a note's content and re-indexes it, recording who edited it and
+ * when.
+ */
+export async function updateNoteDocument(
+  store: KnowledgeStore,
+  scope: RequestScope,
+  memory: StoredMemory,
+  content: string
+): Promise<AddMemoryResult> {
+  // Metadata first: the store records processing failures in it once processing starts
+  await store.update(memory.id, {
+    metadata: {
+      ...memory.metadata,
+      originalName: noteTitle(content),
+      editedAt: new Date().toISOString(),
+      editedBy: scope.userId,
+    },
+  });
+  return store.updateContent(memory.id, content);
+}
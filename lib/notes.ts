@@ -0,0 +1,36 @@
+/** Metadata `type` of documents written in the browser */
+export const NOTE_TYPE = 'note';
+
+/** Longest note that can be saved, in characters */
+export const MAX_NOTE_LENGTH = 100_000;
+
+/**
+ * Whether a document is a note, from its metadata.
+ */
+export function isNote(metadata: Record<string, unknown> | undefined): boolean {
+  return metadata?.type === NOTE_TYPE;
+}
+
+/**
+ * A note's title: its first non-empty line without Markdown heading marks.
+ */
+export function noteTitle(content: string): string {
+  const firstLine = content.split('\n').find((line) => line.trim()) ?? '';
+  const title = firstLine.replace(/^#+\s*/, '').trim();
+  return title || 'Untitled note';
+}
+
+/**
+ * Validates note content from an untrusted request body.
+ *
+ * @returns An error message, or null if the content can be saved
+ */
+export function validateNoteContent(content: unknown): string | null {
+  if (typeof content !== 'string' || !content.trim()) {
+    return 'Note content is required';
+  }
+  if (content.length > MAX_NOTE_LENGTH) {
+    return `Notes can be at most ${MAX_NOTE_LENGTH.toLocaleString('en-US')} characters`;
+  }
+  return null;
+}
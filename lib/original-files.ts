@@ -0,0 +1,60 @@
+import { mkdir, readFile, rename, rm, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { DATA_DIR } from '@/lib/db';
+import { mimeTypeForName } from '@/lib/file-validation';
+
+/**
+ * Directory holding a copy of every uploaded file, named by memory ID, so
+ * documents can be reprocessed from their original bytes.
+ */
+const ORIGINALS_DIR = path.join(DATA_DIR, 'originals');
+
+function originalPath(memoryId: string): string {
+  return path.join(ORIGINALS_DIR, memoryId);
+}
+
+/**
+ * Keeps a copy of an uploaded file.
+ */
+export async function saveOriginalFile(memoryId: string, file: File) {
+  await mkdir(ORIGINALS_DIR, { recursive: true });
+  await writeFile(originalPath(memoryId), Buffer.from(await file.arrayBuffer()));
+}
+
+/**
+ * Reads the kept copy of a document's file.
+ *
+ * @returns The file, or null if no copy was kept (for example for documents
+ * uploaded before copies were kept)
+ */
+export async function readOriginalFile(memoryId: string, fileName: string): Promise<File | null> {
+  try {
+    const bytes = await readFile(originalPath(memoryId));
+    return new File([bytes], fileName, { type: mimeTypeForName(fileName) });
+  } catch (error: any) {
+    if (error.code === 'ENOENT') {
+      return null;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Moves the kept copy to a document's new ID after it was replaced.
+ */
+export async function moveOriginalFile(fromMemoryId: string, toMemoryId: string) {
+  try {
+    await rename(originalPath(fromMemoryId), originalPath(toMemoryId));
+  } catch (error: any) {
+    if (error.code !== 'ENOENT') {
+      throw error;
+    }
+  }
+}
+
+/**
+ * Deletes the kept copy of a document that is deleted permanently.
+ */
+export async function deleteOriginalFile(memoryId: string) {
+  await rm(originalPath(memoryId), { force: true });
+}
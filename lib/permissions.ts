@@ -0,0 +1,169 @@
+import { getDatabase } from '@/lib/db';
+import {
+  hasRole,
+  highestRole,
+  type CollectionMember,
+  type CollectionRole,
+  type PrincipalType,
+} from '@/lib/roles';
+import type { RequestScope } from '@/lib/scope';
+
+interface MemberRow {
+  principal_type: PrincipalType;
+  principal_id: string;
+  role: CollectionRole;
+}
+
+/** Clerk organization role that is treated as owner of every collection */
+const ORG_ADMIN_ROLE = 'org:admin';
+
+function memberRows(scope: RequestScope, collection: string): MemberRow[] {
+  return getDatabase()
+    .prepare(
+      `SELECT principal_type, principal_id, role FROM collection_members
+       WHERE scope = ? AND collection = ?`
+    )
+    .all(scope.id, collection) as MemberRow[];
+}
+
+/**
+ * Resolves the caller's role on a collection.
+ *
+ * - In a personal scope the user owns every collection.
+ * - Organization admins own every collection in their organization.
+ * - Collections nobody has been granted a role on yet (created before
+ *   sharing existed) stay editable by every organization member.
+ * - Otherwise the caller gets the highest role granted to them directly or
+ *   to their organization, or no access at all.
+ *
+ * @returns The caller's role, or null if they cannot access the collection
+ */
+export function getCollectionRole(scope: RequestScope, collection: string): CollectionRole | null {
+  if (!scope.orgId || scope.orgRole === ORG_ADMIN_ROLE) {
+    return 'owner';
+  }
+
+  const rows = memberRows(scope, collection);
+  if (rows.length === 0) {
+    return 'editor';
+  }
+
+  let role: CollectionRole | null = null;
+  for (const row of rows) {
+    const matches =
+      (row.principal_type === 'user' && row.principal_id === scope.userId) ||
+      (row.principal_type === 'org' && row.principal_id === scope.orgId);
+    if (matches) {
+      role = highestRole(role, row.role);
+    }
+  }
+  return role;
+}
+
+/**
+ * Whether the caller holds at least `required` on the collection.
+ */
+export function canAccessCollection(
+  scope: RequestScope,
+  collection: string,
+  required: CollectionRole
+): boolean {
+  return hasRole(getCollectionRole(scope, collection), required);
+}
+
+/**
+ * Whether the caller holds at least `required` on any of the collections a
+ * memory belongs to. Used for read access.
+ */
+export function canAccessAny(
+  scope: RequestScope,
+  collections: string[],
+  required: CollectionRole
+): boolean {
+  return collections.some((collection) => canAccessCollection(scope, collection, required));
+}
+
+/**
+ * Whether the caller holds at least `required` on every collection a memory
+ * belongs to. Used for destructive changes that affect all of them.
+ */
+export function canAccessAll(
+  scope: RequestScope,
+  collections: string[],
+  required: CollectionRole
+): boolean {
+  return (
+    collections.length > 0 &&
+    collections.every((collection) => canAccessCollection(scope, collection, required))
+  );
+}
+
+/**
+ * Lists the role grants on a collection.
+ */
+export function listCollectionMembers(scope: RequestScope, collection: string): CollectionMember[] {
+  return memberRows(scope, collection).map((row) => ({
+    principalType: row.principal_type,
+    principalId: row.principal_id,
+    role: row.role,
+  }));
+}
+
+/**
+ * Grants (or changes) a principal's role on a collection.
+ */
+export function setCollectionMember(
+  scope: RequestScope,
+  collection: string,
+  principalType: PrincipalType,
+  principalId: string,
+  role: CollectionRole
+) {
+  getDatabase()
+    .prepare(
+      `INSERT INTO collection_members (scope, collection, principal_type, principal_id, role, created_at)
+       VALUES (?, ?, ?, ?, ?, ?)
+       ON CONFLICT (scope, collection, principal_type, principal_id) DO UPDATE SET role = excluded.role`
+    )
+    .run(scope.id, collection, principalType, principalId, role, new Date().toISOString());
+}
+
+/**
+ * Revokes a principal's role on a collection.
+ */
+export function removeCollectionMember(
+  scope: RequestScope,
+  collection: string,
+  principalType: PrincipalType,
+  principalId: string
+) {
+  getDatabase()
+    .prepare(
+      `DELETE FROM collection_members
+       WHERE scope = ? AND collection = ? AND principal_type = ? AND principal_id = ?`
+    )
+    .run(scope.id, collection, principalType, principalId);
+}
+
+/**
+ * Copies every role grant on `source` to `target`, keeping grants `target`
+ * already has. Used when renaming a collection.
+ */
+export function copyCollectionMembers(scope: RequestScope, source: string, target: string) {
+  getDatabase()
+    .prepare(
+      `INSERT OR IGNORE INTO collection_members (scope, collection, principal_type, principal_id, role, created_at)
+       SELECT scope, ?, principal_type, principal_id, role, created_at
+       FROM collection_members WHERE scope = ? AND collection = ?`
+    )
+    .run(target, scope.id, source);
+}
+
+/**
+ * Removes every role grant on a collection, e.g. after it has been deleted.
+ */
+export function deleteCollectionMembers(scope: RequestScope, collection: string) {
+  getDatabase()
+    .prepare('DELETE FROM collection_members WHERE scope = ? AND collection = ?')
+    .run(scope.id, collection);
+}
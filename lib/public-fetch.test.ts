@@ -0,0 +1,54 @@
+import assert from 'node:assert/strict';
+import http from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { after, before, describe, it } from 'node:test';
+import { fetchPublicUrl, PrivateUrlError } from '@/lib/public-fetch';
+
+describe('fetchPublicUrl', () => {
+  let server: http.Server;
+  let port: number;
+
+  before(async () => {
+    server = http.createServer((request, response) => {
+      if (request.url === '/redirect') {
+        response.writeHead(302, { location: '/page' }).end();
+        return;
+      }
+      response.end('page');
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    port = (server.address() as AddressInfo).port;
+  });
+
+  after(async () => {
+    delete process.env.ALLOW_PRIVATE_URLS;
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  it('refuses loopback, private and link-local addresses', async () => {
+    for (const url of [
+      `http://127.0.0.1:${port}/`,
+      `http://localhost:${port}/`,
+      'http://10.1.2.3/',
+      'http://192.168.0.1/',
+      'http://169.254.169.254/latest/meta-data/',
+      'http://[::1]/',
+      'http://[::ffff:127.0.0.1]/',
+      'http://[fd00::1]/',
+    ]) {
+      await assert.rejects(fetchPublicUrl(url), PrivateUrlError, url);
+    }
+  });
+
+  it('refuses URLs that are not http or https', async () => {
+    await assert.rejects(fetchPublicUrl('file:///etc/passwd'), /not an http or https URL/);
+  });
+
+  it('fetches private addresses, following redirects, when ALLOW_PRIVATE_URLS is set', async () => {
+    process.env.ALLOW_PRIVATE_URLS = 'true';
+    const response = await fetchPublicUrl(`http://127.0.0.1:${port}/redirect`);
+
+    assert.equal(response.url, `http://127.0.0.1:${port}/page`);
+    assert.equal(await response.text(), 'page');
+  });
+});
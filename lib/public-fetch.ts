@@ -0,0 +1,117 @@
+import { lookup } from 'node:dns/promises';
+import { BlockList, isIP } from 'node:net';
+
+/** Most redirects followed before a fetch gives up */
+const MAX_REDIRECTS = 10;
+
+/**
+ * Addresses that are not on the public internet: unspecified, loopback,
+ * private, shared (CGNAT), link-local, benchmarking, multicast and reserved
+ * ranges.
+ */
+const PRIVATE_ADDRESSES = new BlockList();
+for (const [network, prefix] of [
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['224.0.0.0', 4],
+  ['240.0.0.0', 4],
+] as const) {
+  PRIVATE_ADDRESSES.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [
+  ['::', 128],
+  ['::1', 128],
+  ['fc00::', 7],
+  ['fe80::', 10],
+  ['ff00::', 8],
+] as const) {
+  PRIVATE_ADDRESSES.addSubnet(network, prefix, 'ipv6');
+}
+
+/**
+ * Error thrown when a URL fetched on a user's behalf points at an address
+ * that is not on the public internet.
+ */
+export class PrivateUrlError extends Error {
+  /** The URL that was refused */
+  public readonly url: string;
+
+  constructor(url: string) {
+    super(`${url} points to a private or local address`);
+    this.name = 'PrivateUrlError';
+    this.url = url;
+  }
+}
+
+/**
+ * Whether URLs may point to private and local addresses
+ * (`ALLOW_PRIVATE_URLS=true`), e.g. to crawl an intranet.
+ */
+function allowsPrivateUrls(): boolean {
+  return process.env.ALLOW_PRIVATE_URLS === 'true';
+}
+
+/** IPv4-mapped IPv6 addresses (::ffff:127.0.0.1) are checked against the IPv4 ranges */
+function isPrivateAddress(address: string): boolean {
+  return PRIVATE_ADDRESSES.check(address, isIP(address) === 4 ? 'ipv4' : 'ipv6');
+}
+
+/**
+ * Checks that a URL uses http or https and that every address its host
+ * resolves to is public.
+ *
+ * @throws PrivateUrlError if the host is or resolves to a private address
+ * @throws Error if the URL is not http(s) or its host cannot be resolved
+ */
+async function checkPublicUrl(url: URL): Promise<void> {
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    throw new Error(`${url.href} is not an http or https URL`);
+  }
+  if (allowsPrivateUrls()) {
+    return;
+  }
+
+  const host = url.hostname.replace(/^\[(.*)\]$/, '$1');
+  const addresses = isIP(host)
+    ? [host]
+    : (await lookup(host, { all: true })).map((entry) => entry.address);
+  if (addresses.some(isPrivateAddress)) {
+    throw new PrivateUrlError(url.href);
+  }
+}
+
+/**
+ * Fetches a URL a user supplied, from the server. Redirects are followed
+ * here rather than by fetch, so every URL on the way is checked: URLs whose
+ * host resolves to a loopback, private or link-local address are refused
+ * unless `ALLOW_PRIVATE_URLS=true`, so pages, feeds and crawls cannot be used
+ * to reach services inside the network. `response.url` is the URL the
+ * response came from.
+ *
+ * @throws PrivateUrlError if the URL or a redirect points to a private address
+ * @throws Error if the request fails or redirects more than 10 times
+ */
+export async function fetchPublicUrl(url: string, init: RequestInit = {}): Promise<Response> {
+  let current = new URL(url);
+  for (let redirects = 0; ; redirects++) {
+    await checkPublicUrl(current);
+    const response = await fetch(current, { ...init, redirect: 'manual' });
+    const location = response.headers.get('location');
+    if (response.status < 300 || response.status >= 400 || !location) {
+      return response;
+    }
+
+    await response.body?.cancel();
+    if (redirects === MAX_REDIRECTS) {
+      throw new Error(`Too many redirects fetching ${url}`);
+    }
+    current = new URL(location, current);
+  }
+}
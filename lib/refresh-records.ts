@@ -0,0 +1,120 @@
+import { getDatabase } from '@/lib/db';
+import type { RefreshInterval } from '@/lib/refresh';
+import type { RequestScope } from '@/lib/scope';
+
+/**
+ * What is known about a web page document's refreshes.
+ */
+export interface RefreshRecord {
+  /** The document's own interval, or null to follow its collections */
+  interval: RefreshInterval | null;
+  /** SHA-256 hash of the page text at the last successful check */
+  pageHash: string | null;
+  lastCheckedAt: string | null;
+  lastChangedAt: string | null;
+  lastError: string | null;
+}
+
+/**
+ * The outcome of one check of a web page.
+ */
+export interface RefreshCheck {
+  checkedAt: string;
+  /** Hash of the page text; omitted when the page could not be fetched */
+  pageHash?: string;
+  /** Set when the page changed since the last check */
+  changedAt?: string;
+  error?: string;
+}
+
+interface RefreshRow {
+  interval: RefreshInterval | null;
+  page_hash: string | null;
+  last_checked_at: string | null;
+  last_changed_at: string | null;
+  last_error: string | null;
+}
+
+/**
+ * Fetches a document's refresh record.
+ *
+ * @returns The record, or null if the document has never been scheduled or checked
+ */
+export function getRefreshRecord(memoryId: string): RefreshRecord | null {
+  const row = getDatabase()
+    .prepare(
+      `SELECT interval, page_hash, last_checked_at, last_changed_at, last_error
+       FROM url_refresh WHERE memory_id = ?`
+    )
+    .get(memoryId) as RefreshRow | undefined;
+  return row
+    ? {
+        interval: row.interval,
+        pageHash: row.page_hash,
+        lastCheckedAt: row.last_checked_at,
+        lastChangedAt: row.last_changed_at,
+        lastError: row.last_error,
+      }
+    : null;
+}
+
+/**
+ * Sets a document's own refresh interval, or clears it with null so the
+ * document follows its collections again.
+ */
+export function setRefreshInterval(
+  scope: RequestScope,
+  memoryId: string,
+  interval: RefreshInterval | null
+) {
+  getDatabase()
+    .prepare(
+      `INSERT INTO url_refresh (memory_id, scope, interval) VALUES (?, ?, ?)
+       ON CONFLICT (memory_id) DO UPDATE SET interval = excluded.interval`
+    )
+    .run(memoryId, scope.id, interval);
+}
+
+/**
+ * Records the outcome of a check. A failed check keeps the previous hash.
+ */
+export function recordRefreshCheck(scope: RequestScope, memoryId: string, check: RefreshCheck) {
+  getDatabase()
+    .prepare(
+      `INSERT INTO url_refresh (memory_id, scope, page_hash, last_checked_at, last_changed_at, last_error)
+       VALUES (@memoryId, @scope, @pageHash, @checkedAt, @changedAt, @error)
+       ON CONFLICT (memory_id) DO UPDATE SET
+         page_hash = COALESCE(excluded.page_hash, page_hash),
+         last_checked_at = excluded.last_checked_at,
+         last_changed_at = COALESCE(excluded.last_changed_at, last_changed_at),
+         last_error = excluded.last_error`
+    )
+    .run({
+      memoryId,
+      scope: scope.id,
+      pageHash: check.pageHash ?? null,
+      checkedAt: check.checkedAt,
+      changedAt: check.changedAt ?? null,
+      error: check.error ?? null,
+    });
+}
+
+/**
+ * Lists the documents in every scope with an interval of their own that
+ * refreshes.
+ */
+export function listScheduledDocuments(): { memoryId: string; scope: string }[] {
+  return getDatabase()
+    .prepare(
+      `SELECT memory_id AS memoryId, scope FROM url_refresh
+       WHERE interval IN ('hourly', 'daily', 'weekly')`
+    )
+    .all() as { memoryId: string; scope: string }[];
+}
+
+/**
+ * Forgets a document's refresh record once the document is gone.
+ */
+export function deleteRefreshRecord(memoryId: string) {
+  getDatabase().prepare('DELETE FROM url_refresh WHERE memory_id = ?').run(memoryId);
+}
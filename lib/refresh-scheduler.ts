@@ -0,0 +1,74 @@
+import { pollDueFeeds, type FeedPollSummary } from '@/lib/feed-poller';
+import { getKnowledgeStore } from '@/lib/knowledge-store';
+import { purgeExpiredTrash } from '@/lib/trash-bin';
+import { refreshDueDocuments, type RefreshSummary } from '@/lib/url-refresh';
+
+/** Minutes between refresh passes when `URL_REFRESH_TICK_MINUTES` is not set */
+const DEFAULT_REFRESH_TICK_MINUTES = 5;
+
+const globalForRefresh = globalThis as unknown as {
+  documentKbRefreshTimer?: ReturnType<typeof setInterval>;
+  documentKbRefreshRunning?: boolean;
+};
+
+/**
+ * What one refresh pass did.
+ */
+export interface RefreshPassSummary {
+  /** Web page documents checked for changes */
+  pages: RefreshSummary;
+  /** Feeds polled for new entries */
+  feeds: FeedPollSummary;
+  /** Expired trash items purged */
+  trashPurged: number;
+}
+
+/**
+ * Minutes between in-process refresh passes, from `URL_REFRESH_TICK_MINUTES`.
+ * Zero turns the in-process scheduler off, e.g. when an external cron job
+ * calls `/api/cron/refresh` instead.
+ */
+export function getRefreshTickMinutes(): number {
+  const configured = Number.parseInt(process.env.URL_REFRESH_TICK_MINUTES ?? '', 10);
+  return Number.isInteger(configured) && configured >= 0 ? configured : DEFAULT_REFRESH_TICK_MINUTES;
+}
+
+/**
+ * Refreshes the web page documents and polls the feeds that are due, then
+ * purges expired trash, unless a pass is already running.
+ *
+ * @returns What the pass did, or null if another pass was still running
+ */
+export async function runRefreshPass(): Promise<RefreshPassSummary | null> {
+  if (globalForRefresh.documentKbRefreshRunning) {
+    return null;
+  }
+  globalForRefresh.documentKbRefreshRunning = true;
+  try {
+    const store = getKnowledgeStore();
+    const pages = await refreshDueDocuments(store);
+    const feeds = await pollDueFeeds(store);
+    const trashPurged = await purgeExpiredTrash(store);
+    return { pages, feeds, trashPurged };
+  } finally {
+    globalForRefresh.documentKbRefreshRunning = false;
+  }
+}
+
+/**
+ * Starts the in-process timer that refreshes due documents and feeds. Called once from
+ * `instrumentation.ts` when the server starts; later calls do nothing.
+ */
+export function startRefreshScheduler() {
+  const minutes = getRefreshTickMinutes();
+  if (minutes === 0 || globalForRefresh.documentKbRefreshTimer) {
+    return;
+  }
+
+  const timer = setInterval(() => {
+    runRefreshPass().catch((error) => console.error('Scheduled URL refresh failed:', error));
+  }, minutes * 60 * 1000);
+  // Do not keep the process alive just for the refresh timer
+  timer.unref?.();
+  globalForRefresh.documentKbRefreshTimer = timer;
+}
@@ -0,0 +1,74 @@
+/**
+ * How often web page documents are fetched again to check for changes.
+ */
+export const REFRESH_INTERVALS = ['off', 'hourly', 'daily', 'weekly'] as const;
+
+export type RefreshInterval = (typeof REFRESH_INTERVALS)[number];
+
+/** Labels for the refresh intervals in pickers */
+export const REFRESH_INTERVAL_LABELS: Record<RefreshInterval, string> = {
+  off: 'Never',
+  hourly: 'Every hour',
+  daily: 'Every day',
+  weekly: 'Every week',
+};
+
+/** Time between checks for each interval that refreshes */
+export const REFRESH_INTERVAL_MS: Record<Exclude<RefreshInterval, 'off'>, number> = {
+  hourly: 60 * 60 * 1000,
+  daily: 24 * 60 * 60 * 1000,
+  weekly: 7 * 24 * 60 * 60 * 1000,
+};
+
+/**
+ * A web page document's refresh schedule and the outcome of its last check,
+ * as returned by `/api/memories/[id]/refresh`.
+ */
+export interface RefreshStatus {
+  /** The document's own interval, or null to follow its collections */
+  interval: RefreshInterval | null;
+  /** The interval in effect: its own, or the most frequent of its collections' */
+  effectiveInterval: RefreshInterval;
+  /** ISO timestamp of the last check, or null if never checked */
+  lastCheckedAt: string | null;
+  /** ISO timestamp of the last check that found the page changed */
+  lastChangedAt: string | null;
+  /** Why the last check failed, if it did */
+  lastError: string | null;
+}
+
+/**
+ * Whether a value is a known refresh interval.
+ */
+export function isRefreshInterval(value: unknown): value is RefreshInterval {
+  return REFRESH_INTERVALS.includes(value as RefreshInterval);
+}
+
+/**
+ * The most frequent of several refresh intervals, or 'off' if none refresh.
+ */
+export function mostFrequentInterval(intervals: RefreshInterval[]): RefreshInterval {
+  const refreshing = intervals.filter(
+    (interval): interval is Exclude<RefreshInterval, 'off'> => interval !== 'off'
+  );
+  if (refreshing.length === 0) {
+    return 'off';
+  }
+  return refreshing.reduce((shortest, interval) =>
+    REFRESH_INTERVAL_MS[interval] < REFRESH_INTERVAL_MS[shortest] ? interval : shortest
+  );
+}
+
+/**
+ * Whether a check on the given interval is due, given when the last one ran.
+ */
+export function isRefreshDue(
+  lastCheckedAt: string | null,
+  interval: RefreshInterval,
+  now: number = Date.now()
+): boolean {
+  if (interval === 'off') {
+    return false;
+  }
+  return !lastCheckedAt || now - Date.parse(lastCheckedAt) >= REFRESH_INTERVAL_MS[interval];
+}
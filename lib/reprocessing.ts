@@ -0,0 +1,54 @@
+import { isProcessing } from '@/lib/document-status';
+import type { AddMemoryResult, KnowledgeStore, StoredMemory } from '@/lib/knowledge-store';
+import { moveMemoryRecords } from '@/lib/memory-records';
+import { moveOriginalFile, readOriginalFile } from '@/lib/original-files';
+
+/**
+ * Error thrown when a document cannot be reprocessed: it is still being
+ * processed, or nothing is left to process it from.
+ */
+export class ReprocessUnavailableError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ReprocessUnavailableError';
+  }
+}
+
+/**
+ * Submits a document for processing again: links from their original URL,
+ * files from the copy kept at upload, and other documents from their stored
+ * text.
+ *
+ * If the store replaces the memory, the document's local records and kept
+ * file move to the new ID.
+ *
+ * @returns The ID and status of the resubmitted document
+ * @throws ReprocessUnavailableError if the document is still processing or
+ * has no source to reprocess from
+ */
+export async function reprocessDocument(
+  store: KnowledgeStore,
+  memory: StoredMemory
+): Promise<AddMemoryResult> {
+  if (isProcessing(memory.status)) {
+    throw new ReprocessUnavailableError('The document is still being processed');
+  }
+
+  const { originalUrl, originalName } = memory.metadata;
+  const fileName = typeof originalName === 'string' ? originalName : memory.title || memory.id;
+  const original =
+    typeof originalUrl === 'string' ? null : await readOriginalFile(memory.id, fileName);
+
+  if (typeof originalUrl !== 'string' && !original && !memory.content) {
+    throw new ReprocessUnavailableError(
+      'The original file was not kept and no text was extracted; upload the file again'
+    );
+  }
+
+  const result = await store.reprocess(memory.id, original ?? undefined);
+  if (result.id !== memory.id) {
+    moveMemoryRecords(memory.id, result.id);
+    await moveOriginalFile(memory.id, result.id);
+  }
+  return result;
+}
@@ -0,0 +1,79 @@
+/**
+ * Permission level a principal holds on a collection.
+ *
+ * - owner: manage members, rename and delete the collection
+ * - editor: upload, edit and delete documents
+ * - viewer: browse documents and ask questions
+ */
+export type CollectionRole = 'owner' | 'editor' | 'viewer';
+
+/**
+ * Kind of principal a collection role is granted to: a single Clerk user, or
+ * every member of the Clerk organization that owns the collection.
+ */
+export type PrincipalType = 'user' | 'org';
+
+/**
+ * A role grant on a collection.
+ */
+export interface CollectionMember {
+  principalType: PrincipalType;
+  /** Clerk user ID or organization ID */
+  principalId: string;
+  role: CollectionRole;
+  /** Display name resolved from Clerk, if available */
+  name?: string;
+  /** Email or username resolved from Clerk, if available */
+  identifier?: string;
+}
+
+/**
+ * Someone the collection can be shared with.
+ */
+export interface ShareCandidate {
+  userId: string;
+  name: string;
+  identifier: string;
+}
+
+/**
+ * Response shape of `GET /api/collections/[name]/members`.
+ */
+export interface CollectionAccess {
+  /** The caller's own role on the collection */
+  role: CollectionRole;
+  /** Whether the collection lives in an organization and can be shared */
+  shareable: boolean;
+  /** Organization the collection belongs to, if any */
+  orgId: string | null;
+  members: CollectionMember[];
+  candidates: ShareCandidate[];
+}
+
+/** All roles, from most to least privileged */
+export const COLLECTION_ROLES: CollectionRole[] = ['owner', 'editor', 'viewer'];
+
+const ROLE_RANK: Record<CollectionRole, number> = {
+  owner: 3,
+  editor: 2,
+  viewer: 1,
+};
+
+/**
+ * Whether `role` grants at least the `required` level of access.
+ */
+export function hasRole(role: CollectionRole | null | undefined, required: CollectionRole): boolean {
+  return !!role && ROLE_RANK[role] >= ROLE_RANK[required];
+}
+
+/**
+ * Returns the more privileged of two roles.
+ */
+export function highestRole(
+  a: CollectionRole | null | undefined,
+  b: CollectionRole | null | undefined
+): CollectionRole | null {
+  if (!a) return b ?? null;
+  if (!b) return a;
+  return ROLE_RANK[a] >= ROLE_RANK[b] ? a : b;
+}
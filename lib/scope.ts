@@ -0,0 +1,144 @@
+import { auth } from '@clerk/nextjs/server';
+import {
+  MemoryNotFoundError,
+  type KnowledgeStore,
+  type MemoryMetadata,
+  type StoredMemory,
+} from '@/lib/knowledge-store';
+
+/**
+ * The data space a request reads from and writes to.
+ *
+ * Signed-in users working inside a Clerk organization share the
+ * organization's space; everyone else gets a personal space keyed on their
+ * user ID.
+ */
+export interface RequestScope {
+  /** Namespace for container tags and metadata (org ID or user ID) */
+  id: string;
+  /** Clerk user ID of the caller */
+  userId: string;
+  /** Clerk organization ID, if the caller has an active organization */
+  orgId: string | null;
+  /** The caller's role in the active organization (e.g., 'org:admin') */
+  orgRole: string | null;
+}
+
+/** Separator between the scope ID and the collection name in a container tag */
+const TAG_SEPARATOR = ':';
+
+/**
+ * Resolves the scope of the current request from the Clerk session.
+ *
+ * @returns The request scope, or null if the caller is not signed in
+ */
+export async function getRequestScope(): Promise<RequestScope | null> {
+  const { userId, orgId, orgRole } = await auth();
+  if (!userId) {
+    return null;
+  }
+  return { id: orgId ?? userId, userId, orgId: orgId ?? null, orgRole: orgRole ?? null };
+}
+
+/**
+ * A scope for work done on a scope's data outside any request, such as
+ * scheduled refreshes. It has no caller, so it must not be used for
+ * permission checks. Documents it adds are attributed to `userId`, if given.
+ */
+export function backgroundScope(scopeId: string, userId = ''): RequestScope {
+  return { id: scopeId, userId, orgId: null, orgRole: null };
+}
+
+/**
+ * Container tag carried by every memory in a scope. Used to list and search
+ * across all of a scope's collections at once.
+ */
+export function scopeTag(scope: RequestScope): string {
+  return scope.id;
+}
+
+/**
+ * The only container tag carried by a memory while it is in the trash. It
+ * replaces the scope tag, so trashed memories drop out of every listing,
+ * search and scoped lookup until they are restored.
+ */
+export function trashTag(scope: RequestScope): string {
+  return `${scope.id}#trash`;
+}
+
+/**
+ * The only container tag carried by a superseded document version. Like the
+ * trash tag, it keeps older versions out of listings and scoped lookups; Q&A
+ * searches it only when asked to include older versions.
+ */
+export function versionsTag(scope: RequestScope): string {
+  return `${scope.id}#versions`;
+}
+
+/**
+ * Container tag for a collection within a scope.
+ */
+export function collectionTag(scope: RequestScope, collection: string): string {
+  return `${scope.id}${TAG_SEPARATOR}${collection}`;
+}
+
+/**
+ * Container tags for a new memory in the given collections.
+ */
+export function containerTagsFor(scope: RequestScope, collections: string[]): string[] {
+  return [scopeTag(scope), ...collections.map((collection) => collectionTag(scope, collection))];
+}
+
+/**
+ * Extracts the collection names from a memory's container tags, ignoring the
+ * scope tag and tags from other scopes.
+ */
+export function collectionsFromTags(scope: RequestScope, containerTags: string[]): string[] {
+  const prefix = `${scope.id}${TAG_SEPARATOR}`;
+  return containerTags
+    .filter((tag) => tag.startsWith(prefix))
+    .map((tag) => tag.slice(prefix.length));
+}
+
+/**
+ * Metadata stamped on every memory so ownership survives outside the tags.
+ */
+export function scopeMetadata(scope: RequestScope): MemoryMetadata {
+  return { scope: scope.id, ownerId: scope.userId };
+}
+
+/**
+ * Whether a memory belongs to the given scope.
+ */
+export function isInScope(scope: RequestScope, memory: Pick<StoredMemory, 'containerTags'>): boolean {
+  return memory.containerTags.includes(scopeTag(scope));
+}
+
+/**
+ * Rewrites a memory's container tags as plain collection names for clients.
+ */
+export function toScopedMemory(scope: RequestScope, memory: StoredMemory): StoredMemory {
+  return { ...memory, containerTags: collectionsFromTags(scope, memory.containerTags) };
+}
+
+/**
+ * Fetches a memory only if it belongs to the given scope.
+ *
+ * @returns The memory, or null if it does not exist or belongs to another scope
+ */
+export async function getScopedMemory(
+  store: KnowledgeStore,
+  scope: RequestScope,
+  id: string
+): Promise<StoredMemory | null> {
+  let memory: StoredMemory;
+  try {
+    memory = await store.get(id);
+  } catch (error) {
+    if (error instanceof MemoryNotFoundError) {
+      return null;
+    }
+    throw error;
+  }
+  return isInScope(scope, memory) ? memory : null;
+}
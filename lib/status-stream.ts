@@ -0,0 +1,134 @@
+import { documentTitle } from '@/lib/document-details';
+import {
+  documentProgress,
+  failureReasonOf,
+  isProcessing,
+  type DocumentStatusEvent,
+} from '@/lib/document-status';
+import { MemoryNotFoundError, type KnowledgeStore, type StoredMemory } from '@/lib/knowledge-store';
+import { collectionTag, type RequestScope } from '@/lib/scope';
+
+/** How often the store is polled for each connected client */
+const STATUS_POLL_INTERVAL_MS = 3000;
+
+/**
+ * Number of most recently updated documents checked on each poll. Status
+ * changes bump `updatedAt`, so changes show up at the top of the listing;
+ * documents still processing outside this window are fetched one by one.
+ */
+const STATUS_POLL_WINDOW = 50;
+
+function toStatusEvent(memory: StoredMemory): DocumentStatusEvent {
+  return {
+    id: memory.id,
+    title: documentTitle(memory.title, memory.metadata),
+    status: memory.status,
+    progress: documentProgress(memory.status, memory.metadata),
+    failureReason: failureReasonOf(memory.status, memory.metadata),
+  };
+}
+
+/**
+ * Streams status changes of the documents in a collection as server-sent
+ * events, polling the store on the client's behalf until the request is
+ * aborted.
+ *
+ * Sends a `status` event with a `DocumentStatusEvent` whenever a document's
+ * status or progress changes (and, on connect, for every document still
+ * processing), and a `removed` event with `{ id }` when a document being
+ * watched leaves the collection.
+ */
+export function streamCollectionStatus(
+  store: KnowledgeStore,
+  scope: RequestScope,
+  collection: string,
+  signal: AbortSignal
+): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  const tag = collectionTag(scope, collection);
+  // Last status and progress sent (or seen) for each document
+  const known = new Map<string, DocumentStatusEvent>();
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  let closed = false;
+
+  return new ReadableStream({
+    start(controller) {
+      const write = (chunk: string) => {
+        if (!closed) {
+          controller.enqueue(encoder.encode(chunk));
+        }
+      };
+      const send = (event: string, data: unknown) =>
+        write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+
+      const update = (memory: StoredMemory, initial: boolean) => {
+        const event = toStatusEvent(memory);
+        const previous = known.get(memory.id);
+        known.set(memory.id, event);
+        const changed =
+          previous?.status !== event.status || previous.progress !== event.progress;
+        if (initial ? isProcessing(event.status) : changed) {
+          send('status', event);
+        }
+      };
+
+      const poll = async (initial: boolean) => {
+        try {
+          const { memories } = await store.list({
+            containerTags: [tag],
+            limit: STATUS_POLL_WINDOW,
+            sort: 'updatedAt',
+            order: 'desc',
+          });
+          const seen = new Set<string>();
+          for (const memory of memories) {
+            seen.add(memory.id);
+            update(memory, initial);
+          }
+
+          for (const [id, event] of known) {
+            if (seen.has(id) || !isProcessing(event.status)) continue;
+            try {
+              const memory = await store.get(id);
+              if (memory.containerTags.includes(tag)) {
+                update(memory, initial);
+                continue;
+              }
+            } catch (error) {
+              if (!(error instanceof MemoryNotFoundError)) throw error;
+            }
+            known.delete(id);
+            send('removed', { id });
+          }
+
+          // Comment line, so proxies keep the connection open
+          write(': ping\n\n');
+        } catch (error) {
+          // Keep the stream open; the next poll may succeed
+          console.error('Collection status poll error:', error);
+        }
+
+        if (!closed) {
+          timer = setTimeout(() => poll(false), STATUS_POLL_INTERVAL_MS);
+        }
+      };
+
+      signal.addEventListener('abort', () => {
+        closed = true;
+        clearTimeout(timer);
+        try {
+          controller.close();
+        } catch {
+          // Already closed by the client
+        }
+      });
+
+      write('retry: 5000\n\n');
+      void poll(true);
+    },
+    cancel() {
+      closed = true;
+      clearTimeout(timer);
+    },
+  });
+}
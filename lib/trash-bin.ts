@@ -0,0 +1,293 @@
+import {
+  deleteCollectionRecord,
+  getCollectionRecord,
+  restoreCollectionRecord,
+} from '@/lib/collection-records';
+import { deleteOlderVersions } from '@/lib/document-versions';
+import { startJob, type JobHandler } from '@/lib/job-runner';
+import {
+  listAllMemories,
+  MemoryNotFoundError,
+  type KnowledgeStore,
+  type StoredMemory,
+} from '@/lib/knowledge-store';
+import { deleteOriginalFile } from '@/lib/original-files';
+import {
+  deleteCollectionMembers,
+  listCollectionMembers,
+  setCollectionMember,
+} from '@/lib/permissions';
+import { collectionsFromTags, collectionTag, trashTag, type RequestScope } from '@/lib/scope';
+import type { TrashItem } from '@/lib/trash';
+import {
+  addTrashedDocument,
+  createTrashItem,
+  deleteTrashItem,
+  getCollectionSnapshot,
+  getTrashItem,
+  listExpiredTrashItems,
+  listTrashedDocuments,
+  removeTrashedDocument,
+  setTrashItemState,
+  type TrashedDocument,
+} from '@/lib/trash-records';
+
+/**
+ * The tags a trashed document gets back on restore: its original tags,
+ * minus those of collections in this scope that no longer exist.
+ */
+export function restorableTags(scope: RequestScope, containerTags: string[]): string[] {
+  return containerTags.filter((tag) => {
+    const [collection] = collectionsFromTags(scope, [tag]);
+    return collection === undefined || getCollectionRecord(scope, collection) !== null;
+  });
+}
+
+/**
+ * Moves a document to the caller's trash.
+ */
+export async function trashDocument(
+  store: KnowledgeStore,
+  scope: RequestScope,
+  memory: StoredMemory
+): Promise<TrashItem> {
+  const item = createTrashItem(scope, 'document', memory.title || 'Untitled');
+  addTrashedDocument(item.id, {
+    memoryId: memory.id,
+    title: memory.title,
+    containerTags: memory.containerTags,
+  });
+
+  try {
+    await store.update(memory.id, { containerTags: [trashTag(scope)] });
+  } catch (error) {
+    deleteTrashItem(item.id);
+    throw error;
+  }
+
+  return getTrashItem(scope, item.id)!;
+}
+
+/**
+ * Moves a collection to the caller's trash, removing its record and role
+ * grants straight away. Its documents are moved by the handler returned from
+ * `trashCollectionDocuments`.
+ */
+export function trashCollection(scope: RequestScope, name: string): TrashItem {
+  const record = getCollectionRecord(scope, name)!;
+  const members = listCollectionMembers(scope, name);
+  const item = createTrashItem(scope, 'collection', name, { record, members });
+
+  deleteCollectionRecord(scope, name);
+  deleteCollectionMembers(scope, name);
+
+  return item;
+}
+
+/**
+ * Moves every document in a trashed collection to the trash item.
+ *
+ * Only documents in no other collection go to the trash. Documents shared
+ * with other collections stay where they are and just lose this collection's
+ * tag, which is all the trash item records for them. Documents that fail to
+ * move keep the collection's tag, so they come back when the collection is
+ * restored.
+ */
+export function trashCollectionDocuments(
+  store: KnowledgeStore,
+  scope: RequestScope,
+  trashId: string,
+  name: string
+): JobHandler {
+  return async (context) => {
+    const tag = collectionTag(scope, name);
+    // Collect IDs up front: re-tagging removes memories from the listing
+    const memories = await listAllMemories(store, { containerTags: [tag] });
+    context.setTotal(memories.length);
+
+    for (const memory of memories) {
+      const shared = collectionsFromTags(scope, memory.containerTags).some(
+        (collection) => collection !== name
+      );
+      addTrashedDocument(trashId, {
+        memoryId: memory.id,
+        title: memory.title,
+        containerTags: shared ? [tag] : memory.containerTags,
+      });
+
+      try {
+        await store.update(memory.id, {
+          containerTags: shared
+            ? memory.containerTags.filter((containerTag) => containerTag !== tag)
+            : [trashTag(scope)],
+        });
+        context.succeeded();
+      } catch (error: any) {
+        console.error(`Failed to move memory ${memory.id} to the trash:`, error);
+        removeTrashedDocument(trashId, memory.id);
+        context.failed({ id: memory.id, title: memory.title, error: error.message });
+      }
+    }
+  };
+}
+
+/**
+ * Gives a trashed document its recorded tags back, on top of the collections
+ * it is in now. Documents that stayed in other collections when a collection
+ * was trashed only get that collection's tag back.
+ *
+ * @throws MemoryNotFoundError if the document no longer exists
+ */
+export async function restoreDocument(
+  store: KnowledgeStore,
+  scope: RequestScope,
+  trashId: string,
+  document: TrashedDocument
+) {
+  const memory = await store.get(document.memoryId);
+  const current = memory.containerTags.filter((tag) => tag !== trashTag(scope));
+  await store.update(document.memoryId, {
+    containerTags: Array.from(
+      new Set([...current, ...restorableTags(scope, document.containerTags)])
+    ),
+  });
+  removeTrashedDocument(trashId, document.memoryId);
+}
+
+/**
+ * Re-creates a trashed collection's record and role grants. The caller must
+ * check that the name is free first.
+ */
+export function restoreCollection(scope: RequestScope, trashId: string) {
+  const { record, members } = getCollectionSnapshot(trashId)!;
+  restoreCollectionRecord(scope, record);
+  for (const member of members) {
+    setCollectionMember(scope, record.name, member.principalType, member.principalId, member.role);
+  }
+}
+
+/**
+ * Leaves the trash item in the trash if documents remain, so the operation
+ * can be retried, or removes it once it is empty.
+ */
+function settleTrashItem(trashId: string) {
+  if (listTrashedDocuments(trashId).length === 0) {
+    deleteTrashItem(trashId);
+  } else {
+    setTrashItemState(trashId, 'trashed');
+  }
+}
+
+/**
+ * Restores every document held by a trash item.
+ */
+export function restoreTrashedDocuments(
+  store: KnowledgeStore,
+  scope: RequestScope,
+  trashId: string
+): JobHandler {
+  return async (context) => {
+    const documents = listTrashedDocuments(trashId);
+    context.setTotal(documents.length);
+
+    for (const document of documents) {
+      try {
+        await restoreDocument(store, scope, trashId, document);
+        context.succeeded();
+      } catch (error: any) {
+        console.error(`Failed to restore memory ${document.memoryId}:`, error);
+        if (error instanceof MemoryNotFoundError) {
+          removeTrashedDocument(trashId, document.memoryId);
+        }
+        context.failed({ id: document.memoryId, title: document.title, error: error.message });
+      }
+    }
+
+    settleTrashItem(trashId);
+  };
+}
+
+/**
+ * Permanently deletes one trashed document and its older versions.
+ * Documents that are no longer in the trash, because they stayed in other
+ * collections or were restored elsewhere, are only dropped from the item.
+ */
+export async function purgeTrashedDocument(
+  store: KnowledgeStore,
+  scope: RequestScope,
+  trashId: string,
+  document: TrashedDocument
+) {
+  let memory: StoredMemory | null;
+  try {
+    memory = await store.get(document.memoryId);
+  } catch (error) {
+    if (!(error instanceof MemoryNotFoundError)) {
+      throw error;
+    }
+    memory = null;
+  }
+
+  if (memory?.containerTags.includes(trashTag(scope))) {
+    await store.delete(document.memoryId);
+    await deleteOlderVersions(store, document.memoryId);
+    await deleteOriginalFile(document.memoryId);
+  }
+  removeTrashedDocument(trashId, document.memoryId);
+}
+
+/**
+ * Permanently deletes every document held by a trash item, then the item.
+ */
+export function purgeTrashedDocuments(
+  store: KnowledgeStore,
+  scope: RequestScope,
+  trashId: string
+): JobHandler {
+  return async (context) => {
+    const documents = listTrashedDocuments(trashId);
+    context.setTotal(documents.length);
+
+    for (const document of documents) {
+      try {
+        await purgeTrashedDocument(store, scope, trashId, document);
+        context.succeeded();
+      } catch (error: any) {
+        console.error(`Failed to purge memory ${document.memoryId}:`, error);
+        context.failed({ id: document.memoryId, title: document.title, error: error.message });
+      }
+    }
+
+    settleTrashItem(trashId);
+  };
+}
+
+/**
+ * Purges the trash items, in every scope, whose retention window has passed.
+ * Documents are deleted right away; collections are purged by background
+ * jobs started for the user who deleted them. Runs with each refresh pass.
+ *
+ * @returns The number of items purged or handed to a purge job
+ */
+export async function purgeExpiredTrash(store: KnowledgeStore): Promise<number> {
+  let purged = 0;
+  for (const { scope, item } of listExpiredTrashItems()) {
+    if (item.kind === 'collection') {
+      setTrashItemState(item.id, 'purging');
+      startJob(scope, 'purge-collection', item.name, null, purgeTrashedDocuments(store, scope, item.id));
+      purged++;
+      continue;
+    }
+
+    try {
+      for (const document of listTrashedDocuments(item.id)) {
+        await purgeTrashedDocument(store, scope, item.id, document);
+      }
+      deleteTrashItem(item.id);
+      purged++;
+    } catch (error) {
+      console.error(`Failed to purge expired trash item ${item.id}:`, error);
+    }
+  }
+  return purged;
+}
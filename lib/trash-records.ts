@@ -0,0 +1,208 @@
+import { randomUUID } from 'node:crypto';
+import { getDatabase } from '@/lib/db';
+import type { CollectionRecord } from '@/lib/collections';
+import type { CollectionMember } from '@/lib/roles';
+import { backgroundScope, collectionsFromTags, type RequestScope } from '@/lib/scope';
+import type { TrashItem, TrashItemKind } from '@/lib/trash';
+
+/** Days a trashed item is kept when `TRASH_RETENTION_DAYS` is not set */
+const DEFAULT_TRASH_RETENTION_DAYS = 30;
+
+/**
+ * `trashed` items are listed in the trash; `restoring` and `purging` items
+ * have a background job working on them and are hidden.
+ */
+type TrashItemState = 'trashed' | 'restoring' | 'purging';
+
+/**
+ * What is needed to re-create a trashed collection.
+ */
+export interface CollectionSnapshot {
+  record: CollectionRecord;
+  members: CollectionMember[];
+}
+
+/**
+ * A document held by a trash item, with the container tags it had before it
+ * was trashed.
+ */
+export interface TrashedDocument {
+  memoryId: string;
+  title: string | null;
+  containerTags: string[];
+}
+
+interface TrashItemRow {
+  id: string;
+  scope: string;
+  kind: TrashItemKind;
+  name: string;
+  deleted_by: string;
+  deleted_at: string;
+  expires_at: string;
+  document_count: number;
+  first_tags: string | null;
+}
+
+const SELECT_ITEMS = `
+  SELECT t.id, t.scope, t.kind, t.name, t.deleted_by, t.deleted_at, t.expires_at,
+    (SELECT COUNT(*) FROM trash_documents d WHERE d.trash_id = t.id) AS document_count,
+    (SELECT d.container_tags FROM trash_documents d WHERE d.trash_id = t.id LIMIT 1) AS first_tags
+  FROM trash_items t`;
+
+/**
+ * Days deleted items stay in the trash, from `TRASH_RETENTION_DAYS`.
+ * Zero disables the trash: deletes are permanent straight away.
+ */
+export function getTrashRetentionDays(): number {
+  const configured = Number.parseInt(process.env.TRASH_RETENTION_DAYS ?? '', 10);
+  return Number.isInteger(configured) && configured >= 0 ? configured : DEFAULT_TRASH_RETENTION_DAYS;
+}
+
+function toTrashItem(scope: RequestScope, row: TrashItemRow): TrashItem {
+  return {
+    id: row.id,
+    kind: row.kind,
+    name: row.name,
+    documentCount: row.document_count,
+    collections:
+      row.kind === 'document' && row.first_tags
+        ? collectionsFromTags(scope, JSON.parse(row.first_tags))
+        : [],
+    deletedAt: row.deleted_at,
+    expiresAt: row.expires_at,
+  };
+}
+
+/**
+ * Creates an empty trash item deleted by the caller. Documents are added
+ * with `addTrashedDocument`.
+ */
+export function createTrashItem(
+  scope: RequestScope,
+  kind: TrashItemKind,
+  name: string,
+  snapshot: CollectionSnapshot | null = null
+): TrashItem {
+  const id = randomUUID();
+  const deletedAt = new Date();
+  const expiresAt = new Date(deletedAt.getTime() + getTrashRetentionDays() * 24 * 60 * 60 * 1000);
+
+  getDatabase()
+    .prepare(
+      `INSERT INTO trash_items (id, scope, kind, name, snapshot, deleted_by, deleted_at, expires_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?)`
+    )
+    .run(
+      id,
+      scope.id,
+      kind,
+      name,
+      snapshot ? JSON.stringify(snapshot) : null,
+      scope.userId,
+      deletedAt.toISOString(),
+      expiresAt.toISOString()
+    );
+  return getTrashItem(scope, id)!;
+}
+
+/**
+ * Fetches a trash item the caller deleted, if it is still in the trash.
+ *
+ * @returns The item, or null if it does not exist, belongs to someone else or
+ * is being restored or purged
+ */
+export function getTrashItem(scope: RequestScope, id: string): TrashItem | null {
+  const row = getDatabase()
+    .prepare(`${SELECT_ITEMS} WHERE t.scope = ? AND t.deleted_by = ? AND t.id = ? AND t.state = 'trashed'`)
+    .get(scope.id, scope.userId, id) as TrashItemRow | undefined;
+  return row ? toTrashItem(scope, row) : null;
+}
+
+/**
+ * Lists the items the caller deleted in the scope, most recent first.
+ */
+export function listTrashItems(scope: RequestScope): TrashItem[] {
+  const rows = getDatabase()
+    .prepare(
+      `${SELECT_ITEMS} WHERE t.scope = ? AND t.deleted_by = ? AND t.state = 'trashed'
+       ORDER BY t.deleted_at DESC`
+    )
+    .all(scope.id, scope.userId) as TrashItemRow[];
+  return rows.map((row) => toTrashItem(scope, row));
+}
+
+/**
+ * Lists the trash items, in every scope, whose retention window has passed,
+ * each with a background scope for the user who deleted it.
+ */
+export function listExpiredTrashItems(): { scope: RequestScope; item: TrashItem }[] {
+  const rows = getDatabase()
+    .prepare(
+      `${SELECT_ITEMS} WHERE t.state = 'trashed' AND t.expires_at <= ?`
+    )
+    .all(new Date().toISOString()) as TrashItemRow[];
+  return rows.map((row) => {
+    const scope = backgroundScope(row.scope, row.deleted_by);
+    return { scope, item: toTrashItem(scope, row) };
+  });
+}
+
+/**
+ * Hides a trash item while a background job restores or purges it.
+ */
+export function setTrashItemState(id: string, state: TrashItemState) {
+  getDatabase().prepare('UPDATE trash_items SET state = ? WHERE id = ?').run(state, id);
+}
+
+/**
+ * The collection a trash item holds, or null for document items.
+ */
+export function getCollectionSnapshot(id: string): CollectionSnapshot | null {
+  const row = getDatabase().prepare('SELECT snapshot FROM trash_items WHERE id = ?').get(id) as
+    | { snapshot: string | null }
+    | undefined;
+  return row?.snapshot ? JSON.parse(row.snapshot) : null;
+}
+
+/**
+ * Records a document as held by a trash item, with the tags it had before.
+ */
+export function addTrashedDocument(trashId: string, document: TrashedDocument) {
+  getDatabase()
+    .prepare(
+      `INSERT OR REPLACE INTO trash_documents (trash_id, memory_id, title, container_tags)
+       VALUES (?, ?, ?, ?)`
+    )
+    .run(trashId, document.memoryId, document.title, JSON.stringify(document.containerTags));
+}
+
+/**
+ * Lists the documents a trash item holds.
+ */
+export function listTrashedDocuments(trashId: string): TrashedDocument[] {
+  const rows = getDatabase()
+    .prepare('SELECT memory_id, title, container_tags FROM trash_documents WHERE trash_id = ?')
+    .all(trashId) as { memory_id: string; title: string | null; container_tags: string }[];
+  return rows.map((row) => ({
+    memoryId: row.memory_id,
+    title: row.title,
+    containerTags: JSON.parse(row.container_tags),
+  }));
+}
+
+/**
+ * Forgets a document once it has been restored or purged.
+ */
+export function removeTrashedDocument(trashId: string, memoryId: string) {
+  getDatabase()
+    .prepare('DELETE FROM trash_documents WHERE trash_id = ? AND memory_id = ?')
+    .run(trashId, memoryId);
+}
+
+/**
+ * Deletes a trash item and its document records.
+ */
+export function deleteTrashItem(id: string) {
+  getDatabase().prepare('DELETE FROM trash_items WHERE id = ?').run(id);
+}
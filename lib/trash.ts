@@ -0,0 +1,23 @@
+/**
+ * What a trash entry holds: a single document, or a whole collection with
+ * its documents.
+ */
+export type TrashItemKind = 'document' | 'collection';
+
+/**
+ * A deleted document or collection waiting in the caller's trash, as
+ * returned by `GET /api/trash`.
+ */
+export interface TrashItem {
+  id: string;
+  kind: TrashItemKind;
+  /** Document title or collection name */
+  name: string;
+  /** Number of documents that will be restored or purged */
+  documentCount: number;
+  /** Collections a trashed document belonged to; empty for collections */
+  collections: string[];
+  deletedAt: string;
+  /** ISO timestamp after which the item is purged permanently */
+  expiresAt: string;
+}
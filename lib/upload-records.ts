@@ -0,0 +1,171 @@
+import { randomUUID } from 'node:crypto';
+import { getDatabase } from '@/lib/db';
+import type { MemoryMetadata } from '@/lib/knowledge-store';
+import type { RequestScope } from '@/lib/scope';
+import type { UploadSession } from '@/lib/uploads';
+
+/** Hours an unfinished upload is kept before its parts are discarded */
+const UPLOAD_SESSION_TTL_HOURS = 24;
+
+/**
+ * Minutes after which an upload still marked as completing is assumed to
+ * have been interrupted (e.g. by a restart) and may be completed again
+ */
+const UPLOAD_COMPLETION_TIMEOUT_MINUTES = 30;
+
+interface UploadSessionRow {
+  id: string;
+  file_name: string;
+  size: number;
+  part_size: number;
+  collections: string;
+  created_at: string;
+  expires_at: string;
+  received_parts: string | null;
+}
+
+/**
+ * What the file of an upload is stored with once it is complete.
+ */
+export interface UploadFileDetails {
+  fileType: string;
+  metadata: MemoryMetadata;
+}
+
+/**
+ * Parameters for starting a chunked upload.
+ */
+export interface NewUploadSession {
+  fileName: string;
+  fileType: string;
+  size: number;
+  partSize: number;
+  collections: string[];
+  metadata: MemoryMetadata;
+}
+
+const SELECT_SESSIONS = `
+  SELECT s.id, s.file_name, s.size, s.part_size, s.collections, s.created_at, s.expires_at,
+    (SELECT json_group_array(part_number) FROM
+      (SELECT part_number FROM upload_parts p WHERE p.session_id = s.id ORDER BY part_number)
+    ) AS received_parts
+  FROM upload_sessions s`;
+
+function toUploadSession(row: UploadSessionRow): UploadSession {
+  return {
+    id: row.id,
+    fileName: row.file_name,
+    size: row.size,
+    partSize: row.part_size,
+    partCount: Math.max(1, Math.ceil(row.size / row.part_size)),
+    receivedParts: row.received_parts ? JSON.parse(row.received_parts) : [],
+    collections: JSON.parse(row.collections),
+    createdAt: row.created_at,
+    expiresAt: row.expires_at,
+  };
+}
+
+/**
+ * Starts a chunked upload by the caller.
+ */
+export function createUploadSession(scope: RequestScope, upload: NewUploadSession): UploadSession {
+  const id = randomUUID();
+  const createdAt = new Date();
+  const expiresAt = new Date(createdAt.getTime() + UPLOAD_SESSION_TTL_HOURS * 60 * 60 * 1000);
+
+  getDatabase()
+    .prepare(
+      `INSERT INTO upload_sessions
+         (id, scope, file_name, file_type, size, part_size, collections, metadata, created_by, created_at, expires_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+    )
+    .run(
+      id,
+      scope.id,
+      upload.fileName,
+      upload.fileType,
+      upload.size,
+      upload.partSize,
+      JSON.stringify(upload.collections),
+      JSON.stringify(upload.metadata),
+      scope.userId,
+      createdAt.toISOString(),
+      expiresAt.toISOString()
+    );
+  return getUploadSession(scope, id)!;
+}
+
+/**
+ * Fetches an unexpired upload the caller started in the scope.
+ *
+ * @returns The upload, or null if it does not exist, has expired or belongs
+ * to someone else
+ */
+export function getUploadSession(scope: RequestScope, id: string): UploadSession | null {
+  const row = getDatabase()
+    .prepare(`${SELECT_SESSIONS} WHERE s.scope = ? AND s.created_by = ? AND s.id = ? AND s.expires_at > ?`)
+    .get(scope.id, scope.userId, id, new Date().toISOString()) as UploadSessionRow | undefined;
+  return row ? toUploadSession(row) : null;
+}
+
+/**
+ * The file type and metadata an upload was started with.
+ */
+export function getUploadFileDetails(id: string): UploadFileDetails {
+  const row = getDatabase()
+    .prepare('SELECT file_type, metadata FROM upload_sessions WHERE id = ?')
+    .get(id) as { file_type: string; metadata: string };
+  return { fileType: row.file_type, metadata: JSON.parse(row.metadata) };
+}
+
+/**
+ * Lists the IDs of uploads, in any scope, whose time has run out.
+ */
+export function listExpiredUploadSessions(): string[] {
+  const rows = getDatabase()
+    .prepare('SELECT id FROM upload_sessions WHERE expires_at <= ?')
+    .all(new Date().toISOString()) as { id: string }[];
+  return rows.map((row) => row.id);
+}
+
+/**
+ * Records a part as received, replacing any earlier copy.
+ */
+export function recordUploadPart(id: string, partNumber: number, size: number) {
+  getDatabase()
+    .prepare('INSERT OR REPLACE INTO upload_parts (session_id, part_number, size) VALUES (?, ?, ?)')
+    .run(id, partNumber, size);
+}
+
+/**
+ * Marks an upload as being completed, unless another request is already
+ * completing it, so the file is only assembled and stored once.
+ *
+ * @returns Whether the caller may go ahead and complete the upload
+ */
+export function claimUploadCompletion(id: string): boolean {
+  const now = new Date();
+  const stale = new Date(now.getTime() - UPLOAD_COMPLETION_TIMEOUT_MINUTES * 60 * 1000);
+  const result = getDatabase()
+    .prepare(
+      `UPDATE upload_sessions SET completing_at = ?
+       WHERE id = ? AND (completing_at IS NULL OR completing_at < ?)`
+    )
+    .run(now.toISOString(), id, stale.toISOString());
+  return result.changes === 1;
+}
+
+/**
+ * Lets an upload be completed again after completing it did not store the
+ * file, e.g. because it was rejected as a duplicate.
+ */
+export function releaseUploadCompletion(id: string) {
+  getDatabase().prepare('UPDATE upload_sessions SET completing_at = NULL WHERE id = ?').run(id);
+}
+
+/**
+ * Deletes an upload and its part records.
+ */
+export function deleteUploadSession(id: string) {
+  getDatabase().prepare('DELETE FROM upload_sessions WHERE id = ?').run(id);
+}
@@ -0,0 +1,30 @@
+/**
+ * A chunked upload in progress, as returned by `/api/memories/uploads`.
+ *
+ * The file is sent in `partCount` parts of `partSize` bytes (the last one
+ * may be shorter), numbered from 1. Parts can be sent in any order and
+ * re-sent; the upload is resumed by sending the parts missing from
+ * `receivedParts`.
+ */
+export interface UploadSession {
+  id: string;
+  fileName: string;
+  /** Total file size in bytes */
+  size: number;
+  partSize: number;
+  partCount: number;
+  /** Numbers of the parts received so far, in ascending order */
+  receivedParts: number[];
+  /** Collections the file is uploaded to */
+  collections: string[];
+  createdAt: string;
+  /** ISO timestamp after which unfinished parts are discarded */
+  expiresAt: string;
+}
+
+/**
+ * Size in bytes of a part of an upload.
+ */
+export function partSizeOf(session: Pick<UploadSession, 'size' | 'partSize'>, partNumber: number): number {
+  return Math.min(session.partSize, session.size - (partNumber - 1) * session.partSize);
+}
@@ -0,0 +1,67 @@
+import { recordFingerprint } from '@/lib/fingerprint-records';
+import { normalizeUrl, urlFingerprint } from '@/lib/fingerprints';
+import type { AddMemoryResult, KnowledgeStore, MemoryMetadata } from '@/lib/knowledge-store';
+import { extractUrlText } from '@/lib/knowledge-store/text-extraction';
+import { recordRefreshCheck } from '@/lib/refresh-records';
+import { containerTagsFor, scopeMetadata, type RequestScope } from '@/lib/scope';
+import { hashPage } from '@/lib/url-refresh';
+
+/**
+ * Fetches a newly added page and records the hash of its text, so the first
+ * refresh check can already tell whether the page changed since it was
+ * added. Runs in the background; a page that cannot be fetched is left for
+ * the first check to record.
+ */
+function recordPageBaseline(scope: RequestScope, memoryId: string, url: string) {
+  void extractUrlText(url)
+    .then(({ title, text }) =>
+      recordRefreshCheck(scope, memoryId, {
+        checkedAt: new Date().toISOString(),
+        pageHash: hashPage(title, text),
+      })
+    )
+    .catch((error) => console.error(`Failed to record the page hash of ${url}:`, error));
+}
+
+/**
+ * Adds a web page to a collection for the store to fetch and process, and
+ * records its URL fingerprint and page hash. The caller checks for
+ * duplicates first.
+ *
+ * @param page - The page's title and text if the caller already fetched it;
+ *   used instead of fetching it again where the store allows
+ */
+export async function addUrlDocument(
+  store: KnowledgeStore,
+  scope: RequestScope,
+  collection: string,
+  url: string,
+  metadata: MemoryMetadata = {},
+  page?: { title: string; text: string }
+): Promise<AddMemoryResult> {
+  const normalizedUrl = normalizeUrl(url);
+  const result = await store.add({
+    content: url,
+    contentType: 'url',
+    page,
+    containerTags: containerTagsFor(scope, [collection]),
+    metadata: {
+      type: 'url',
+      originalUrl: url,
+      uploadedAt: new Date().toISOString(),
+      ...metadata,
+      normalizedUrl,
+      ...scopeMetadata(scope),
+    },
+  });
+  recordFingerprint(scope, result.id, urlFingerprint(normalizedUrl));
+  if (page) {
+    recordRefreshCheck(scope, result.id, {
+      checkedAt: new Date().toISOString(),
+      pageHash: hashPage(page.title, page.text),
+    });
+  } else {
+    recordPageBaseline(scope, result.id, url);
+  }
+  return result;
+}
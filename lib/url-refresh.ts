@@ -0,0 +1,213 @@
+import { createHash } from 'node:crypto';
+import { getCollectionRecord, listRefreshingCollections } from '@/lib/collection-records';
+import { isProcessing } from '@/lib/document-status';
+import {
+  listAllMemories,
+  MemoryNotFoundError,
+  type KnowledgeStore,
+  type StoredMemory,
+} from '@/lib/knowledge-store';
+import { extractUrlText } from '@/lib/knowledge-store/text-extraction';
+import {
+  isRefreshDue,
+  mostFrequentInterval,
+  type RefreshInterval,
+  type RefreshStatus,
+} from '@/lib/refresh';
+import {
+  deleteRefreshRecord,
+  getRefreshRecord,
+  listScheduledDocuments,
+  recordRefreshCheck,
+} from '@/lib/refresh-records';
+import { reprocessDocument } from '@/lib/reprocessing';
+import {
+  backgroundScope,
+  collectionsFromTags,
+  collectionTag,
+  isInScope,
+  type RequestScope,
+} from '@/lib/scope';
+
+/**
+ * What a check found: the page `changed` or is `unchanged` (including a
+ * first check of a document added without a hash, which only records it), could not be fetched (`failed`), or
+ * was not checked because the document is still being processed (`skipped`).
+ */
+export type RefreshOutcome = 'changed' | 'unchanged' | 'failed' | 'skipped';
+
+/**
+ * The result of checking a web page document.
+ */
+export interface RefreshResult {
+  outcome: RefreshOutcome;
+  /** The document's ID, which changes if reprocessing had to replace it */
+  id: string;
+}
+
+/**
+ * Counts from one pass over the documents due for a refresh.
+ */
+export interface RefreshSummary {
+  checked: number;
+  changed: number;
+  failed: number;
+}
+
+/**
+ * Whether a document is a web page that can be refreshed.
+ */
+export function isUrlDocument(memory: StoredMemory): boolean {
+  return typeof memory.metadata.originalUrl === 'string';
+}
+
+/**
+ * The refresh interval in effect for a document: its own if it has one,
+ * otherwise the most frequent of its collections' intervals.
+ */
+export function effectiveRefreshInterval(
+  scope: RequestScope,
+  memory: StoredMemory,
+  own: RefreshInterval | null
+): RefreshInterval {
+  if (own) {
+    return own;
+  }
+  return mostFrequentInterval(
+    collectionsFromTags(scope, memory.containerTags).map(
+      (name) => getCollectionRecord(scope, name)?.settings.refreshInterval ?? 'off'
+    )
+  );
+}
+
+/**
+ * A document's refresh schedule and the outcome of its last check.
+ */
+export function getRefreshStatus(scope: RequestScope, memory: StoredMemory): RefreshStatus {
+  const record = getRefreshRecord(memory.id);
+  const interval = record?.interval ?? null;
+  return {
+    interval,
+    effectiveInterval: effectiveRefreshInterval(scope, memory, interval),
+    lastCheckedAt: record?.lastCheckedAt ?? null,
+    lastChangedAt: record?.lastChangedAt ?? null,
+    lastError: record?.lastError ?? null,
+  };
+}
+
+/**
+ * Hash of a page's title and extracted text, compared between checks.
+ */
+export function hashPage(title: string, text: string): string {
+  return createHash('sha256').update(`${title}\n${text}`).digest('hex');
+}
+
+/**
+ * Fetches a web page document's URL again and compares the hash of its text
+ * with the last check, or with the hash recorded when it was added. The
+ * document is reprocessed only if the page changed; a first check without a
+ * recorded hash just records it. `lastCheckedAt` and `lastChangedAt`
+ * metadata are updated for the document list.
+ *
+ * A page that cannot be fetched is recorded as a failed check rather than
+ * thrown. Documents still being processed are left for the next check.
+ */
+export async function checkUrlDocument(
+  store: KnowledgeStore,
+  scope: RequestScope,
+  memory: StoredMemory
+): Promise<RefreshResult> {
+  const url = memory.metadata.originalUrl;
+  if (typeof url !== 'string' || isProcessing(memory.status)) {
+    return { outcome: 'skipped', id: memory.id };
+  }
+
+  const checkedAt = new Date().toISOString();
+  let pageHash: string;
+  try {
+    const { title, text } = await extractUrlText(url);
+    pageHash = hashPage(title, text);
+  } catch (error: any) {
+    console.error(`Failed to refresh ${url}:`, error);
+    recordRefreshCheck(scope, memory.id, { checkedAt, error: error.message });
+    return { outcome: 'failed', id: memory.id };
+  }
+
+  const previousHash = getRefreshRecord(memory.id)?.pageHash ?? null;
+  const changed = previousHash !== null && previousHash !== pageHash;
+
+  await store.update(memory.id, {
+    metadata: {
+      ...memory.metadata,
+      lastCheckedAt: checkedAt,
+      ...(changed && { lastChangedAt: checkedAt }),
+    },
+  });
+  const id = changed ? (await reprocessDocument(store, memory)).id : memory.id;
+  recordRefreshCheck(scope, id, {
+    checkedAt,
+    pageHash,
+    ...(changed && { changedAt: checkedAt }),
+  });
+
+  return { outcome: changed ? 'changed' : 'unchanged', id };
+}
+
+/**
+ * Checks every web page document in every scope whose refresh interval has
+ * passed since its last check: those in collections with a refresh
+ * interval, and those with one of their own. Pages are fetched one at a
+ * time. Trashed documents and older versions are skipped.
+ */
+export async function refreshDueDocuments(store: KnowledgeStore): Promise<RefreshSummary> {
+  const candidates = new Map<string, { scope: RequestScope; memory: StoredMemory }>();
+
+  for (const collection of listRefreshingCollections()) {
+    const scope = backgroundScope(collection.scope);
+    const memories = await listAllMemories(store, {
+      containerTags: [collectionTag(scope, collection.name)],
+    });
+    for (const memory of memories) {
+      if (isUrlDocument(memory)) {
+        candidates.set(memory.id, { scope, memory });
+      }
+    }
+  }
+
+  for (const { memoryId, scope } of listScheduledDocuments()) {
+    if (candidates.has(memoryId)) continue;
+    try {
+      const memory = await store.get(memoryId);
+      candidates.set(memoryId, { scope: backgroundScope(scope), memory });
+    } catch (error) {
+      if (error instanceof MemoryNotFoundError) {
+        deleteRefreshRecord(memoryId);
+        continue;
+      }
+      throw error;
+    }
+  }
+
+  const summary: RefreshSummary = { checked: 0, changed: 0, failed: 0 };
+  const now = Date.now();
+  for (const { scope, memory } of candidates.values()) {
+    if (!isInScope(scope, memory) || !isUrlDocument(memory)) continue;
+
+    const record = getRefreshRecord(memory.id);
+    const interval = effectiveRefreshInterval(scope, memory, record?.interval ?? null);
+    if (!isRefreshDue(record?.lastCheckedAt ?? null, interval, now)) continue;
+
+    try {
+      const { outcome } = await checkUrlDocument(store, scope, memory);
+      if (outcome === 'skipped') continue;
+      summary.checked++;
+      if (outcome === 'changed') summary.changed++;
+      if (outcome === 'failed') summary.failed++;
+    } catch (error) {
+      console.error(`Failed to refresh memory ${memory.id}:`, error);
+      summary.checked++;
+      summary.failed++;
+    }
+  }
+  return summary;
+}
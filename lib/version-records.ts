@@ -0,0 +1,150 @@
+import { randomUUID } from 'node:crypto';
+import { getDatabase } from '@/lib/db';
+import type { RequestScope } from '@/lib/scope';
+
+/**
+ * A stored version of an uploaded file. Every upload is recorded; re-uploads
+ * of the same file name join the group of the version they replace.
+ */
+export interface VersionRecord {
+  memoryId: string;
+  groupId: string;
+  version: number;
+  originalName: string;
+  current: boolean;
+  createdBy: string;
+  createdAt: string;
+}
+
+interface VersionRow {
+  memory_id: string;
+  group_id: string;
+  version: number;
+  original_name: string;
+  is_current: number;
+  created_by: string;
+  created_at: string;
+}
+
+function toVersionRecord(row: VersionRow): VersionRecord {
+  return {
+    memoryId: row.memory_id,
+    groupId: row.group_id,
+    version: row.version,
+    originalName: row.original_name,
+    current: row.is_current === 1,
+    createdBy: row.created_by,
+    createdAt: row.created_at,
+  };
+}
+
+/**
+ * The version number the next upload into a group gets.
+ *
+ * @param previous - The version being replaced, or null for a new document
+ */
+export function nextVersionNumber(previous: VersionRecord | null): number {
+  if (!previous) {
+    return 1;
+  }
+  const { latest } = getDatabase()
+    .prepare('SELECT MAX(version) AS latest FROM document_versions WHERE group_id = ?')
+    .get(previous.groupId) as { latest: number | null };
+  return (latest ?? 0) + 1;
+}
+
+/**
+ * Records an upload as the current version of its group.
+ *
+ * @param previous - The version it replaces, or null to start a new group
+ */
+export function recordVersion(
+  scope: RequestScope,
+  memoryId: string,
+  originalName: string,
+  version: number,
+  previous: VersionRecord | null
+): VersionRecord {
+  const db = getDatabase();
+  const groupId = previous?.groupId ?? randomUUID();
+
+  db.transaction(() => {
+    db.prepare('UPDATE document_versions SET is_current = 0 WHERE group_id = ?').run(groupId);
+    db.prepare(
+      `INSERT INTO document_versions
+         (memory_id, scope, group_id, version, original_name, is_current, created_by, created_at)
+       VALUES (?, ?, ?, ?, ?, 1, ?, ?)`
+    ).run(
+      memoryId,
+      scope.id,
+      groupId,
+      version,
+      originalName,
+      scope.userId,
+      new Date().toISOString()
+    );
+  })();
+
+  return getVersionRecord(memoryId)!;
+}
+
+/**
+ * Fetches the version record of a memory.
+ *
+ * @returns The record, or null if the memory was not uploaded as a file
+ */
+export function getVersionRecord(memoryId: string): VersionRecord | null {
+  const row = getDatabase()
+    .prepare('SELECT * FROM document_versions WHERE memory_id = ?')
+    .get(memoryId) as VersionRow | undefined;
+  return row ? toVersionRecord(row) : null;
+}
+
+/**
+ * Lists the current versions in the scope uploaded under a file name.
+ */
+export function listCurrentVersionsNamed(scope: RequestScope, originalName: string): VersionRecord[] {
+  const rows = getDatabase()
+    .prepare(
+      `SELECT * FROM document_versions
+       WHERE scope = ? AND original_name = ? AND is_current = 1
+       ORDER BY created_at DESC`
+    )
+    .all(scope.id, originalName) as VersionRow[];
+  return rows.map(toVersionRecord);
+}
+
+/**
+ * Lists every version in a group, newest first.
+ */
+export function listVersionRecords(groupId: string): VersionRecord[] {
+  const rows = getDatabase()
+    .prepare('SELECT * FROM document_versions WHERE group_id = ? ORDER BY version DESC')
+    .all(groupId) as VersionRow[];
+  return rows.map(toVersionRecord);
+}
+
+/**
+ * Makes another version of a group the current one.
+ */
+export function setCurrentVersion(groupId: string, memoryId: string) {
+  const db = getDatabase();
+  db.transaction(() => {
+    db.prepare('UPDATE document_versions SET is_current = 0 WHERE group_id = ?').run(groupId);
+    db.prepare('UPDATE document_versions SET is_current = 1 WHERE memory_id = ?').run(memoryId);
+  })();
+}
+
+/**
+ * Forgets one version, e.g. of an upload that could not be stored.
+ */
+export function deleteVersionRecord(memoryId: string) {
+  getDatabase().prepare('DELETE FROM document_versions WHERE memory_id = ?').run(memoryId);
+}
+
+/**
+ * Forgets every version in a group.
+ */
+export function deleteVersionGroup(groupId: string) {
+  getDatabase().prepare('DELETE FROM document_versions WHERE group_id = ?').run(groupId);
+}
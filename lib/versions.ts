@@ -0,0 +1,17 @@
+/**
+ * One version of a document that was uploaded several times under the same
+ * file name, as returned by `GET /api/memories/[id]/versions`.
+ */
+export interface DocumentVersion {
+  /** Memory ID of this version */
+  id: string;
+  /** 1 for the first upload, incremented on every re-upload */
+  version: number;
+  title: string | null;
+  /** Processing status of this version */
+  status: string;
+  /** Whether this is the version listed in collections and searched by default */
+  current: boolean;
+  createdBy: string;
+  createdAt: string;
+}
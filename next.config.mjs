@@ -15,7 +15,8 @@ const nextConfig = {
     serverActions: {
       /**
        * Maximum size of the request body sent to a Server Action.
-       * Default is 1MB. Increased to 50MB to support large file uploads.
+       * Default is 1MB. Increased to 50MB for file uploads; larger files are
+       * sent in parts of UPLOAD_PART_SIZE_BYTES (lib/constants.ts).
        * Accepts string format: 'b', 'kb', 'mb', 'gb' (e.g., '50mb').
        */
       bodySizeLimit: '50mb',
@@ -23,7 +24,8 @@ const nextConfig = {
     /**
      * Maximum size of the request body that the proxy will buffer in memory.
      * When proxy is used, Next.js clones and buffers the request body to enable
-     * multiple reads. Default is 10MB. Increased to 50MB for large file uploads.
+     * multiple reads. Default is 10MB. Increased to 50MB for file uploads and
+     * upload parts.
      *
      * @see https://nextjs.org/docs/app/api-reference/config/next-config-js/proxyClientMaxBodySize
      */
@@ -1,6 +1,7 @@
 import { clerkMiddleware, createRouteMatcher } from '@clerk/nextjs/server'
 
-const isPublicRoute = createRouteMatcher(['/sign-in', '/sign-in/(.*)'])
+// Cron routes check CRON_SECRET themselves
+const isPublicRoute = createRouteMatcher(['/sign-in', '/sign-in/(.*)', '/api/cron/(.*)'])
 
 export default clerkMiddleware(async (auth, req) => {
   if (!isPublicRoute(req)) {